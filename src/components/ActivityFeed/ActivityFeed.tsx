@@ -0,0 +1,195 @@
+import React, { useState, useMemo } from 'react';
+import { Plus, Minus, Pencil, ChevronDown, ChevronRight } from 'lucide-react';
+import { useChangeHistory } from '../../hooks/useChangeHistory';
+import { filterChangeHistory } from '../../utils/changeHistory';
+import type { SceneSnapshot } from '../../utils/changeHistory';
+import { diffBlocks } from '../../utils/screenplayDiff';
+import type { Block } from '../../types';
+import type { ChangeHistory, ChangeType } from '../../types/screenplay';
+
+interface ActivityFeedProps {
+  projectId: string;
+  screenplayId: string;
+  onSelectScene?: (sceneId: string) => void;
+}
+
+const CHANGE_ICONS: Partial<Record<ChangeType, React.ReactNode>> = {
+  ADD_SCENE: <Plus size={14} className="text-green-600 dark:text-green-400" />,
+  DELETE_SCENE: <Minus size={14} className="text-red-600 dark:text-red-400" />,
+  UPDATE_SCENE: <Pencil size={14} className="text-[#E86F2C]" />
+};
+
+/**
+ * Blocks of a recorded scene state, with its heading first
+ */
+const snapshotBlocks = (sceneId: string | null, snapshot: SceneSnapshot | null | undefined): Block[] => {
+  if (!snapshot) return [];
+  return [
+    { id: sceneId || 'heading', type: 'scene-heading', content: snapshot.scene_heading },
+    ...snapshot.blocks
+  ];
+};
+
+/**
+ * Block-level changes of one history entry
+ */
+const ChangeDetails: React.FC<{ change: ChangeHistory }> = ({ change }) => {
+  const rows = useMemo(() => {
+    return diffBlocks(
+      snapshotBlocks(change.sceneId, change.changes?.before),
+      snapshotBlocks(change.sceneId, change.changes?.after)
+    ).filter(entry => entry.status !== 'unchanged');
+  }, [change]);
+
+  if (rows.length === 0) {
+    return <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">No text changes recorded.</p>;
+  }
+
+  return (
+    <div className="mt-2 space-y-1 font-mono text-xs">
+      {rows.map((entry, index) => (
+        <div key={index} className="px-2 py-1 rounded bg-gray-50 dark:bg-gray-800 whitespace-pre-wrap break-words">
+          {entry.status === 'added' && (
+            <span className="text-green-700 dark:text-green-400">{entry.newBlock?.content}</span>
+          )}
+          {entry.status === 'removed' && (
+            <span className="text-red-700 dark:text-red-400 line-through">{entry.oldBlock?.content}</span>
+          )}
+          {(entry.status === 'modified' || entry.status === 'moved') && (
+            entry.words
+              ? entry.words.map((part, partIndex) => (
+                  <span
+                    key={partIndex}
+                    className={
+                      part.type === 'added'
+                        ? 'bg-green-200 dark:bg-green-800/60'
+                        : part.type === 'removed'
+                          ? 'bg-red-200 dark:bg-red-800/60 line-through'
+                          : undefined
+                    }
+                  >
+                    {part.text}
+                  </span>
+                ))
+              : <span className="text-blue-700 dark:text-blue-400">Moved: {entry.newBlock?.content}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({
+  projectId,
+  screenplayId,
+  onSelectScene
+}) => {
+  const { changes, userNames, loading, error } = useChangeHistory(projectId, screenplayId);
+  const [userFilter, setUserFilter] = useState('');
+  const [sceneFilter, setSceneFilter] = useState('');
+  const [expandedChangeId, setExpandedChangeId] = useState<string | null>(null);
+
+  // Latest known heading of every scene in the feed
+  const sceneHeadings = useMemo(() => {
+    const headings = new Map<string, string>();
+    changes.forEach((change) => {
+      if (!change.sceneId || headings.has(change.sceneId)) return;
+      const snapshot = change.changes?.after || change.changes?.before;
+      headings.set(change.sceneId, snapshot?.scene_heading || 'Untitled Scene');
+    });
+    return headings;
+  }, [changes]);
+
+  const filteredChanges = useMemo(() => {
+    return filterChangeHistory(changes, { userId: userFilter || null, sceneId: sceneFilter || null });
+  }, [changes, userFilter, sceneFilter]);
+
+  if (loading) {
+    return (
+      <div className="p-4 h-full flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-[#E86F2C] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 text-red-500 dark:text-red-400">
+        Error: {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-2">
+        <select
+          value={userFilter}
+          onChange={(e) => setUserFilter(e.target.value)}
+          className="w-full px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 border-none rounded-lg focus:ring-2 focus:ring-[#E86F2C]"
+        >
+          <option value="">All collaborators</option>
+          {Array.from(new Set(changes.map(change => change.userId))).map(userId => (
+            <option key={userId} value={userId}>{userNames[userId] || userId}</option>
+          ))}
+        </select>
+        <select
+          value={sceneFilter}
+          onChange={(e) => setSceneFilter(e.target.value)}
+          className="w-full px-3 py-2 text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100 border-none rounded-lg focus:ring-2 focus:ring-[#E86F2C]"
+        >
+          <option value="">All scenes</option>
+          {Array.from(sceneHeadings.entries()).map(([sceneId, heading]) => (
+            <option key={sceneId} value={sceneId}>{heading}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {filteredChanges.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            {changes.length === 0 ? 'No activity yet. Changes appear here after saving.' : 'No activity matches these filters'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredChanges.map(change => {
+              const isExpanded = expandedChangeId === change.id;
+              return (
+                <div
+                  key={change.id}
+                  className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                >
+                  <div className="flex items-start">
+                    <span className="mt-0.5 mr-2">{CHANGE_ICONS[change.type]}</span>
+                    <div className="flex-1 min-w-0">
+                      <button
+                        onClick={() => change.sceneId && change.type !== 'DELETE_SCENE' && onSelectScene?.(change.sceneId)}
+                        className="block w-full text-left text-sm font-medium text-gray-800 dark:text-gray-100 truncate hover:text-[#E86F2C]"
+                      >
+                        {change.description}
+                      </button>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {userNames[change.userId] || 'Loading...'} · {change.timestamp.toDate().toLocaleString()}
+                      </span>
+                    </div>
+                    {change.changes && (
+                      <button
+                        onClick={() => setExpandedChangeId(isExpanded ? null : change.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      >
+                        {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                      </button>
+                    )}
+                  </div>
+                  {isExpanded && <ChangeDetails change={change} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import type { BlockComponentProps, CharacterDocument, ElementDocument, Comment } from '../types';
 import { getBlockStyle, getBlockMargin } from '../utils/styleUtils';
@@ -10,10 +10,14 @@ import ElementSuggestions from './ElementSuggestions';
 import FloatingContextMenu from './ScreenplayEditor/FloatingContextMenu';
 import CommentInputPopup from './ScreenplayEditor/CommentInputPopup';
 import CommentTooltip from './ScreenplayEditor/CommentTooltip';
+import SuggestEditPopup from './ScreenplayEditor/SuggestEditPopup';
+import SuggestionMarks from './ScreenplayEditor/SuggestionMarks';
 import { MenuAction } from './ScreenplayEditor/ContextMenuIcons';
 import { v4 as uuidv4 } from 'uuid';
 import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '../contexts/AuthContext';
+import { findStaleSuggestionIds } from '../utils/editSuggestions';
+import type { EditSuggestion } from '../types/screenplay';
 
 interface ExtendedBlockComponentProps extends BlockComponentProps {
   projectCharacters?: CharacterDocument[];
@@ -32,6 +36,15 @@ interface ExtendedBlockComponentProps extends BlockComponentProps {
   onCommentSelect?: (comment: Comment) => void;
   showCommentsPanel?: boolean;
   setShowCommentsPanel?: (show: boolean) => void;
+  extension?: string; // Display-only cue extension such as an automatic (CONT'D)
+  displayContent?: string; // Shown while the block is not being edited, e.g. a speech up to its page break
+  isRevised?: boolean; // Changed since the draft was locked; shows a margin asterisk
+  isLocked?: boolean; // Another writer holds the scene lock; the block is read-only
+  isSuggesting?: boolean; // Edits are proposed in a popup instead of typed into the script
+  suggestions?: EditSuggestion[];
+  onSuggestEdit?: (blockId: string, content: string) => Promise<boolean>;
+  onAcceptSuggestions?: (suggestions: EditSuggestion[]) => void; // Only passed to writers who may change the script
+  onRejectSuggestions?: (suggestions: EditSuggestion[]) => void;
 }
 
 const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
@@ -62,6 +75,15 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
   onCommentSelect,
   showCommentsPanel,
   setShowCommentsPanel,
+  extension,
+  displayContent,
+  isRevised = false,
+  isLocked = false,
+  isSuggesting = false,
+  suggestions = [],
+  onSuggestEdit,
+  onAcceptSuggestions,
+  onRejectSuggestions,
 }) => {
   const { user } = useAuth(); // Get the current user from auth context
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -81,6 +103,16 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
   
   // New state for comment popup - decoupled from menuState
   const [commentPopupState, setCommentPopupState] = useState<{ top: number; left: number } | null>(null);
+  const [suggestPopupState, setSuggestPopupState] = useState<{ top: number; left: number } | null>(null);
+
+  const blockSuggestions = useMemo(
+    () => suggestions.filter(suggestion => suggestion.blockId === block.id),
+    [suggestions, block.id]
+  );
+  const staleSuggestionIds = useMemo(
+    () => findStaleSuggestionIds([block], blockSuggestions),
+    [block, blockSuggestions]
+  );
 
   // New state for hover tooltip
   const [tooltipState, setTooltipState] = useState<{
@@ -584,8 +616,8 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
   useEffect(() => {
     if (!contentElement) return;
     
-    // Get all comments for this block
-    const blockComments = comments?.filter(c => c.blockId === block.id) || [];
+    // Get all comments for this block; orphaned comments have no text left to highlight
+    const blockComments = comments?.filter(c => c.blockId === block.id && !c.orphaned) || [];
     
     // Clear any existing highlights first
     const existingHighlights = contentElement.querySelectorAll('.comment-highlight');
@@ -918,6 +950,38 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
     );
   };
 
+  // In suggestion mode a click opens the edit popup; selecting text still allows commenting.
+  // Suggestions leave the script alone, so scenes locked by other writers take them too.
+  const handleSuggestClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isSuggesting || !onSuggestEdit || block.omitted) return;
+    const selection = window.getSelection();
+    if (selection && !selection.isCollapsed) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSuggestPopupState({ top: rect.bottom + 8, left: rect.left });
+  }, [isSuggesting, onSuggestEdit, block.omitted]);
+
+  const handleSuggestSubmit = useCallback(async (content: string) => {
+    if (onSuggestEdit && await onSuggestEdit(block.id, content)) {
+      setSuggestPopupState(null);
+    }
+  }, [onSuggestEdit, block.id]);
+
+  // Render the suggest edit popup using portal
+  const renderSuggestPopup = () => {
+    if (!suggestPopupState || !portalRoot) return null;
+
+    return createPortal(
+      <SuggestEditPopup
+        position={suggestPopupState}
+        initialText={block.content}
+        onSubmit={handleSuggestSubmit}
+        onCancel={() => setSuggestPopupState(null)}
+      />,
+      portalRoot
+    );
+  };
+
   // Render the comment tooltip using portal
   const renderTooltip = () => {
     if (!portalRoot) return null;
@@ -957,13 +1021,24 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
           }}
         />
       )}
-      {block.type === 'scene-heading' && block.number && (
+      {isRevised && (
+        <div
+          className={`absolute -right-12 top-0 font-mono text-base select-none ${
+            isDarkMode ? 'text-gray-300' : 'text-gray-700'
+          }`}
+          title="Changed in this revision"
+          contentEditable={false}
+        >
+          *
+        </div>
+      )}
+      {block.type === 'scene-heading' && (block.sceneNumber || block.number) && (
         <div
           className={`absolute -left-8 top-1/2 -translate-y-1/2 text-sm ${
             isDarkMode ? 'text-gray-400' : 'text-gray-500'
           }`}
         >
-          {block.number}
+          {block.sceneNumber || block.number}
         </div>
       )}
       <div
@@ -973,16 +1048,20 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
           }
           setContentElement(el);
         }}
-        contentEditable
+        contentEditable={!block.omitted && !isLocked && !isSuggesting}
         suppressContentEditableWarning
         className={`block-editor ${getBlockStyle({ type: block.type, isDarkMode, isSelected })} ${
           isSelected ? (isDarkMode ? 'bg-blue-900/30' : 'bg-blue-100') : ''
-        }`}
+        } ${block.omitted ? 'opacity-60' : ''} ${isLocked ? 'opacity-60 cursor-not-allowed' : ''} ${
+          isSuggesting && !block.omitted ? 'cursor-text hover:bg-[#E86F2C]/5' : ''
+        } ${extension ? 'after:content-[attr(data-extension)] after:ml-[1ch] after:opacity-60' : ''}`}
+        data-extension={extension}
         onFocus={handleFocus}
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
         onInput={handleInput}
         onContextMenu={handleContextMenu}
+        onClick={handleSuggestClick}
         data-block-id={block.id}
         style={{
           WebkitUserSelect: 'text',
@@ -991,8 +1070,17 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
           userSelect: 'text',
         }}
       >
-        {block.content}
+        {!isActive && displayContent !== undefined ? displayContent : block.content}
       </div>
+      {blockSuggestions.length > 0 && (
+        <SuggestionMarks
+          suggestions={blockSuggestions}
+          staleIds={staleSuggestionIds}
+          currentUserId={user?.id}
+          onAccept={onAcceptSuggestions}
+          onReject={onRejectSuggestions}
+        />
+      )}
       {block.type === 'dialogue' && block.number && (
         <div
           className={`absolute -right-8 top-1/2 -translate-y-1/2 text-sm ${
@@ -1023,6 +1111,9 @@ const BlockComponentImproved: React.FC<ExtendedBlockComponentProps> = ({
       
       {/* Render comment tooltip using portal */}
       {renderTooltip()}
+
+      {/* Render suggest edit popup using portal */}
+      {renderSuggestPopup()}
     </div>
   );
 };
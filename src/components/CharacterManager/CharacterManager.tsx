@@ -1,22 +1,36 @@
 import React, { useState } from 'react';
-import { Plus, Search, User } from 'lucide-react';
+import { Plus, Search, User, Undo2 } from 'lucide-react';
 import { Character, useCharacters } from '../../hooks/useCharacters';
 import CharacterCard from './CharacterCard';
 import CharacterForm from './CharacterForm';
+import CharacterRenameDialog from './CharacterRenameDialog';
+import type { CharacterDocument, CharacterRename } from '../../types';
 
 interface CharacterManagerProps {
   projectId: string;
   screenplayId: string;
+  // Project-wide renames; without them a new name only changes the character document
+  onPreviewRename?: (characterId: string, newName: string) => Promise<{ success: boolean; rename?: CharacterRename; error?: string }>;
+  onRename?: (characterId: string, newName: string) => Promise<CharacterDocument | null>;
+  onUndoRename?: () => Promise<{ success: boolean; error?: string }>;
+  lastRename?: CharacterRename | null;
 }
 
 const CharacterManager: React.FC<CharacterManagerProps> = ({
   projectId,
   screenplayId, // We still keep this prop for future use, even though we're not using it for data fetching
+  onPreviewRename,
+  onRename,
+  onUndoRename,
+  lastRename = null,
 }) => {
   const { characters, loading, error, addCharacter, updateCharacter, deleteCharacter } = useCharacters(projectId);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingCharacter, setEditingCharacter] = useState<Character | null>(null);
+  const [pendingRename, setPendingRename] = useState<{ rename: CharacterRename; details: Omit<Character, 'id' | 'name'> } | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameError, setRenameError] = useState<string | null>(null);
 
   const handleAddCharacter = async (character: Omit<Character, 'id'>) => {
     await addCharacter(character);
@@ -29,11 +43,49 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
   };
 
   const handleUpdateCharacter = async (updatedCharacter: Omit<Character, 'id'>) => {
-    if (editingCharacter) {
-      await updateCharacter(editingCharacter.id, updatedCharacter);
+    if (!editingCharacter) return;
+
+    // A new name rewrites cues across the project, so show what changes first
+    const { name, ...details } = updatedCharacter;
+    if (onPreviewRename && name.trim() !== editingCharacter.name) {
+      setRenameError(null);
+      const preview = await onPreviewRename(editingCharacter.id, name);
+      if (!preview.success || !preview.rename) {
+        setRenameError(preview.error || 'Failed to preview rename');
+        return;
+      }
+      setPendingRename({ rename: preview.rename, details });
+      return;
+    }
+
+    await updateCharacter(editingCharacter.id, updatedCharacter);
+    setEditingCharacter(null);
+    setShowAddForm(false);
+  };
+
+  const handleConfirmRename = async () => {
+    if (!pendingRename || !editingCharacter || !onRename) return;
+
+    setIsRenaming(true);
+    const renamed = await onRename(pendingRename.rename.characterId, pendingRename.rename.newName);
+    if (renamed) {
+      await updateCharacter(editingCharacter.id, pendingRename.details);
       setEditingCharacter(null);
       setShowAddForm(false);
+    } else {
+      setRenameError('Failed to rename character');
     }
+    setIsRenaming(false);
+    setPendingRename(null);
+  };
+
+  const handleUndoRename = async () => {
+    if (!onUndoRename) return;
+
+    setIsRenaming(true);
+    const result = await onUndoRename();
+    setRenameError(result.success ? null : result.error || 'Failed to undo rename');
+    setIsRenaming(false);
   };
 
   const handleDeleteCharacter = async (characterId: string) => {
@@ -93,6 +145,28 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
           </button>
         </div>
 
+        {lastRename && onUndoRename && (
+          <div className="mb-4 p-3 bg-[#1E4D3A]/5 dark:bg-[#1E4D3A]/30 rounded-lg flex items-center justify-between text-sm text-[#1E4D3A] dark:text-gray-200">
+            <span>
+              Renamed {lastRename.oldName} to {lastRename.newName} in {lastRename.scenes.length} {lastRename.scenes.length === 1 ? 'scene' : 'scenes'}
+            </span>
+            <button
+              onClick={handleUndoRename}
+              disabled={isRenaming}
+              className="ml-2 px-2 py-1 rounded-lg flex items-center hover:bg-[#1E4D3A]/10 transition-colors disabled:opacity-50"
+            >
+              <Undo2 size={14} className="mr-1" />
+              Undo
+            </button>
+          </div>
+        )}
+
+        {renameError && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg text-sm">
+            {renameError}
+          </div>
+        )}
+
         {showAddForm && (
           <CharacterForm
             character={editingCharacter || undefined}
@@ -120,6 +194,15 @@ const CharacterManager: React.FC<CharacterManagerProps> = ({
           </div>
         )}
       </div>
+
+      {pendingRename && (
+        <CharacterRenameDialog
+          rename={pendingRename.rename}
+          isRenaming={isRenaming}
+          onConfirm={handleConfirmRename}
+          onCancel={() => setPendingRename(null)}
+        />
+      )}
     </div>
   );
 };
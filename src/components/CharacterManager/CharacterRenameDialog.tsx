@@ -0,0 +1,90 @@
+import React from 'react';
+import { PenLine, Check } from 'lucide-react';
+import type { CharacterRename } from '../../types';
+
+interface CharacterRenameDialogProps {
+  rename: CharacterRename;
+  isRenaming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const CharacterRenameDialog: React.FC<CharacterRenameDialogProps> = ({
+  rename,
+  isRenaming,
+  onConfirm,
+  onCancel
+}) => {
+  const cueCount = rename.scenes.reduce((total, scene) => total + scene.changedBlockIds.length, 0);
+  const screenplayIds = Array.from(new Set(rename.scenes.map(scene => scene.screenplayId)));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg max-w-lg w-full mx-4">
+        <div className="p-6">
+          <div className="flex items-center text-[#1E4D3A] dark:text-white mb-4">
+            <PenLine size={24} className="mr-2" />
+            <h3 className="text-xl font-semibold">Rename Character</h3>
+          </div>
+
+          <p className="text-gray-600 dark:text-gray-300 mb-4">
+            {rename.scenes.length > 0
+              ? `${cueCount} ${cueCount === 1 ? 'cue' : 'cues'} of ${rename.oldName} in ${rename.scenes.length} ${rename.scenes.length === 1 ? 'scene' : 'scenes'} will be renamed to ${rename.newName}:`
+              : `No saved scenes mention ${rename.oldName}. Only the character will be renamed.`}
+          </p>
+
+          {rename.scenes.length > 0 && (
+            <div className="space-y-3 mb-6 max-h-64 overflow-y-auto">
+              {screenplayIds.map(screenplayId => {
+                const scenes = rename.scenes.filter(scene => scene.screenplayId === screenplayId);
+                return (
+                  <div key={screenplayId}>
+                    <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400 mb-1">{scenes[0].screenplayTitle}</p>
+                    <div className="space-y-1">
+                      {scenes.map(scene => (
+                        <div
+                          key={scene.sceneId}
+                          className="p-2 bg-gray-50 dark:bg-gray-800 rounded-lg flex items-center justify-between text-sm"
+                        >
+                          <span className="font-mono text-gray-800 dark:text-gray-200 truncate">{scene.sceneHeading}</span>
+                          <span className="ml-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                            {scene.changedBlockIds.length} {scene.changedBlockIds.length === 1 ? 'cue' : 'cues'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={onConfirm}
+              disabled={isRenaming}
+              className="w-full px-4 py-2 bg-[#E86F2C] text-white rounded-lg hover:bg-[#E86F2C]/90 transition-colors flex items-center justify-center disabled:opacity-50"
+            >
+              {isRenaming ? (
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+              ) : (
+                <Check size={18} className="mr-2" />
+              )}
+              Rename Everywhere
+            </button>
+
+            <button
+              onClick={onCancel}
+              disabled={isRenaming}
+              className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterRenameDialog;
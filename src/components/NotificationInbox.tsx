@@ -0,0 +1,102 @@
+import React from 'react';
+import { AtSign, CheckCircle, MessageSquare } from 'lucide-react';
+import { getNotificationMessage } from '../utils/notifications';
+import type { NotificationDocument } from '../types';
+
+interface NotificationInboxProps {
+  notifications: NotificationDocument[];
+  unreadCount: number;
+  loading: boolean;
+  error: string | null;
+  onOpen: (notification: NotificationDocument) => void;
+  onMarkAllRead: () => void;
+}
+
+const ICONS = {
+  mention: AtSign,
+  reply: MessageSquare,
+  resolved: CheckCircle
+};
+
+// Relative time for recent notifications, otherwise the date
+const formatTime = (notification: NotificationDocument): string => {
+  if (!notification.createdAt) return 'Just now';
+
+  const date = notification.createdAt.toDate();
+  const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`;
+  if (diffMins < 7 * 24 * 60) return `${Math.floor(diffMins / (24 * 60))}d ago`;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const NotificationInbox: React.FC<NotificationInboxProps> = ({
+  notifications,
+  unreadCount,
+  loading,
+  error,
+  onOpen,
+  onMarkAllRead
+}) => {
+  return (
+    <div className="absolute left-64 top-16 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h3 className="font-medium text-gray-800 dark:text-gray-200">
+          Notifications
+          {unreadCount > 0 && (
+            <span className="ml-2 px-1.5 py-0.5 text-xs bg-[#E86F2C] text-white rounded-full">{unreadCount}</span>
+          )}
+        </h3>
+        <button
+          onClick={onMarkAllRead}
+          disabled={unreadCount === 0}
+          className="text-xs text-[#E86F2C] hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Mark all as read
+        </button>
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {error && (
+          <p className="p-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+        {!loading && !error && notifications.length === 0 && (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            You're all caught up
+          </p>
+        )}
+        {notifications.map(notification => {
+          const Icon = ICONS[notification.type];
+          return (
+            <button
+              key={notification.id}
+              onClick={() => onOpen(notification)}
+              className="w-full text-left p-3 border-b last:border-b-0 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <div className="flex items-start">
+                <div className={`w-2 h-2 mt-1.5 rounded-full mr-2 flex-shrink-0 ${notification.read ? 'bg-transparent' : 'bg-[#E86F2C]'}`}></div>
+                <Icon size={14} className="mt-1 mr-2 flex-shrink-0 text-[#577B92]" />
+                <div className="min-w-0">
+                  <p className={`text-sm text-gray-800 dark:text-gray-200 ${notification.read ? '' : 'font-medium'}`}>
+                    {getNotificationMessage(notification)}
+                  </p>
+                  {notification.highlightedText && (
+                    <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1 truncate">
+                      “{notification.highlightedText}”
+                    </p>
+                  )}
+                  {notification.excerpt && (
+                    <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{notification.excerpt}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{formatTime(notification)}</p>
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationInbox;
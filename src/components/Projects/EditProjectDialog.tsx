@@ -25,6 +25,7 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
     genre: project.genre,
     status: project.status
   });
+  const [autoContd, setAutoContd] = useState(project.settings?.autoContd ?? false);
 
   const [coverImage, setCoverImage] = useState<File | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(project.coverImage || null);
@@ -90,6 +91,10 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
       await onSubmit({
         ...formData,
         coverImage: coverImageUrl,
+        settings: {
+          ...project.settings,
+          autoContd
+        }
       });
 
       onClose();
@@ -264,6 +269,27 @@ const EditProjectDialog: React.FC<EditProjectDialogProps> = ({
                 ))}
               </div>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-[#577B92] dark:text-gray-300 mb-2">
+                Script Formatting
+              </label>
+              <label className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoContd}
+                  onChange={(e) => setAutoContd(e.target.checked)}
+                  className="mt-1 rounded border-gray-300 text-[#E86F2C] focus:ring-[#E86F2C]"
+                />
+                <span>
+                  <span className="block text-sm text-[#1E4D3A] dark:text-white">Automatic (CONT'D)</span>
+                  <span className="block text-xs text-[#577B92] dark:text-gray-400">
+                    Add (CONT'D) when a character speaks again in the same scene with only action in between.
+                    Your text is not changed; the extension appears in the editor and in exports.
+                  </span>
+                </span>
+              </label>
+            </div>
           </div>
         </div>
 
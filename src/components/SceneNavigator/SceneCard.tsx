@@ -6,6 +6,7 @@ import { DraggableProvidedDragHandleProps } from '@hello-pangea/dnd';
 interface SceneCardProps {
   scene: Scene;
   isActive: boolean;
+  hasUnsavedChanges?: boolean;
   onSelect: (sceneId: string) => void;
   onEdit: (scene: Scene) => void;
   onDelete: (sceneId: string) => void;
@@ -17,6 +18,7 @@ interface SceneCardProps {
 const SceneCard: React.FC<SceneCardProps> = ({
   scene,
   isActive,
+  hasUnsavedChanges = false,
   onSelect,
   onEdit,
   onDelete,
@@ -164,6 +166,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
         p-3 mb-2 rounded-lg cursor-pointer transition-all duration-200
         ${isActive ? 'bg-[#E86F2C]/20 border-l-4 border-[#E86F2C]' : 'bg-white dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700'}
         ${isDragging ? 'shadow-lg opacity-90 scale-[1.02]' : 'shadow-sm'}
+        ${scene.omitted ? 'opacity-60' : ''}
       `}
       onClick={() => onSelect(scene.id)}
       onMouseEnter={() => setShowDelete(true)}
@@ -174,7 +177,9 @@ const SceneCard: React.FC<SceneCardProps> = ({
         <div {...dragHandleProps} className="cursor-grab active:cursor-grabbing mr-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
           <GripVertical size={16} />
         </div>
-        <span className="text-lg font-bold text-gray-700 dark:text-gray-300 w-6">{index + 1}</span>
+        <span className="text-lg font-bold text-gray-700 dark:text-gray-300 min-w-[1.5rem] mr-1">
+          {scene.scene_number || index + 1}
+        </span>
         
         <div className="flex items-center space-x-2">
           {type && (
@@ -189,6 +194,13 @@ const SceneCard: React.FC<SceneCardProps> = ({
             </span>
           )}
         </div>
+
+        {hasUnsavedChanges && (
+          <span
+            className="ml-auto w-2 h-2 rounded-full bg-amber-400"
+            title="Unsaved changes"
+          />
+        )}
       </div>
       
       {/* Row 2: Setting text (indented to align with badges) */}
@@ -12,6 +12,7 @@ interface SceneNavigatorProps {
   onScenesReordered?: (reorderedScenes: Scene[]) => void; // Prop for scene reordering
   onReorderStatusChange?: (isReordering: boolean) => void;
   onSceneMoved?: (movedSceneId: string) => void; // New prop for auto-scrolling
+  unsavedSceneIds?: string[]; // Scenes changed since the last save
 }
 
 const SceneNavigator: React.FC<SceneNavigatorProps> = ({
@@ -21,7 +22,8 @@ const SceneNavigator: React.FC<SceneNavigatorProps> = ({
   onSelectScene,
   onScenesReordered,
   onReorderStatusChange,
-  onSceneMoved
+  onSceneMoved,
+  unsavedSceneIds = []
 }) => {
   const { scenes, loading, error, updateScene, deleteScene, reorderScenes } = useScenes(projectId, screenplayId);
   const [searchQuery, setSearchQuery] = useState('');
@@ -207,6 +209,7 @@ const SceneNavigator: React.FC<SceneNavigatorProps> = ({
                             <SceneCard
                               scene={scene}
                               isActive={scene.id === activeSceneId}
+                              hasUnsavedChanges={unsavedSceneIds.includes(scene.id)}
                               onSelect={onSelectScene}
                               onEdit={handleEditScene}
                               onDelete={deleteScene}
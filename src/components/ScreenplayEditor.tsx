@@ -1,12 +1,29 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useEditorState } from '../hooks/useEditorState';
 import { useBlockHandlersImproved } from '../hooks/useBlockHandlersImproved';
 import { useAutoScroll } from '../hooks/useAutoScroll';
 import { useScreenplaySave } from '../hooks/useScreenplaySave';
+import { useAutosave } from '../hooks/useAutosave';
+import { useCoEditing } from '../hooks/useCoEditing';
+import { useSceneLocks } from '../hooks/useSceneLocks';
+import { useCollaboratorPresence } from '../hooks/useCollaboratorPresence';
 import { useCharacterTracking } from '../hooks/useCharacterTracking';
 import { useSceneHeadings } from '../hooks/useSceneHeadings';
-import { organizeBlocksIntoPages } from '../utils/blockUtils';
+import { useRevisionMode } from '../hooks/useRevisionMode';
+import { usePageLock } from '../hooks/usePageLock';
+import { useVersionHistory } from '../hooks/useVersionHistory';
+import { useDraftComparison } from '../hooks/useDraftComparison';
+import { useEditSuggestions } from '../hooks/useEditSuggestions';
+import { organizeBlocksIntoPages, getAutoContdBlockIds, updateBlockNumbers, sceneDocumentToBlocks } from '../utils/blockUtils';
+import { exportScreenplay, type ExportFormat } from '../utils/exportUtils';
+import { getRevisionColor } from '../utils/revisionUtils';
+import { isSceneNumberingLocked, lockSceneNumbers, unlockSceneNumbers } from '../utils/sceneNumbering';
+import { getSceneIdForBlock, isLockStale } from '../utils/sceneLocks';
+import { renameCharacterInBlocks } from '../utils/characterRename';
+import { parseCommentLink } from '../utils/notifications';
+import { applySuggestions } from '../utils/editSuggestions';
+import { mergeConflictingScenes, applyMergeResolutions, type BlockMergeConflict, type MergeResolution } from '../utils/sceneMerge';
 import { doc, getDoc, setDoc, collection, getDocs, query, orderBy, where, updateDoc, limit, Timestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { v4 as uuidv4 } from 'uuid';
@@ -19,10 +36,19 @@ import { useAuth } from '../contexts/AuthContext';
 import ScreenplayNavigator from './ScreenplayNavigator';
 import SceneNavigator from './SceneNavigator/SceneNavigator';
 import CharacterManager from './CharacterManager/CharacterManager';
+import ActivityFeed from './ActivityFeed/ActivityFeed';
+import SuggestionsPanel from './SuggestionsPanel/SuggestionsPanel';
 import CommentsPanel from './ScreenplayEditor/CommentsPanel'; // Import the new CommentsPanel
+import VersionHistoryPanel from './screenplay/VersionHistoryPanel';
+import CompareDraftsPanel from './screenplay/CompareDraftsPanel';
+import MergeConflictDialog from './screenplay/MergeConflictDialog';
+import SceneLockIndicator from './screenplay/SceneLockIndicator';
+import CollaboratorCursors from './screenplay/CollaboratorCursors';
 import type { Block, PersistedEditorState, CharacterDocument, SceneDocument, UniqueSceneHeadingDocument, Comment, UserMention } from '../types';
 import type { Scene } from '../hooks/useScenes';
-import { Layers, Users, Type, MessageSquare } from 'lucide-react';
+import type { Project, ProjectSettings } from '../types/project';
+import type { ScreenplayVersion, SaveConflict, SaveResult, EditSuggestion } from '../types/screenplay';
+import { Layers, Users, Type, MessageSquare, History, PenLine, ListChecks } from 'lucide-react';
 
 const ScreenplayEditor: React.FC = () => {
   const { projectId, screenplayId } = useParams();
@@ -35,18 +61,29 @@ const ScreenplayEditor: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [characters, setCharacters] = useState<CharacterDocument[]>([]);
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>({});
+  const [isProjectOwner, setIsProjectOwner] = useState(false);
+  const [isProjectViewer, setIsProjectViewer] = useState(false); // Viewers may only suggest edits
+  const [suggestionMode, setSuggestionMode] = useState(false);
+  const [viewedLockSceneId, setViewedLockSceneId] = useState<string | null>(null); // Locked scene the writer clicked into
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+  const [mergeConflicts, setMergeConflicts] = useState<BlockMergeConflict[] | null>(null);
+  const [saveConflicts, setSaveConflicts] = useState<SaveConflict[] | null>(null); // Shown in the conflict dialog
+  const mergeResolverRef = useRef<((resolutions: Record<string, MergeResolution> | null) => void) | null>(null);
   const [isProcessingSuggestion, setIsProcessingSuggestion] = useState(false);
   const [activeSceneId, setActiveSceneId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'scenes' | 'characters' | 'headings'>('scenes');
+  const [activeTab, setActiveTab] = useState<'scenes' | 'characters' | 'headings' | 'activity' | 'suggestions'>('scenes');
   const [showPanel, setShowPanel] = useState(true);
   const [showCommentsPanel, setShowCommentsPanel] = useState(false);
   const [isSceneSelectionActive, setIsSceneSelectionActive] = useState(false);
   const [isSceneReordering, setIsSceneReordering] = useState(false);
   const [scrollToSceneId, setScrollToSceneId] = useState<string | null>(null); // New state for auto-scrolling
   const [activeCommentId, setActiveCommentId] = useState<string | null>(null); // New state for active comment
-  const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const commentCardRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const editorScrollRef = useRef<HTMLDivElement>(null);
+  const pagesContainerRef = useRef<HTMLDivElement>(null);
   const commentsScrollRef = useRef<HTMLDivElement>(null);
   const isScrollingProgrammatically = useRef(false);
   const [blockPositions, setBlockPositions] = useState<Record<string, number>>({});
@@ -57,6 +94,7 @@ const ScreenplayEditor: React.FC = () => {
 
   const {
     state,
+    localEditCount,
     setState,
     addToHistory,
     handleUndo,
@@ -65,6 +103,7 @@ const ScreenplayEditor: React.FC = () => {
     selectAllBlocks,
     addComment,
     resolveComment,
+    remapCommentAnchors,
     toggleEmojiReaction,
     parseMentions,
     fetchMentionedUsers
@@ -78,8 +117,69 @@ const ScreenplayEditor: React.FC = () => {
     error: saveError,
     handleSave,
     setHasChanges,
-    setPendingSceneOrderChanges
-  } = useScreenplaySave(projectId || '', screenplayId || '', user?.id || '', state.blocks, state.activeBlock);
+    setPendingSceneOrderChanges,
+    loadConflictingScenes,
+    saveMergedBlocks,
+    acceptStoredScenes,
+    isOffline,
+    hasQueuedSave,
+    unsavedSceneIds,
+    lastSavedAt,
+    offlineDraft,
+    acceptOfflineDraft
+  } = useScreenplaySave(
+    projectId || '',
+    screenplayId || '',
+    user?.id || '',
+    state.blocks,
+    state.activeBlock,
+    isProjectViewer
+  );
+
+  const {
+    revision,
+    revisionMarks,
+    lockRevision
+  } = useRevisionMode(projectId, screenplayId, user?.id, state.blocks);
+
+  const {
+    pageLock,
+    lockPages,
+    unlockPages
+  } = usePageLock(projectId, screenplayId, user?.id, state.blocks);
+
+  const {
+    versions,
+    loading: versionsLoading,
+    error: versionsError,
+    createVersion,
+    branchVersion
+  } = useVersionHistory(projectId, screenplayId, user?.id);
+
+  const { screenplays: projectScreenplays, loadScreenplayBlocks } = useDraftComparison(projectId);
+
+  const setCoEditedBlocks = useCallback((blocks: Block[]) => {
+    setState(prev => ({ ...prev, blocks }));
+  }, [setState]);
+
+  // Merge edits from everyone who has this screenplay open; a restored
+  // offline draft and other unsaved edits are saved before joining
+  const { coEditingSessionId, applyBlockEdit } = useCoEditing(
+    projectId,
+    screenplayId,
+    user?.id,
+    state.blocks,
+    setCoEditedBlocks,
+    !loading && !offlineDraft,
+    hasChanges || hasQueuedSave
+  );
+
+  // A character rename rewrote stored scenes; rename the open cues the same
+  // way, through the co-editing session when there is one
+  const handleCharacterRenamed = useCallback(({ from, to, scenes }: { from: string; to: string; scenes: SceneDocument[] }) => {
+    applyBlockEdit(blocks => renameCharacterInBlocks(blocks, from, to).blocks);
+    acceptStoredScenes(scenes);
+  }, [applyBlockEdit, acceptStoredScenes]);
 
   // Initialize character tracking
   const {
@@ -87,12 +187,17 @@ const ScreenplayEditor: React.FC = () => {
     loading: charactersLoading,
     error: charactersError,
     addCharacter,
-    syncCharactersFromBlocks
+    syncCharactersFromBlocks,
+    renameCharacter,
+    previewCharacterRename,
+    undoCharacterRename,
+    lastRename
   } = useCharacterTracking({
     projectId: projectId,
     screenplayId: screenplayId || null,
     blocks: state.blocks,
-    userId: user?.id || ''
+    userId: user?.id || '',
+    onCharacterRenamed: handleCharacterRenamed
   });
 
   // Initialize centralized scene headings management
@@ -200,35 +305,6 @@ const ScreenplayEditor: React.FC = () => {
     }
   }, [state.activeBlock, state.comments, showCommentsPanel]);
 
-  // Smart Autosave implementation with scene reordering awareness
-  useEffect(() => {
-    // Clear any existing timer
-    if (autosaveTimerRef.current) {
-      clearTimeout(autosaveTimerRef.current);
-    }
-
-    // Only set up autosave if there are changes to save and not reordering scenes
-    if (state.blocks.length > 0 && hasChanges && !isSceneReordering) {
-      // Set a new timer for autosave (3 seconds of inactivity)
-      autosaveTimerRef.current = setTimeout(async () => {
-        console.log('Autosave triggered after inactivity');
-        try {
-          await handleSaveWithEditorState();
-          console.log('Autosave completed successfully');
-        } catch (err) {
-          console.error('Autosave failed:', err);
-        }
-      }, 3000);
-    }
-
-    // Cleanup function
-    return () => {
-      if (autosaveTimerRef.current) {
-        clearTimeout(autosaveTimerRef.current);
-      }
-    };
-  }, [state.blocks, hasChanges, isSceneReordering]); // Added isSceneReordering to dependencies
-
   const updateEditorState = useCallback(async () => {
     if (!projectId || !screenplayId || !user?.id) {
       console.warn('Cannot update editor state: Missing project ID, screenplay ID, or user ID.');
@@ -259,15 +335,191 @@ const ScreenplayEditor: React.FC = () => {
     }
   }, [projectId, screenplayId, user?.id, user?.email, state.activeBlock, state.selectedBlocks, state.header, state.editingHeader, documentTitle, screenplayData]);
 
-  const handleSaveWithEditorState = useCallback(async () => {
+  // Blocks are passed when they changed in this event and the render has not caught up
+  const handleSaveWithEditorState = useCallback(async (blocks?: Block[]) => {
     try {
-      await updateEditorState();
-      return await handleSave();
+      // Offline, the editor state is written with the next save that reaches the server
+      if (navigator.onLine) {
+        await updateEditorState();
+      }
+      // Scenes saved by writers in the same live session are already merged into ours
+      return await handleSave({ coEditingSessionId: coEditingSessionId || undefined, blocks });
     } catch (err) {
       console.error('Error saving screenplay:', err);
       return { success: false, error: 'Failed to save screenplay' };
     }
-  }, [handleSave, updateEditorState]);
+  }, [handleSave, updateEditorState, coEditingSessionId]);
+
+  // Save after the writer's idle interval or edit count; scene reordering saves
+  // on its own, conflicts found by an autosave wait for the writer, and
+  // viewers never save
+  useAutosave(user?.id, {
+    blocks: state.blocks,
+    editCount: localEditCount,
+    hasChanges,
+    isSaving,
+    paused: isProjectViewer || isSceneReordering || saveConflicts !== null || mergeConflicts !== null,
+    onSave: handleSaveWithEditorState,
+    onConflicts: setSaveConflicts
+  });
+
+  // Download the current screenplay in the requested file format
+  const handleExport = useCallback((format: ExportFormat) => {
+    try {
+      exportScreenplay(format, state.blocks, state.header, documentTitle, {
+        autoContd: projectSettings.autoContd,
+        revisionMarks,
+        lockedPageBreaks: pageLock?.breaks
+      });
+    } catch (err) {
+      console.error(`Error exporting screenplay as ${format}:`, err);
+    }
+  }, [state.blocks, state.header, documentTitle, projectSettings.autoContd, revisionMarks, pageLock]);
+
+  // Save, then lock the current pages so further edits get the next revision color
+  const handleLockRevision = useCallback(async () => {
+    const nextColor = getRevisionColor(revision ? revision.number + 1 : 1).name;
+    const lockedLabel = revision ? `${getRevisionColor(revision.number).name} pages` : 'this draft';
+    if (!confirm(`Lock ${lockedLabel}? New changes will be marked as ${nextColor} revisions.`)) {
+      return;
+    }
+
+    const saveResult = await handleSaveWithEditorState();
+    if (!saveResult.success) {
+      console.error('Cannot lock revision: save failed', saveResult.error);
+      return;
+    }
+
+    const lockResult = await lockRevision();
+    if (!lockResult.success) {
+      console.error('Error locking revision:', lockResult.error);
+    }
+  }, [revision, handleSaveWithEditorState, lockRevision]);
+
+  // Save, then lock the page breaks so added text goes onto A-pages; or unlock them again
+  const handleTogglePageLock = useCallback(async () => {
+    if (pageLock) {
+      if (!confirm('Unlock pages? The script will be paginated continuously again.')) return;
+      const unlockResult = await unlockPages();
+      if (!unlockResult.success) {
+        console.error('Error unlocking pages:', unlockResult.error);
+      }
+      return;
+    }
+
+    if (!confirm('Lock pages? Added text will go onto A-pages instead of pushing later pages down.')) {
+      return;
+    }
+
+    const saveResult = await handleSaveWithEditorState();
+    if (!saveResult.success) {
+      console.error('Cannot lock pages: save failed', saveResult.error);
+      return;
+    }
+
+    const lockResult = await lockPages();
+    if (!lockResult.success) {
+      console.error('Error locking pages:', lockResult.error);
+    }
+  }, [pageLock, handleSaveWithEditorState, lockPages, unlockPages]);
+
+  const handleCreateVersion = useCallback(async (name: string) => {
+    const result = await createVersion(name, state.blocks, state.header);
+    if (!result.success) {
+      console.error('Error saving version:', result.error);
+    }
+  }, [createVersion, state.blocks, state.header]);
+
+  // Bring back a snapshot; the current script is kept as a version first so nothing is lost
+  const handleRestoreVersion = useCallback(async (version: ScreenplayVersion) => {
+    if (!confirm(`Restore "${version.name}"? The current script will be saved as a version first.`)) {
+      return;
+    }
+
+    const backup = await createVersion(`Before restoring "${version.name}"`, state.blocks, state.header);
+    if (!backup.success) {
+      console.error('Cannot restore version: backup failed', backup.error);
+      return;
+    }
+
+    setState(prev => ({
+      ...prev,
+      blocks: version.blocks,
+      header: version.header,
+      selectedBlocks: new Set<string>(),
+      undoStack: [...prev.undoStack, prev.blocks],
+      redoStack: []
+    }));
+    setHasChanges(true);
+    setShowVersionHistory(false);
+  }, [createVersion, state.blocks, state.header, setState, setHasChanges]);
+
+  // Create a new screenplay in this project from a snapshot
+  const handleBranchVersion = useCallback(async (version: ScreenplayVersion) => {
+    const title = prompt('Title for the new screenplay:', `${documentTitle} - ${version.name}`);
+    if (!title?.trim()) return;
+
+    const result = await branchVersion(version, title.trim());
+    if (!result.success || !result.screenplayId) {
+      console.error('Error branching version:', result.error);
+      return;
+    }
+
+    if (confirm(`"${title.trim()}" was created. Open it now?`)) {
+      setShowVersionHistory(false);
+      navigate(`/projects/${projectId}/screenplays/${result.screenplayId}/editor`);
+    }
+  }, [branchVersion, documentTitle, navigate, projectId]);
+
+  // Merge the other user's version of each conflicting scene into ours, ask
+  // only about blocks both of us changed, then save again
+  const handleMergeConflicts = useCallback(async (conflicts: SaveConflict[]): Promise<SaveResult> => {
+    const scenes = await loadConflictingScenes(conflicts.map(conflict => conflict.sceneId));
+    const merged = mergeConflictingScenes(state.blocks, scenes);
+    let mergedBlocks = merged.blocks;
+
+    if (merged.conflicts.length > 0) {
+      const resolutions = await new Promise<Record<string, MergeResolution> | null>(resolve => {
+        mergeResolverRef.current = resolve;
+        setMergeConflicts(merged.conflicts);
+      });
+      mergeResolverRef.current = null;
+      setMergeConflicts(null);
+
+      if (!resolutions) {
+        return { success: false, error: 'Merge cancelled. Your changes are not saved yet.' };
+      }
+      mergedBlocks = applyMergeResolutions(merged, resolutions);
+    }
+
+    mergedBlocks = updateBlockNumbers(mergedBlocks);
+    setState(prev => ({
+      ...prev,
+      blocks: mergedBlocks,
+      undoStack: [...prev.undoStack, prev.blocks],
+      redoStack: []
+    }));
+
+    return saveMergedBlocks(mergedBlocks, scenes);
+  }, [loadConflictingScenes, saveMergedBlocks, state.blocks, setState]);
+
+  const sceneNumbersLocked = useMemo(() => isSceneNumberingLocked(state.blocks), [state.blocks]);
+
+  // Lock or unlock production scene numbers; the numbers are persisted with the next save
+  const handleToggleSceneNumberLock = useCallback(() => {
+    const message = sceneNumbersLocked
+      ? 'Unlock scene numbers? Scenes will be renumbered and OMITTED placeholders removed.'
+      : 'Lock scene numbers? New scenes will be numbered like 12A and deleted scenes kept as OMITTED.';
+    if (!confirm(message)) return;
+
+    updateBlocks(sceneNumbersLocked ? unlockSceneNumbers(state.blocks) : lockSceneNumbers(state.blocks));
+    setHasChanges(true);
+  }, [sceneNumbersLocked, state.blocks, updateBlocks, setHasChanges]);
+
+  // Character cues shown with an automatic (CONT'D); block content is left as typed
+  const autoContdBlockIds = useMemo(() => {
+    return projectSettings.autoContd ? getAutoContdBlockIds(state.blocks) : new Set<string>();
+  }, [projectSettings.autoContd, state.blocks]);
 
   // Create a wrapper function for setSelectedBlocks that handles both direct values and functions
   const setSelectedBlocks = useCallback((blocksOrFunction: Set<string> | ((prev: Set<string>) => Set<string>)) => {
@@ -455,6 +707,66 @@ const ScreenplayEditor: React.FC = () => {
     }, 150); // Small delay to ensure comment card is rendered
   }, [setState]);
 
+  // Open the comment a notification links to, with its text selected
+  const handledCommentLinkRef = useRef<string | null>(null);
+  useEffect(() => {
+    const link = parseCommentLink(location.search);
+    if (loading || !link || handledCommentLinkRef.current === location.search) return;
+
+    const comment = findCommentById(state.comments, link.commentId);
+    const blockId = comment?.blockId || link.blockId;
+    if (!blockId || !state.blocks.some(block => block.id === blockId)) return;
+    handledCommentLinkRef.current = location.search;
+
+    setShowCommentsPanel(true);
+    setState(prev => ({ ...prev, activeBlock: blockId }));
+
+    const startOffset = comment?.startOffset ?? link.startOffset;
+    const endOffset = comment?.endOffset ?? link.endOffset;
+
+    // Wait for the comments panel to render so the linked card can be made active
+    setTimeout(() => {
+      setActiveCommentId(link.commentId);
+      commentCardRefs.current[link.commentId]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+      const blockElement = blockRefs.current[blockId];
+      if (!blockElement) return;
+      blockElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      if (startOffset === null || endOffset === null) return;
+
+      // Finds the text node holding a character offset in the block
+      const findPoint = (offset: number): { node: Node; offset: number } => {
+        const walker = document.createTreeWalker(blockElement, NodeFilter.SHOW_TEXT);
+        let remaining = offset;
+        let node = walker.nextNode();
+        let last: Node | null = null;
+        while (node) {
+          const length = node.textContent?.length || 0;
+          if (remaining <= length) return { node, offset: remaining };
+          remaining -= length;
+          last = node;
+          node = walker.nextNode();
+        }
+        return last
+          ? { node: last, offset: last.textContent?.length || 0 }
+          : { node: blockElement, offset: 0 };
+      };
+
+      try {
+        const start = findPoint(Math.min(startOffset, endOffset));
+        const end = findPoint(Math.max(startOffset, endOffset));
+        const range = document.createRange();
+        range.setStart(start.node, start.offset);
+        range.setEnd(end.node, end.offset);
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+      } catch (err) {
+        console.error('Failed to select commented text:', err);
+      }
+    }, 150);
+  }, [loading, location.search, state.comments, state.blocks, findCommentById, setState]);
+
   // NEW: Handle scene reordering from SceneNavigator
   const handleScenesReordered = useCallback((reorderedScenes: Scene[]) => {
     console.log("ScreenplayEditor: Handling reordered scenes", reorderedScenes.map(s => s.id));
@@ -580,9 +892,91 @@ const ScreenplayEditor: React.FC = () => {
     setHasChanges,
     projectId,
     screenplayId,
-    onSceneHeadingUpdate
+    onSceneHeadingUpdate,
+    onContentEdited: remapCommentAnchors
   });
 
+  const userDisplayName = user?.nickname || user?.firstName || user?.email;
+  const isSuggesting = suggestionMode || isProjectViewer;
+
+  // Lock the scene being edited; scenes other writers are editing are read-only.
+  // Suggesting does not edit the script, so it takes no lock.
+  const { lockedBlockIds, getSceneLock, breakLock } = useSceneLocks(
+    projectId,
+    screenplayId,
+    user?.id,
+    userDisplayName,
+    state.blocks,
+    isSuggesting ? null : state.activeBlock,
+    isProjectOwner
+  );
+
+  const suggestionAuthor = useMemo(
+    () => (user ? { id: user.id, name: userDisplayName || 'Unknown' } : null),
+    [user, userDisplayName]
+  );
+  const {
+    suggestions,
+    addSuggestion,
+    resolveSuggestions
+  } = useEditSuggestions(projectId, screenplayId, suggestionAuthor);
+
+  const handleSuggestEdit = useCallback(async (blockId: string, content: string) => {
+    const block = state.blocks.find(b => b.id === blockId);
+    if (!block) return false;
+    return addSuggestion(block, content, getSceneIdForBlock(state.blocks, blockId));
+  }, [state.blocks, addSuggestion]);
+
+  // Accepted text is saved like a typed edit, so comment anchors, revision
+  // marks and scene history follow it. Suggestions whose text changed stay pending.
+  const handleAcceptSuggestions = useCallback(async (accepted: EditSuggestion[]) => {
+    // Suggestions are only marked accepted once the script with them is saved
+    if (!navigator.onLine) {
+      console.error('Suggestions can only be accepted while online');
+      return;
+    }
+
+    const result = applySuggestions(state.blocks, accepted);
+    if (result.conflictedIds.length > 0) {
+      console.error('Suggestions no longer match the script:', result.conflictedIds);
+    }
+    if (result.appliedIds.length === 0) return;
+
+    const saveResult = await handleSaveWithEditorState(result.blocks);
+    if (!saveResult.success) {
+      console.error('Could not save the accepted suggestions, so they stay pending:', saveResult.error);
+      return;
+    }
+
+    result.blocks.forEach((block, index) => {
+      if (block !== state.blocks[index]) {
+        remapCommentAnchors(block.id, state.blocks[index].content, block.content);
+      }
+    });
+    addToHistory(state.blocks);
+    // Applied to the latest blocks, so edits made while saving are kept
+    const appliedIds = new Set(result.appliedIds);
+    const applied = accepted.filter(suggestion => appliedIds.has(suggestion.id));
+    setState(prev => ({ ...prev, blocks: applySuggestions(prev.blocks, applied).blocks }));
+    await resolveSuggestions(result.appliedIds, 'accepted');
+  }, [state.blocks, remapCommentAnchors, addToHistory, setState, handleSaveWithEditorState, resolveSuggestions]);
+
+  const handleRejectSuggestions = useCallback(async (rejected: EditSuggestion[]) => {
+    await resolveSuggestions(rejected.map(suggestion => suggestion.id), 'rejected');
+  }, [resolveSuggestions]);
+
+  const handleSelectSuggestionBlock = useCallback((blockId: string) => {
+    blockRefs.current[blockId]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, []);
+
+  const { collaborators } = useCollaboratorPresence(projectId, screenplayId, user?.id, userDisplayName, state.blocks);
+  const viewedLock = viewedLockSceneId ? getSceneLock(viewedLockSceneId) : null;
+
+  const handleBlockClickWithLocks = useCallback((id: string, e: React.MouseEvent) => {
+    setViewedLockSceneId(lockedBlockIds.has(id) ? getSceneIdForBlock(state.blocks, id) : null);
+    handleBlockClick(id, e);
+  }, [lockedBlockIds, state.blocks, handleBlockClick]);
+
   // Deselection callback for double-click empty space
   const handleDeselectAll = useCallback(() => {
     clearSelection();
@@ -597,6 +991,7 @@ const ScreenplayEditor: React.FC = () => {
     blocks: state.blocks,
     activeBlock: state.activeBlock,
     handleFormatChange,
+    enabled: !isSuggesting,
   });
 
   // Mark changes when blocks are updated
@@ -692,17 +1087,9 @@ const ScreenplayEditor: React.FC = () => {
           
           // Assemble the full blocks array from scene documents
           loadedSceneDocuments.forEach(sceneDoc => {
-            // Add the scene heading block itself
-            blocks.push({
-              id: sceneDoc.id,
-              type: 'scene-heading',
-              content: sceneDoc.scene_heading,
-              number: sceneDoc.order + 1 // Scene numbers typically start from 1
-            });
-            
-            // Add the rest of the blocks in the scene
-            blocks = blocks.concat(sceneDoc.blocks);
+            blocks = blocks.concat(sceneDocumentToBlocks(sceneDoc));
           });
+          blocks = updateBlockNumbers(blocks); // An implicit first scene has no heading to count
           
           console.log(`Loaded ${loadedSceneDocuments.length} scenes with total ${blocks.length} blocks.`);
         } else {
@@ -753,7 +1140,34 @@ const ScreenplayEditor: React.FC = () => {
             lastModified: Timestamp.now()
           };
           
-          await setDoc(sceneDocRef, newSceneDoc);
+          // Viewers may not write scenes; the first writer to save creates it
+          try {
+            await setDoc(sceneDocRef, newSceneDoc);
+          } catch (err) {
+            console.error('Error creating the first scene:', err);
+          }
+        }
+
+        // Fetch project settings that affect how the script is rendered
+        const projectSnap = await getDoc(doc(db, 'projects', projectId));
+        setProjectSettings(projectSnap.exists() ? projectSnap.data()?.settings || {} : {});
+        const projectData = projectSnap.exists() ? projectSnap.data() as Project : null;
+        // Roles come from the same map the security rules check
+        const role = projectData?.roles?.[user.id];
+        setIsProjectOwner(!!projectData && (projectData.created_by === user.id || role === 'Owner'));
+        setIsProjectViewer(!!projectData && projectData.created_by !== user.id && role === 'Viewer');
+
+        // Projects created before the roles map get one when their owner opens them
+        if (projectData && !projectData.roles && projectData.created_by === user.id) {
+          try {
+            await updateDoc(doc(db, 'projects', projectId), {
+              roles: Object.fromEntries(
+                (projectData.collaborators || []).map(collaborator => [collaborator.id, collaborator.role])
+              )
+            });
+          } catch (err) {
+            console.error('Error adding collaborator roles to the project:', err);
+          }
         }
 
         // Fetch characters and elements for suggestions
@@ -857,6 +1271,23 @@ const ScreenplayEditor: React.FC = () => {
     }
   }, [projectId, screenplayId, setState, initialBlocks, screenplayData, user?.id, user?.email, location.state]);
 
+  // Bring back work that was not saved before the page was closed
+  useEffect(() => {
+    if (loading || !offlineDraft) return;
+
+    if (JSON.stringify(offlineDraft.blocks) !== JSON.stringify(state.blocks)) {
+      console.log(`Restoring unsaved changes for screenplay ${screenplayId} from this device`);
+      setState(prev => ({
+        ...prev,
+        blocks: offlineDraft.blocks,
+        undoStack: [...prev.undoStack, prev.blocks],
+        redoStack: []
+      }));
+      setHasChanges(true);
+    }
+    acceptOfflineDraft();
+  }, [loading, offlineDraft, state.blocks, screenplayId, setState, setHasChanges, acceptOfflineDraft]);
+
 
   if (loading) {
     return (
@@ -885,7 +1316,8 @@ const ScreenplayEditor: React.FC = () => {
     );
   }
 
-  const pages = organizeBlocksIntoPages(state.blocks);
+  const pages = organizeBlocksIntoPages(state.blocks, pageLock?.breaks);
+  const totalPages = pages.length > 0 ? pages[pages.length - 1].label : '1';
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -900,6 +1332,26 @@ const ScreenplayEditor: React.FC = () => {
         onSave={handleSaveWithEditorState}
         isSaving={isSaving}
         hasChanges={hasChanges}
+        isOffline={isOffline}
+        hasQueuedSave={hasQueuedSave}
+        lastSavedAt={lastSavedAt}
+        onExport={handleExport}
+        revisionNumber={revision ? revision.number : null}
+        onLockRevision={handleLockRevision}
+        sceneNumbersLocked={sceneNumbersLocked}
+        onToggleSceneNumberLock={handleToggleSceneNumberLock}
+        pagesLocked={!!pageLock}
+        onTogglePageLock={handleTogglePageLock}
+        onShowVersionHistory={() => setShowVersionHistory(true)}
+        onMergeConflicts={handleMergeConflicts}
+        conflicts={saveConflicts}
+        onConflictsChange={setSaveConflicts}
+        collaborators={collaborators}
+        currentUser={user ? { id: user.id, name: userDisplayName || user.id } : undefined}
+        onShowCompare={() => {
+          setCompareVersionId(null);
+          setShowCompare(true);
+        }}
       />
 
       {/* Second row with tab navigation */}
@@ -963,7 +1415,61 @@ const ScreenplayEditor: React.FC = () => {
                 <Type size={16} className="mr-2" />
                 Headings
               </button>
-              <div className="ml-auto">
+              <button
+                onClick={() => {
+                  if (activeTab === 'activity') {
+                    setShowPanel(!showPanel);
+                  } else {
+                    setActiveTab('activity');
+                    setShowPanel(true);
+                  }
+                }}
+                className={`flex items-center px-4 py-1.5 rounded-full transition-all backdrop-blur-md ${
+                  activeTab === 'activity' && showPanel
+                    ? 'bg-white/20 text-[#1E4D3A] border border-white/30 shadow-lg'
+                    : 'text-[#1E4D3A]/70 hover:text-[#1E4D3A] hover:bg-white/10'
+                }`}
+              >
+                <History size={16} className="mr-2" />
+                Activity
+              </button>
+              <button
+                onClick={() => {
+                  if (activeTab === 'suggestions') {
+                    setShowPanel(!showPanel);
+                  } else {
+                    setActiveTab('suggestions');
+                    setShowPanel(true);
+                  }
+                }}
+                className={`flex items-center px-4 py-1.5 rounded-full transition-all backdrop-blur-md ${
+                  activeTab === 'suggestions' && showPanel
+                    ? 'bg-white/20 text-[#1E4D3A] border border-white/30 shadow-lg'
+                    : 'text-[#1E4D3A]/70 hover:text-[#1E4D3A] hover:bg-white/10'
+                }`}
+              >
+                <ListChecks size={16} className="mr-2" />
+                Suggestions
+                {suggestions.length > 0 && (
+                  <span className="ml-2 px-1.5 min-w-[1.25rem] text-xs rounded-full bg-[#E86F2C] text-white">
+                    {suggestions.length}
+                  </span>
+                )}
+              </button>
+              <div className="ml-auto flex space-x-2">
+                <button
+                  onClick={() => setSuggestionMode(!suggestionMode)}
+                  disabled={isProjectViewer}
+                  title={isProjectViewer ? 'Viewers can suggest edits but not change the script' : 'Propose edits without changing the script'}
+                  className={`flex items-center px-4 py-1.5 rounded-full transition-all backdrop-blur-md disabled:cursor-not-allowed ${
+                    isSuggesting
+                      ? 'bg-[#E86F2C] text-white shadow-lg'
+                      : 'text-[#1E4D3A]/70 hover:text-[#1E4D3A] hover:bg-white/10'
+                  }`}
+                >
+                  <PenLine size={16} className="mr-2" />
+                  {isSuggesting ? 'Suggesting' : 'Suggest'}
+                </button>
                 <button
                   onClick={() => setShowCommentsPanel(!showCommentsPanel)}
                   className={`flex items-center px-4 py-1.5 rounded-full transition-all backdrop-blur-md ${
@@ -995,6 +1501,7 @@ const ScreenplayEditor: React.FC = () => {
                   onReorderStatusChange={setIsSceneReordering}
                   onScenesReordered={handleScenesReordered}
                   onSceneMoved={setScrollToSceneId} // New prop for auto-scrolling
+                  unsavedSceneIds={unsavedSceneIds}
                 />
               )}
               
@@ -1002,6 +1509,10 @@ const ScreenplayEditor: React.FC = () => {
                 <CharacterManager
                   projectId={projectId || ''}
                   screenplayId={screenplayId || ''}
+                  onPreviewRename={previewCharacterRename}
+                  onRename={renameCharacter}
+                  onUndoRename={undoCharacterRename}
+                  lastRename={lastRename}
                 />
               )}
               
@@ -1010,6 +1521,26 @@ const ScreenplayEditor: React.FC = () => {
                   <p>Scene Heading Management (Coming Soon)</p>
                 </div>
               )}
+
+              {activeTab === 'activity' && (
+                <ActivityFeed
+                  projectId={projectId || ''}
+                  screenplayId={screenplayId || ''}
+                  onSelectScene={handleSelectScene}
+                />
+              )}
+
+              {activeTab === 'suggestions' && (
+                <SuggestionsPanel
+                  blocks={state.blocks}
+                  suggestions={suggestions}
+                  currentUserId={user?.id}
+                  isSuggesting={isSuggesting}
+                  onAccept={isProjectViewer ? undefined : handleAcceptSuggestions}
+                  onReject={handleRejectSuggestions}
+                  onSelectBlock={handleSelectSuggestionBlock}
+                />
+              )}
             </div>
           </div>
         )}
@@ -1033,12 +1564,21 @@ const ScreenplayEditor: React.FC = () => {
             >
               <div className={`rounded-lg shadow-lg ${isDarkMode ? 'bg-gray-800' : 'bg-white'}`}>
                 <div className={`transition-colors duration-200 ${isDarkMode ? 'bg-gray-900' : 'bg-white'}`}>
-                  <div className="relative user-select-text">
-                    {pages.map((pageBlocks, pageIndex) => (
+                  <div ref={pagesContainerRef} className="relative user-select-text">
+                    {pages.map((page, pageIndex) => (
                       <Page
-                        key={pageIndex}
+                        key={page.number}
                         pageIndex={pageIndex}
-                        blocks={pageBlocks}
+                        pageNumber={page.label}
+                        totalPages={totalPages}
+                        moreBlockId={page.moreBlockId}
+                        moreText={page.moreText}
+                        continuedCue={page.continuedCue}
+                        continuedText={page.continuedText}
+                        autoContdBlockIds={autoContdBlockIds}
+                        revisionMarks={revisionMarks}
+                        lockedBlockIds={lockedBlockIds}
+                        blocks={page.blocks}
                         isDarkMode={isDarkMode}
                         header={state.header as any}
                         editingHeader={state.editingHeader}
@@ -1054,7 +1594,7 @@ const ScreenplayEditor: React.FC = () => {
                         onContentChange={handleContentChange}
                         onKeyDown={handleKeyDown}
                         onBlockFocus={(id) => setState(prev => ({ ...prev, activeBlock: id }))}
-                        onBlockClick={handleBlockClick}
+                        onBlockClick={handleBlockClickWithLocks}
                         onBlockDoubleClick={handleBlockDoubleClick}
                         onBlockMouseDown={handleMouseDown}
                         selectedBlocks={state.selectedBlocks}
@@ -1089,20 +1629,33 @@ const ScreenplayEditor: React.FC = () => {
                         comments={state.comments}
                         showCommentsPanel={showCommentsPanel}
                         setShowCommentsPanel={setShowCommentsPanel}
+                        isSuggesting={isSuggesting}
+                        suggestions={suggestions}
+                        onSuggestEdit={handleSuggestEdit}
+                        onAcceptSuggestions={isProjectViewer ? undefined : handleAcceptSuggestions}
+                        onRejectSuggestions={handleRejectSuggestions}
                       />
                     ))}
+                    <CollaboratorCursors
+                      cursors={collaborators}
+                      blockRefs={blockRefs}
+                      containerRef={pagesContainerRef}
+                      scale={zoomLevel / 100}
+                    />
                   </div>
                 </div>
               </div>
             </div>
 
-            <FormatButtons
-              isDarkMode={isDarkMode}
-              activeBlock={state.activeBlock}
-              onFormatChange={handleFormatChange}
-              blocks={state.blocks}
-              className="format-buttons"
-            />
+            {!isSuggesting && (
+              <FormatButtons
+                isDarkMode={isDarkMode}
+                activeBlock={state.activeBlock}
+                onFormatChange={handleFormatChange}
+                blocks={state.blocks}
+                className="format-buttons"
+              />
+            )}
           </div>
 
         </div>
@@ -1117,12 +1670,20 @@ const ScreenplayEditor: React.FC = () => {
                 activeCommentId={activeCommentId}
                 onResolveComment={(commentId, isResolved) => {
                   if (projectId && screenplayId) {
-                    resolveComment(commentId, isResolved, projectId, screenplayId);
+                    resolveComment(
+                      commentId,
+                      isResolved,
+                      projectId,
+                      screenplayId,
+                      user?.id ? { id: user.id, name: userDisplayName || 'Anonymous' } : undefined
+                    );
                   } else {
                     resolveComment(commentId, isResolved);
                   }
                 }}
                 onCommentSelect={handleCommentSelect}
+                blocks={state.blocks}
+                documentTitle={documentTitle || state.header.title}
                 commentCardRefs={commentCardRefs}
                 blockPositions={blockPositions}
                 editorScrollHeight={editorScrollHeight}
@@ -1139,6 +1700,50 @@ const ScreenplayEditor: React.FC = () => {
         )}
       </div>
 
+      {showVersionHistory && (
+        <VersionHistoryPanel
+          versions={versions}
+          loading={versionsLoading}
+          error={versionsError}
+          onClose={() => setShowVersionHistory(false)}
+          onCreateVersion={handleCreateVersion}
+          onRestoreVersion={handleRestoreVersion}
+          onBranchVersion={handleBranchVersion}
+          onCompareVersion={(version) => {
+            setCompareVersionId(version.id);
+            setShowVersionHistory(false);
+            setShowCompare(true);
+          }}
+        />
+      )}
+
+      {viewedLock && (
+        <SceneLockIndicator
+          lock={viewedLock}
+          onBreakLock={isProjectOwner && isLockStale(viewedLock) ? () => breakLock(viewedLock.sceneId) : undefined}
+        />
+      )}
+
+      {mergeConflicts && (
+        <MergeConflictDialog
+          conflicts={mergeConflicts}
+          onResolve={(resolutions) => mergeResolverRef.current?.(resolutions)}
+          onCancel={() => mergeResolverRef.current?.(null)}
+        />
+      )}
+
+      {showCompare && (
+        <CompareDraftsPanel
+          currentBlocks={state.blocks}
+          currentScreenplayId={screenplayId}
+          versions={versions}
+          screenplays={projectScreenplays}
+          initialVersionId={compareVersionId}
+          onLoadScreenplay={loadScreenplayBlocks}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
       {saveError && (
         <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg">
           {saveError}
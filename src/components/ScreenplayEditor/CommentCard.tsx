@@ -479,13 +479,23 @@ const CommentCard: React.FC<CommentCardProps> = ({
       style={getMarginStyle()}
     >
       {/* Highlighted Text Quote - Top of card */}
-      {comment.highlightedText && depth === 0 && (
+      {(comment.highlightedText || comment.orphaned) && depth === 0 && (
         <div className={`px-3 py-2 bg-gray-50 dark:bg-gray-800/50 border-b border-gray-100 dark:border-gray-700 ${compactMode ? 'text-xs' : 'text-sm'}`}>
           <div className="flex items-start space-x-2">
-            <div className="w-1 h-4 bg-[#E86F2C] rounded-full flex-shrink-0 mt-0.5"></div>
-            <blockquote className="italic text-gray-500 dark:text-gray-400 font-normal">
-              "{truncateText(comment.highlightedText, compactMode ? 60 : 100)}"
-            </blockquote>
+            <div className={`w-1 h-4 rounded-full flex-shrink-0 mt-0.5 ${comment.orphaned ? 'bg-gray-400' : 'bg-[#E86F2C]'}`}></div>
+            {comment.highlightedText && (
+              <blockquote className={`italic text-gray-500 dark:text-gray-400 font-normal ${comment.orphaned ? 'line-through' : ''}`}>
+                "{truncateText(comment.highlightedText, compactMode ? 60 : 100)}"
+              </blockquote>
+            )}
+            {comment.orphaned && (
+              <span
+                className="ml-auto flex-shrink-0 px-1.5 py-0.5 text-xs rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title="The commented text was deleted"
+              >
+                Orphaned
+              </span>
+            )}
           </div>
         </div>
       )}
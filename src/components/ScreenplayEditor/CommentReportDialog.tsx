@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { buildReviewReport, exportReviewReport, REVIEW_REPORT_FORMATS, type ReviewReportFormat } from '../../utils/commentReport';
+import type { CommentStatusFilter } from '../../utils/commentFilters';
+import type { Block, Comment } from '../../types';
+
+interface CommentReportDialogProps {
+  comments: Comment[];
+  blocks: Block[];
+  documentTitle: string;
+  initialStatus: CommentStatusFilter;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-sm';
+
+const CommentReportDialog: React.FC<CommentReportDialogProps> = ({
+  comments,
+  blocks,
+  documentTitle,
+  initialStatus,
+  onClose
+}) => {
+  const [format, setFormat] = useState<ReviewReportFormat>('pdf');
+  const [status, setStatus] = useState<CommentStatusFilter>(initialStatus);
+  const [authorId, setAuthorId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const authors = useMemo(() => {
+    const names = new Map<string, string>();
+    comments.forEach(comment => names.set(comment.authorId, comment.authorName));
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [comments]);
+
+  // Date inputs are whole local days
+  const scenes = useMemo(() => buildReviewReport(comments, blocks, {
+    status,
+    authorId: authorId || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : null,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : null
+  }), [comments, blocks, status, authorId, fromDate, toDate]);
+
+  const noteCount = scenes.reduce((total, scene) => total + scene.comments.length, 0);
+
+  const handleExport = () => {
+    try {
+      exportReviewReport(format, scenes, documentTitle);
+      onClose();
+    } catch (err) {
+      console.error('Error exporting review report:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg max-w-md w-full mx-4">
+        <div className="p-6">
+          <div className="flex items-center justify-between text-[#1E4D3A] dark:text-white mb-4">
+            <div className="flex items-center">
+              <Download size={24} className="mr-2" />
+              <h3 className="text-xl font-semibold">Export Review Notes</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              aria-label="Close"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className="space-y-4 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">Format</label>
+              <div className="flex space-x-2">
+                {(Object.keys(REVIEW_REPORT_FORMATS) as ReviewReportFormat[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setFormat(option)}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm border transition-colors ${
+                      format === option
+                        ? 'border-[#E86F2C] bg-[#E86F2C]/10 text-[#E86F2C]'
+                        : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {REVIEW_REPORT_FORMATS[option].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">Status</label>
+                <select
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value as CommentStatusFilter)}
+                  className={inputClassName}
+                >
+                  <option value="all">All comments</option>
+                  <option value="open">Open only</option>
+                  <option value="resolved">Resolved only</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">Author</label>
+                <select
+                  value={authorId}
+                  onChange={(e) => setAuthorId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Everyone</option>
+                  {authors.map(author => (
+                    <option key={author.id} value={author.id}>{author.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">From</label>
+                <input
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-600 dark:text-gray-300 mb-1">To</label>
+                <input
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {noteCount > 0
+                ? `${noteCount} ${noteCount === 1 ? 'note' : 'notes'} in ${scenes.length} ${scenes.length === 1 ? 'section' : 'sections'}`
+                : 'No comments match these filters.'}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <button
+              onClick={handleExport}
+              disabled={noteCount === 0}
+              className="w-full px-4 py-2 bg-[#E86F2C] text-white rounded-lg hover:bg-[#E86F2C]/90 transition-colors flex items-center justify-center disabled:opacity-50"
+            >
+              <Download size={18} className="mr-2" />
+              Export {REVIEW_REPORT_FORMATS[format].label}
+            </button>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommentReportDialog;
@@ -1,7 +1,9 @@
-import React, { useState, useEffect, useRef, useCallback, forwardRef } from 'react';
-import { Comment, UserMention } from '../../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo, forwardRef } from 'react';
+import { Block, Comment, UserMention } from '../../types';
 import CommentCard from './CommentCard';
-import { MessageSquare, Filter, X, Plus, Layers } from 'lucide-react';
+import CommentReportDialog from './CommentReportDialog';
+import { filterComments, flattenComments } from '../../utils/commentFilters';
+import { MessageSquare, Filter, X, Plus, Layers, Download } from 'lucide-react';
 
 interface CommentsPanelProps {
   comments: Comment[];
@@ -19,6 +21,8 @@ interface CommentsPanelProps {
   onMentionUser?: (searchTerm: string) => Promise<UserMention[]>;
   currentUserId?: string;
   currentUserName?: string;
+  blocks?: Block[]; // Used to group the exported review report by scene
+  documentTitle?: string;
 }
 
 const CommentsPanel = forwardRef<HTMLDivElement, CommentsPanelProps>(({ 
@@ -36,59 +40,29 @@ const CommentsPanel = forwardRef<HTMLDivElement, CommentsPanelProps>(({
   onToggleEmojiReaction,
   onMentionUser,
   currentUserId = 'current-user', // Default value for demo
-  currentUserName = 'Current User' // Default value for demo
+  currentUserName = 'Current User', // Default value for demo
+  blocks = [],
+  documentTitle = 'Untitled Screenplay'
 }, ref) => {
   const [showResolved, setShowResolved] = useState(false);
   const [filterByActiveBlock, setFilterByActiveBlock] = useState(false);
   const [useCompactMode, setUseCompactMode] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [cardHeights, setCardHeights] = useState<Record<string, number>>({});
   const [triggerRecalc, setTriggerRecalc] = useState(0);
   const cardElementRefs = useRef<Record<string, HTMLDivElement | null>>({});
   
-  // Helper function to flatten the comment tree for filtering
-  const flattenComments = (comments: Comment[]): Comment[] => {
-    let result: Comment[] = [];
-    
-    comments.forEach(comment => {
-      result.push(comment);
-      if (comment.replies && comment.replies.length > 0) {
-        result = result.concat(flattenComments(comment.replies));
-      }
-    });
-    
-    return result;
-  };
-  
-  // Filter comments based on resolved status and optionally activeBlock
-  const filterComments = (comments: Comment[]): Comment[] => {
-    // First, filter the top-level comments
-    return comments.filter(comment => {
-      const matchesResolved = showResolved || !comment.isResolved;
-      const matchesBlock = !filterByActiveBlock || (activeBlock && comment.blockId === activeBlock);
-      const shouldInclude = matchesResolved && matchesBlock;
-      
-      // If this comment should be included, also filter its replies
-      if (shouldInclude && comment.replies && comment.replies.length > 0) {
-        // Only include replies that match the resolved filter
-        // (we don't filter replies by block since they belong to the same block as their parent)
-        comment.replies = comment.replies.filter(reply => showResolved || !reply.isResolved);
-        
-        // Recursively filter nested replies
-        comment.replies.forEach(reply => {
-          if (reply.replies && reply.replies.length > 0) {
-            reply.replies = filterComments([reply])[0]?.replies || [];
-          }
-        });
-      }
-      
-      return shouldInclude;
-    });
-  };
-  
-  // Apply filters to comments
-  const filteredComments = filterComments(comments);
+  // Apply filters to comments; the block filter shows nothing until a block is active
+  const filteredComments = useMemo(() => (
+    filterByActiveBlock && !activeBlock
+      ? []
+      : filterComments(comments, {
+          status: showResolved ? 'all' : 'open',
+          blockId: filterByActiveBlock && activeBlock ? activeBlock : undefined
+        })
+  ), [comments, showResolved, filterByActiveBlock, activeBlock]);
   
   // Sort comments by their block positions to prepare for overlap prevention
   const sortedComments = [...filteredComments].sort((a, b) => {
@@ -183,12 +157,12 @@ const CommentsPanel = forwardRef<HTMLDivElement, CommentsPanelProps>(({
     let accumulatedHeight = 0;
     const cardMargin = useCompactMode ? 12 : 16;
     
-    return sortedComments.map((comment, index) => {
-      const blockPosition = blockPositions[comment.blockId];
-      
-      if (blockPosition === undefined) {
-        return { comment, position: null };
-      }
+    // Orphaned comments whose block was deleted are listed after the rest
+    const anchoredComments = sortedComments.filter(comment => blockPositions[comment.blockId] !== undefined);
+    const detachedComments = sortedComments.filter(comment => blockPositions[comment.blockId] === undefined && comment.orphaned);
+
+    return [...anchoredComments, ...detachedComments].map((comment) => {
+      const blockPosition = blockPositions[comment.blockId] ?? accumulatedHeight;
       
       // Apply the vertical offset to align with the block
       let position = blockPosition - 20; // Vertical offset
@@ -328,6 +302,16 @@ const CommentsPanel = forwardRef<HTMLDivElement, CommentsPanelProps>(({
             <Filter size={16} />
           </button>
           
+          {/* Review report export */}
+          <button
+            onClick={() => setShowReportDialog(true)}
+            disabled={comments.length === 0}
+            className="p-1.5 rounded-lg transition-colors text-[#577B92] dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+            title="Export review notes"
+          >
+            <Download size={16} />
+          </button>
+
           {/* Compact mode toggle */}
           <button
             onClick={() => setUseCompactMode(!useCompactMode)}
@@ -425,6 +409,16 @@ const CommentsPanel = forwardRef<HTMLDivElement, CommentsPanelProps>(({
           </button>
         </div>
       )}
+
+      {showReportDialog && (
+        <CommentReportDialog
+          comments={comments}
+          blocks={blocks}
+          documentTitle={documentTitle}
+          initialStatus={showResolved ? 'all' : 'open'}
+          onClose={() => setShowReportDialog(false)}
+        />
+      )}
     </div>
   );
 });
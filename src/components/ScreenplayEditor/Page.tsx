@@ -1,10 +1,24 @@
 import React, { useCallback, useRef } from 'react';
 import BlockComponentImproved from '../BlockComponentImproved';
 import PageHeader from './PageHeader';
+import PageFooter from './PageFooter';
+import { getBlockStyle } from '../../utils/styleUtils';
+import { CONTD_MARKER, MORE_MARKER } from '../../utils/screenplayLayout';
+import { getPageRevision, getRevisionColor } from '../../utils/revisionUtils';
 import { CharacterDocument, ElementDocument, UniqueSceneHeadingDocument, Comment } from '../../types';
+import type { EditSuggestion } from '../../types/screenplay';
 
 interface PageProps {
   pageIndex: number;
+  pageNumber: number | string; // Printed page number, e.g. "23A" when pages are locked
+  totalPages: number | string;
+  moreBlockId?: string;
+  moreText?: string;
+  continuedCue?: string;
+  continuedText?: string;
+  autoContdBlockIds?: Set<string>;
+  revisionMarks?: Record<string, number>;
+  lockedBlockIds?: Set<string>; // Blocks of scenes another writer is editing
   blocks: Array<{
     id: string;
     type: string;
@@ -46,10 +60,24 @@ interface PageProps {
   comments?: Comment[];
   showCommentsPanel?: boolean;
   setShowCommentsPanel?: (show: boolean) => void;
+  isSuggesting?: boolean; // Edits become suggestions instead of changing the script
+  suggestions?: EditSuggestion[];
+  onSuggestEdit?: (blockId: string, content: string) => Promise<boolean>;
+  onAcceptSuggestions?: (suggestions: EditSuggestion[]) => void;
+  onRejectSuggestions?: (suggestions: EditSuggestion[]) => void;
 }
 
 const Page: React.FC<PageProps> = ({
   pageIndex,
+  pageNumber,
+  totalPages,
+  moreBlockId,
+  moreText,
+  continuedCue,
+  continuedText,
+  autoContdBlockIds,
+  revisionMarks = {},
+  lockedBlockIds,
   blocks,
   isDarkMode,
   header,
@@ -82,6 +110,11 @@ const Page: React.FC<PageProps> = ({
   comments,
   showCommentsPanel,
   setShowCommentsPanel,
+  isSuggesting = false,
+  suggestions,
+  onSuggestEdit,
+  onAcceptSuggestions,
+  onRejectSuggestions,
 }) => {
   const pageRef = useRef<HTMLDivElement>(null);
   const isDragSelecting = useRef(false);
@@ -150,6 +183,26 @@ const Page: React.FC<PageProps> = ({
       onDeselectAll?.();
     }
   }, [onDeselectAll]);
+  // A page takes the color of the latest revision among its blocks
+  const pageRevision = getPageRevision(blocks.map(block => block.id), revisionMarks);
+
+  // Read-only (MORE) / (CONT'D) markers and the continued part of a speech
+  // where the printed page breaks it
+  const renderContinuationMarker = (text: string, marker: 'more' | 'contd' | 'dialogue') => (
+    <div
+      className="screenplay-block mb-1 select-none pointer-events-none"
+      contentEditable={false}
+      data-continuation-marker={marker}
+    >
+      <div className={`${getBlockStyle({ type: marker === 'dialogue' ? 'dialogue' : 'character', isDarkMode, isSelected: false })} opacity-60`}>
+        {text}
+      </div>
+    </div>
+  );
+
+  // A page in the middle of a long speech holds only its continuation
+  const continuesOnNextPage = !!moreBlockId && !blocks.some(block => block.id === moreBlockId);
+
   return (
     <div
       className={`relative w-[210mm] mx-auto shadow-lg transition-colors duration-200 mb-8 screenplay-page ${
@@ -164,7 +217,8 @@ const Page: React.FC<PageProps> = ({
       <PageHeader
         isDarkMode={isDarkMode}
         header={header}
-        pageNumber={pageIndex + 1}
+        pageNumber={pageNumber}
+        revisionColor={pageRevision !== null ? getRevisionColor(pageRevision) : null}
         editingHeader={editingHeader}
         onHeaderChange={onHeaderChange}
         onEditingHeaderChange={onEditingHeaderChange}
@@ -182,39 +236,60 @@ const Page: React.FC<PageProps> = ({
         onMouseDown={handleContainerMouseDown}
         onDoubleClick={handleContainerDoubleClick}
       >
+        {continuedCue && renderContinuationMarker(continuedCue, 'contd')}
+        {continuedText && renderContinuationMarker(continuedText, 'dialogue')}
+        {continuesOnNextPage && renderContinuationMarker(MORE_MARKER, 'more')}
+
         {blocks.map((block) => (
-          <BlockComponentImproved
-            key={block.id}
-            block={block}
-            isDarkMode={isDarkMode}
-            onContentChange={onContentChange}
-            onKeyDown={onKeyDown}
-            onFocus={onBlockFocus}
-            onClick={onBlockClick}
-            onMouseDown={onBlockMouseDown}
-            onDoubleClick={onBlockDoubleClick}
-            isSelected={selectedBlocks instanceof Set ? selectedBlocks.has(block.id) : false}
-            isActive={block.id === activeBlock}
-            blockRefs={blockRefs}
-            projectCharacters={projectCharacters}
-            projectElements={projectElements}
-            projectId={projectId}
-            screenplayId={screenplayId}
-            projectUniqueSceneHeadings={projectUniqueSceneHeadings}
-            onEnterAction={onEnterAction}
-            isProcessingSuggestion={isProcessingSuggestion}
-            setIsProcessingSuggestion={setIsProcessingSuggestion}
-            isCharacterBlockAfterDialogue={isCharacterBlockAfterDialogue}
-            isSceneSelectionActive={isSceneSelectionActive}
-            addComment={addComment}
-            activeCommentId={activeCommentId}
-            onCommentSelect={onCommentSelect}
-            comments={comments}
-            showCommentsPanel={showCommentsPanel}
-            setShowCommentsPanel={setShowCommentsPanel}
-          />
+          <React.Fragment key={block.id}>
+            <BlockComponentImproved
+              block={block}
+              extension={autoContdBlockIds?.has(block.id) ? CONTD_MARKER : undefined}
+              displayContent={block.id === moreBlockId ? moreText : undefined}
+              isRevised={revisionMarks[block.id] !== undefined}
+              isLocked={lockedBlockIds?.has(block.id)}
+              isDarkMode={isDarkMode}
+              onContentChange={onContentChange}
+              onKeyDown={onKeyDown}
+              onFocus={onBlockFocus}
+              onClick={onBlockClick}
+              onMouseDown={onBlockMouseDown}
+              onDoubleClick={onBlockDoubleClick}
+              isSelected={selectedBlocks instanceof Set ? selectedBlocks.has(block.id) : false}
+              isActive={block.id === activeBlock}
+              blockRefs={blockRefs}
+              projectCharacters={projectCharacters}
+              projectElements={projectElements}
+              projectId={projectId}
+              screenplayId={screenplayId}
+              projectUniqueSceneHeadings={projectUniqueSceneHeadings}
+              onEnterAction={onEnterAction}
+              isProcessingSuggestion={isProcessingSuggestion}
+              setIsProcessingSuggestion={setIsProcessingSuggestion}
+              isCharacterBlockAfterDialogue={isCharacterBlockAfterDialogue}
+              isSceneSelectionActive={isSceneSelectionActive}
+              addComment={addComment}
+              activeCommentId={activeCommentId}
+              onCommentSelect={onCommentSelect}
+              comments={comments}
+              showCommentsPanel={showCommentsPanel}
+              setShowCommentsPanel={setShowCommentsPanel}
+              isSuggesting={isSuggesting}
+              suggestions={suggestions}
+              onSuggestEdit={onSuggestEdit}
+              onAcceptSuggestions={onAcceptSuggestions}
+              onRejectSuggestions={onRejectSuggestions}
+            />
+            {block.id === moreBlockId && renderContinuationMarker(MORE_MARKER, 'more')}
+          </React.Fragment>
         ))}
       </div>
+
+      <PageFooter
+        isDarkMode={isDarkMode}
+        pageNumber={pageNumber}
+        totalPages={totalPages}
+      />
     </div>
   );
 };
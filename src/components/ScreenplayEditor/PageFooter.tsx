@@ -4,20 +4,25 @@ import { useLanguage } from '../../contexts/LanguageContext';
 
 interface PageFooterProps {
   isDarkMode: boolean;
-  footer: string;
-  editingFooter: boolean;
-  onFooterChange: (value: string) => void;
-  onEditingFooterChange: (editing: boolean) => void;
+  pageNumber: number | string;
+  totalPages: number | string;
+  footer?: string;
+  editingFooter?: boolean;
+  onFooterChange?: (value: string) => void;
+  onEditingFooterChange?: (editing: boolean) => void;
 }
 
 const PageFooter: React.FC<PageFooterProps> = ({
   isDarkMode,
-  footer,
-  editingFooter,
+  pageNumber,
+  totalPages,
+  footer = '',
+  editingFooter = false,
   onFooterChange,
   onEditingFooterChange,
 }) => {
   const { t } = useLanguage();
+  const isEditable = !!onFooterChange && !!onEditingFooterChange;
 
   return (
     <div
@@ -26,21 +31,23 @@ const PageFooter: React.FC<PageFooterProps> = ({
       }`}
     >
       <div
-        className={`absolute inset-x-0 h-full flex items-center px-8 cursor-text 
+        className={`absolute inset-x-0 h-full flex items-center px-8 
           ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}
-          ${editingFooter 
-            ? (isDarkMode ? 'bg-gray-700/50' : 'bg-blue-50/50') 
-            : 'hover:bg-gray-50 dark:hover:bg-gray-700/30'
+          ${!isEditable
+            ? ''
+            : editingFooter 
+              ? (isDarkMode ? 'bg-gray-700/50' : 'bg-blue-50/50') 
+              : 'cursor-text hover:bg-gray-50 dark:hover:bg-gray-700/30'
           }`}
-        onClick={() => !editingFooter && onEditingFooterChange(true)}
+        onClick={() => isEditable && !editingFooter && onEditingFooterChange?.(true)}
       >
-        {editingFooter ? (
+        {isEditable && editingFooter ? (
           <input
             type="text"
             value={footer}
-            onChange={(e) => onFooterChange(e.target.value)}
-            onBlur={() => onEditingFooterChange(false)}
-            onKeyDown={(e) => e.key === 'Enter' && onEditingFooterChange(false)}
+            onChange={(e) => onFooterChange?.(e.target.value)}
+            onBlur={() => onEditingFooterChange?.(false)}
+            onKeyDown={(e) => e.key === 'Enter' && onEditingFooterChange?.(false)}
             className={`w-full bg-transparent outline-none font-mono text-sm transition-colors duration-200
               ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}
               focus:ring-0 focus:ring-offset-0`}
@@ -50,13 +57,21 @@ const PageFooter: React.FC<PageFooterProps> = ({
         ) : (
           <div className="flex items-center justify-between w-full group">
             <span className="min-h-[1.5rem] font-mono text-sm">
-              {footer || t('click_to_edit_footer')}
+              {isEditable ? (footer || t('click_to_edit_footer')) : footer}
             </span>
-            <Edit2 
-              size={14} 
-              className={`opacity-0 group-hover:opacity-100 transition-opacity duration-200
-                ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
-            />
+            <div className="flex items-center space-x-3">
+              {isEditable && (
+                <Edit2
+                  size={14}
+                  className={`opacity-0 group-hover:opacity-100 transition-opacity duration-200
+                    ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                />
+              )}
+              {/* Printed page numbers come from the layout engine so they match exports */}
+              <span className="font-mono text-sm">
+                {t('page')} {pageNumber} / {totalPages}
+              </span>
+            </div>
           </div>
         )}
       </div>
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import { Edit2 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
+import type { RevisionColor } from '../../utils/revisionUtils';
 
 interface PageHeaderProps {
   isDarkMode: boolean;
@@ -9,7 +10,8 @@ interface PageHeaderProps {
     author: string;
     contact: string;
   };
-  pageNumber: number;
+  pageNumber: number | string;
+  revisionColor?: RevisionColor | null;
   editingHeader: boolean;
   onHeaderChange: (value: string) => void;
   onEditingHeaderChange: (editing: boolean) => void;
@@ -19,6 +21,7 @@ const PageHeader: React.FC<PageHeaderProps> = ({
   isDarkMode,
   header,
   pageNumber,
+  revisionColor = null,
   editingHeader,
   onHeaderChange,
   onEditingHeaderChange,
@@ -101,11 +104,26 @@ const PageHeader: React.FC<PageHeaderProps> = ({
         </div>
       </div>
       <div
-        className={`absolute right-8 top-1/2 -translate-y-1/2 text-sm font-mono
+        className={`absolute right-8 top-1/2 -translate-y-1/2 flex items-center space-x-3 text-sm font-mono
           ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}
       >
-        {pageNumber}
+        {revisionColor && (
+          <span className="flex items-center text-xs" title={`Page changed in the ${revisionColor.name} revision`}>
+            <span
+              className="w-3 h-3 rounded-sm mr-1.5 border border-gray-300"
+              style={{ backgroundColor: revisionColor.hex }}
+            />
+            {revisionColor.name} Rev.
+          </span>
+        )}
+        <span>{pageNumber}</span>
       </div>
+      {revisionColor && (
+        <div
+          className="absolute inset-x-0 bottom-0 h-1 pointer-events-none"
+          style={{ backgroundColor: revisionColor.hex }}
+        />
+      )}
     </div>
   );
 };
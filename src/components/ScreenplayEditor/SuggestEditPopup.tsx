@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, PenLine } from 'lucide-react';
+
+interface SuggestEditPopupProps {
+  position: { top: number; left: number };
+  initialText: string; // The block text as the script has it
+  onSubmit: (text: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const POPUP_HEIGHT = 220; // Estimated, to keep the popup inside the viewport
+const POPUP_WIDTH = 360;
+
+const SuggestEditPopup: React.FC<SuggestEditPopupProps> = ({
+  position,
+  initialText,
+  onSubmit,
+  onCancel
+}) => {
+  const [text, setText] = useState(initialText);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Focus the end of the text so typing continues the block
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (textarea) {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text === initialText || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(text);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  const top = Math.max(10, Math.min(position.top, window.innerHeight - POPUP_HEIGHT - 10));
+  const left = Math.max(10, Math.min(position.left, window.innerWidth - POPUP_WIDTH - 10));
+
+  return (
+    <div
+      className="fixed z-[9999] bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700"
+      style={{ top: `${top}px`, left: `${left}px`, width: `${POPUP_WIDTH}px` }}
+    >
+      <div className="flex items-center justify-between p-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-medium text-[#1E4D3A] dark:text-white">Suggest Edit</h3>
+        <button
+          onClick={onCancel}
+          className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="w-full p-2 border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-900 text-[#1E4D3A] dark:text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-[#E86F2C] focus:border-transparent resize-none"
+          rows={4}
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          The script is not changed until a writer accepts the suggestion.
+        </p>
+
+        <div className="flex justify-end mt-3 space-x-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-200 dark:border-gray-700 text-[#577B92] dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={text === initialText || isSubmitting}
+            className="px-3 py-1.5 text-sm rounded-md bg-[#E86F2C] text-white flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <PenLine size={14} className="mr-1" />
+            Suggest
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SuggestEditPopup;
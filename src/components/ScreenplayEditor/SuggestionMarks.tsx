@@ -0,0 +1,93 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { SUGGESTION_CONTEXT_LENGTH } from '../../utils/editSuggestions';
+import type { EditSuggestion } from '../../types/screenplay';
+
+interface SuggestionMarksProps {
+  suggestions: EditSuggestion[];
+  staleIds: Set<string>; // Suggestions whose text has changed since; they can only be rejected
+  currentUserId?: string;
+  onAccept?: (suggestions: EditSuggestion[]) => void; // Only passed to writers who may change the script
+  onReject?: (suggestions: EditSuggestion[]) => void;
+  onSelect?: (suggestion: EditSuggestion) => void;
+}
+
+/**
+ * Pending suggestions shown as tracked changes: the replaced text struck
+ * through, the proposed text underlined, with a little of the text around them
+ */
+const SuggestionMarks: React.FC<SuggestionMarksProps> = ({
+  suggestions,
+  staleIds,
+  currentUserId,
+  onAccept,
+  onReject,
+  onSelect
+}) => (
+  <div contentEditable={false} className="mt-1 mb-2 space-y-1 font-sans text-xs select-none">
+    {suggestions.map(suggestion => {
+      const isStale = staleIds.has(suggestion.id);
+      const canReject = !!onReject && (!!onAccept || suggestion.authorId === currentUserId);
+
+      return (
+        <div
+          key={suggestion.id}
+          onClick={onSelect ? () => onSelect(suggestion) : undefined}
+          className={`flex items-start px-2 py-1 rounded border-l-2 border-[#E86F2C] bg-[#E86F2C]/5 ${
+            onSelect ? 'cursor-pointer hover:bg-[#E86F2C]/10' : ''
+          } ${isStale ? 'opacity-60' : ''}`}
+        >
+          <div className="flex-1 min-w-0">
+            <div className="whitespace-pre-wrap break-words text-gray-700 dark:text-gray-300">
+              {suggestion.startOffset > suggestion.contextBefore.length && '…'}
+              {suggestion.contextBefore}
+              {suggestion.deletedText && (
+                <del className="bg-red-200 dark:bg-red-800/60 line-through">{suggestion.deletedText}</del>
+              )}
+              {suggestion.insertedText && (
+                <ins className="bg-green-200 dark:bg-green-800/60">
+                  {suggestion.insertedText}
+                </ins>
+              )}
+              {suggestion.contextAfter}
+              {suggestion.contextAfter.length === SUGGESTION_CONTEXT_LENGTH && '…'}
+            </div>
+            <div className="mt-0.5 text-gray-500 dark:text-gray-400">
+              {suggestion.authorName}
+              {isStale && ' · The text has changed since this was suggested'}
+            </div>
+          </div>
+          <div className="flex items-center ml-2 space-x-1 shrink-0">
+            {onAccept && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onAccept([suggestion]);
+                }}
+                disabled={isStale}
+                className="p-1 rounded text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/40 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Accept"
+              >
+                <Check size={14} />
+              </button>
+            )}
+            {canReject && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onReject?.([suggestion]);
+                }}
+                className="p-1 rounded text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40"
+                title={onAccept ? 'Reject' : 'Withdraw'}
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default SuggestionMarks;
@@ -6,15 +6,17 @@ import {
   MoreVertical,
   Check,
   X,
-  User,
-  Save,
 } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import KeyboardShortcutsDialog from './KeyboardShortcutsDialog';
 import ConflictDialog from './screenplay/ConflictDialog';
-import type { SaveResult } from '../types/screenplay';
+import SaveButton from './screenplay/SaveButton';
+import PresenceAvatars from './screenplay/PresenceAvatars';
+import type { SaveResult, SaveConflict, CollaboratorCursor } from '../types/screenplay';
 import DisplayOptionsDropdown from './screenplay/DisplayOptionsDropdown';
 import MoreOptionsDropdown from './screenplay/MoreOptionsDropdown';
+import type { ExportFormat } from '../utils/exportUtils';
+import { getRevisionColor } from '../utils/revisionUtils';
 
 interface ScreenplayNavigatorProps {
   projectId: string | undefined;
@@ -27,6 +29,23 @@ interface ScreenplayNavigatorProps {
   onSave?: () => Promise<SaveResult>;
   isSaving?: boolean;
   hasChanges?: boolean;
+  isOffline?: boolean;
+  hasQueuedSave?: boolean;
+  lastSavedAt?: Date | null;
+  onExport?: (format: ExportFormat) => void;
+  revisionNumber?: number | null;
+  onLockRevision?: () => void;
+  sceneNumbersLocked?: boolean;
+  onToggleSceneNumberLock?: () => void;
+  pagesLocked?: boolean;
+  onTogglePageLock?: () => void;
+  onShowVersionHistory?: () => void;
+  onShowCompare?: () => void;
+  onMergeConflicts?: (conflicts: SaveConflict[]) => Promise<SaveResult>;
+  conflicts?: SaveConflict[] | null; // Conflicts shown in the conflict dialog, from any save
+  onConflictsChange?: (conflicts: SaveConflict[] | null) => void;
+  collaborators?: CollaboratorCursor[]; // Other writers with the screenplay open
+  currentUser?: { id: string; name: string };
 }
 
 const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
@@ -40,12 +59,25 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
   onSave,
   isSaving = false,
   hasChanges = false,
+  isOffline = false,
+  hasQueuedSave = false,
+  lastSavedAt = null,
+  onExport,
+  revisionNumber = null,
+  onLockRevision,
+  sceneNumbersLocked = false,
+  onToggleSceneNumberLock,
+  pagesLocked = false,
+  onTogglePageLock,
+  onShowVersionHistory,
+  onShowCompare,
+  onMergeConflicts,
+  conflicts = null,
+  onConflictsChange = () => {},
+  collaborators = [],
+  currentUser,
 }) => {
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
-  const [showConflictDialog, setShowConflictDialog] = useState(false);
-  const [conflicts, setConflicts] = useState<
-    NonNullable<SaveResult['conflicts']>
-  >([]);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
@@ -76,7 +108,8 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
   }, []);
 
   const handleSave = async () => {
-    if (!onSave || isSaving || !hasChanges) return;
+    // A save queued offline is sent even when nothing changed since
+    if (!onSave || isSaving || !(hasChanges || hasQueuedSave)) return;
     
     try {
       setSaveError(null);
@@ -84,9 +117,9 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
 
       if (!result.success) {
         if (result.conflicts) {
-          setConflicts(result.conflicts);
-          setShowConflictDialog(true);
-        } else {
+          onConflictsChange(result.conflicts);
+        } else if (!result.offline) {
+          // Offline saves are queued; the save button shows that instead
           setSaveError(result.error || 'Failed to save screenplay');
         }
       } else {
@@ -100,13 +133,34 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
     }
   };
 
+  // Replay a save queued while offline once the connection is back, after
+  // any save already running. Conflicts with edits made in the meantime go
+  // through the conflict dialog; a failed replay is retried with the Sync
+  // button or the next time the connection comes back.
+  const handleSaveRef = useRef(handleSave);
+  handleSaveRef.current = handleSave;
+  const replayedRef = useRef(false);
+
+  useEffect(() => {
+    if (isOffline || !hasQueuedSave) {
+      replayedRef.current = false;
+      return;
+    }
+    if (isSaving || replayedRef.current) return;
+
+    replayedRef.current = true;
+    handleSaveRef.current();
+  }, [isOffline, hasQueuedSave, isSaving]);
+
   const handleConflictResolution = async (
     action: 'overwrite' | 'merge' | 'cancel'
   ) => {
-    setShowConflictDialog(false);
+    const openConflicts = conflicts || [];
+    onConflictsChange(null);
     
     if (action === 'cancel') {
-      // Just close the dialog, no action needed
+      // The conflict check stopped the save before anything was written, so
+      // the local changes simply stay unsaved
       return;
     }
     
@@ -117,6 +171,22 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
     
     try {
       setSaveError(null);
+
+      // Merging needs the editor's blocks, so the editor runs it and saves again
+      if (action === 'merge' && onMergeConflicts) {
+        const mergeResult = await onMergeConflicts(openConflicts);
+        if (!mergeResult.success) {
+          if (mergeResult.conflicts) {
+            onConflictsChange(mergeResult.conflicts);
+          } else {
+            setSaveError(mergeResult.error || 'Failed to save screenplay');
+          }
+        } else {
+          setShowSaveSuccess(true);
+          setTimeout(() => setShowSaveSuccess(false), 2000);
+        }
+        return;
+      }
       
       // Add conflict resolution action to the URL as a query parameter
       // This will be picked up by the useScreenplaySave hook
@@ -134,8 +204,7 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
       if (!result.success) {
         if (result.conflicts) {
           // If we still have conflicts, show the dialog again
-          setConflicts(result.conflicts);
-          setShowConflictDialog(true);
+          onConflictsChange(result.conflicts);
         } else {
           setSaveError(result.error || 'Failed to save screenplay');
         }
@@ -208,44 +277,37 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
                 } px-2 py-1`}
                 placeholder="Untitled Screenplay"
               />
+              {revisionNumber !== null && (
+                <span
+                  className={`flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
+                    isDarkMode ? 'border-[#577B92]/40 text-[#F5F5F2]' : 'border-[#577B92]/30 text-[#1E4D3A]'
+                  }`}
+                  title="Revision mode: changes are marked with the current revision color"
+                >
+                  <span
+                    className="w-3 h-3 rounded-full mr-1.5 border border-gray-300"
+                    style={{ backgroundColor: getRevisionColor(revisionNumber).hex }}
+                  />
+                  {getRevisionColor(revisionNumber).name} Revision
+                </span>
+              )}
             </div>
           </div>
 
           {/* Right Section with User Presence, Display Options, and More Options */}
           <div className="flex items-center space-x-3">
             {/* Collaborators */}
-            <div className="flex -space-x-2">
-              {[1, 2, 3].map((id) => (
-                <div key={id} className="relative group">
-                  <button className={`p-2 rounded-full ${
-                    id === 1 ? 'bg-blue-500' : id === 2 ? 'bg-green-500' : 'bg-orange-500'
-                  } text-white`}>
-                    <User size={16} />
-                  </button>
-                  <span className="absolute top-10 right-0 w-max bg-[#1E4D3A] text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                    {id === 1 ? 'You' : id === 2 ? 'Sarah Chen' : 'Mike Johnson'}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <PresenceAvatars collaborators={collaborators} currentUser={currentUser} />
             
             {/* Save Button */}
-            <button
-              onClick={handleSave}
-              disabled={isSaving || !hasChanges}
-              className={`px-4 py-2 rounded-lg transition-all duration-200 flex items-center ${
-                hasChanges
-                  ? 'bg-gradient-to-r from-[#2563eb] via-[#9333ea] to-[#db2777] text-white hover:opacity-90'
-                  : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500'
-              } ${!hasChanges ? 'opacity-50 cursor-not-allowed' : ''}`}
-            >
-              {isSaving ? (
-                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-              ) : (
-                <Save size={18} className="mr-2" />
-              )}
-              <span>Save</span>
-            </button>
+            <SaveButton
+              onSave={handleSave}
+              isSaving={isSaving}
+              hasChanges={hasChanges}
+              isOffline={isOffline}
+              hasQueuedSave={hasQueuedSave}
+              lastSavedAt={lastSavedAt}
+            />
             
             {/* Display Options Button */}
             <div className="relative" ref={displayOptionsRef}>
@@ -300,6 +362,15 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
                   onClose={() => setShowMoreOptions(false)}
                   setShowKeyboardShortcuts={setShowKeyboardShortcuts}
                   handlePrint={handlePrint}
+                  handleExport={onExport}
+                  revisionNumber={revisionNumber}
+                  handleLockRevision={onLockRevision}
+                  sceneNumbersLocked={sceneNumbersLocked}
+                  handleToggleSceneNumberLock={onToggleSceneNumberLock}
+                  pagesLocked={pagesLocked}
+                  handleTogglePageLock={onTogglePageLock}
+                  handleShowVersionHistory={onShowVersionHistory}
+                  handleShowCompare={onShowCompare}
                 />
               )}
             </div>
@@ -316,7 +387,7 @@ const ScreenplayNavigator: React.FC<ScreenplayNavigatorProps> = ({
       )}
 
       {/* Conflict Resolution Dialog */}
-      {showConflictDialog && (
+      {conflicts && (
         <ConflictDialog
           conflicts={conflicts}
           onResolve={handleConflictResolution}
@@ -7,6 +7,10 @@ import {
 import { useAuth } from '../contexts/AuthContext';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import { useTranslation } from 'react-i18next';
+import { useNotifications } from '../hooks/useNotifications';
+import { getNotificationLink } from '../utils/notifications';
+import NotificationInbox from './NotificationInbox';
+import type { NotificationDocument } from '../types';
 
 interface SidebarProps {
   activeItem: string;
@@ -18,6 +22,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem }) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const [showNotifications, setShowNotifications] = useState(false);
+  const { notifications, unreadCount, loading, error, markRead, markAllRead } = useNotifications(user?.id);
 
   const handleSignOut = async () => {
     try {
@@ -28,6 +33,15 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem }) => {
     }
   };
 
+  // Opens the editor on the commented text
+  const handleOpenNotification = (notification: NotificationDocument) => {
+    if (!notification.read) {
+      markRead(notification.id);
+    }
+    setShowNotifications(false);
+    navigate(getNotificationLink(notification));
+  };
+
   return (
     <div className="w-64 bg-[#1E4D3A] dark:bg-gray-900 flex flex-col">
       <div className="p-6 flex items-center justify-between">
@@ -43,9 +57,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem }) => {
           <button 
             onClick={() => setShowNotifications(!showNotifications)}
             className="p-1.5 text-[#577B92] hover:text-[#F5F5F2] transition-colors relative"
+            aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
           >
             <Bell size={18} />
-            <span className="absolute top-0 right-0 w-2 h-2 bg-[#E86F2C] rounded-full"></span>
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 bg-[#E86F2C] text-white text-[10px] leading-4 font-semibold rounded-full text-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
           </button>
         </div>
       </div>
@@ -132,44 +151,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activeItem }) => {
       
       {/* Notification Panel */}
       {showNotifications && (
-        <div className="absolute left-64 top-16 w-72 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
-          <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
-            <h3 className="font-medium text-gray-800 dark:text-gray-200">Notifications</h3>
-            <button className="text-xs text-[#E86F2C] hover:underline">Mark all as read</button>
-          </div>
-          <div className="max-h-80 overflow-y-auto">
-            <div className="p-3 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700">
-              <div className="flex items-start">
-                <div className="w-2 h-2 mt-1.5 bg-[#E86F2C] rounded-full mr-2"></div>
-                <div>
-                  <p className="text-sm text-gray-800 dark:text-gray-200">John commented on your script</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">2 hours ago</p>
-                </div>
-              </div>
-            </div>
-            <div className="p-3 border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700">
-              <div className="flex items-start">
-                <div className="w-2 h-2 mt-1.5 bg-[#E86F2C] rounded-full mr-2"></div>
-                <div>
-                  <p className="text-sm text-gray-800 dark:text-gray-200">Emma invited you to collaborate</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Yesterday</p>
-                </div>
-              </div>
-            </div>
-            <div className="p-3 hover:bg-gray-50 dark:hover:bg-gray-700">
-              <div className="flex items-start">
-                <div className="w-2 h-2 mt-1.5 bg-transparent rounded-full mr-2"></div>
-                <div>
-                  <p className="text-sm text-gray-800 dark:text-gray-200">Your script was exported successfully</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">3 days ago</p>
-                </div>
-              </div>
-            </div>
-          </div>
-          <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-center">
-            <button className="text-sm text-[#E86F2C] hover:underline">View all notifications</button>
-          </div>
-        </div>
+        <NotificationInbox
+          notifications={notifications}
+          unreadCount={unreadCount}
+          loading={loading}
+          error={error}
+          onOpen={handleOpenNotification}
+          onMarkAllRead={markAllRead}
+        />
       )}
     </div>
   );
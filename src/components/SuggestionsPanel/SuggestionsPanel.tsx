@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { CheckCheck, X } from 'lucide-react';
+import SuggestionMarks from '../ScreenplayEditor/SuggestionMarks';
+import { findStaleSuggestionIds, groupSuggestionsByScene } from '../../utils/editSuggestions';
+import type { Block } from '../../types';
+import type { EditSuggestion } from '../../types/screenplay';
+
+interface SuggestionsPanelProps {
+  blocks: Block[];
+  suggestions: EditSuggestion[];
+  currentUserId?: string;
+  isSuggesting: boolean;
+  onAccept?: (suggestions: EditSuggestion[]) => void; // Only passed to writers who may change the script
+  onReject: (suggestions: EditSuggestion[]) => void;
+  onSelectBlock: (blockId: string) => void;
+}
+
+const SuggestionsPanel: React.FC<SuggestionsPanelProps> = ({
+  blocks,
+  suggestions,
+  currentUserId,
+  isSuggesting,
+  onAccept,
+  onReject,
+  onSelectBlock
+}) => {
+  const groups = useMemo(() => groupSuggestionsByScene(blocks, suggestions), [blocks, suggestions]);
+  const staleIds = useMemo(() => findStaleSuggestionIds(blocks, suggestions), [blocks, suggestions]);
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="p-4 text-center py-8 text-gray-500 dark:text-gray-400">
+        {isSuggesting
+          ? 'No pending suggestions. Click a line in the script to suggest an edit.'
+          : 'No pending suggestions. Turn on suggestion mode to propose edits without changing the script.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4">
+      {groups.map(group => {
+        const acceptable = group.suggestions.filter(suggestion => !staleIds.has(suggestion.id));
+        return (
+          <div key={group.sceneId || 'deleted'}>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-[#1E4D3A] dark:text-gray-200 truncate">
+                {group.heading}
+              </h3>
+              {onAccept && (
+                <div className="flex items-center space-x-1 shrink-0 ml-2">
+                  <button
+                    onClick={() => onAccept(acceptable)}
+                    disabled={acceptable.length === 0}
+                    className="flex items-center px-2 py-0.5 text-xs rounded text-green-700 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/40 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Accept all suggestions in this scene"
+                  >
+                    <CheckCheck size={12} className="mr-1" />
+                    Accept all
+                  </button>
+                  <button
+                    onClick={() => onReject(group.suggestions)}
+                    className="flex items-center px-2 py-0.5 text-xs rounded text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40"
+                    title="Reject all suggestions in this scene"
+                  >
+                    <X size={12} className="mr-1" />
+                    Reject all
+                  </button>
+                </div>
+              )}
+            </div>
+            <SuggestionMarks
+              suggestions={group.suggestions}
+              staleIds={staleIds}
+              currentUserId={currentUserId}
+              onAccept={onAccept}
+              onReject={onReject}
+              onSelect={(suggestion) => onSelectBlock(suggestion.blockId)}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SuggestionsPanel;
@@ -1,72 +1,111 @@
 import React from 'react';
-import type { CollaboratorCursor } from '../../types';
+import type { CollaboratorCursor, SelectionPoint } from '../../types/screenplay';
 
 interface CollaboratorCursorsProps {
   cursors: CollaboratorCursor[];
   blockRefs: React.MutableRefObject<Record<string, HTMLDivElement | null>>;
+  containerRef: React.RefObject<HTMLDivElement>; // Positioned element the overlay is drawn in
+  scale?: number; // Zoom applied to the container
 }
 
+// Finds the text node and offset for a character offset in a block
+const resolvePoint = (
+  blockRefs: CollaboratorCursorsProps['blockRefs'],
+  point: SelectionPoint
+): { node: Node; offset: number } | null => {
+  const block = blockRefs.current[point.blockId];
+  if (!block) return null;
+
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  let remaining = point.offset;
+  let node = walker.nextNode();
+  while (node) {
+    const length = node.textContent?.length || 0;
+    if (remaining <= length) return { node, offset: remaining };
+    remaining -= length;
+    node = walker.nextNode();
+  }
+  return { node: block, offset: block.childNodes.length };
+};
+
 const CollaboratorCursors: React.FC<CollaboratorCursorsProps> = ({
   cursors,
-  blockRefs
+  blockRefs,
+  containerRef,
+  scale = 1
 }) => {
+  const container = containerRef.current;
+  if (!container) return null;
+  const containerRect = container.getBoundingClientRect();
+
+  const toOverlay = (rect: DOMRect) => ({
+    left: (rect.left - containerRect.left) / scale,
+    top: (rect.top - containerRect.top) / scale,
+    width: rect.width / scale,
+    height: rect.height / scale
+  });
+
   return (
-    <>
+    <div className="absolute inset-0 pointer-events-none z-10">
       {cursors.map((cursor) => {
-        const block = blockRefs.current[cursor.position.blockId];
-        if (!block) return null;
-
-        const blockRect = block.getBoundingClientRect();
-        const range = document.createRange();
-        const textNode = block.firstChild || block;
+        if (!cursor.position) return null;
+        const caret = resolvePoint(blockRefs, cursor.position);
+        if (!caret) return null;
 
         try {
-          range.setStart(textNode, Math.min(cursor.position.offset, textNode.textContent?.length || 0));
-          const cursorRect = range.getBoundingClientRect();
+          const caretRange = document.createRange();
+          caretRange.setStart(caret.node, caret.offset);
+          const caretRect = toOverlay(caretRange.getBoundingClientRect());
+
+          let selectionRects: ReturnType<typeof toOverlay>[] = [];
+          if (cursor.selection) {
+            const start = resolvePoint(blockRefs, cursor.selection.start);
+            const end = resolvePoint(blockRefs, cursor.selection.end);
+            if (start && end) {
+              const selectionRange = document.createRange();
+              selectionRange.setStart(start.node, start.offset);
+              selectionRange.setEnd(end.node, end.offset);
+              selectionRects = Array.from(selectionRange.getClientRects()).map(toOverlay);
+            }
+          }
 
           return (
-            <div
-              key={cursor.userId}
-              className="absolute pointer-events-none"
-              style={{
-                left: cursorRect.left - blockRect.left,
-                top: cursorRect.top - blockRect.top,
-                height: cursorRect.height
-              }}
-            >
-              <div 
-                className="w-0.5 h-full animate-pulse"
-                style={{
-                  backgroundColor: `hsl(${hashCode(cursor.userId) % 360}, 70%, 50%)`
-                }}
-              />
-              <div 
-                className="absolute top-0 left-2 px-2 py-1 text-xs text-white rounded whitespace-nowrap"
+            <React.Fragment key={cursor.userId}>
+              {selectionRects.map((rect, index) => (
+                <div
+                  key={index}
+                  className="absolute opacity-25"
+                  style={{ ...rect, backgroundColor: cursor.color }}
+                />
+              ))}
+              <div
+                className="absolute"
                 style={{
-                  backgroundColor: `hsl(${hashCode(cursor.userId) % 360}, 70%, 50%)`
+                  left: caretRect.left,
+                  top: caretRect.top,
+                  height: caretRect.height || 16
                 }}
               >
-                {cursor.userId}
+                <div
+                  className="w-0.5 h-full"
+                  style={{ backgroundColor: cursor.color }}
+                />
+                <div
+                  className="absolute bottom-full left-0 px-1.5 py-0.5 text-xs text-white rounded whitespace-nowrap"
+                  style={{ backgroundColor: cursor.color }}
+                >
+                  {cursor.userName}
+                </div>
               </div>
-            </div>
+            </React.Fragment>
           );
         } catch (err) {
           console.error('Failed to render cursor:', err);
           return null;
         }
       })}
-    </>
+    </div>
   );
 };
 
-// Simple hash function for consistent colors
-const hashCode = (str: string): number => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    hash = ((hash << 5) - hash) + str.charCodeAt(i);
-    hash = hash & hash;
-  }
-  return Math.abs(hash);
-};
-
-export default CollaboratorCursors;
\ No newline at end of file
+export default CollaboratorCursors;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GitCompare, X, ArrowRight } from 'lucide-react';
+import { diffBlocks, summarizeSceneChanges } from '../../utils/screenplayDiff';
+import type { BlockDiff, WordDiffPart } from '../../utils/screenplayDiff';
+import type { Block } from '../../types';
+import type { ScreenplayVersion } from '../../types/screenplay';
+import type { ComparableScreenplay } from '../../hooks/useDraftComparison';
+
+// Draft sources are keyed 'current', 'version:<id>' or 'screenplay:<id>'
+const CURRENT_DRAFT = 'current';
+
+interface CompareDraftsPanelProps {
+  currentBlocks: Block[];
+  currentScreenplayId?: string;
+  versions: ScreenplayVersion[];
+  screenplays: ComparableScreenplay[];
+  initialVersionId?: string | null;
+  onLoadScreenplay: (screenplayId: string) => Promise<{ success: boolean; blocks?: Block[]; error?: string }>;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BlockDiff['status'], { old: string; new: string; label?: string }> = {
+  unchanged: { old: '', new: '' },
+  added: { old: '', new: 'bg-green-50 dark:bg-green-900/20 border-l-4 border-green-500', label: 'Added' },
+  removed: { old: 'bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500', new: '', label: 'Removed' },
+  modified: {
+    old: 'bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-500',
+    new: 'bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-500',
+    label: 'Modified'
+  },
+  moved: {
+    old: 'bg-blue-50 dark:bg-blue-900/20 border-l-4 border-blue-500',
+    new: 'bg-blue-50 dark:bg-blue-900/20 border-l-4 border-blue-500',
+    label: 'Moved'
+  }
+};
+
+const BLOCK_TYPE_STYLES: Record<string, string> = {
+  'scene-heading': 'font-bold uppercase',
+  character: 'uppercase pl-[35%]',
+  parenthetical: 'italic pl-[28%]',
+  dialogue: 'pl-[20%] pr-[15%]',
+  transition: 'uppercase text-right'
+};
+
+/**
+ * Renders one side of a block, highlighting the words only that side has
+ */
+const BlockText: React.FC<{ block: Block; words?: WordDiffPart[]; side: 'old' | 'new' }> = ({ block, words, side }) => {
+  const hiddenType = side === 'old' ? 'added' : 'removed';
+  return (
+    <div className={`font-mono text-sm whitespace-pre-wrap ${BLOCK_TYPE_STYLES[block.type] || ''} ${block.omitted ? 'opacity-60' : ''}`}>
+      {words
+        ? words
+            .filter(part => part.type !== hiddenType)
+            .map((part, index) => (
+              <span
+                key={index}
+                className={
+                  part.type === 'removed'
+                    ? 'bg-red-200 dark:bg-red-800/60 line-through'
+                    : part.type === 'added'
+                      ? 'bg-green-200 dark:bg-green-800/60'
+                      : undefined
+                }
+              >
+                {part.text}
+              </span>
+            ))
+        : block.content}
+    </div>
+  );
+};
+
+const CompareDraftsPanel: React.FC<CompareDraftsPanelProps> = ({
+  currentBlocks,
+  currentScreenplayId,
+  versions,
+  screenplays,
+  initialVersionId,
+  onLoadScreenplay,
+  onClose
+}) => {
+  const [oldSource, setOldSource] = useState(() => {
+    const version = versions.find(v => v.id === initialVersionId) || versions[0];
+    return version ? `version:${version.id}` : CURRENT_DRAFT;
+  });
+  const [newSource, setNewSource] = useState(CURRENT_DRAFT);
+  const [oldBlocks, setOldBlocks] = useState<Block[] | null>(null);
+  const [newBlocks, setNewBlocks] = useState<Block[] | null>(null);
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolve both sources whenever the selection changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolveSource = async (source: string): Promise<Block[] | null> => {
+      if (source === CURRENT_DRAFT) return currentBlocks;
+      if (source.startsWith('version:')) {
+        const version = versions.find(v => v.id === source.slice('version:'.length));
+        return version ? version.blocks : null;
+      }
+      const result = await onLoadScreenplay(source.slice('screenplay:'.length));
+      return result.success && result.blocks ? result.blocks : null;
+    };
+
+    const loadSources = async () => {
+      setError(null);
+      const [resolvedOld, resolvedNew] = await Promise.all([resolveSource(oldSource), resolveSource(newSource)]);
+      if (cancelled) return;
+      if (!resolvedOld || !resolvedNew) {
+        setError('Failed to load one of the drafts');
+      }
+      setOldBlocks(resolvedOld);
+      setNewBlocks(resolvedNew);
+    };
+
+    loadSources();
+    return () => {
+      cancelled = true;
+    };
+  }, [oldSource, newSource, currentBlocks, versions, onLoadScreenplay]);
+
+  const diff = useMemo(() => {
+    return oldBlocks && newBlocks ? diffBlocks(oldBlocks, newBlocks) : [];
+  }, [oldBlocks, newBlocks]);
+
+  const sceneSummaries = useMemo(() => summarizeSceneChanges(diff), [diff]);
+
+  const visibleRows = changesOnly ? diff.filter(entry => entry.status !== 'unchanged') : diff;
+
+  const scrollToScene = (sceneId: string | null) => {
+    document.getElementById(`compare-scene-${sceneId ?? 'start'}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const renderSourceSelect = (value: string, onChange: (source: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-100 border-none rounded-lg focus:ring-2 focus:ring-[#E86F2C] max-w-xs"
+    >
+      <option value={CURRENT_DRAFT}>Current Draft</option>
+      {versions.length > 0 && (
+        <optgroup label="Versions">
+          {versions.map(version => (
+            <option key={version.id} value={`version:${version.id}`}>{version.name}</option>
+          ))}
+        </optgroup>
+      )}
+      {screenplays.some(screenplay => screenplay.id !== currentScreenplayId) && (
+        <optgroup label="Screenplays in this project">
+          {screenplays
+            .filter(screenplay => screenplay.id !== currentScreenplayId)
+            .map(screenplay => (
+              <option key={screenplay.id} value={`screenplay:${screenplay.id}`}>{screenplay.title}</option>
+            ))}
+        </optgroup>
+      )}
+    </select>
+  );
+
+  // First row of each scene is the scroll target of its summary entry
+  const seenScenes = new Set<string>();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg max-w-7xl w-full mx-4 h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center text-[#1E4D3A] dark:text-white">
+            <GitCompare size={20} className="mr-2" />
+            <h3 className="text-lg font-semibold">Compare Drafts</h3>
+          </div>
+          <div className="flex items-center space-x-3">
+            {renderSourceSelect(oldSource, setOldSource)}
+            <ArrowRight size={16} className="text-gray-400" />
+            {renderSourceSelect(newSource, setNewSource)}
+            <label className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={changesOnly}
+                onChange={(e) => setChangesOnly(e.target.checked)}
+                className="mr-2 rounded text-[#E86F2C] focus:ring-[#E86F2C]"
+              />
+              Changes only
+            </label>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Per-scene change summary */}
+          <div className="w-72 border-r border-gray-200 dark:border-gray-700 overflow-y-auto p-2">
+            {sceneSummaries.length === 0 ? (
+              <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                {oldBlocks && newBlocks ? 'No differences between these drafts.' : 'Loading drafts...'}
+              </p>
+            ) : (
+              sceneSummaries.map(summary => (
+                <button
+                  key={summary.sceneId ?? 'start'}
+                  onClick={() => scrollToScene(summary.sceneId)}
+                  className="w-full text-left px-3 py-2 mb-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <span className="block text-sm font-medium text-gray-800 dark:text-gray-100 truncate uppercase">
+                    {summary.heading}
+                  </span>
+                  <span className="flex flex-wrap gap-x-2 text-xs">
+                    {summary.added > 0 && <span className="text-green-600 dark:text-green-400">+{summary.added} added</span>}
+                    {summary.removed > 0 && <span className="text-red-600 dark:text-red-400">-{summary.removed} removed</span>}
+                    {summary.modified > 0 && <span className="text-yellow-600 dark:text-yellow-400">{summary.modified} modified</span>}
+                    {summary.moved > 0 && <span className="text-blue-600 dark:text-blue-400">{summary.moved} moved</span>}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Side-by-side blocks */}
+          <div className="flex-1 overflow-y-auto min-w-0">
+            {visibleRows.map((entry, index) => {
+              const styles = STATUS_STYLES[entry.status];
+              const sceneKey = entry.sceneId ?? 'start';
+              const isSceneStart = !seenScenes.has(sceneKey);
+              seenScenes.add(sceneKey);
+
+              return (
+                <div
+                  key={`${entry.oldBlock?.id}-${entry.newBlock?.id}-${index}`}
+                  id={isSceneStart ? `compare-scene-${sceneKey}` : undefined}
+                  className="grid grid-cols-2 border-b border-gray-100 dark:border-gray-800"
+                >
+                  <div className={`px-4 py-2 text-gray-800 dark:text-gray-200 ${entry.oldBlock ? styles.old : ''}`}>
+                    {entry.oldBlock && <BlockText block={entry.oldBlock} words={entry.words} side="old" />}
+                  </div>
+                  <div className={`relative px-4 py-2 text-gray-800 dark:text-gray-200 border-l border-gray-200 dark:border-gray-700 ${entry.newBlock ? styles.new : ''}`}>
+                    {entry.newBlock && <BlockText block={entry.newBlock} words={entry.words} side="new" />}
+                    {styles.label && (
+                      <span className="absolute top-1 right-2 text-[10px] uppercase tracking-wide text-gray-400">
+                        {styles.label}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 border-t border-gray-200 dark:border-gray-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareDraftsPanel;
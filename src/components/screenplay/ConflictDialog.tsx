@@ -1,9 +1,9 @@
 import React from 'react';
 import { AlertTriangle, Check, X } from 'lucide-react';
-import type { SaveResult } from '../../types';
+import type { SaveConflict } from '../../types/screenplay';
 
 interface ConflictDialogProps {
-  conflicts: NonNullable<SaveResult['conflicts']>;
+  conflicts: SaveConflict[];
   onResolve: (action: 'overwrite' | 'merge' | 'cancel') => void;
 }
 
@@ -31,7 +31,7 @@ const ConflictDialog: React.FC<ConflictDialogProps> = ({
                 className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800"
               >
                 <p className="text-amber-800 dark:text-amber-200">
-                  Scene {index + 1} was modified by {conflict.userEmail} at{' '}
+                  {conflict.sceneHeading || `Scene ${index + 1}`} was modified by {conflict.userEmail} at{' '}
                   {conflict.timestamp.toDate().toLocaleTimeString()}
                 </p>
               </div>
@@ -1,11 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   X, FileText, Film, Info, Users, ChevronRight,
-  Check, AlertCircle, Loader2
+  Check, AlertCircle, Loader2, Upload
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useScreenplayCreation } from '../../hooks/useScreenplayCreation';
+import {
+  IMPORT_FILE_EXTENSIONS,
+  parseScreenplayFile,
+  type ImportedScreenplay
+} from '../../utils/importUtils';
 
 interface CreateScreenplayDialogProps {
   project: {
@@ -58,7 +63,11 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
   });
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [importedScreenplay, setImportedScreenplay] = useState<ImportedScreenplay | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { createScreenplay, createSeriesScreenplays } = useScreenplayCreation();
+  const isSeriesFormat = project.format === 'Series' || project.format === 'Micro Drama';
 
   useEffect(() => {
     if (!isOpen) {
@@ -73,9 +82,46 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
         season: 1,
         episode: 1
       });
+      setImportedScreenplay(null);
+      setImportFileName('');
     }
   }, [isOpen, project.title, user]);
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setError('');
+      const imported = await parseScreenplayFile(file);
+
+      if (imported.blocks.length === 0) {
+        throw new Error('No screenplay content found in file');
+      }
+
+      setImportedScreenplay(imported);
+      setImportFileName(file.name);
+      setFormData(prev => ({
+        ...prev,
+        title: imported.titlePage.title || prev.title,
+        author: imported.titlePage.author || prev.author
+      }));
+    } catch (err) {
+      console.error('Error importing screenplay file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import screenplay file.');
+    }
+  };
+
+  const handleClearImport = () => {
+    setImportedScreenplay(null);
+    setImportFileName('');
+  };
+
+  const importedSceneCount = importedScreenplay
+    ? importedScreenplay.blocks.filter(block => block.type === 'scene-heading').length
+    : 0;
+
   const handleGenreToggle = (genreId: string) => {
     setFormData(prev => {
       const genres = prev.genre.includes(genreId)
@@ -90,7 +136,7 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
       setIsSubmitting(true);
       setError('');
 
-      if (project.format === 'Series' || project.format === 'Micro Drama') {
+      if (isSeriesFormat) {
         // Create multiple screenplays for series
         const screenplayIds = await createSeriesScreenplays({
           projectId: project.id,
@@ -124,7 +170,11 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
             genre: formData.genre,
             author: formData.author
           },
-          collaborators: formData.collaborators
+          collaborators: formData.collaborators,
+          blocks: importedScreenplay?.blocks,
+          header: importedScreenplay
+            ? { ...importedScreenplay.titlePage, title: formData.title, author: formData.author }
+            : undefined
         });
         
         if (!screenplayId) {
@@ -240,7 +290,49 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
                 />
               </div>
 
-              {(project.format === 'Series' || project.format === 'Micro Drama') && (
+              {!isSeriesFormat && (
+                <div>
+                  <label className="block text-sm font-medium text-[#577B92] dark:text-gray-300 mb-1">
+                    Import from File
+                  </label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_FILE_EXTENSIONS.join(',')}
+                    onChange={handleImportFile}
+                    className="hidden"
+                  />
+                  {importedScreenplay ? (
+                    <div className="flex items-center justify-between px-4 py-3 rounded-lg border border-[#E86F2C]/50 bg-[#E86F2C]/10">
+                      <div className="flex items-center min-w-0">
+                        <FileText size={18} className="text-[#E86F2C] mr-3 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-[#1E4D3A] dark:text-white font-medium truncate">{importFileName}</p>
+                          <p className="text-sm text-[#577B92] dark:text-gray-400">
+                            {importedSceneCount} scenes, {importedScreenplay.blocks.length} blocks
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={handleClearImport}
+                        className="text-[#577B92] dark:text-gray-400 hover:text-[#1E4D3A] dark:hover:text-white ml-3"
+                      >
+                        <X size={18} />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="w-full px-4 py-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-[#577B92] dark:text-gray-400 hover:border-[#E86F2C]/50 hover:text-[#E86F2C] flex items-center justify-center transition-colors"
+                    >
+                      <Upload size={16} className="mr-2" />
+                      Import an existing screenplay ({IMPORT_FILE_EXTENSIONS.join(', ')})
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {isSeriesFormat && (
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-[#577B92] dark:text-gray-300 mb-1">
@@ -320,8 +412,10 @@ const CreateScreenplayDialog: React.FC<CreateScreenplayDialogProps> = ({
                 <div>
                   <p className="text-blue-800 dark:text-blue-200 font-medium">Ready to Create</p>
                   <p className="text-blue-700 dark:text-blue-300 text-sm mt-1">
-                    {project.format === 'Series' || project.format === 'Micro Drama'
+                    {isSeriesFormat
                       ? `This will create ${project.episodes} episode screenplays for your series.`
+                      : importedScreenplay
+                      ? `Your screenplay will be created with ${importedSceneCount} scenes imported from ${importFileName}.`
                       : 'Your screenplay will be created with an initial scene to get you started.'}
                   </p>
                 </div>
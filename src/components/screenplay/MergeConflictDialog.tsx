@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GitMerge, Check } from 'lucide-react';
+import type { Block } from '../../types';
+import type { BlockMergeConflict, MergeResolution } from '../../utils/sceneMerge';
+
+interface MergeConflictDialogProps {
+  conflicts: BlockMergeConflict[];
+  onResolve: (resolutions: Record<string, MergeResolution>) => void;
+  onCancel: () => void;
+}
+
+type Side = 'local' | 'remote';
+
+interface Choice {
+  side: Side;
+  content: string;
+}
+
+const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({
+  conflicts,
+  onResolve,
+  onCancel
+}) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const allResolved = conflicts.every(conflict => choices[conflict.blockId]);
+
+  const choose = (conflict: BlockMergeConflict, side: Side) => {
+    const block = conflict[side];
+    setChoices(prev => ({ ...prev, [conflict.blockId]: { side, content: block ? block.content : '' } }));
+  };
+
+  const handleResolve = () => {
+    const resolutions: Record<string, MergeResolution> = {};
+    conflicts.forEach(conflict => {
+      const choice = choices[conflict.blockId];
+      const block = conflict[choice.side];
+      resolutions[conflict.blockId] = block ? { ...block, content: choice.content } : null;
+    });
+    onResolve(resolutions);
+  };
+
+  const renderSide = (conflict: BlockMergeConflict, side: Side, label: string) => {
+    const block: Block | null = conflict[side];
+    const isChosen = choices[conflict.blockId]?.side === side;
+
+    return (
+      <button
+        onClick={() => choose(conflict, side)}
+        className={`text-left p-3 rounded-lg border transition-colors ${
+          isChosen
+            ? 'border-[#E86F2C] bg-[#E86F2C]/10'
+            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+        }`}
+      >
+        <span className="flex items-center justify-between text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+          {label}
+          {isChosen && <Check size={14} className="text-[#E86F2C]" />}
+        </span>
+        {block ? (
+          <span className="block font-mono text-sm text-gray-800 dark:text-gray-100 whitespace-pre-wrap">
+            {block.content}
+          </span>
+        ) : (
+          <span className="block text-sm italic text-gray-500 dark:text-gray-400">Deleted</span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg max-w-3xl w-full mx-4 max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center text-[#1E4D3A] dark:text-white mb-2">
+            <GitMerge size={24} className="mr-2" />
+            <h3 className="text-xl font-semibold">Merge Changes</h3>
+          </div>
+          <p className="text-gray-600 dark:text-gray-300">
+            All other changes were merged. These blocks were changed by both of you. Pick a version for each, and edit it if needed.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {conflicts.map(conflict => {
+            const choice = choices[conflict.blockId];
+            const chosenBlock = choice ? conflict[choice.side] : null;
+            const type = (conflict.local || conflict.remote || conflict.base)?.type;
+
+            return (
+              <div key={conflict.blockId}>
+                <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                  {type?.replace('-', ' ')}
+                  {conflict.base && ` · was "${conflict.base.content}"`}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {renderSide(conflict, 'local', 'Your version')}
+                  {renderSide(conflict, 'remote', 'Their version')}
+                </div>
+                {choice && chosenBlock && (
+                  <textarea
+                    value={choice.content}
+                    onChange={(e) => {
+                      const content = e.target.value;
+                      setChoices(prev => ({ ...prev, [conflict.blockId]: { ...choice, content } }));
+                    }}
+                    rows={2}
+                    className="mt-2 w-full px-3 py-2 font-mono text-sm bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-100 border-none rounded-lg focus:ring-2 focus:ring-[#E86F2C]"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleResolve}
+            disabled={!allResolved}
+            className="px-4 py-2 bg-[#E86F2C] text-white rounded-lg hover:bg-[#E86F2C]/90 disabled:opacity-50 transition-colors"
+          >
+            Save Merged Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictDialog;
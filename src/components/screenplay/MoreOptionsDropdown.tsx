@@ -8,8 +8,14 @@ import {
   History, 
   Keyboard, 
   Info, 
-  Trash 
+  Trash,
+  Lock,
+  Hash,
+  BookLock,
+  GitCompare
 } from 'lucide-react';
+import type { ExportFormat } from '../../utils/exportUtils';
+import { getRevisionColor } from '../../utils/revisionUtils';
 
 interface MoreOptionsDropdownProps {
   documentTitle: string;
@@ -17,6 +23,15 @@ interface MoreOptionsDropdownProps {
   onClose: () => void;
   setShowKeyboardShortcuts: (show: boolean) => void;
   handlePrint: () => void;
+  handleExport?: (format: ExportFormat) => void;
+  revisionNumber?: number | null;
+  handleLockRevision?: () => void;
+  sceneNumbersLocked?: boolean;
+  handleToggleSceneNumberLock?: () => void;
+  pagesLocked?: boolean;
+  handleTogglePageLock?: () => void;
+  handleShowVersionHistory?: () => void;
+  handleShowCompare?: () => void;
 }
 
 const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
@@ -25,7 +40,18 @@ const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
   onClose,
   setShowKeyboardShortcuts,
   handlePrint,
+  handleExport,
+  revisionNumber = null,
+  handleLockRevision,
+  sceneNumbersLocked = false,
+  handleToggleSceneNumberLock,
+  pagesLocked = false,
+  handleTogglePageLock,
+  handleShowVersionHistory,
+  handleShowCompare,
 }) => {
+  const nextRevisionColor = getRevisionColor(revisionNumber === null ? 1 : revisionNumber + 1);
+
   return (
     <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
       <div className="py-1 divide-y divide-gray-200 dark:divide-gray-700">
@@ -77,7 +103,7 @@ const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
               <div className="py-1">
                 <button
                   onClick={() => {
-                    console.log('Export as PDF');
+                    handleExport?.('pdf');
                     onClose();
                   }}
                   className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -87,7 +113,27 @@ const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
                 </button>
                 <button
                   onClick={() => {
-                    console.log('Export as TXT');
+                    handleExport?.('fountain');
+                    onClose();
+                  }}
+                  className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <FileText size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
+                  Fountain
+                </button>
+                <button
+                  onClick={() => {
+                    handleExport?.('fdx');
+                    onClose();
+                  }}
+                  className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <FileText size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
+                  Final Draft
+                </button>
+                <button
+                  onClick={() => {
+                    handleExport?.('txt');
                     onClose();
                   }}
                   className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -114,9 +160,55 @@ const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
         
         {/* History and Info */}
         <div className="px-1 py-1">
+          {handleLockRevision && (
+            <button
+              onClick={() => {
+                handleLockRevision();
+                onClose();
+              }}
+              className="flex items-start w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              <Lock size={16} className="mr-3 mt-0.5 text-gray-500 dark:text-gray-400" />
+              <span>
+                <span className="block">
+                  {revisionNumber === null ? 'Lock Draft' : `Lock ${getRevisionColor(revisionNumber).name} Pages`}
+                </span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  New changes will be marked {nextRevisionColor.name}
+                </span>
+              </span>
+            </button>
+          )}
+
+          {handleToggleSceneNumberLock && (
+            <button
+              onClick={() => {
+                handleToggleSceneNumberLock();
+                onClose();
+              }}
+              className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              <Hash size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
+              {sceneNumbersLocked ? 'Unlock Scene Numbers' : 'Lock Scene Numbers'}
+            </button>
+          )}
+
+          {handleTogglePageLock && (
+            <button
+              onClick={() => {
+                handleTogglePageLock();
+                onClose();
+              }}
+              className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              <BookLock size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
+              {pagesLocked ? 'Unlock Pages' : 'Lock Pages'}
+            </button>
+          )}
+
           <button
             onClick={() => {
-              console.log('View version history');
+              handleShowVersionHistory?.();
               onClose();
             }}
             className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
@@ -124,6 +216,19 @@ const MoreOptionsDropdown: React.FC<MoreOptionsDropdownProps> = ({
             <History size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
             Version History
           </button>
+
+          {handleShowCompare && (
+            <button
+              onClick={() => {
+                handleShowCompare();
+                onClose();
+              }}
+              className="flex items-center w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              <GitCompare size={16} className="mr-3 text-gray-500 dark:text-gray-400" />
+              Compare Drafts
+            </button>
+          )}
           
           <button
             onClick={() => {
@@ -0,0 +1,56 @@
+import React from 'react';
+import { getInitials, getPresenceColor } from '../../utils/presence';
+import type { CollaboratorCursor } from '../../types/screenplay';
+
+const MAX_AVATARS = 4;
+
+interface PresenceAvatarsProps {
+  collaborators: CollaboratorCursor[];
+  currentUser?: { id: string; name: string };
+}
+
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({
+  collaborators,
+  currentUser
+}) => {
+  const people = [
+    ...(currentUser
+      ? [{ id: currentUser.id, name: currentUser.name, label: 'You', color: getPresenceColor(currentUser.id) }]
+      : []),
+    ...collaborators.map(cursor => ({
+      id: cursor.userId,
+      name: cursor.userName,
+      label: `${cursor.userName} · ${cursor.position ? 'Editing' : 'Viewing'}`,
+      color: cursor.color
+    }))
+  ];
+  const hidden = people.slice(MAX_AVATARS);
+
+  return (
+    <div className="flex -space-x-2">
+      {people.slice(0, MAX_AVATARS).map((person) => (
+        <div key={person.id} className="relative group">
+          <div
+            className="w-8 h-8 rounded-full border-2 border-white dark:border-gray-900 text-white text-xs font-semibold flex items-center justify-center"
+            style={{ backgroundColor: person.color }}
+          >
+            {getInitials(person.name)}
+          </div>
+          <span className="absolute top-10 right-0 w-max bg-[#1E4D3A] text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-50">
+            {person.label}
+          </span>
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          className="w-8 h-8 rounded-full border-2 border-white dark:border-gray-900 bg-gray-400 text-white text-xs font-semibold flex items-center justify-center"
+          title={hidden.map(person => person.name).join(', ')}
+        >
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -1,10 +1,14 @@
-import React from 'react';
-import { Save } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Save, WifiOff, UploadCloud, Check } from 'lucide-react';
+import { formatSavedAgo } from '../../utils/autosaveUtils';
 
 interface SaveButtonProps {
   onSave: () => void;
   isSaving: boolean;
   hasChanges: boolean;
+  isOffline?: boolean;
+  hasQueuedSave?: boolean; // A save is waiting in the offline queue
+  lastSavedAt?: Date | null;
   className?: string;
 }
 
@@ -12,50 +16,100 @@ const SaveButton: React.FC<SaveButtonProps> = ({
   onSave,
   isSaving,
   hasChanges,
+  isOffline = false,
+  hasQueuedSave = false,
+  lastSavedAt = null,
   className = ''
 }) => {
+  const [now, setNow] = useState(() => new Date());
+  const showSavedAgo = !!lastSavedAt && !hasChanges && !isSaving && !isOffline && !hasQueuedSave;
+
+  // Keep "Saved 12s ago" current
+  useEffect(() => {
+    if (!showSavedAgo) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [showSavedAgo]);
+
   // For use in the ScreenplayNavigator
   const isNavigatorButton = className === '';
-  
+  // A queued offline save can be synced even without new changes
+  const canSave = hasChanges || hasQueuedSave;
+
+  const label = isSaving
+    ? 'Saving…'
+    : isOffline
+      ? 'Offline'
+      : hasQueuedSave
+        ? 'Sync'
+        : showSavedAgo && lastSavedAt
+          ? formatSavedAgo(lastSavedAt, now)
+          : 'Save';
+  const title = isOffline
+    ? hasChanges
+      ? 'You are offline. Your changes are kept on this device and will be saved when you reconnect.'
+      : 'You are offline'
+    : hasQueuedSave
+      ? 'Changes made offline are waiting to be saved'
+      : showSavedAgo
+        ? label
+        : undefined;
+  const StatusIcon = isOffline ? WifiOff : hasQueuedSave ? UploadCloud : showSavedAgo ? Check : Save;
+
+  // Dot marking changes that only exist on this device
+  const pendingBadge = hasQueuedSave && (
+    <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-amber-400 border-2 border-white dark:border-gray-900" />
+  );
+
   if (isNavigatorButton) {
     return (
       <button
         onClick={onSave}
-        disabled={isSaving || !hasChanges}
-        className={`px-4 py-2 rounded-lg transition-all duration-200 flex items-center ${
-          hasChanges
-            ? 'bg-gradient-to-r from-[#2563eb] via-[#9333ea] to-[#db2777] text-white hover:opacity-90'
+        disabled={isSaving || !canSave}
+        title={title}
+        className={`relative px-4 py-2 rounded-lg transition-all duration-200 flex items-center ${
+          canSave
+            ? isOffline
+              ? 'bg-gray-500 text-white hover:opacity-90'
+              : 'bg-gradient-to-r from-[#2563eb] via-[#9333ea] to-[#db2777] text-white hover:opacity-90'
             : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500'
-        } ${!hasChanges ? 'opacity-50 cursor-not-allowed' : ''} ${className}`}
+        } ${!canSave ? 'opacity-50 cursor-not-allowed' : ''} ${className}`}
       >
         {isSaving ? (
           <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
         ) : (
-          <Save size={18} className="mr-2" />
+          <StatusIcon size={18} className="mr-2" />
         )}
-        <span>Save</span>
+        <span>{label}</span>
+        {pendingBadge}
       </button>
     );
   }
-  
+
   // For use as a floating button elsewhere
   return (
     <button
       onClick={onSave}
-      disabled={isSaving || !hasChanges}
+      disabled={isSaving || !canSave}
+      title={title}
       className={`fixed bottom-8 right-8 p-4 rounded-full shadow-lg transition-all duration-200 ${
-        hasChanges
-          ? 'bg-[#E86F2C] hover:bg-[#E86F2C]/90 text-white'
+        canSave
+          ? isOffline
+            ? 'bg-gray-500 hover:bg-gray-500/90 text-white'
+            : 'bg-[#E86F2C] hover:bg-[#E86F2C]/90 text-white'
           : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed'
       } ${className}`}
     >
       {isSaving ? (
         <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin" />
       ) : (
-        <Save size={24} />
+        <StatusIcon size={24} />
       )}
+      {pendingBadge}
     </button>
   );
 };
 
-export default SaveButton;
\ No newline at end of file
+export default SaveButton;
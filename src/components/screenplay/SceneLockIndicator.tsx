@@ -1,15 +1,17 @@
 import React from 'react';
-import { Lock, AlertCircle } from 'lucide-react';
-import type { SceneLock } from '../../types';
+import { Lock, AlertCircle, Unlock } from 'lucide-react';
+import type { SceneLock } from '../../types/screenplay';
 
 interface SceneLockIndicatorProps {
   lock: SceneLock;
   onRequestAccess?: () => void;
+  onBreakLock?: () => void; // Offered to owners once the lock is stale
 }
 
 const SceneLockIndicator: React.FC<SceneLockIndicatorProps> = ({
   lock,
-  onRequestAccess
+  onRequestAccess,
+  onBreakLock
 }) => {
   const timeLeft = Math.max(0, Math.floor(
     (lock.expires.toMillis() - Date.now()) / 1000 / 60
@@ -21,7 +23,7 @@ const SceneLockIndicator: React.FC<SceneLockIndicatorProps> = ({
       <div>
         <p className="font-medium">Scene Locked</p>
         <p className="text-sm">
-          Being edited by {lock.userId} ({timeLeft} min remaining)
+          Being edited by {lock.userName || lock.userId} ({timeLeft} min remaining)
         </p>
       </div>
       {onRequestAccess && (
@@ -33,6 +35,16 @@ const SceneLockIndicator: React.FC<SceneLockIndicatorProps> = ({
           Request Access
         </button>
       )}
+      {onBreakLock && (
+        <button
+          onClick={onBreakLock}
+          title="The writer has not edited this scene for a while"
+          className="ml-4 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors flex items-center"
+        >
+          <Unlock size={16} className="mr-2" />
+          Break Lock
+        </button>
+      )}
     </div>
   );
 };
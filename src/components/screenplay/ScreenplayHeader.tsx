@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, User } from 'lucide-react';
+import { ArrowLeft } from 'lucide-react';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import SaveButton from './SaveButton';
+import PresenceAvatars from './PresenceAvatars';
+import type { CollaboratorCursor } from '../../types/screenplay';
 
 interface ScreenplayHeaderProps {
   projectId: string | undefined;
@@ -13,6 +15,8 @@ interface ScreenplayHeaderProps {
   isSaving: boolean;
   hasChanges: boolean;
   isDarkMode: boolean;
+  collaborators?: CollaboratorCursor[]; // Other writers with the screenplay open
+  currentUser?: { id: string; name: string };
 }
 
 const ScreenplayHeader: React.FC<ScreenplayHeaderProps> = ({
@@ -23,6 +27,8 @@ const ScreenplayHeader: React.FC<ScreenplayHeaderProps> = ({
   isSaving,
   hasChanges,
   isDarkMode,
+  collaborators = [],
+  currentUser,
 }) => {
   const navigate = useNavigate();
   const [projectTitle, setProjectTitle] = useState('');
@@ -55,13 +61,6 @@ const ScreenplayHeader: React.FC<ScreenplayHeaderProps> = ({
     }
   };
 
-  // Mock collaborators data
-  const collaborators = [
-    { id: 3, name: 'Mike Johnson', isActive: true, color: 'bg-orange-500' },
-    { id: 2, name: 'Sarah Chen', isActive: true, color: 'bg-green-500' },
-    { id: 1, name: 'You', isActive: true, color: 'bg-blue-500' },
-  ];
-
   return (
     <div className="h-16 flex items-center border-b border-[#577B92]/20">
       {/* Left Section with Back Button, Logo and Title */}
@@ -112,18 +111,7 @@ const ScreenplayHeader: React.FC<ScreenplayHeaderProps> = ({
         />
         
         {/* Collaborators */}
-        <div className="flex -space-x-2">
-          {collaborators.map((user) => (
-            <div key={user.id} className="relative group">
-              <button className={`p-2 rounded-full ${user.color} text-white`}>
-                <User size={16} />
-              </button>
-              <span className="absolute top-10 right-0 w-max bg-[#1E4D3A] text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                {user.name}
-              </span>
-            </div>
-          ))}
-        </div>
+        <PresenceAvatars collaborators={collaborators} currentUser={currentUser} />
       </div>
     </div>
   );
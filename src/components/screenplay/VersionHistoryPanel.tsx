@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { History, X, Save, RotateCcw, GitBranch, GitCompare } from 'lucide-react';
+import { createScreenplayText } from '../../utils/textExport';
+import type { ScreenplayVersion } from '../../types/screenplay';
+
+interface VersionHistoryPanelProps {
+  versions: ScreenplayVersion[];
+  loading: boolean;
+  error?: string | null;
+  onClose: () => void;
+  onCreateVersion: (name: string) => Promise<void>;
+  onRestoreVersion: (version: ScreenplayVersion) => void;
+  onBranchVersion: (version: ScreenplayVersion) => void;
+  onCompareVersion?: (version: ScreenplayVersion) => void;
+}
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  versions,
+  loading,
+  error,
+  onClose,
+  onCreateVersion,
+  onRestoreVersion,
+  onBranchVersion,
+  onCompareVersion
+}) => {
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [versionName, setVersionName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedVersion = versions.find(version => version.id === selectedVersionId) || versions[0] || null;
+
+  // Preview the snapshot with the same page layout as the plain text export
+  const preview = useMemo(() => {
+    return selectedVersion ? createScreenplayText(selectedVersion.blocks) : '';
+  }, [selectedVersion]);
+
+  const handleCreateVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!versionName.trim() || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onCreateVersion(versionName.trim());
+      setVersionName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg max-w-5xl w-full mx-4 h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center text-[#1E4D3A] dark:text-white">
+            <History size={20} className="mr-2" />
+            <h3 className="text-lg font-semibold">Version History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Version list */}
+          <div className="w-72 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+            <form onSubmit={handleCreateVersion} className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <input
+                type="text"
+                value={versionName}
+                onChange={(e) => setVersionName(e.target.value)}
+                placeholder="Name this version, e.g. Table Read Draft"
+                className="w-full px-3 py-2 text-sm bg-gray-100 dark:bg-gray-800 border-none rounded-lg focus:ring-2 focus:ring-[#E86F2C] mb-2"
+              />
+              <button
+                type="submit"
+                disabled={!versionName.trim() || isSaving}
+                className="w-full px-3 py-2 text-sm bg-[#E86F2C] text-white rounded-lg hover:bg-[#E86F2C]/90 disabled:opacity-50 flex items-center justify-center"
+              >
+                <Save size={16} className="mr-2" />
+                {isSaving ? 'Saving...' : 'Save Current Version'}
+              </button>
+            </form>
+
+            <div className="flex-1 overflow-y-auto p-2">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="w-6 h-6 border-4 border-[#E86F2C] border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              ) : versions.length === 0 ? (
+                <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                  No saved versions yet.
+                </p>
+              ) : (
+                versions.map(version => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedVersionId(version.id)}
+                    className={`w-full text-left px-3 py-2 mb-1 rounded-lg ${
+                      version.id === selectedVersion?.id
+                        ? 'bg-[#E86F2C]/20 border-l-4 border-[#E86F2C]'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <span className="block text-sm font-medium text-gray-800 dark:text-gray-100 truncate">
+                      {version.name}
+                    </span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {version.created_at.toDate().toLocaleString()} · {version.scene_order.length} scenes
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selectedVersion ? (
+              <>
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                  <span className="font-medium text-gray-800 dark:text-gray-100 truncate">{selectedVersion.name}</span>
+                  <div className="flex space-x-2">
+                    {onCompareVersion && (
+                      <button
+                        onClick={() => onCompareVersion(selectedVersion)}
+                        className="px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 flex items-center"
+                      >
+                        <GitCompare size={16} className="mr-2" />
+                        Compare with Current
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onBranchVersion(selectedVersion)}
+                      className="px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 flex items-center"
+                    >
+                      <GitBranch size={16} className="mr-2" />
+                      Branch a Copy
+                    </button>
+                    <button
+                      onClick={() => onRestoreVersion(selectedVersion)}
+                      className="px-3 py-1.5 text-sm bg-[#1E4D3A] text-white rounded-lg hover:bg-[#1E4D3A]/90 flex items-center"
+                    >
+                      <RotateCcw size={16} className="mr-2" />
+                      Restore
+                    </button>
+                  </div>
+                </div>
+                <pre className="flex-1 overflow-auto p-6 font-mono text-xs leading-snug text-gray-800 dark:text-gray-200 bg-gray-50 dark:bg-gray-800 whitespace-pre">
+                  {preview.replace(/\f/g, '\n')}
+                </pre>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                Save a version to see it here.
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 text-sm text-red-600 dark:text-red-400 border-t border-gray-200 dark:border-gray-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -185,6 +185,7 @@ const translations = {
     'editor_instruction': 'Press Tab to cycle through formats, Enter to create new blocks following screenplay rules',
     'click_to_edit_header': 'Click to edit header',
     'click_to_edit_footer': 'Click to edit footer',
+    'page': 'Page',
     
     // Scene Types
     'interior_scene': 'Interior scene',
@@ -410,6 +411,7 @@ const translations = {
     'editor_instruction': 'กด Tab เพื่อสลับรูปแบบ, Enter เพื่อสร้างบล็อกใหม่ตามกฎของบทภาพยนตร์',
     'click_to_edit_header': 'คลิกเพื่อแก้ไขส่วนหัว',
     'click_to_edit_footer': 'คลิกเพื่อแก้ไขส่วนท้าย',
+    'page': 'หน้า',
     
     // Scene Types
     'interior_scene': 'ฉากภายในอาคาร',
@@ -635,6 +637,7 @@ const translations = {
     'editor_instruction': '按Tab键循环格式，按Enter键按照剧本规则创建新块',
     'click_to_edit_header': '点击编辑页眉',
     'click_to_edit_footer': '点击编辑页脚',
+    'page': '页',
     
     // Scene Types
     'interior_scene': '室内场景',
@@ -0,0 +1,141 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useBlocker } from 'react-router-dom';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import {
+  DEFAULT_AUTOSAVE_SETTINGS,
+  normalizeAutosaveSettings,
+  shouldSaveAfterEdits,
+  type AutosaveSettings
+} from '../utils/autosaveUtils';
+import type { Block } from '../types';
+import type { SaveConflict, SaveResult } from '../types/screenplay';
+
+const LEAVE_WARNING = 'You have unsaved changes. Leave without saving?';
+
+interface UseAutosaveOptions {
+  blocks: Block[];
+  editCount: number; // Edits made in this editor; merges and renumbering do not count
+  hasChanges: boolean;
+  isSaving: boolean;
+  paused?: boolean; // e.g. while scenes are being reordered or a conflict is open
+  onSave: () => Promise<SaveResult>;
+  onConflicts?: (conflicts: SaveConflict[]) => void; // Shows conflicts found by an autosave
+}
+
+/**
+ * Saves after the writer pauses or after a number of edits, using the
+ * intervals from their account settings, and warns before leaving with
+ * unsaved changes
+ * @param userId The current user
+ * @param options The blocks, save state and save function
+ * @returns The autosave settings
+ */
+export const useAutosave = (
+  userId: string | undefined,
+  { blocks, editCount, hasChanges, isSaving, paused = false, onSave, onConflicts }: UseAutosaveOptions
+) => {
+  const [settings, setSettings] = useState<AutosaveSettings>(DEFAULT_AUTOSAVE_SETTINGS);
+  const editsSinceSaveRef = useRef(0);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+  const onConflictsRef = useRef(onConflicts);
+  onConflictsRef.current = onConflicts;
+
+  // Load the writer's intervals
+  useEffect(() => {
+    const fetchSettings = async () => {
+      if (!userId) return;
+
+      try {
+        const settingsSnap = await getDoc(doc(db, 'account_settings', userId));
+        setSettings(normalizeAutosaveSettings(settingsSnap.exists() ? settingsSnap.data() : undefined));
+      } catch (err) {
+        console.error('Error fetching autosave settings:', err);
+      }
+    };
+
+    fetchSettings();
+  }, [userId]);
+
+  const runAutosave = useCallback(async (reason: string) => {
+    editsSinceSaveRef.current = 0;
+    console.log(`Autosave triggered ${reason}`);
+    try {
+      const result = await onSaveRef.current();
+      if (result.conflicts && onConflictsRef.current) {
+        onConflictsRef.current(result.conflicts);
+      } else if (!result.success && !result.offline) {
+        console.error('Autosave failed:', result.error);
+      }
+    } catch (err) {
+      console.error('Autosave failed:', err);
+    }
+  }, []);
+
+  // Start counting edits again after each save
+  useEffect(() => {
+    if (!hasChanges) {
+      editsSinceSaveRef.current = 0;
+    }
+  }, [hasChanges]);
+
+  // Count edits and save once the writer's edit limit is reached. Only new
+  // edits count, so the save state is read through a ref.
+  const latestRef = useRef({ settings, blocked: paused || isSaving });
+  latestRef.current = { settings, blocked: paused || isSaving };
+
+  useEffect(() => {
+    if (editCount === 0 || latestRef.current.blocked) return;
+
+    editsSinceSaveRef.current++;
+    if (shouldSaveAfterEdits(editsSinceSaveRef.current, latestRef.current.settings)) {
+      runAutosave(`after ${editsSinceSaveRef.current} edits`);
+    }
+  }, [editCount, runAutosave]);
+
+  // Save after a pause in editing
+  const isEmpty = blocks.length === 0;
+
+  useEffect(() => {
+    if (!hasChanges || paused || isEmpty || settings.autosaveIdleSeconds === 0) return;
+
+    const timer = setTimeout(() => {
+      runAutosave(`after ${settings.autosaveIdleSeconds}s of inactivity`);
+    }, settings.autosaveIdleSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [editCount, hasChanges, paused, isEmpty, settings.autosaveIdleSeconds, runAutosave]);
+
+  // Warn before closing or reloading the tab with unsaved changes
+  useEffect(() => {
+    if (!hasChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasChanges]);
+
+  // Ask before any route change away from unsaved changes, including the
+  // browser's back button
+  const blocker = useBlocker(({ currentLocation, nextLocation }) =>
+    hasChanges && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') return;
+
+    if (window.confirm(LEAVE_WARNING)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker]);
+
+  return {
+    autosaveSettings: settings
+  };
+};
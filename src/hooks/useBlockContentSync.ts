@@ -14,6 +14,7 @@ interface UseBlockContentSyncProps {
   projectId?: string;
   screenplayId?: string;
   onSceneHeadingUpdate?: () => Promise<void>;
+  onContentEdited?: (blockId: string, oldContent: string, newContent: string) => void; // newContent is empty when the block is deleted
 }
 
 export const useBlockContentSync = ({
@@ -24,7 +25,8 @@ export const useBlockContentSync = ({
   blockRefs,
   projectId,
   screenplayId,
-  onSceneHeadingUpdate
+  onSceneHeadingUpdate,
+  onContentEdited
 }: UseBlockContentSyncProps) => {
   /**
    * Helper function to check if text is a prefix-only entry
@@ -84,6 +86,7 @@ export const useBlockContentSync = ({
 
     if (newContent.trim() === '' && blocks.length > 1 && !forcedType) {
       addToHistory?.(blocks);
+      onContentEdited?.(id, currentBlock.content, '');
       const updatedBlocks = blocks.filter((_, index) => index !== currentBlockIndex);
       updateBlocks(updatedBlocks);
       if (setHasChanges) {
@@ -96,6 +99,9 @@ export const useBlockContentSync = ({
     if (setHasChanges) {
       setHasChanges(true);
     }
+    if (newContent !== currentBlock.content) {
+      onContentEdited?.(id, currentBlock.content, newContent);
+    }
 
     let updatedBlocks = [...blocks];
     let blockToFocusId: string | null = null;
@@ -200,7 +206,7 @@ export const useBlockContentSync = ({
         }
       }, 0);
     }
-  }, [blocks, addToHistory, updateBlocks, setHasChanges, blockRefs, projectId, screenplayId, onSceneHeadingUpdate, isPrefixOnly, countSceneHeadingsInEditor]);
+  }, [blocks, addToHistory, updateBlocks, setHasChanges, blockRefs, projectId, screenplayId, onSceneHeadingUpdate, onContentEdited, isPrefixOnly, countSceneHeadingsInEditor]);
 
   return {
     handleContentChange
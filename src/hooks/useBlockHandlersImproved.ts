@@ -24,6 +24,7 @@ interface UseBlockHandlersImprovedProps {
   projectId?: string;
   screenplayId?: string;
   onSceneHeadingUpdate?: () => Promise<void>;
+  onContentEdited?: (blockId: string, oldContent: string, newContent: string) => void;
 }
 
 export const useBlockHandlersImproved = (
@@ -39,7 +40,8 @@ export const useBlockHandlersImproved = (
     setHasChanges,
     projectId,
     screenplayId,
-    onSceneHeadingUpdate
+    onSceneHeadingUpdate,
+    onContentEdited
   }: UseBlockHandlersImprovedProps
 ): BlockHandlers => {
   // Initialize focus management
@@ -130,7 +132,8 @@ export const useBlockHandlersImproved = (
     blockRefs,
     projectId,
     screenplayId,
-    onSceneHeadingUpdate
+    onSceneHeadingUpdate,
+    onContentEdited
   });
 
   // Initialize keyboard input handling
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import {
+  doc,
+  getDoc,
+  collection,
+  onSnapshot,
+  query,
+  orderBy,
+  limit
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import type { ChangeHistory } from '../types/screenplay';
+
+// Number of most recent entries kept in the feed
+const HISTORY_LIMIT = 200;
+
+export const useChangeHistory = (
+  projectId: string | undefined,
+  screenplayId: string | undefined
+) => {
+  const [changes, setChanges] = useState<ChangeHistory[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest changes first
+  useEffect(() => {
+    if (!projectId || !screenplayId) {
+      setLoading(false);
+      return;
+    }
+
+    const historyRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/history`);
+    const unsubscribe = onSnapshot(
+      query(historyRef, orderBy('timestamp', 'desc'), limit(HISTORY_LIMIT)),
+      (snapshot) => {
+        setChanges(snapshot.docs.map(changeDoc => changeDoc.data() as ChangeHistory));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading change history:', err);
+        setError('Failed to load activity');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [projectId, screenplayId]);
+
+  // Resolve display names of authors not seen yet
+  useEffect(() => {
+    const missingUserIds = Array.from(new Set(changes.map(change => change.userId)))
+      .filter(userId => userId && !(userId in userNames));
+    if (missingUserIds.length === 0) return;
+
+    const fetchUserNames = async () => {
+      const names: Record<string, string> = {};
+      await Promise.all(missingUserIds.map(async (userId) => {
+        try {
+          const userSnap = await getDoc(doc(db, 'users', userId));
+          const data = userSnap.exists() ? userSnap.data() : null;
+          names[userId] = data
+            ? (data.firstName && data.lastName ? `${data.firstName} ${data.lastName}` : data.nickname || data.email)
+            : 'Unknown user';
+        } catch (err) {
+          console.error('Error fetching user profile:', err);
+          names[userId] = 'Unknown user';
+        }
+      }));
+      setUserNames(prev => ({ ...prev, ...names }));
+    };
+
+    fetchUserNames();
+  }, [changes, userNames]);
+
+  return {
+    changes,
+    userNames,
+    loading,
+    error
+  };
+};
@@ -5,21 +5,26 @@ import {
   where, 
   getDocs, 
   doc, 
+  getDoc,
   setDoc, 
   updateDoc, 
   deleteDoc, 
   serverTimestamp,
   Timestamp,
-  writeBatch
+  writeBatch,
+  runTransaction
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
-import { Block, CharacterDocument } from '../types';
+import { Block, CharacterDocument, CharacterRename, CharacterRenameScene, SceneDocument } from '../types';
+import { renameCharacterInBlocks } from '../utils/characterRename';
 
 interface UseCharacterTrackingProps {
   projectId: string | undefined;
   screenplayId: string | null;
   blocks: Block[];
   userId: string;
+  // Called after a rename rewrote scenes of this screenplay, so the open blocks can follow
+  onCharacterRenamed?: (change: { from: string; to: string; scenes: SceneDocument[] }) => void;
 }
 
 interface CharacterMap {
@@ -33,13 +38,15 @@ export const useCharacterTracking = ({
   projectId,
   screenplayId,
   blocks,
-  userId
+  userId,
+  onCharacterRenamed
 }: UseCharacterTrackingProps) => {
   const [characters, setCharacters] = useState<CharacterDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [characterMap, setCharacterMap] = useState<CharacterMap>({});
   const [processingCharacters, setProcessingCharacters] = useState<Set<string>>(new Set());
+  const [lastRename, setLastRename] = useState<CharacterRename | null>(null);
 
   // Generate a clean, sequential character ID
   const generateCharacterId = useCallback((): string => {
@@ -309,7 +316,180 @@ export const useCharacterTracking = ({
     }
   }, [projectId]);
 
-  // Rename a character
+  // Check a new character name and find the character it belongs to
+  const validateRename = useCallback((
+    characterId: string,
+    newName: string
+  ): { character?: CharacterDocument; name?: string; error?: string } => {
+    const character = characters.find(c => c.id === characterId);
+    if (!character) {
+      return { error: `Character with ID ${characterId} not found` };
+    }
+
+    const normalizedNewName = newName.trim();
+    if (!normalizedNewName) {
+      return { error: 'New character name cannot be empty' };
+    }
+
+    const existing = characterMap[normalizedNewName.toUpperCase()];
+    if (existing && existing.id !== characterId) {
+      return { error: `Character with name "${normalizedNewName}" already exists` };
+    }
+
+    return { character, name: normalizedNewName };
+  }, [characters, characterMap]);
+
+  /**
+   * Finds the scenes whose cues a rename would change, in every screenplay
+   * the character appears in
+   * @param characterId The character to rename
+   * @param newName The new name
+   * @returns The rename with its affected scenes
+   */
+  const previewCharacterRename = useCallback(async (
+    characterId: string,
+    newName: string
+  ): Promise<{ success: boolean; rename?: CharacterRename; error?: string }> => {
+    if (!projectId) {
+      return { success: false, error: 'Project ID is required' };
+    }
+
+    const { character, name, error: validationError } = validateRename(characterId, newName);
+    if (!character || !name) {
+      return { success: false, error: validationError };
+    }
+
+    try {
+      const screenplayScenes = await Promise.all((character.screenplayIds || []).map(async (id) => {
+        const [screenplaySnap, scenesSnap] = await Promise.all([
+          getDoc(doc(db, `projects/${projectId}/screenplays`, id)),
+          getDocs(collection(db, `projects/${projectId}/screenplays/${id}/scenes`))
+        ]);
+        const screenplayTitle = screenplaySnap.exists() ? screenplaySnap.data().title : 'Untitled Screenplay';
+
+        return scenesSnap.docs
+          .map(sceneDoc => ({ ...sceneDoc.data(), id: sceneDoc.id }) as SceneDocument)
+          .sort((a, b) => a.order - b.order)
+          .map((scene): CharacterRenameScene => ({
+            screenplayId: id,
+            screenplayTitle,
+            sceneId: scene.id,
+            sceneHeading: scene.scene_heading,
+            changedBlockIds: renameCharacterInBlocks(scene.blocks || [], character.name, name).changedBlockIds
+          }))
+          .filter(scene => scene.changedBlockIds.length > 0);
+      }));
+
+      return {
+        success: true,
+        rename: {
+          characterId,
+          oldName: character.name,
+          newName: name,
+          scenes: screenplayScenes.flat()
+        }
+      };
+    } catch (err) {
+      console.error('Error previewing character rename:', err);
+      return { success: false, error: 'Failed to preview character rename' };
+    }
+  }, [projectId, validateRename]);
+
+  // Rewrite the cues of the given scenes, one transaction per screenplay
+  const writeRenamedScenes = useCallback(async (
+    scenes: CharacterRenameScene[],
+    from: string,
+    to: string,
+    limitToChangedBlocks: boolean
+  ): Promise<{ renamedScenes: CharacterRenameScene[]; currentScenes: SceneDocument[] }> => {
+    const renamedScenes: CharacterRenameScene[] = [];
+    const currentScenes: SceneDocument[] = [];
+    const screenplayIds = Array.from(new Set(scenes.map(scene => scene.screenplayId)));
+
+    for (const id of screenplayIds) {
+      const screenplayScenes = scenes.filter(scene => scene.screenplayId === id);
+      const written = await runTransaction(db, async (transaction) => {
+        const sceneRefs = screenplayScenes.map(scene =>
+          doc(db, `projects/${projectId}/screenplays/${id}/scenes`, scene.sceneId)
+        );
+        const sceneSnaps = await Promise.all(sceneRefs.map(sceneRef => transaction.get(sceneRef)));
+
+        const writtenScenes: { rename: CharacterRenameScene; scene: SceneDocument }[] = [];
+        sceneSnaps.forEach((sceneSnap, index) => {
+          if (!sceneSnap.exists()) return;
+
+          const stored = sceneSnap.data() as SceneDocument;
+          const onlyBlockIds = limitToChangedBlocks ? new Set(screenplayScenes[index].changedBlockIds) : undefined;
+          const { blocks: renamedBlocks, changedBlockIds } = renameCharacterInBlocks(stored.blocks || [], from, to, onlyBlockIds);
+          if (changedBlockIds.length === 0) return;
+
+          // A new version, so editors with the old one see the change as a conflict instead of overwriting it.
+          // It is not a save from a co-editing session, so the session's writers don't overwrite it either.
+          const scene: SceneDocument = {
+            ...stored,
+            blocks: renamedBlocks,
+            version: (stored.version || 0) + 1,
+            last_modified_by: userId,
+            coediting_session: undefined,
+            lastModified: Timestamp.now()
+          };
+          transaction.set(sceneRefs[index], scene);
+          writtenScenes.push({ rename: { ...screenplayScenes[index], changedBlockIds }, scene });
+        });
+        return writtenScenes;
+      });
+
+      written.forEach(({ rename, scene }) => {
+        renamedScenes.push(rename);
+        if (id === screenplayId) currentScenes.push(scene);
+      });
+    }
+
+    return { renamedScenes, currentScenes };
+  }, [projectId, screenplayId, userId]);
+
+  // Store a character's name and update local state
+  const storeCharacterName = useCallback(async (
+    character: CharacterDocument,
+    name: string
+  ): Promise<CharacterDocument> => {
+    const nameUppercase = name.toUpperCase();
+    const updatedCharacter = {
+      ...character,
+      name,
+      name_uppercase: nameUppercase,
+      lastUpdated: Timestamp.now()
+    };
+
+    const characterRef = doc(db, `projects/${projectId}/characters`, character.id);
+    await updateDoc(characterRef, {
+      name,
+      name_uppercase: nameUppercase,
+      lastUpdated: serverTimestamp()
+    });
+
+    setCharacters(prev => 
+      prev.map(c => c.id === character.id ? updatedCharacter : c)
+    );
+    setCharacterMap(prev => {
+      const newMap = { ...prev };
+      if (character.name_uppercase) {
+        delete newMap[character.name_uppercase];
+      }
+      newMap[nameUppercase] = updatedCharacter;
+      return newMap;
+    });
+
+    return updatedCharacter;
+  }, [projectId]);
+
+  /**
+   * Renames a character and rewrites their cues in every screenplay of the
+   * project. The rename can be undone with undoCharacterRename.
+   * @param characterId The character to rename
+   * @param newName The new name
+   * @returns The renamed character, or null on failure
+   */
   const renameCharacter = useCallback(async (
     characterId: string, 
     newName: string
@@ -317,58 +497,25 @@ export const useCharacterTracking = ({
     if (!projectId) return null;
 
     try {
-      const character = characters.find(c => c.id === characterId);
-      if (!character) {
-        console.error(`Character with ID ${characterId} not found`);
-        return null;
-      }
-      
-      // Normalize the new name
-      const normalizedNewName = newName.trim();
-      if (!normalizedNewName) {
-        console.error('New character name cannot be empty');
+      const { character, name, error: validationError } = validateRename(characterId, newName);
+      if (!character || !name) {
+        console.error(validationError);
+        setError(validationError || 'Failed to rename character');
         return null;
       }
-      
-      const newNameUppercase = normalizedNewName.toUpperCase();
-      
-      // Check if the new name already exists
-      if (characterMap[newNameUppercase] && characterMap[newNameUppercase].id !== characterId) {
-        console.error(`Character with name "${normalizedNewName}" already exists`);
-        setError(`Character with name "${normalizedNewName}" already exists`);
+
+      const preview = await previewCharacterRename(characterId, name);
+      if (!preview.success || !preview.rename) {
+        setError(preview.error || 'Failed to rename character');
         return null;
       }
-      
-      const updatedCharacter = {
-        ...character,
-        name: normalizedNewName,
-        name_uppercase: newNameUppercase,
-        lastUpdated: Timestamp.now()
-      };
-      
-      const characterRef = doc(db, `projects/${projectId}/characters`, characterId);
-      await updateDoc(characterRef, {
-        name: normalizedNewName,
-        name_uppercase: newNameUppercase,
-        lastUpdated: serverTimestamp()
-      });
-      
-      console.log(`Renamed character from "${character.name}" to "${normalizedNewName}"`);
-      
-      // Update local state
-      setCharacters(prev => 
-        prev.map(c => c.id === characterId ? updatedCharacter : c)
-      );
-      
-      // Update character map
-      setCharacterMap(prev => {
-        const newMap = { ...prev };
-        if (character.name_uppercase) {
-          delete newMap[character.name_uppercase];
-        }
-        newMap[newNameUppercase] = updatedCharacter;
-        return newMap;
-      });
+
+      const { renamedScenes, currentScenes } = await writeRenamedScenes(preview.rename.scenes, character.name, name, false);
+      const updatedCharacter = await storeCharacterName(character, name);
+
+      console.log(`Renamed character from "${character.name}" to "${name}" in ${renamedScenes.length} scenes`);
+      setLastRename({ ...preview.rename, scenes: renamedScenes });
+      onCharacterRenamed?.({ from: character.name, to: name, scenes: currentScenes });
       
       return updatedCharacter;
     } catch (err) {
@@ -376,7 +523,37 @@ export const useCharacterTracking = ({
       setError('Failed to rename character');
       return null;
     }
-  }, [projectId, characters, characterMap]);
+  }, [projectId, validateRename, previewCharacterRename, writeRenamedScenes, storeCharacterName, onCharacterRenamed]);
+
+  /**
+   * Reverts the last rename. Only the cues it changed are renamed back, so
+   * edits made since are kept.
+   */
+  const undoCharacterRename = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    if (!projectId || !lastRename) {
+      return { success: false, error: 'There is no rename to undo' };
+    }
+
+    try {
+      const character = characters.find(c => c.id === lastRename.characterId);
+      if (!character) {
+        return { success: false, error: 'The renamed character no longer exists' };
+      }
+
+      const { currentScenes } = await writeRenamedScenes(lastRename.scenes, lastRename.newName, lastRename.oldName, true);
+      await storeCharacterName(character, lastRename.oldName);
+
+      console.log(`Undid rename of "${lastRename.oldName}" to "${lastRename.newName}"`);
+      setLastRename(null);
+      onCharacterRenamed?.({ from: lastRename.newName, to: lastRename.oldName, scenes: currentScenes });
+      return { success: true };
+    } catch (err) {
+      console.error('Error undoing character rename:', err);
+      const errorMessage = 'Failed to undo character rename';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [projectId, lastRename, characters, writeRenamedScenes, storeCharacterName, onCharacterRenamed]);
 
   // Sync characters from blocks to database
   const syncCharactersFromBlocks = useCallback(async () => {
@@ -597,6 +774,9 @@ export const useCharacterTracking = ({
     addCharacter,
     deleteCharacter,
     renameCharacter,
+    previewCharacterRename,
+    undoCharacterRename,
+    lastRename,
     syncCharactersFromBlocks,
     refreshCharacters: fetchCharacters,
     deduplicateCharacters,
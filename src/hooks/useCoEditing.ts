@@ -0,0 +1,125 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { CollaborationManager } from '../lib/screenplay/collaborationManager';
+import { updateBlockNumbers } from '../utils/blockUtils';
+import type { Block } from '../types';
+
+/**
+ * Edits the screenplay together with everyone who has it open. Local edits
+ * are sent as they happen and remote edits are merged into the blocks.
+ * @param projectId The project ID
+ * @param screenplayId The screenplay ID
+ * @param userId The current user
+ * @param blocks The editor's blocks
+ * @param setBlocks Replaces the editor's blocks
+ * @param enabled Whether the screenplay has finished loading
+ * @param hasUnsavedChanges Whether the blocks hold edits not saved yet, such as a restored offline draft
+ * @returns Whether this editor is in a co-editing session, the session's ID,
+ * and a function applying an edit made outside the editor
+ */
+export const useCoEditing = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined,
+  blocks: Block[],
+  setBlocks: (blocks: Block[]) => void,
+  enabled: boolean,
+  hasUnsavedChanges: boolean
+) => {
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Joining another writer's session replaces the blocks, so it waits until
+  // local edits are saved; once joined, later edits go into the session
+  const [canJoin, setCanJoin] = useState(false);
+  const managerRef = useRef<CollaborationManager | null>(null);
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const setBlocksRef = useRef(setBlocks);
+  setBlocksRef.current = setBlocks;
+  // Blocks handed to the editor that it has not rendered yet; until then the
+  // editor's blocks are stale and must not be sent
+  const incomingBlocksRef = useRef<Block[] | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setCanJoin(false);
+    } else if (!hasUnsavedChanges) {
+      setCanJoin(true);
+    }
+  }, [enabled, hasUnsavedChanges]);
+
+  useEffect(() => {
+    if (!canJoin || !projectId || !screenplayId || !userId) return;
+
+    let cancelled = false;
+    const manager = new CollaborationManager({ id: screenplayId, projectId }, userId);
+    managerRef.current = manager;
+
+    const showBlocks = (sessionBlocks: Block[]) => {
+      const numberedBlocks = updateBlockNumbers(sessionBlocks);
+      incomingBlocksRef.current = numberedBlocks;
+      setBlocksRef.current(numberedBlocks);
+    };
+
+    const startCoEditing = async () => {
+      const joiningBlocks = blocksRef.current;
+      const result = await manager.startCoEditing(
+        joiningBlocks,
+        () => (incomingBlocksRef.current ? null : blocksRef.current),
+        showBlocks
+      );
+      if (cancelled || !result) return;
+
+      // Someone else is editing: switch to their blocks, unless edits were
+      // made while joining; those are saved first and joining is tried again.
+      // A session we started picks them up with the next sync.
+      if (result.joinedExisting) {
+        if (blocksRef.current !== joiningBlocks) {
+          manager.stopCoEditing();
+          setCanJoin(false);
+          return;
+        }
+        showBlocks(result.blocks);
+      }
+      setSessionId(result.sessionId);
+    };
+
+    startCoEditing();
+
+    return () => {
+      cancelled = true;
+      manager.cleanup();
+      managerRef.current = null;
+      incomingBlocksRef.current = null;
+      setSessionId(null);
+    };
+  }, [canJoin, projectId, screenplayId, userId]);
+
+  const isCoEditing = sessionId !== null;
+
+  // Send local edits
+  useEffect(() => {
+    if (!isCoEditing || !managerRef.current) return;
+
+    if (incomingBlocksRef.current) {
+      if (blocks !== incomingBlocksRef.current) return;
+      incomingBlocksRef.current = null;
+    }
+    managerRef.current.syncBlocks(blocks);
+  }, [blocks, isCoEditing]);
+
+  /**
+   * Applies an edit made outside the editor, such as a character rename, to
+   * the latest blocks and sends it to the other writers right away
+   * @param edit Returns the edited blocks
+   */
+  const applyBlockEdit = useCallback((edit: (blocks: Block[]) => Block[]) => {
+    // Merged remote edits the editor has not rendered yet are the latest blocks
+    const editedBlocks = edit(incomingBlocksRef.current || blocksRef.current);
+    if (managerRef.current) {
+      managerRef.current.syncBlocks(editedBlocks);
+      if (incomingBlocksRef.current) incomingBlocksRef.current = editedBlocks;
+    }
+    setBlocksRef.current(editedBlocks);
+  }, []);
+
+  return { isCoEditing, coEditingSessionId: sessionId, applyBlockEdit };
+};
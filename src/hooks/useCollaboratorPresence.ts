@@ -0,0 +1,129 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { CollaborationManager } from '../lib/screenplay/collaborationManager';
+import { getSceneIdForBlock } from '../utils/sceneLocks';
+import { getPresenceColor, isPresenceActive, PRESENCE_HEARTBEAT } from '../utils/presence';
+import type { Block } from '../types';
+import type { CollaboratorCursor, SelectionPoint } from '../types/screenplay';
+
+type SelectionState = Pick<CollaboratorCursor, 'sceneId' | 'position' | 'selection'>;
+
+const NO_SELECTION: SelectionState = { sceneId: null, position: null, selection: null };
+
+// Converts a DOM position inside a block into a character offset in that block
+const getSelectionPoint = (node: Node | null, offset: number): SelectionPoint | null => {
+  const element = node?.nodeType === Node.ELEMENT_NODE ? node as Element : node?.parentElement;
+  const blockElement = element?.closest<HTMLElement>('.block-editor[data-block-id]');
+  if (!node || !blockElement?.dataset.blockId) return null;
+
+  const range = document.createRange();
+  range.setStart(blockElement, 0);
+  range.setEnd(node, offset);
+  return { blockId: blockElement.dataset.blockId, offset: range.toString().length };
+};
+
+/**
+ * Shares this writer's caret and selection and lists the other writers who
+ * have the screenplay open
+ * @param projectId The project ID
+ * @param screenplayId The screenplay ID
+ * @param userId The current user
+ * @param userName Name shown to the other writers
+ * @param blocks The editor's blocks
+ * @returns The active collaborators, without the current user
+ */
+export const useCollaboratorPresence = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined,
+  userName: string | undefined,
+  blocks: Block[]
+) => {
+  const [cursors, setCursors] = useState<CollaboratorCursor[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const userNameRef = useRef(userName);
+  userNameRef.current = userName;
+
+  useEffect(() => {
+    if (!projectId || !screenplayId || !userId) return;
+
+    const manager = new CollaborationManager({ id: screenplayId, projectId }, userId, setCursors);
+    manager.startPresence();
+
+    let lastSent = 0;
+    let lastSelection = '';
+
+    const readSelection = (): SelectionState => {
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0) return NO_SELECTION;
+
+      const position = getSelectionPoint(selection.focusNode, selection.focusOffset);
+      if (!position) return NO_SELECTION;
+
+      const range = selection.getRangeAt(0);
+      const start = getSelectionPoint(range.startContainer, range.startOffset);
+      const end = getSelectionPoint(range.endContainer, range.endOffset);
+      return {
+        sceneId: getSceneIdForBlock(blocksRef.current, position.blockId),
+        position,
+        selection: !selection.isCollapsed && start && end ? { start, end } : null
+      };
+    };
+
+    const sendPresence = (selectionState: SelectionState) => {
+      lastSent = Date.now();
+      manager.updatePresence({
+        userName: userNameRef.current || userId,
+        color: getPresenceColor(userId),
+        ...selectionState
+      });
+    };
+
+    const handleSelectionChange = () => {
+      const selectionState = readSelection();
+      const key = JSON.stringify(selectionState);
+      if (key === lastSelection) return;
+
+      lastSelection = key;
+      sendPresence(selectionState);
+    };
+
+    // Reading counts as activity too, but only needs an occasional write
+    const handleActivity = () => {
+      if (Date.now() - lastSent >= PRESENCE_HEARTBEAT) {
+        sendPresence(readSelection());
+      }
+    };
+
+    sendPresence(NO_SELECTION);
+    document.addEventListener('selectionchange', handleSelectionChange);
+    document.addEventListener('mousemove', handleActivity);
+    document.addEventListener('keydown', handleActivity);
+    document.addEventListener('scroll', handleActivity, true);
+
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange);
+      document.removeEventListener('mousemove', handleActivity);
+      document.removeEventListener('keydown', handleActivity);
+      document.removeEventListener('scroll', handleActivity, true);
+      manager.cleanup();
+      setCursors([]);
+    };
+  }, [projectId, screenplayId, userId]);
+
+  // Drop collaborators who went idle, even if no snapshot arrives
+  useEffect(() => {
+    if (cursors.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT);
+    return () => clearInterval(interval);
+  }, [cursors.length]);
+
+  const collaborators = useMemo(
+    () => cursors.filter(cursor => isPresenceActive(cursor, now)),
+    [cursors, now]
+  );
+
+  return { collaborators };
+};
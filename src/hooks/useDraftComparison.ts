@@ -0,0 +1,83 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  collection,
+  getDocs,
+  query,
+  orderBy
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { sceneDocumentToBlocks } from '../utils/blockUtils';
+import type { Block, SceneDocument } from '../types';
+
+export interface ComparableScreenplay {
+  id: string;
+  title: string;
+}
+
+export const useDraftComparison = (projectId: string | undefined) => {
+  const [screenplays, setScreenplays] = useState<ComparableScreenplay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Other screenplays of the project can be compared against each other
+  useEffect(() => {
+    const loadScreenplays = async () => {
+      if (!projectId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const screenplaysSnap = await getDocs(collection(db, `projects/${projectId}/screenplays`));
+        setScreenplays(screenplaysSnap.docs.map(screenplayDoc => ({
+          id: screenplayDoc.id,
+          title: screenplayDoc.data().title || 'Untitled Screenplay'
+        })));
+      } catch (err) {
+        console.error('Error loading screenplays for comparison:', err);
+        setError('Failed to load screenplays');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadScreenplays();
+  }, [projectId]);
+
+  /**
+   * Reads the saved blocks of a screenplay without opening it in the editor
+   * @param screenplayId The screenplay to read
+   * @returns The blocks in script order, or an error
+   */
+  const loadScreenplayBlocks = useCallback(async (
+    screenplayId: string
+  ): Promise<{ success: boolean; blocks?: Block[]; error?: string }> => {
+    if (!projectId) {
+      return { success: false, error: 'Missing project ID' };
+    }
+
+    try {
+      const scenesRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`);
+      const scenesSnap = await getDocs(query(scenesRef, orderBy('order')));
+
+      const blocks: Block[] = [];
+      scenesSnap.docs.forEach((sceneSnap) => {
+        blocks.push(...sceneDocumentToBlocks(sceneSnap.data() as SceneDocument));
+      });
+
+      return { success: true, blocks };
+    } catch (err) {
+      console.error('Error loading screenplay blocks:', err);
+      const errorMessage = 'Failed to load screenplay';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [projectId]);
+
+  return {
+    screenplays,
+    loading,
+    error,
+    loadScreenplayBlocks
+  };
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  addDoc,
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { createSuggestionRange } from '../utils/editSuggestions';
+import type { Block } from '../types';
+import type { EditSuggestion } from '../types/screenplay';
+
+const getCreatedTime = (suggestion: EditSuggestion): number =>
+  suggestion.createdAt?.toMillis ? suggestion.createdAt.toMillis() : Number.MAX_SAFE_INTEGER;
+
+/**
+ * Keeps the pending edit suggestions of a screenplay up to date
+ * @param projectId The project
+ * @param screenplayId The screenplay
+ * @param author The current user, credited with new suggestions
+ * @returns Pending suggestions, oldest first, and callbacks to add and resolve them
+ */
+export const useEditSuggestions = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  author: { id: string; name: string } | null
+) => {
+  const [suggestions, setSuggestions] = useState<EditSuggestion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !screenplayId) {
+      setSuggestions([]);
+      return;
+    }
+
+    const suggestionsRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/suggestions`);
+    const unsubscribe = onSnapshot(
+      query(suggestionsRef, where('status', '==', 'pending')),
+      (snapshot) => {
+        setSuggestions(snapshot.docs
+          .map(suggestionDoc => ({ ...suggestionDoc.data(), id: suggestionDoc.id }) as EditSuggestion)
+          .sort((a, b) => getCreatedTime(a) - getCreatedTime(b)));
+      },
+      (err) => {
+        console.error('Error loading suggestions:', err);
+        setError('Failed to load suggestions');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [projectId, screenplayId]);
+
+  /**
+   * Stores an edit of a block as a pending suggestion
+   * @param block The block as the script has it
+   * @param newContent The proposed text of the block
+   * @param sceneId The scene the block belongs to
+   * @returns Whether a suggestion was stored; false if the text is unchanged
+   */
+  const addSuggestion = useCallback(async (block: Block, newContent: string, sceneId: string | null): Promise<boolean> => {
+    if (!projectId || !screenplayId || !author) return false;
+
+    const range = createSuggestionRange(block.content, newContent);
+    if (!range) return false;
+
+    try {
+      await addDoc(collection(db, `projects/${projectId}/screenplays/${screenplayId}/suggestions`), {
+        ...range,
+        blockId: block.id,
+        sceneId,
+        authorId: author.id,
+        authorName: author.name,
+        status: 'pending',
+        createdAt: serverTimestamp()
+      });
+      return true;
+    } catch (err) {
+      console.error('Error adding suggestion:', err);
+      setError('Failed to add suggestion');
+      return false;
+    }
+  }, [projectId, screenplayId, author]);
+
+  /**
+   * Marks suggestions accepted or rejected. Accepted suggestions must already
+   * be applied to the blocks and saved.
+   */
+  const resolveSuggestions = useCallback(async (
+    suggestionIds: string[],
+    status: 'accepted' | 'rejected'
+  ): Promise<boolean> => {
+    if (!projectId || !screenplayId || !author || suggestionIds.length === 0) return false;
+
+    try {
+      const batch = writeBatch(db);
+      suggestionIds.forEach(suggestionId => {
+        batch.update(doc(db, `projects/${projectId}/screenplays/${screenplayId}/suggestions`, suggestionId), {
+          status,
+          resolvedBy: author.id,
+          resolvedAt: serverTimestamp()
+        });
+      });
+      await batch.commit();
+      return true;
+    } catch (err) {
+      console.error('Error resolving suggestions:', err);
+      setError('Failed to update suggestions');
+      return false;
+    }
+  }, [projectId, screenplayId, author]);
+
+  return {
+    suggestions,
+    error,
+    addSuggestion,
+    resolveSuggestions
+  };
+};
@@ -1,9 +1,48 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Block, EditorState, Comment, UserMention, EmojiReaction } from '../types';
 import { updateBlockNumbers } from '../utils/blockUtils';
-import { collection, addDoc, serverTimestamp, Timestamp, getDocs, query, orderBy, doc, updateDoc, getDoc, setDoc, where, arrayUnion, arrayRemove, FieldValue } from 'firebase/firestore';
+import { keepOmittedScenes } from '../utils/sceneNumbering';
+import { remapBlockComments } from '../utils/commentAnchors';
+import { getCommentNotificationRecipients, getNotificationExcerpt, type NotificationRecipient } from '../utils/notifications';
+import { collection, addDoc, serverTimestamp, Timestamp, getDocs, query, orderBy, doc, updateDoc, getDoc, setDoc, where, arrayUnion, arrayRemove, FieldValue, writeBatch } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 
+// Writes a notification about a comment to each recipient's inbox
+const sendCommentNotifications = async (
+  recipients: NotificationRecipient[],
+  actor: { id: string; name: string },
+  projectId: string,
+  screenplayId: string,
+  commentId: string,
+  comment: Pick<Comment, 'blockId' | 'startOffset' | 'endOffset' | 'text' | 'highlightedText'>
+) => {
+  if (recipients.length === 0) return;
+
+  try {
+    const batch = writeBatch(db);
+    recipients.forEach(({ userId, type }) => {
+      batch.set(doc(collection(db, `users/${userId}/notifications`)), {
+        type,
+        actorId: actor.id,
+        actorName: actor.name,
+        projectId,
+        screenplayId,
+        commentId,
+        blockId: comment.blockId,
+        startOffset: comment.startOffset,
+        endOffset: comment.endOffset,
+        excerpt: getNotificationExcerpt(comment.text),
+        highlightedText: comment.highlightedText || '',
+        read: false,
+        createdAt: serverTimestamp()
+      });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error sending comment notifications:', error);
+  }
+};
+
 export const useEditorState = (projectId?: string, screenplayId?: string) => {
   const [state, setState] = useState<EditorState>({
     blocks: [],
@@ -16,6 +55,11 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
     redoStack: [],
     comments: [], // Initialize comments array
   });
+  // Edits made in this editor; blocks merged from other writers do not count
+  const [localEditCount, setLocalEditCount] = useState(0);
+  // Latest comments, kept in step with anchor remaps that have not rendered yet
+  const latestCommentsRef = useRef(state.comments);
+  latestCommentsRef.current = state.comments;
 
   // Load existing comments when screenplayId changes
   useEffect(() => {
@@ -60,6 +104,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
             highlightedText: data.highlightedText,
             depth: data.depth || 0,
             mentions: data.mentions || [],
+            orphaned: data.orphaned || false,
             emoji: data.emoji || []
           } as Comment;
         });
@@ -132,6 +177,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
         selectedBlocks: new Set<string>(),
       };
     });
+    setLocalEditCount(count => count + 1);
   }, []);
 
   const handleRedo = useCallback(() => {
@@ -147,13 +193,15 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
         selectedBlocks: new Set<string>(),
       };
     });
+    setLocalEditCount(count => count + 1);
   }, []);
 
   const updateBlocks = useCallback((newBlocks: Block[]) => {
     setState(prev => ({
       ...prev,
-      blocks: updateBlockNumbers(newBlocks),
+      blocks: updateBlockNumbers(keepOmittedScenes(prev.blocks, newBlocks)),
     }));
+    setLocalEditCount(count => count + 1);
   }, []);
 
   const selectAllBlocks = useCallback(() => {
@@ -252,6 +300,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
       };
       
       // If this is a reply to another comment, update the depth
+      let parentAuthorId: string | null = null;
       if (commentData.parentId) {
         // Get the parent comment to determine the correct depth
         const parentRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/comments`, commentData.parentId);
@@ -260,6 +309,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
         if (parentDoc.exists()) {
           const parentData = parentDoc.data();
           commentToSave.depth = (parentData.depth || 0) + 1;
+          parentAuthorId = parentData.authorId || null;
         }
       }
       
@@ -320,11 +370,15 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
         };
       });
       
-      // If there are mentions, trigger notifications (in a real app)
-      if (mentionedUserIds.length > 0) {
-        console.log(`Notifying mentioned users: ${mentionedUserIds.join(', ')}`);
-        // In a real app, you would trigger notifications here
-      }
+      // Notify mentioned users and the author of the comment being replied to
+      await sendCommentNotifications(
+        getCommentNotificationRecipients(commentData.authorId, mentionedUserIds, parentAuthorId),
+        { id: commentData.authorId, name: commentData.authorName },
+        projectId,
+        screenplayId,
+        docRef.id,
+        commentData
+      );
       
       console.log('Comment added successfully with ID:', docRef.id);
       return true; // Return success
@@ -334,8 +388,14 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
     }
   }, [parseMentions]);
 
-  // Function to resolve/unresolve a comment
-  const resolveComment = useCallback(async (commentId: string, isResolved: boolean, projectId?: string, screenplayId?: string) => {
+  // Function to resolve/unresolve a comment. The comment's author is notified when someone else resolves it.
+  const resolveComment = useCallback(async (
+    commentId: string,
+    isResolved: boolean,
+    projectId?: string,
+    screenplayId?: string,
+    resolvedBy?: { id: string; name: string }
+  ) => {
     console.log(`Resolving comment ${commentId} to isResolved=${isResolved}`);
     
     // Update local state immediately for responsive UI
@@ -376,12 +436,52 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
         const commentRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/comments`, commentId);
         await updateDoc(commentRef, { isResolved });
         console.log(`Updated comment ${commentId} in Firestore to isResolved=${isResolved}`);
+
+        if (isResolved && resolvedBy) {
+          const commentDoc = await getDoc(commentRef);
+          const comment = commentDoc.data() as Comment | undefined;
+          if (comment && comment.authorId !== resolvedBy.id) {
+            await sendCommentNotifications(
+              [{ userId: comment.authorId, type: 'resolved' }],
+              resolvedBy,
+              projectId,
+              screenplayId,
+              commentId,
+              comment
+            );
+          }
+        }
       } catch (error) {
         console.error('Error updating comment in Firestore:', error);
       }
     }
   }, []);
 
+  // Moves the comments on a block to follow an edit of its text and saves the ones that moved
+  const remapCommentAnchors = useCallback(async (blockId: string, oldText: string, newText: string) => {
+    const { comments, changed } = remapBlockComments(latestCommentsRef.current, blockId, oldText, newText);
+    if (changed.length === 0) return;
+
+    latestCommentsRef.current = comments;
+    setState(prev => ({ ...prev, comments }));
+
+    if (!projectId || !screenplayId) return;
+
+    try {
+      const batch = writeBatch(db);
+      changed.forEach(comment => {
+        batch.update(doc(db, `projects/${projectId}/screenplays/${screenplayId}/comments`, comment.id), {
+          startOffset: comment.startOffset,
+          endOffset: comment.endOffset,
+          orphaned: !!comment.orphaned
+        });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error updating comment anchors in Firestore:', error);
+    }
+  }, [projectId, screenplayId]);
+
   // Add or toggle emoji reaction to a comment
   const toggleEmojiReaction = useCallback(async (
     commentId: string, 
@@ -579,6 +679,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
 
   return {
     state,
+    localEditCount,
     setState,
     addToHistory,
     handleUndo,
@@ -587,6 +688,7 @@ export const useEditorState = (projectId?: string, screenplayId?: string) => {
     selectAllBlocks,
     addComment,
     resolveComment,
+    remapCommentAnchors,
     toggleEmojiReaction,
     parseMentions,
     fetchMentionedUsers
@@ -8,6 +8,7 @@ interface HotkeysProps {
   blocks: Block[];
   activeBlock: string | null;
   handleFormatChange: (type: string) => void;
+  enabled?: boolean; // Off while the script is read-only, e.g. in suggestion mode
 }
 
 export const useHotkeys = ({
@@ -17,8 +18,11 @@ export const useHotkeys = ({
   blocks,
   activeBlock,
   handleFormatChange,
+  enabled = true,
 }: HotkeysProps) => {
   useEffect(() => {
+    if (!enabled) return;
+
     const handleKeyboardShortcuts = (e: KeyboardEvent) => {
       // Get the target element
       const target = e.target as HTMLElement;
@@ -93,5 +97,5 @@ export const useHotkeys = ({
     
     document.addEventListener('keydown', handleKeyboardShortcuts);
     return () => document.removeEventListener('keydown', handleKeyboardShortcuts);
-  }, [handleUndo, handleRedo, selectAllBlocks, activeBlock, handleFormatChange, blocks]);
+  }, [handleUndo, handleRedo, selectAllBlocks, activeBlock, handleFormatChange, blocks, enabled]);
 };
\ No newline at end of file
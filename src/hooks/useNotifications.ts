@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  orderBy,
+  where,
+  limit,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { NOTIFICATION_LIMIT } from '../utils/notifications';
+import type { NotificationDocument } from '../types';
+
+/**
+ * Keeps the current user's comment notifications up to date
+ * @param userId The current user
+ * @returns The most recent notifications, the unread count and callbacks to mark them read
+ */
+export const useNotifications = (userId: string | undefined) => {
+  const [notifications, setNotifications] = useState<NotificationDocument[]>([]);
+  const [unreadIds, setUnreadIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest notifications first
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    const notificationsRef = collection(db, `users/${userId}/notifications`);
+    const unsubscribe = onSnapshot(
+      query(notificationsRef, orderBy('createdAt', 'desc'), limit(NOTIFICATION_LIMIT)),
+      (snapshot) => {
+        setNotifications(snapshot.docs.map(notificationDoc => ({
+          ...notificationDoc.data(),
+          id: notificationDoc.id
+        }) as NotificationDocument));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading notifications:', err);
+        setError('Failed to load notifications');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  // Unread notifications are counted separately so older ones are included
+  useEffect(() => {
+    if (!userId) {
+      setUnreadIds([]);
+      return;
+    }
+
+    const notificationsRef = collection(db, `users/${userId}/notifications`);
+    const unsubscribe = onSnapshot(
+      query(notificationsRef, where('read', '==', false)),
+      (snapshot) => setUnreadIds(snapshot.docs.map(notificationDoc => notificationDoc.id)),
+      (err) => console.error('Error counting unread notifications:', err)
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  const markRead = useCallback(async (notificationId: string) => {
+    if (!userId) return;
+
+    try {
+      await updateDoc(doc(db, `users/${userId}/notifications`, notificationId), { read: true });
+    } catch (err) {
+      console.error('Error marking notification as read:', err);
+      setError('Failed to update notification');
+    }
+  }, [userId]);
+
+  const markAllRead = useCallback(async () => {
+    if (!userId || unreadIds.length === 0) return;
+
+    try {
+      const batch = writeBatch(db);
+      unreadIds.forEach(notificationId => {
+        batch.update(doc(db, `users/${userId}/notifications`, notificationId), { read: true });
+      });
+      await batch.commit();
+    } catch (err) {
+      console.error('Error marking notifications as read:', err);
+      setError('Failed to update notifications');
+    }
+  }, [userId, unreadIds]);
+
+  return {
+    notifications,
+    unreadCount: unreadIds.length,
+    loading,
+    error,
+    markRead,
+    markAllRead
+  };
+};
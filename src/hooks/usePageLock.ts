@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  doc,
+  getDoc,
+  updateDoc,
+  deleteField,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { layoutScreenplay, getPageBreakMap } from '../utils/screenplayLayout';
+import type { Block } from '../types';
+import type { PageLock } from '../types/screenplay';
+
+export const usePageLock = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined,
+  blocks: Block[]
+) => {
+  const [pageLock, setPageLock] = useState<PageLock | null>(null);
+  const [isLocking, setIsLocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the page break map of the locked draft
+  useEffect(() => {
+    const loadPageLock = async () => {
+      if (!projectId || !screenplayId) return;
+
+      try {
+        const screenplaySnap = await getDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}`));
+        const lock = screenplaySnap.exists()
+          ? (screenplaySnap.data().pageLock as PageLock | undefined)
+          : undefined;
+        setPageLock(lock || null);
+      } catch (err) {
+        console.error('Error loading page lock:', err);
+        setError('Failed to load page lock');
+      }
+    };
+
+    loadPageLock();
+  }, [projectId, screenplayId]);
+
+  /**
+   * Locks the current page breaks. Locking again keeps existing A-pages
+   * as part of the new page break map.
+   */
+  const lockPages = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    if (!projectId || !screenplayId || !userId) {
+      return { success: false, error: 'Missing project ID, screenplay ID, or user ID' };
+    }
+
+    setIsLocking(true);
+    setError(null);
+
+    try {
+      const pages = layoutScreenplay(blocks, { lockedPageBreaks: pageLock?.breaks });
+      const nextLock: PageLock = {
+        breaks: getPageBreakMap(pages),
+        lockedAt: Timestamp.now(),
+        lockedBy: userId
+      };
+
+      await updateDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}`), {
+        pageLock: nextLock
+      });
+
+      setPageLock(nextLock);
+      return { success: true };
+    } catch (err) {
+      console.error('Error locking pages:', err);
+      const errorMessage = 'Failed to lock pages';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsLocking(false);
+    }
+  }, [projectId, screenplayId, userId, blocks, pageLock]);
+
+  /**
+   * Unlocks the pages so the script is paginated continuously again
+   */
+  const unlockPages = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    if (!projectId || !screenplayId) {
+      return { success: false, error: 'Missing project ID or screenplay ID' };
+    }
+
+    setIsLocking(true);
+    setError(null);
+
+    try {
+      await updateDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}`), {
+        pageLock: deleteField()
+      });
+
+      setPageLock(null);
+      return { success: true };
+    } catch (err) {
+      console.error('Error unlocking pages:', err);
+      const errorMessage = 'Failed to unlock pages';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsLocking(false);
+    }
+  }, [projectId, screenplayId]);
+
+  return {
+    pageLock,
+    isLocking,
+    error,
+    lockPages,
+    unlockPages
+  };
+};
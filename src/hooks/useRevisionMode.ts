@@ -0,0 +1,148 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  doc,
+  getDoc,
+  onSnapshot,
+  collection,
+  writeBatch,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { computeRevisionMarks } from '../utils/revisionUtils';
+import type { Block } from '../types';
+import type { RevisionSnapshot, RevisionState } from '../types/screenplay';
+
+export const useRevisionMode = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined,
+  blocks: Block[]
+) => {
+  const [revision, setRevision] = useState<RevisionState | null>(null);
+  const [snapshotBlocks, setSnapshotBlocks] = useState<Block[]>([]);
+  const [isLocking, setIsLocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the revision state, so a revision locked by another writer shows
+  // up, and load the snapshot the current revision is compared against
+  const loadedSnapshotIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !screenplayId) return;
+
+    loadedSnapshotIdRef.current = null;
+
+    const unsubscribe = onSnapshot(
+      doc(db, `projects/${projectId}/screenplays/${screenplayId}`),
+      async (screenplaySnap) => {
+        const revisionState = screenplaySnap.exists()
+          ? (screenplaySnap.data().revision as RevisionState | undefined)
+          : undefined;
+
+        if (!revisionState?.active) {
+          loadedSnapshotIdRef.current = null;
+          setRevision(null);
+          setSnapshotBlocks([]);
+          return;
+        }
+
+        // The snapshot never changes once written; only a new lock needs a read
+        if (revisionState.snapshotId === loadedSnapshotIdRef.current) {
+          setRevision(revisionState);
+          return;
+        }
+        loadedSnapshotIdRef.current = revisionState.snapshotId;
+
+        try {
+          const snapshotSnap = await getDoc(
+            doc(db, `projects/${projectId}/screenplays/${screenplayId}/revisions`, revisionState.snapshotId)
+          );
+          // A newer lock arrived while this snapshot was loading
+          if (loadedSnapshotIdRef.current !== revisionState.snapshotId) return;
+
+          setSnapshotBlocks(snapshotSnap.exists() ? (snapshotSnap.data() as RevisionSnapshot).blocks : []);
+          setRevision(revisionState);
+        } catch (err) {
+          console.error('Error loading revision snapshot:', err);
+          loadedSnapshotIdRef.current = null;
+          setError('Failed to load revision state');
+        }
+      },
+      (err) => {
+        console.error('Error loading revision state:', err);
+        setError('Failed to load revision state');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [projectId, screenplayId]);
+
+  // Block ID -> revision number for every block changed since the draft was locked
+  const revisionMarks = useMemo(() => {
+    return revision ? computeRevisionMarks(revision, snapshotBlocks, blocks) : {};
+  }, [revision, snapshotBlocks, blocks]);
+
+  /**
+   * Locks the current draft and starts the next revision color.
+   * Changes made in the revision being closed keep their color as marks.
+   */
+  const lockRevision = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    if (!projectId || !screenplayId || !userId) {
+      return { success: false, error: 'Missing project ID, screenplay ID, or user ID' };
+    }
+
+    setIsLocking(true);
+    setError(null);
+
+    try {
+      const nextNumber = revision ? revision.number + 1 : 1;
+      const snapshotRef = doc(collection(db, `projects/${projectId}/screenplays/${screenplayId}/revisions`));
+      const lockedAt = Timestamp.now();
+
+      const snapshot: RevisionSnapshot = {
+        id: snapshotRef.id,
+        number: nextNumber,
+        blocks,
+        created_at: lockedAt,
+        created_by: userId
+      };
+
+      const nextRevision: RevisionState = {
+        active: true,
+        number: nextNumber,
+        snapshotId: snapshotRef.id,
+        lockedAt,
+        lockedBy: userId,
+        marks: revisionMarks
+      };
+
+      const batch = writeBatch(db);
+      batch.set(snapshotRef, snapshot);
+      batch.update(doc(db, `projects/${projectId}/screenplays/${screenplayId}`), {
+        revision: nextRevision,
+        status: 'Revision'
+      });
+      await batch.commit();
+
+      loadedSnapshotIdRef.current = snapshotRef.id;
+      setSnapshotBlocks(blocks);
+      setRevision(nextRevision);
+      return { success: true };
+    } catch (err) {
+      console.error('Error locking revision:', err);
+      const errorMessage = 'Failed to lock revision';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsLocking(false);
+    }
+  }, [projectId, screenplayId, userId, revision, revisionMarks, blocks]);
+
+  return {
+    revision,
+    revisionMarks,
+    isLocking,
+    error,
+    lockRevision
+  };
+};
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CollaborationManager } from '../lib/screenplay/collaborationManager';
+import {
+  getLockedBlockIds,
+  getSceneIdForBlock,
+  isLockExpired,
+  LOCK_RENEW_INTERVAL
+} from '../utils/sceneLocks';
+import type { Block } from '../types';
+import type { SceneLock } from '../types/screenplay';
+
+/**
+ * Locks the scene the writer is editing and tracks the scenes other writers
+ * have locked. Blocks of those scenes are read-only.
+ * @param projectId The project ID
+ * @param screenplayId The screenplay ID
+ * @param userId The current user
+ * @param userName Name shown on this writer's locks
+ * @param blocks The editor's blocks
+ * @param activeBlock The block being edited
+ * @param isOwner Whether the current user owns the project
+ */
+export const useSceneLocks = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined,
+  userName: string | undefined,
+  blocks: Block[],
+  activeBlock: string | null,
+  isOwner: boolean
+) => {
+  const [sceneLocks, setSceneLocks] = useState<SceneLock[]>([]);
+  const [heldSceneId, setHeldSceneId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const managerRef = useRef<CollaborationManager | null>(null);
+  const userNameRef = useRef(userName);
+  userNameRef.current = userName;
+  // Content of the held scene at the last renewal, to tell whether it was edited since
+  const heldContentRef = useRef<string | null>(null);
+
+  const liveLocks = useMemo(
+    () => sceneLocks.filter(lock => !isLockExpired(lock, now)),
+    [sceneLocks, now]
+  );
+
+  const lockedBlockIds = useMemo(
+    () => getLockedBlockIds(blocks, new Set(liveLocks.map(lock => lock.sceneId))),
+    [blocks, liveLocks]
+  );
+
+  const activeSceneId = activeBlock ? getSceneIdForBlock(blocks, activeBlock) : null;
+
+  const heldSceneContent = useMemo(() => {
+    if (!heldSceneId) return null;
+    const sceneBlockIds = getLockedBlockIds(blocks, new Set([heldSceneId]));
+    return JSON.stringify(blocks.filter(block => sceneBlockIds.has(block.id)));
+  }, [blocks, heldSceneId]);
+  const heldSceneContentRef = useRef(heldSceneContent);
+  heldSceneContentRef.current = heldSceneContent;
+
+  // Listen for other writers' locks
+  useEffect(() => {
+    if (!projectId || !screenplayId || !userId) return;
+
+    const manager = new CollaborationManager({ id: screenplayId, projectId }, userId, undefined, setSceneLocks);
+    managerRef.current = manager;
+    manager.startSceneLocks();
+
+    return () => {
+      manager.cleanup();
+      managerRef.current = null;
+      setSceneLocks([]);
+      setHeldSceneId(null);
+    };
+  }, [projectId, screenplayId, userId]);
+
+  // Locks expire without a snapshot, so check them again now and then
+  useEffect(() => {
+    if (sceneLocks.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), LOCK_RENEW_INTERVAL);
+    return () => clearInterval(interval);
+  }, [sceneLocks.length]);
+
+  // Take the lock of the scene the writer moves into and release the previous one
+  useEffect(() => {
+    const manager = managerRef.current;
+    if (!manager || !activeSceneId) return;
+
+    let cancelled = false;
+    const acquireLock = async () => {
+      const result = await manager.acquireSceneLock(activeSceneId, userNameRef.current);
+      if (cancelled) {
+        if (result.success) manager.releaseSceneLock(activeSceneId);
+        return;
+      }
+
+      if (result.success) {
+        setHeldSceneId(activeSceneId);
+        setError(null);
+      } else {
+        setHeldSceneId(null);
+        setError(result.error || 'Failed to lock scene');
+      }
+    };
+
+    acquireLock();
+
+    return () => {
+      cancelled = true;
+      setHeldSceneId(null);
+      manager.releaseSceneLock(activeSceneId);
+    };
+  }, [activeSceneId, projectId, screenplayId, userId]);
+
+  // Keep the held lock alive while the writer stays in the scene
+  useEffect(() => {
+    const manager = managerRef.current;
+    if (!manager || !heldSceneId) return;
+
+    heldContentRef.current = heldSceneContentRef.current;
+    const interval = setInterval(async () => {
+      const edited = heldSceneContentRef.current !== heldContentRef.current;
+      heldContentRef.current = heldSceneContentRef.current;
+
+      const result = await manager.renewSceneLock(heldSceneId, edited);
+      if (!result.success) {
+        setHeldSceneId(null);
+        setError(result.error || 'Lost the scene lock');
+      }
+    }, LOCK_RENEW_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [heldSceneId]);
+
+  /**
+   * Finds the lock another writer holds on a scene
+   * @param sceneId The scene ID
+   */
+  const getSceneLock = useCallback((sceneId: string): SceneLock | null => {
+    return liveLocks.find(lock => lock.sceneId === sceneId) || null;
+  }, [liveLocks]);
+
+  /**
+   * Removes another writer's stale lock so the scene can be edited again
+   * @param sceneId The locked scene
+   */
+  const breakLock = useCallback(async (sceneId: string): Promise<{ success: boolean; error?: string }> => {
+    if (!managerRef.current) {
+      return { success: false, error: 'Scene locks are not available' };
+    }
+
+    const result = await managerRef.current.breakSceneLock(sceneId, isOwner);
+    if (result.success) {
+      setSceneLocks(prev => prev.filter(lock => lock.sceneId !== sceneId));
+    } else {
+      setError(result.error || 'Failed to break scene lock');
+    }
+    return result;
+  }, [isOwner]);
+
+  return {
+    sceneLocks: liveLocks,
+    lockedBlockIds,
+    heldSceneId,
+    error,
+    getSceneLock,
+    breakLock
+  };
+};
@@ -26,6 +26,8 @@ export interface Scene {
   scene_heading?: string;
   order: number;
   blocks: Block[];
+  scene_number?: string; // Locked scene number, e.g. "12A"
+  omitted?: boolean;
   createdAt?: any;
 }
 
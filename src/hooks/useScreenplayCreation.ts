@@ -13,7 +13,7 @@ import {
 import { db } from '../lib/firebase';
 import { v4 as uuidv4 } from 'uuid';
 import { INITIAL_BLOCKS } from '../constants/editorConstants';
-import { detectFormat, createSceneHeadingHash } from '../utils/blockUtils';
+import { detectFormat, createSceneHeadingHash, segmentBlocksIntoScenes } from '../utils/blockUtils';
 import type { PersistedEditorState, Block, SceneDocument, UniqueSceneHeadingDocument } from '../types';
 
 // Screenplay creation parameters (unchanged)
@@ -30,6 +30,8 @@ interface CreateScreenplayParams {
     episode?: number;
   };
   collaborators?: string[];
+  blocks?: Block[]; // Imported blocks used instead of the default initial scene
+  header?: Partial<PersistedEditorState['header']>; // Imported title page fields
 }
 
 export const useScreenplayCreation = () => {
@@ -53,6 +55,8 @@ export const useScreenplayCreation = () => {
       ownerId,
       metadata,
       collaborators = [],
+      blocks,
+      header,
     }: CreateScreenplayParams) => {
       setLoading(true);
       setError(null);
@@ -81,50 +85,69 @@ export const useScreenplayCreation = () => {
         ];
 
         const sceneHeadingText = 'INT. LOCATION - DAY';
-        const sceneDoc: SceneDocument = {
-          id: sceneId,
-          scene_heading: sceneHeadingText,
-          blocks: initialBlocksContent,
-          order: 0,
-          screenplayId: screenplayIdForDoc,
-          projectId,
-          characters_in_this_scene: [],
-          elements_in_this_scene: [],
-          lastModified: Timestamp.fromDate(currentTime)
-        };
-        
-        const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayIdForDoc}/scenes`, sceneId);
-        batch.set(sceneRef, sceneDoc);
-        
-        const sceneHeadingHash = createSceneHeadingHash(sceneHeadingText);
-        const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
-        
-        const uniqueSceneHeadingDoc = await getDoc(uniqueSceneHeadingRef);
+        const sceneDocs: SceneDocument[] = blocks && blocks.length > 0
+          ? segmentBlocksIntoScenes(blocks)
+          : [{
+              id: sceneId,
+              scene_heading: sceneHeadingText,
+              blocks: initialBlocksContent,
+              order: 0,
+              screenplayId: screenplayIdForDoc,
+              projectId,
+              characters_in_this_scene: [],
+              elements_in_this_scene: [],
+              lastModified: Timestamp.fromDate(currentTime)
+            }];
         
-        if (uniqueSceneHeadingDoc.exists()) {
-          const existingData = uniqueSceneHeadingDoc.data() as UniqueSceneHeadingDocument;
+        const syncedHeadingHashes = new Set<string>();
+        for (const sceneDoc of sceneDocs) {
+          sceneDoc.screenplayId = screenplayIdForDoc;
+          sceneDoc.projectId = projectId;
+          sceneDoc.lastModified = Timestamp.fromDate(currentTime);
+
+          const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayIdForDoc}/scenes`, sceneDoc.id);
+          batch.set(sceneRef, sceneDoc);
           
-          batch.update(uniqueSceneHeadingRef, {
-            count: existingData.count + 1,
-            lastUsed: Timestamp.fromDate(currentTime),
-            screenplayIds: arrayUnion(screenplayIdForDoc)
-          });
-        } else {
-          const uniqueSceneHeadingData: UniqueSceneHeadingDocument = {
-            id: sceneHeadingHash,
-            text: sceneHeadingText,
-            text_uppercase: sceneHeadingText.toUpperCase(), // ADD THIS LINE
-            count: 1,
-            lastUsed: Timestamp.fromDate(currentTime),
-            screenplayIds: [screenplayIdForDoc],
-            associated_characters: [],
-            associated_elements: []
-          };
+          if (!sceneDoc.scene_heading.trim()) continue;
+
+          const sceneHeadingHash = createSceneHeadingHash(sceneDoc.scene_heading);
+          if (syncedHeadingHashes.has(sceneHeadingHash)) continue;
+          syncedHeadingHashes.add(sceneHeadingHash);
+
+          const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
+          
+          const uniqueSceneHeadingDoc = await getDoc(uniqueSceneHeadingRef);
           
-          batch.set(uniqueSceneHeadingRef, uniqueSceneHeadingData);
+          if (uniqueSceneHeadingDoc.exists()) {
+            const existingData = uniqueSceneHeadingDoc.data() as UniqueSceneHeadingDocument;
+            
+            batch.update(uniqueSceneHeadingRef, {
+              count: existingData.count + 1,
+              lastUsed: Timestamp.fromDate(currentTime),
+              screenplayIds: arrayUnion(screenplayIdForDoc)
+            });
+          } else {
+            const uniqueSceneHeadingData: UniqueSceneHeadingDocument = {
+              id: sceneHeadingHash,
+              text: sceneDoc.scene_heading,
+              text_uppercase: sceneDoc.scene_heading.toUpperCase(), // ADD THIS LINE
+              count: 1,
+              lastUsed: Timestamp.fromDate(currentTime),
+              screenplayIds: [screenplayIdForDoc],
+              associated_characters: [],
+              associated_elements: []
+            };
+            
+            batch.set(uniqueSceneHeadingRef, uniqueSceneHeadingData);
+          }
         }
 
-        const totalBlocksCount = initialBlocksContent.length + 1;
+        const totalBlocksCount = sceneDocs.reduce((total, sceneDoc) => total + sceneDoc.blocks.length + 1, 0);
+        const headerContent = {
+          title: header?.title || title,
+          author: header?.author || metadata.author,
+          contact: header?.contact || ''
+        };
 
         batch.set(screenplayRef, {
           title,
@@ -137,25 +160,17 @@ export const useScreenplayCreation = () => {
           status: 'Draft',
           metadata,
           total_blocks_in_screenplay: totalBlocksCount,
-          total_scenes_in_screenplay: 1,
-          header_content: { 
-            title, 
-            author: metadata.author, 
-            contact: '' 
-          }
+          total_scenes_in_screenplay: sceneDocs.length,
+          header_content: headerContent
         });
 
         const editorStateRef = doc(db, `projects/${projectId}/screenplays/${screenplayIdForDoc}/editor/state`);
 
         const persistedEditorState: PersistedEditorState = {
-          activeBlock: sceneId,
+          activeBlock: sceneDocs[0].id,
           selectedBlocks: [],
           editingHeader: false,
-          header: { 
-            title, 
-            author: metadata.author, 
-            contact: '' 
-          },
+          header: headerContent,
           lastModified: currentTime
         };
 
@@ -171,7 +186,7 @@ export const useScreenplayCreation = () => {
           
           batch.update(projectRef, {
             total_blocks_count: currentBlocksCount + totalBlocksCount,
-            total_scenes_count: currentScenesCount + 1,
+            total_scenes_count: currentScenesCount + sceneDocs.length,
             updated_at: currentTime
           });
         }
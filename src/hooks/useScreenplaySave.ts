@@ -12,17 +12,23 @@ import {
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import { ScreenplaySaveManager } from '../lib/screenplay/saveManager';
+import { loadOfflineDraft, saveOfflineDraft, clearOfflineDraft, type OfflineDraft } from '../lib/screenplay/offlineStore';
 import { segmentBlocksIntoScenes } from '../utils/blockUtils';
 import type { Block, PersistedEditorState, SceneDocument } from '../types';
-import type { SaveResult } from '../types/screenplay';
+import type { SaveResult, ConflictingScene } from '../types/screenplay';
 import type { Scene } from '../hooks/useScenes';
 
+const OFFLINE_SAVE_ERROR = 'You are offline. Your changes are kept on this device and will be saved when you reconnect.';
+const DRAFT_DELAY = 1000; // Wait for a pause in typing before writing the offline draft
+const DIRTY_CHECK_DELAY = 300; // Wait for a pause in typing before comparing scenes with the last save
+
 export const useScreenplaySave = (
   projectId: string | undefined,
   screenplayId: string | null,
   userId: string,
   blocks: Block[],
-  activeBlock: string | null
+  activeBlock: string | null,
+  readOnly = false // Viewers cannot save, so their blocks are never unsaved
 ) => {
   // Reference to the save manager
   const saveManagerRef = useRef<ScreenplaySaveManager | null>(null);
@@ -30,6 +36,18 @@ export const useScreenplaySave = (
   const [hasChanges, setHasChanges] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pendingSceneOrder, setPendingSceneOrder] = useState<Scene[] | null>(null);
+  const [isOffline, setIsOffline] = useState(() => typeof navigator !== 'undefined' && !navigator.onLine);
+  const [hasQueuedSave, setHasQueuedSave] = useState(false);
+  const [unsavedSceneIds, setUnsavedSceneIds] = useState<string[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  // Draft found when the screenplay opened, until the editor has restored it
+  const [offlineDraft, setOfflineDraft] = useState<OfflineDraft | null>(null);
+  // Drafts are only written once any stored draft has been read and restored
+  const [draftReady, setDraftReady] = useState(false);
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const hasQueuedSaveRef = useRef(hasQueuedSave);
+  hasQueuedSaveRef.current = hasQueuedSave;
 
   // Validate required parameters
   useEffect(() => {
@@ -109,8 +127,21 @@ export const useScreenplaySave = (
         }
         
         // Buffer initial blocks if available
-        if (saveManagerRef.current && blocks.length > 0) {
-          saveManagerRef.current.bufferChanges(blocks);
+        if (saveManagerRef.current && blocksRef.current.length > 0) {
+          saveManagerRef.current.bufferChanges(blocksRef.current);
+        }
+
+        // Unsaved work from an earlier session keeps the scene versions it
+        // was edited from; otherwise remember the versions we opened. Either
+        // way they are used to detect edits by others.
+        const draft = await loadOfflineDraft(projectId, screenplayId);
+        if (draft) {
+          console.log(`Found offline draft for screenplay ${screenplayId}`);
+          saveManagerRef.current?.restoreSavedScenes(draft.baseScenes);
+          setOfflineDraft(draft);
+        } else {
+          await saveManagerRef.current?.loadSavedScenes(projectId, screenplayId);
+          setDraftReady(true);
         }
       } catch (err) {
         console.error('Error initializing save manager:', err);
@@ -120,24 +151,132 @@ export const useScreenplaySave = (
     
     initializeSaveManager();
     
-    // Cleanup save manager on unmount
+    // Cleanup save manager on unmount. It is kept across edits so it can
+    // remember which scenes are already saved.
     return () => {
       if (saveManagerRef.current) {
         saveManagerRef.current.cleanup();
         saveManagerRef.current = null;
       }
+      setOfflineDraft(null);
+      setDraftReady(false);
     };
-  }, [projectId, userId, screenplayId, blocks]);
+  }, [projectId, userId, screenplayId]);
 
-  // Watch for changes to mark content as unsaved
+  // Track the connection
   useEffect(() => {
-    setHasChanges(true);
-    
-    // Buffer changes in save manager
-    if (saveManagerRef.current && blocks.length > 0) {
-      saveManagerRef.current.bufferChanges(blocks);
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  /**
+   * Writes the current blocks to the offline draft, or removes the draft
+   * when nothing differs from the last save
+   * @param queued Whether a save is waiting for the connection
+   */
+  const storeOfflineDraft = useCallback(async (queued: boolean) => {
+    const saveManager = saveManagerRef.current;
+    if (!projectId || !screenplayId || !saveManager || blocksRef.current.length === 0) return;
+
+    try {
+      const currentBlocks = blocksRef.current;
+      if (!(await saveManager.hasUnsavedChanges(currentBlocks))) {
+        await clearOfflineDraft(projectId, screenplayId);
+        return;
+      }
+
+      await saveOfflineDraft({
+        projectId,
+        screenplayId,
+        blocks: currentBlocks,
+        baseScenes: saveManager.getSavedScenes(),
+        queued
+      });
+    } catch (err) {
+      console.error('Error storing offline draft:', err);
+    }
+  }, [projectId, screenplayId]);
+
+  // Keep edits on this device until they are saved
+  useEffect(() => {
+    if (!draftReady || !hasChanges) return;
+
+    const timer = setTimeout(() => {
+      storeOfflineDraft(hasQueuedSaveRef.current);
+    }, DRAFT_DELAY);
+    return () => clearTimeout(timer);
+  }, [blocks, hasChanges, draftReady, storeOfflineDraft]);
+
+  /**
+   * Called once the editor has applied (or dismissed) the offline draft
+   */
+  const acceptOfflineDraft = useCallback(() => {
+    setHasQueuedSave(!!offlineDraft?.queued);
+    setOfflineDraft(null);
+    setDraftReady(true);
+  }, [offlineDraft]);
+
+  /**
+   * Keeps the current blocks on this device and marks them to be saved
+   * when the connection is back
+   */
+  const queueOfflineSave = useCallback(async (result?: SaveResult): Promise<SaveResult> => {
+    setHasQueuedSave(true);
+    await storeOfflineDraft(true);
+    return { ...result, success: false, error: OFFLINE_SAVE_ERROR, offline: true };
+  }, [storeOfflineDraft]);
+
+  /**
+   * Records a successful save and removes the offline draft. Edits made
+   * while the save was running stay unsaved.
+   */
+  const markSaved = useCallback(async () => {
+    setLastSavedAt(new Date());
+    setPendingSceneOrder(null); // Clear any pending scene order changes
+    setHasQueuedSave(false);
+    if (projectId && screenplayId) {
+      await clearOfflineDraft(projectId, screenplayId);
     }
-  }, [blocks]);
+
+    const saveManager = saveManagerRef.current;
+    const remainingSceneIds = saveManager ? await saveManager.getUnsavedSceneIds(blocksRef.current) : [];
+    setUnsavedSceneIds(remainingSceneIds);
+    setHasChanges(remainingSceneIds.length > 0);
+  }, [projectId, screenplayId]);
+
+  // Watch for changes to track which scenes are unsaved
+  useEffect(() => {
+    const saveManager = saveManagerRef.current;
+    if (!saveManager || blocks.length === 0) return;
+
+    // Buffer changes in save manager
+    saveManager.bufferChanges(blocks);
+
+    // Scenes are compared with the last save once any offline draft is restored.
+    // A viewer's blocks only change through merges from the co-editing session.
+    if (!draftReady || readOnly) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const sceneIds = await saveManager.getUnsavedSceneIds(blocks);
+        setUnsavedSceneIds(sceneIds);
+        if (sceneIds.length > 0) {
+          setHasChanges(true);
+        }
+      } catch (err) {
+        console.error('Error checking unsaved scenes:', err);
+        setHasChanges(true);
+      }
+    }, DIRTY_CHECK_DELAY);
+    return () => clearTimeout(timer);
+  }, [blocks, draftReady, readOnly]);
 
   // Handle pending scene order changes
   useEffect(() => {
@@ -153,7 +292,13 @@ export const useScreenplaySave = (
     setHasChanges(true);
   }, []);
 
-  const handleSave = useCallback(async (): Promise<SaveResult> => {
+  /**
+   * Saves the screenplay
+   * @param options.overwrite Skip the version check
+   * @param options.coEditingSessionId The co-editing session the blocks come from, whose writers' saves are merged rather than conflicts
+   * @param options.blocks Blocks to save instead of the ones this render shows, e.g. right after accepting suggestions
+   */
+  const handleSave = useCallback(async (options: { overwrite?: boolean; coEditingSessionId?: string; blocks?: Block[] } = {}): Promise<SaveResult> => {
     if (!projectId) {
       return { success: false, error: 'Project ID is required' };
     }
@@ -166,8 +311,15 @@ export const useScreenplaySave = (
       return { success: false, error: 'User ID is required' };
     }
 
+    // Firestore would hold the writes until the connection is back, so keep
+    // them in the offline queue instead
+    if (!navigator.onLine) {
+      return queueOfflineSave();
+    }
+
     setIsSaving(true);
     setError(null);
+    const blocksToSave = options.blocks || blocks;
 
     try {
       // If we have a save manager, use it
@@ -176,17 +328,28 @@ export const useScreenplaySave = (
         
         // Ensure the save manager has the correct project ID
         saveManagerRef.current.updateProjectId(projectId);
+
+        // Save the blocks this render shows, even if the buffer effect has not run yet
+        if (blocksToSave.length > 0) {
+          saveManagerRef.current.bufferChanges(blocksToSave);
+        }
         
         // If we have pending scene order changes, set them in the save manager
         if (pendingSceneOrder) {
           saveManagerRef.current.setPendingSceneOrder(pendingSceneOrder);
         }
         
-        const result = await saveManagerRef.current.saveScreenplay();
+        // The conflict dialog passes its choice through the URL
+        const conflictResolution = new URLSearchParams(window.location.search).get('conflict_resolution');
+        const result = await saveManagerRef.current.saveScreenplay({
+          overwrite: options.overwrite || conflictResolution === 'overwrite',
+          coEditingSessionId: options.coEditingSessionId
+        });
         
         if (result.success) {
-          setHasChanges(false);
-          setPendingSceneOrder(null); // Clear any pending scene order changes
+          await markSaved();
+        } else if (result.offline || !navigator.onLine) {
+          return queueOfflineSave(result);
         } else {
           setError(result.error || 'Failed to save screenplay');
         }
@@ -198,7 +361,7 @@ export const useScreenplaySave = (
       console.log(`Save manager not available, using direct save for screenplay ${screenplayId} in project ${projectId}`);
       
       // Segment blocks into scenes
-      const scenes = segmentBlocksIntoScenes(blocks);
+      const scenes = segmentBlocksIntoScenes(blocksToSave);
       
       // Set projectId and screenplayId on all scenes
       scenes.forEach(scene => {
@@ -216,7 +379,7 @@ export const useScreenplaySave = (
       // Update screenplay metadata
       const screenplayRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}`);
       await updateDoc(screenplayRef, {
-        total_blocks_in_screenplay: blocks.length,
+        total_blocks_in_screenplay: blocksToSave.length,
         total_scenes_in_screenplay: scenes.length,
         lastModified: serverTimestamp(),
         version: increment(1)
@@ -257,7 +420,86 @@ export const useScreenplaySave = (
     } finally {
       setIsSaving(false);
     }
-  }, [projectId, screenplayId, userId, blocks, activeBlock, pendingSceneOrder]);
+  }, [projectId, screenplayId, userId, blocks, activeBlock, pendingSceneOrder, queueOfflineSave, markSaved]);
+
+  /**
+   * Loads the base and stored versions of conflicting scenes for a merge
+   * @param sceneIds The conflicting scenes
+   * @returns Both versions of each scene
+   */
+  const loadConflictingScenes = useCallback(async (sceneIds: string[]): Promise<ConflictingScene[]> => {
+    const saveManager = saveManagerRef.current;
+    if (!saveManager) return [];
+
+    const remoteScenes = await saveManager.fetchRemoteScenes(sceneIds);
+    return sceneIds.map(sceneId => ({
+      sceneId,
+      base: saveManager.getBaseScene(sceneId) || null,
+      remote: remoteScenes.get(sceneId) || null
+    }));
+  }, []);
+
+  /**
+   * Saves blocks that merged in the stored versions of the conflicting scenes
+   * @param mergedBlocks The full block list after the merge
+   * @param mergedScenes The scenes whose stored versions were merged
+   * @returns The save result
+   */
+  const saveMergedBlocks = useCallback(async (
+    mergedBlocks: Block[],
+    mergedScenes: ConflictingScene[]
+  ): Promise<SaveResult> => {
+    const saveManager = saveManagerRef.current;
+    if (!saveManager) {
+      return { success: false, error: 'Save manager is not available' };
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      saveManager.acceptRemoteScenes(new Map(mergedScenes.map(scene => [scene.sceneId, scene.remote])));
+      saveManager.bufferChanges(mergedBlocks);
+      if (pendingSceneOrder) {
+        saveManager.setPendingSceneOrder(pendingSceneOrder);
+      }
+
+      const result = await saveManager.saveScreenplay();
+      if (result.success) {
+        await markSaved();
+      } else if (result.offline) {
+        return queueOfflineSave(result);
+      } else if (!result.conflicts) {
+        setError(result.error || 'Failed to save screenplay');
+      }
+      return result;
+    } catch (err) {
+      console.error('Error saving merged screenplay:', err);
+      const errorMessage = 'Failed to save merged screenplay';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pendingSceneOrder, queueOfflineSave, markSaved]);
+
+  /**
+   * Makes scenes another tool rewrote, such as a character rename, the base
+   * of the next save. The open blocks must already contain their changes.
+   * Scenes someone else saved before the rewrite keep their old base, so the
+   * next save reports them as conflicts to merge instead of overwriting them.
+   * @param scenes The stored scenes, each one version past the one rewritten
+   */
+  const acceptStoredScenes = useCallback((scenes: SceneDocument[]) => {
+    const saveManager = saveManagerRef.current;
+    if (!saveManager) return;
+
+    const rewrittenFromBase = scenes.filter(scene => {
+      const base = saveManager.getBaseScene(scene.id);
+      return !!base && (base.version || 0) === (scene.version || 0) - 1;
+    });
+    saveManager.acceptRemoteScenes(new Map(rewrittenFromBase.map(scene => [scene.id, scene])));
+  }, []);
 
   return {
     isSaving,
@@ -265,6 +507,15 @@ export const useScreenplaySave = (
     error,
     handleSave,
     setHasChanges,
-    setPendingSceneOrderChanges
+    setPendingSceneOrderChanges,
+    loadConflictingScenes,
+    saveMergedBlocks,
+    acceptStoredScenes,
+    isOffline,
+    hasQueuedSave,
+    unsavedSceneIds,
+    lastSavedAt,
+    offlineDraft,
+    acceptOfflineDraft
   };
 };
\ No newline at end of file
@@ -26,7 +26,7 @@ import {
   ElementDocument 
 } from '../types';
 import { Screenplay } from '../types/screenplay';
-import { createSceneHeadingHash, identifyScenes } from '../utils/blockUtils';
+import { createSceneHeadingHash, identifyScenes, sceneDocumentToBlocks } from '../utils/blockUtils';
 
 interface ScreenplayWithScenes extends Screenplay {
   loadedSceneDocuments?: SceneDocument[];
@@ -136,16 +136,7 @@ export const useScreenplays = (projectId: string) => {
         
         // Assemble the full blocks array from scene documents
         loadedSceneDocuments.forEach(sceneDoc => {
-          // Add the scene heading block itself
-          blocks.push({
-            id: sceneDoc.id,
-            type: 'scene-heading',
-            content: sceneDoc.scene_heading,
-            number: sceneDoc.order + 1 // Scene numbers typically start from 1
-          });
-          
-          // Add the rest of the blocks in the scene
-          blocks = blocks.concat(sceneDoc.blocks);
+          blocks = blocks.concat(sceneDocumentToBlocks(sceneDoc));
         });
         
         console.log(`Loaded ${loadedSceneDocuments.length} scenes with total ${blocks.length} blocks.`);
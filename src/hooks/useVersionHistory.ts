@@ -0,0 +1,178 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  collection,
+  onSnapshot,
+  query,
+  orderBy,
+  writeBatch,
+  increment,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { v4 as uuidv4 } from 'uuid';
+import { segmentBlocksIntoScenes } from '../utils/blockUtils';
+import type { Block, PersistedEditorState } from '../types';
+import type { ScreenplayVersion, TitlePage } from '../types/screenplay';
+
+export const useVersionHistory = (
+  projectId: string | undefined,
+  screenplayId: string | undefined,
+  userId: string | undefined
+) => {
+  const [versions, setVersions] = useState<ScreenplayVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest snapshots first
+  useEffect(() => {
+    if (!projectId || !screenplayId) {
+      setLoading(false);
+      return;
+    }
+
+    const versionsRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/versions`);
+    const unsubscribe = onSnapshot(
+      query(versionsRef, orderBy('created_at', 'desc')),
+      (snapshot) => {
+        setVersions(snapshot.docs.map(versionDoc => versionDoc.data() as ScreenplayVersion));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error loading versions:', err);
+        setError('Failed to load version history');
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [projectId, screenplayId]);
+
+  /**
+   * Saves the given blocks and header as a named snapshot
+   * @param name Display name of the snapshot
+   * @param blocks The full block list
+   * @param header The title page fields
+   * @returns The new version, or an error
+   */
+  const createVersion = useCallback(async (
+    name: string,
+    blocks: Block[],
+    header: TitlePage
+  ): Promise<{ success: boolean; version?: ScreenplayVersion; error?: string }> => {
+    if (!projectId || !screenplayId || !userId) {
+      return { success: false, error: 'Missing project ID, screenplay ID, or user ID' };
+    }
+
+    try {
+      const screenplaySnap = await getDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}`));
+      const versionRef = doc(collection(db, `projects/${projectId}/screenplays/${screenplayId}/versions`));
+
+      const version: ScreenplayVersion = {
+        id: versionRef.id,
+        name: name.trim() || 'Untitled Version',
+        blocks,
+        header,
+        scene_order: blocks.filter(block => block.type === 'scene-heading').map(block => block.id),
+        screenplay_version: screenplaySnap.exists() ? screenplaySnap.data().version || 0 : 0,
+        created_at: Timestamp.now(),
+        created_by: userId
+      };
+
+      await setDoc(versionRef, version);
+      return { success: true, version };
+    } catch (err) {
+      console.error('Error creating version:', err);
+      const errorMessage = 'Failed to save version';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [projectId, screenplayId, userId]);
+
+  /**
+   * Creates a new screenplay in the same project from a snapshot
+   * @param version The snapshot to branch from
+   * @param title Title of the new screenplay
+   * @returns The ID of the new screenplay, or an error
+   */
+  const branchVersion = useCallback(async (
+    version: ScreenplayVersion,
+    title: string
+  ): Promise<{ success: boolean; screenplayId?: string; error?: string }> => {
+    if (!projectId || !screenplayId || !userId) {
+      return { success: false, error: 'Missing project ID, screenplay ID, or user ID' };
+    }
+
+    try {
+      const screenplaySnap = await getDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}`));
+      if (!screenplaySnap.exists()) {
+        return { success: false, error: 'Screenplay not found' };
+      }
+
+      const branchId = `${screenplayId}-branch-${uuidv4()}`;
+      const now = Timestamp.now();
+      const sceneDocs = segmentBlocksIntoScenes(version.blocks);
+      const totalBlocksCount = sceneDocs.reduce((total, sceneDoc) => total + sceneDoc.blocks.length + 1, 0);
+
+      // The copy starts as a fresh draft, without the revision or page lock of the original
+      const screenplayData = { ...screenplaySnap.data() };
+      delete screenplayData.revision;
+      delete screenplayData.pageLock;
+
+      const batch = writeBatch(db);
+
+      sceneDocs.forEach((sceneDoc) => {
+        sceneDoc.projectId = projectId;
+        sceneDoc.screenplayId = branchId;
+        sceneDoc.lastModified = now;
+        batch.set(doc(db, `projects/${projectId}/screenplays/${branchId}/scenes`, sceneDoc.id), sceneDoc);
+      });
+
+      batch.set(doc(db, `projects/${projectId}/screenplays`, branchId), {
+        ...screenplayData,
+        title,
+        createdAt: now,
+        lastModified: now,
+        version: 1,
+        status: 'Draft',
+        total_blocks_in_screenplay: totalBlocksCount,
+        total_scenes_in_screenplay: sceneDocs.length,
+        header_content: { ...version.header, title: version.header.title || title },
+        branchedFrom: { screenplayId, versionId: version.id }
+      });
+
+      const editorState: PersistedEditorState = {
+        activeBlock: sceneDocs[0]?.id || null,
+        selectedBlocks: [],
+        editingHeader: false,
+        header: version.header,
+        lastModified: now.toDate()
+      };
+      batch.set(doc(db, `projects/${projectId}/screenplays/${branchId}/editor/state`), editorState);
+
+      batch.update(doc(db, 'projects', projectId), {
+        total_blocks_count: increment(totalBlocksCount),
+        total_scenes_count: increment(sceneDocs.length),
+        updated_at: now
+      });
+
+      await batch.commit();
+      return { success: true, screenplayId: branchId };
+    } catch (err) {
+      console.error('Error branching version:', err);
+      const errorMessage = 'Failed to create a copy from this version';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  }, [projectId, screenplayId, userId]);
+
+  return {
+    versions,
+    loading,
+    error,
+    createVersion,
+    branchVersion
+  };
+};
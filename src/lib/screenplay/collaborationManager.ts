@@ -1,27 +1,159 @@
 import { 
   collection, query, where, onSnapshot,
-  doc, setDoc, deleteDoc, serverTimestamp,
-  Timestamp, getDocs
+  doc, setDoc, updateDoc, deleteDoc, serverTimestamp,
+  runTransaction, Timestamp, getDocs, writeBatch
 } from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
 import { db } from '../firebase';
+import { createBlockCrdt, type BlockOperation } from '../../utils/blockCrdt';
+import { createCoEditingSession, type CoEditingSession, type CollaborationTransport } from '../../utils/coEditing';
+import { canBreakLock, isLockExpired, LOCK_DURATION } from '../../utils/sceneLocks';
+import { isPresenceActive, PRESENCE_THROTTLE } from '../../utils/presence';
+import type { Block } from '../../types';
 import type { 
   CollaboratorCursor, SceneLock,
-  Screenplay, Scene 
-} from '../../types';
+  Screenplay, CoEditingSessionDocument
+} from '../../types/screenplay';
+
+type PresenceUpdate = Omit<CollaboratorCursor, 'userId' | 'screenplayId' | 'timestamp'>;
+
+const SESSION_TIMEOUT = 30 * 60 * 1000; // A session without edits for this long is over
+const SEND_DELAY = 250; // Operations typed within this time are sent together
+const SESSION_TOUCH_INTERVAL = 60 * 1000;
+const DELETE_BATCH_SIZE = 500; // Firestore's limit on writes per batch
+
+/**
+ * Path of a screenplay's co-editing session document
+ */
+export const getCoEditingSessionPath = (projectId: string, screenplayId: string): string =>
+  `projects/${projectId}/screenplays/${screenplayId}/coediting/session`;
+
+/**
+ * Whether a co-editing session is still going; one without edits for a while is over
+ */
+export const isCoEditingSessionLive = (session: CoEditingSessionDocument): boolean =>
+  Date.now() - session.updatedAt.toMillis() < SESSION_TIMEOUT;
+
+/**
+ * Carries block operations through Firestore. Each batch of operations is
+ * one document in the session's operations collection.
+ */
+class FirestoreTransport implements CollaborationTransport {
+  private sessionPath: string;
+  private sessionId: string;
+  private replica: string;
+  private queue: BlockOperation[] = [];
+  private sendTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastTouched = 0;
+  private loaded: Promise<void>;
+  private resolveLoaded: () => void = () => {};
+  private rejectLoaded: (err: unknown) => void = () => {};
+
+  constructor(sessionPath: string, sessionId: string, replica: string) {
+    this.sessionPath = sessionPath;
+    this.sessionId = sessionId;
+    this.replica = replica;
+    this.loaded = new Promise((resolve, reject) => {
+      this.resolveLoaded = resolve;
+      this.rejectLoaded = reject;
+    });
+  }
+
+  /**
+   * Resolves once the operations sent before subscribing have been delivered
+   */
+  public whenLoaded(): Promise<void> {
+    return this.loaded;
+  }
+
+  public async send(operations: BlockOperation[]): Promise<void> {
+    this.queue.push(...operations);
+    if (!this.sendTimer) {
+      this.sendTimer = setTimeout(() => {
+        this.flush().catch(err => console.error('Error sending operations:', err));
+      }, SEND_DELAY);
+    }
+  }
+
+  public async flush(): Promise<void> {
+    if (this.sendTimer) {
+      clearTimeout(this.sendTimer);
+      this.sendTimer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const operations = this.queue;
+    this.queue = [];
+    const batchId = `${this.replica}-${operations[0].stamp.counter}`;
+    await setDoc(doc(db, `${this.sessionPath}/operations`, batchId), {
+      sessionId: this.sessionId,
+      replica: this.replica,
+      operations,
+      createdAt: serverTimestamp()
+    });
+
+    // Keep the session alive while someone is typing
+    if (Date.now() - this.lastTouched > SESSION_TOUCH_INTERVAL) {
+      this.lastTouched = Date.now();
+      await updateDoc(doc(db, this.sessionPath), { updatedAt: Timestamp.now() });
+    }
+  }
+
+  public subscribe(onOperations: (operations: BlockOperation[]) => void): () => void {
+    const operationsQuery = query(
+      collection(db, `${this.sessionPath}/operations`),
+      where('sessionId', '==', this.sessionId)
+    );
+
+    return onSnapshot(operationsQuery, (snapshot) => {
+      snapshot.docChanges()
+        .filter(change => change.type === 'added' && change.doc.data().replica !== this.replica)
+        .forEach(change => onOperations(change.doc.data().operations as BlockOperation[]));
+      this.resolveLoaded();
+    }, (err) => {
+      console.error('Error listening for operations:', err);
+      this.rejectLoaded(err);
+    });
+  }
+}
+
+/**
+ * Deletes the operations of ended sessions. A new session starts from the
+ * merged blocks, so their history is no longer needed.
+ * @param sessionPath The session document's path
+ * @param sessionId The session whose operations are kept
+ */
+const deleteEndedSessionOperations = async (sessionPath: string, sessionId: string): Promise<void> => {
+  const endedQuery = query(
+    collection(db, `${sessionPath}/operations`),
+    where('sessionId', '!=', sessionId)
+  );
+  const snapshot = await getDocs(endedQuery);
+
+  for (let start = 0; start < snapshot.docs.length; start += DELETE_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + DELETE_BATCH_SIZE).forEach(operationDoc => batch.delete(operationDoc.ref));
+    await batch.commit();
+  }
+};
 
 export class CollaborationManager {
-  private screenplay: Screenplay;
+  private screenplay: Pick<Screenplay, 'id' | 'projectId'>;
   private userId: string;
   private cursorListeners: Map<string, () => void>;
   private lockListeners: Map<string, () => void>;
   private onCursorUpdate: (cursors: CollaboratorCursor[]) => void;
   private onSceneLock: (locks: SceneLock[]) => void;
+  private coEditing: { sessionId: string; session: CoEditingSession; transport: FirestoreTransport } | null = null;
+  private pendingPresence: PresenceUpdate | null = null;
+  private presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastPresenceWrite = 0;
 
   constructor(
-    screenplay: Screenplay, 
+    screenplay: Pick<Screenplay, 'id' | 'projectId'>, 
     userId: string,
-    onCursorUpdate: (cursors: CollaboratorCursor[]) => void,
-    onSceneLock: (locks: SceneLock[]) => void
+    onCursorUpdate: (cursors: CollaboratorCursor[]) => void = () => {},
+    onSceneLock: (locks: SceneLock[]) => void = () => {}
   ) {
     this.screenplay = screenplay;
     this.userId = userId;
@@ -32,7 +164,15 @@ export class CollaborationManager {
   }
 
   public async startCollaboration(): Promise<void> {
-    // Listen for cursor updates
+    this.startPresence();
+    this.startSceneLocks();
+  }
+
+  /**
+   * Listens for the other writers who have the screenplay open. Writers
+   * without activity for a while are left out.
+   */
+  public startPresence(): void {
     const cursorQuery = query(
       collection(db, 'cursor_positions'),
       where('screenplayId', '==', this.screenplay.id)
@@ -41,13 +181,16 @@ export class CollaborationManager {
     const unsubscribeCursor = onSnapshot(cursorQuery, (snapshot) => {
       const cursors = snapshot.docs
         .map(doc => doc.data() as CollaboratorCursor)
-        .filter(cursor => cursor.userId !== this.userId);
+        .filter(cursor => cursor.userId !== this.userId && isPresenceActive(cursor));
       this.onCursorUpdate(cursors);
+    }, (err) => {
+      console.error('Error listening for presence:', err);
     });
 
     this.cursorListeners.set('main', unsubscribeCursor);
+  }
 
-    // Listen for scene locks
+  public startSceneLocks(): void {
     const lockQuery = query(
       collection(db, 'scene_locks'),
       where('screenplayId', '==', this.screenplay.id)
@@ -66,38 +209,270 @@ export class CollaborationManager {
     this.lockListeners.set('main', unsubscribeLock);
   }
 
-  public async updateCursorPosition(
-    sceneId: string, 
-    blockId: string, 
-    offset: number
-  ): Promise<void> {
+  private getLockRef(sceneId: string) {
+    return doc(db, 'scene_locks', `${this.screenplay.id}_${sceneId}`);
+  }
+
+  /**
+   * Takes the lock on a scene unless another writer holds a live one
+   * @param sceneId The scene to lock
+   * @param userName Name shown to the other writers
+   * @returns The lock, or the other writer's lock if the scene is taken
+   */
+  public async acquireSceneLock(
+    sceneId: string,
+    userName?: string
+  ): Promise<{ success: boolean; lock?: SceneLock; error?: string }> {
     try {
-      const cursorRef = doc(db, 'cursor_positions', this.userId);
-      await setDoc(cursorRef, {
-        userId: this.userId,
-        screenplayId: this.screenplay.id,
-        sceneId,
-        position: {
-          blockId,
-          offset
-        },
-        timestamp: serverTimestamp()
+      const lockRef = this.getLockRef(sceneId);
+      return await runTransaction(db, async (transaction) => {
+        const lockSnap = await transaction.get(lockRef);
+        const existing = lockSnap.exists() ? lockSnap.data() as SceneLock : null;
+        if (existing && existing.userId !== this.userId && !isLockExpired(existing)) {
+          return {
+            success: false,
+            lock: existing,
+            error: `Scene is being edited by ${existing.userName || existing.userId}`
+          };
+        }
+
+        const now = Timestamp.now();
+        const lock: SceneLock = {
+          sceneId,
+          screenplayId: this.screenplay.id,
+          userId: this.userId,
+          userName,
+          acquired: existing?.userId === this.userId ? existing.acquired : now,
+          expires: Timestamp.fromMillis(now.toMillis() + LOCK_DURATION),
+          lastActiveAt: now
+        };
+        transaction.set(lockRef, lock);
+        return { success: true, lock };
+      });
+    } catch (err) {
+      console.error('Failed to acquire scene lock:', err);
+      return { success: false, error: 'Failed to acquire scene lock' };
+    }
+  }
+
+  /**
+   * Extends a lock this writer holds
+   * @param sceneId The locked scene
+   * @param edited Whether the writer edited the scene since the last renewal
+   * @returns Whether the lock is still held; false after it was broken
+   */
+  public async renewSceneLock(
+    sceneId: string,
+    edited: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const lockRef = this.getLockRef(sceneId);
+      return await runTransaction(db, async (transaction) => {
+        const lockSnap = await transaction.get(lockRef);
+        const existing = lockSnap.exists() ? lockSnap.data() as SceneLock : null;
+        if (!existing || existing.userId !== this.userId) {
+          return { success: false, error: 'The scene lock was released' };
+        }
+
+        const now = Timestamp.now();
+        transaction.update(lockRef, {
+          expires: Timestamp.fromMillis(now.toMillis() + LOCK_DURATION),
+          ...(edited ? { lastActiveAt: now } : {})
+        });
+        return { success: true };
       });
     } catch (err) {
-      console.error('Failed to update cursor position:', err);
+      console.error('Failed to renew scene lock:', err);
+      return { success: false, error: 'Failed to renew scene lock' };
     }
   }
 
+  /**
+   * Gives up a lock this writer holds
+   * @param sceneId The locked scene
+   */
+  public async releaseSceneLock(sceneId: string): Promise<void> {
+    try {
+      const lockRef = this.getLockRef(sceneId);
+      await runTransaction(db, async (transaction) => {
+        const lockSnap = await transaction.get(lockRef);
+        if (lockSnap.exists() && (lockSnap.data() as SceneLock).userId === this.userId) {
+          transaction.delete(lockRef);
+        }
+      });
+    } catch (err) {
+      console.error('Failed to release scene lock:', err);
+    }
+  }
+
+  /**
+   * Removes another writer's lock. Owners may break stale locks; expired
+   * locks may be broken by anyone.
+   * @param sceneId The locked scene
+   * @param isOwner Whether this writer owns the project
+   */
+  public async breakSceneLock(
+    sceneId: string,
+    isOwner: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const lockRef = this.getLockRef(sceneId);
+      return await runTransaction(db, async (transaction) => {
+        const lockSnap = await transaction.get(lockRef);
+        if (!lockSnap.exists()) return { success: true };
+
+        if (!canBreakLock(lockSnap.data() as SceneLock, this.userId, isOwner)) {
+          return { success: false, error: 'Only owners can break a lock, and only once it is stale' };
+        }
+        transaction.delete(lockRef);
+        return { success: true };
+      });
+    } catch (err) {
+      console.error('Failed to break scene lock:', err);
+      return { success: false, error: 'Failed to break scene lock' };
+    }
+  }
+
+  private getCursorRef() {
+    return doc(db, 'cursor_positions', `${this.screenplay.id}_${this.userId}`);
+  }
+
+  /**
+   * Shares this writer's caret and selection. Updates are throttled; only
+   * the latest one within the throttle window is written.
+   * @param presence Name, color, caret and selection
+   */
+  public updatePresence(presence: PresenceUpdate): void {
+    this.pendingPresence = presence;
+    if (this.presenceTimer) return;
+
+    const wait = Math.max(0, this.lastPresenceWrite + PRESENCE_THROTTLE - Date.now());
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = null;
+      this.writePresence().catch(err => console.error('Failed to update presence:', err));
+    }, wait);
+  }
+
+  private async writePresence(): Promise<void> {
+    if (!this.pendingPresence) return;
+
+    const presence = this.pendingPresence;
+    this.pendingPresence = null;
+    this.lastPresenceWrite = Date.now();
+    await setDoc(this.getCursorRef(), {
+      ...presence,
+      userId: this.userId,
+      screenplayId: this.screenplay.id,
+      timestamp: serverTimestamp()
+    });
+  }
+
   public async clearCursorPosition(): Promise<void> {
+    if (this.presenceTimer) {
+      clearTimeout(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    this.pendingPresence = null;
+
     try {
-      const cursorRef = doc(db, 'cursor_positions', this.userId);
-      await deleteDoc(cursorRef);
+      await deleteDoc(this.getCursorRef());
     } catch (err) {
       console.error('Failed to clear cursor position:', err);
     }
   }
 
+  /**
+   * Joins the screenplay's co-editing session, or starts one from the given
+   * blocks when nobody has edited for a while. Starting a session clears the
+   * operations of the ended one. Edits by the other writers are merged in as
+   * they arrive.
+   * @param blocks The blocks this writer has open
+   * @param getLocalBlocks Latest local blocks, or null while they are not in sync yet
+   * @param onRemoteBlocks Called with the merged blocks after remote edits
+   * @returns The session's ID, its blocks with the edits sent so far, and
+   * whether another writer started it, or null if joining failed
+   */
+  public async startCoEditing(
+    blocks: Block[],
+    getLocalBlocks: () => Block[] | null,
+    onRemoteBlocks: (blocks: Block[]) => void
+  ): Promise<{ sessionId: string; blocks: Block[]; joinedExisting: boolean } | null> {
+    const sessionPath = getCoEditingSessionPath(this.screenplay.projectId, this.screenplay.id);
+
+    try {
+      const sessionRef = doc(db, sessionPath);
+      const { session, joinedExisting } = await runTransaction(db, async (transaction) => {
+        const sessionSnap = await transaction.get(sessionRef);
+        const existing = sessionSnap.exists() ? sessionSnap.data() as CoEditingSessionDocument : null;
+        if (existing && isCoEditingSessionLive(existing)) {
+          return { session: existing, joinedExisting: true };
+        }
+
+        const newSession: CoEditingSessionDocument = {
+          id: uuidv4(),
+          baseBlocks: blocks.map(({ id, type, content, sceneNumber, omitted }) => ({ id, type, content, sceneNumber, omitted })),
+          startedAt: Timestamp.now(),
+          updatedAt: Timestamp.now()
+        };
+        transaction.set(sessionRef, newSession);
+        return { session: newSession, joinedExisting: false };
+      });
+
+      if (!joinedExisting) {
+        deleteEndedSessionOperations(sessionPath, session.id)
+          .catch(err => console.error('Error deleting ended session operations:', err));
+      }
+
+      // One replica per open editor, so two tabs of the same user merge too
+      const replica = `${this.userId}-${uuidv4().slice(0, 8)}`;
+      const crdt = createBlockCrdt(replica, session.baseBlocks);
+      const transport = new FirestoreTransport(sessionPath, session.id, replica);
+
+      // The operations sent so far only build up the session's blocks; local
+      // blocks are not synced and nothing is shown until they are all in
+      let loaded = false;
+      const coEditingSession = createCoEditingSession(crdt, transport, {
+        getLocalBlocks: () => (loaded ? getLocalBlocks() : null),
+        onRemoteBlocks: (remoteBlocks) => {
+          if (loaded) onRemoteBlocks(remoteBlocks);
+        }
+      });
+      this.coEditing = { sessionId: session.id, session: coEditingSession, transport };
+
+      try {
+        await transport.whenLoaded();
+      } catch (err) {
+        this.stopCoEditing();
+        throw err;
+      }
+      loaded = true;
+
+      console.log(`Joined co-editing session ${session.id} as ${replica}`);
+      return { sessionId: session.id, blocks: coEditingSession.getBlocks(), joinedExisting };
+    } catch (err) {
+      console.error('Failed to start co-editing:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Sends local edits to the other writers
+   * @param blocks The full block list after the edits
+   */
+  public syncBlocks(blocks: Block[]): void {
+    this.coEditing?.session.syncLocalBlocks(blocks);
+  }
+
+  public stopCoEditing(): void {
+    if (!this.coEditing) return;
+    this.coEditing.session.close();
+    this.coEditing.transport.flush().catch(err => console.error('Error sending operations:', err));
+    this.coEditing = null;
+  }
+
   public cleanup(): void {
+    this.stopCoEditing();
+
     // Remove all listeners
     for (const unsubscribe of this.cursorListeners.values()) {
       unsubscribe();
@@ -109,7 +484,9 @@ export class CollaborationManager {
     }
     this.lockListeners.clear();
 
-    // Clear cursor position
-    this.clearCursorPosition().catch(console.error);
+    // Clear cursor position if this manager shared one
+    if (this.lastPresenceWrite > 0 || this.presenceTimer) {
+      this.clearCursorPosition().catch(console.error);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+/**
+ * Offline Draft Store
+ *
+ * Keeps unsaved screenplay edits in IndexedDB so they survive a lost
+ * connection or a page reload. There is one draft per screenplay: the latest
+ * blocks plus the scenes they were edited from, which the save manager needs
+ * to detect edits made by others in the meantime.
+ */
+
+import type { Block, SceneDocument } from '../../types';
+
+const DB_NAME = 'screenplay-offline';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+export interface OfflineDraft {
+  key: string; // `${projectId}/${screenplayId}`
+  projectId: string;
+  screenplayId: string;
+  blocks: Block[];
+  baseScenes: SceneDocument[]; // Scenes as last saved when the edits were made
+  queued: boolean; // A save was requested but could not reach the server
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(DRAFTS_STORE)) {
+          request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(DRAFTS_STORE, mode).objectStore(DRAFTS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const draftKey = (projectId: string, screenplayId: string) => `${projectId}/${screenplayId}`;
+
+/**
+ * Reads the stored draft of a screenplay
+ * @param projectId The project ID
+ * @param screenplayId The screenplay ID
+ * @returns The draft, or null when there is none
+ */
+export const loadOfflineDraft = async (projectId: string, screenplayId: string): Promise<OfflineDraft | null> => {
+  try {
+    const draft = await runRequest<OfflineDraft | undefined>('readonly', store => store.get(draftKey(projectId, screenplayId)));
+    return draft || null;
+  } catch (err) {
+    console.error('Error loading offline draft:', err);
+    return null;
+  }
+};
+
+/**
+ * Stores the draft of a screenplay, replacing any earlier one
+ * @param draft The draft without its key
+ * @returns Whether the draft was stored
+ */
+export const saveOfflineDraft = async (draft: Omit<OfflineDraft, 'key' | 'updatedAt'>): Promise<boolean> => {
+  try {
+    await runRequest('readwrite', store => store.put({
+      ...draft,
+      key: draftKey(draft.projectId, draft.screenplayId),
+      updatedAt: Date.now()
+    }));
+    return true;
+  } catch (err) {
+    console.error('Error saving offline draft:', err);
+    return false;
+  }
+};
+
+/**
+ * Removes the draft of a screenplay once its changes are saved
+ * @param projectId The project ID
+ * @param screenplayId The screenplay ID
+ */
+export const clearOfflineDraft = async (projectId: string, screenplayId: string): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => store.delete(draftKey(projectId, screenplayId)));
+  } catch (err) {
+    console.error('Error clearing offline draft:', err);
+  }
+};
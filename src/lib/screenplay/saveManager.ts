@@ -8,26 +8,29 @@ import {
   collection,
   query,
   getDocs,
-  writeBatch,
+  runTransaction,
   arrayUnion,
   arrayRemove,
-  where
+  where,
+  Timestamp
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { getCoEditingSessionPath, isCoEditingSessionLive } from './collaborationManager';
 import { 
   segmentBlocksIntoScenes, 
   createSceneHeadingHash, 
+  isSameSceneContent,
   extractCharacterNames
 } from '../../utils/blockUtils';
+import { toSceneSnapshot, hasSceneChanged, describeSceneChange } from '../../utils/changeHistory';
 import type { 
   Block, 
-  PersistedEditorState, 
   SceneDocument, 
   UniqueSceneHeadingDocument,
   CharacterDocument,
   ElementDocument
 } from '../../types';
-import type { Screenplay, SaveResult } from '../../types/screenplay';
+import type { Screenplay, SaveResult, SaveConflict, ChangeHistory, ChangeType, CoEditingSessionDocument } from '../../types/screenplay';
 import type { Scene } from '../../hooks/useScenes';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -36,6 +39,7 @@ export class ScreenplaySaveManager {
   private userId: string;
   private changeBuffer: Map<string, Block[]>;
   private pendingSceneOrder: Scene[] | null = null;
+  private savedScenes: Map<string, SceneDocument> | null = null; // Scenes as last saved, loaded on the first save
 
   constructor(screenplay: Screenplay, userId: string) {
     this.screenplay = screenplay;
@@ -64,7 +68,188 @@ export class ScreenplaySaveManager {
     console.log("SaveManager: Set pending scene order for next save operation");
   }
 
-  public async saveScreenplay(): Promise<SaveResult> {
+  /**
+   * Returns the scenes as last saved, reading them from Firestore only once.
+   * Loading them when the screenplay opens makes their versions the base that
+   * later saves are checked against.
+   */
+  public async loadSavedScenes(projectId: string, screenplayId: string): Promise<Map<string, SceneDocument>> {
+    if (!this.savedScenes) {
+      const scenesRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`);
+      const scenesSnapshot = await getDocs(scenesRef);
+
+      const savedScenes = new Map<string, SceneDocument>();
+      scenesSnapshot.docs.forEach(doc => {
+        savedScenes.set(doc.id, doc.data() as SceneDocument);
+      });
+      this.savedScenes = savedScenes;
+    }
+    return this.savedScenes;
+  }
+
+  /**
+   * The scenes as last saved, for keeping them with an offline draft
+   */
+  public getSavedScenes(): SceneDocument[] {
+    return this.savedScenes ? Array.from(this.savedScenes.values()) : [];
+  }
+
+  /**
+   * Makes the scenes an offline draft was edited from the base of the next
+   * save, so edits others made while we were away are still detected
+   * @param scenes The scenes stored with the draft
+   */
+  public restoreSavedScenes(scenes: SceneDocument[]): void {
+    this.savedScenes = new Map(scenes.map(scene => [scene.id, scene]));
+  }
+
+  /**
+   * Reads the currently stored version of the given scenes
+   * @param sceneIds The scenes to read
+   * @returns The stored scene per ID, or null where it was deleted
+   */
+  public async fetchRemoteScenes(sceneIds: string[]): Promise<Map<string, SceneDocument | null>> {
+    const { projectId, id: screenplayId } = this.screenplay;
+    const remoteScenes = new Map<string, SceneDocument | null>();
+    await Promise.all(sceneIds.map(async (sceneId) => {
+      const sceneSnap = await getDoc(doc(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`, sceneId));
+      remoteScenes.set(sceneId, sceneSnap.exists() ? sceneSnap.data() as SceneDocument : null);
+    }));
+    return remoteScenes;
+  }
+
+  /**
+   * The version of a scene that our edits started from
+   */
+  public getBaseScene(sceneId: string): SceneDocument | undefined {
+    return this.savedScenes?.get(sceneId);
+  }
+
+  /**
+   * Makes stored scenes the base of the next save, once their changes have
+   * been merged into the local blocks
+   * @param remoteScenes The stored scene per ID, or null where it was deleted
+   */
+  public acceptRemoteScenes(remoteScenes: Map<string, SceneDocument | null>): void {
+    if (!this.savedScenes) return;
+    remoteScenes.forEach((scene, sceneId) => {
+      if (scene) {
+        this.savedScenes?.set(sceneId, scene);
+      } else {
+        this.savedScenes?.delete(sceneId);
+      }
+    });
+  }
+
+  /**
+   * IDs of the scenes whose content differs from the last save
+   * @param blocks The full block list
+   * @returns IDs of new and changed scenes
+   */
+  public async getDirtySceneIds(blocks: Block[]): Promise<string[]> {
+    const savedScenes = await this.loadSavedScenes(this.screenplay.projectId, this.screenplay.id);
+    return segmentBlocksIntoScenes(blocks)
+      .filter(scene => {
+        const saved = savedScenes.get(scene.id);
+        return !saved || !isSameSceneContent(saved, scene);
+      })
+      .map(scene => scene.id);
+  }
+
+  /**
+   * IDs of the scenes that differ from the last save
+   * @param blocks The full block list
+   * @returns IDs of new, changed and removed scenes
+   */
+  public async getUnsavedSceneIds(blocks: Block[]): Promise<string[]> {
+    const dirtySceneIds = await this.getDirtySceneIds(blocks);
+    const currentSceneIds = new Set(segmentBlocksIntoScenes(blocks).map(scene => scene.id));
+    const removedSceneIds = this.getSavedScenes()
+      .filter(scene => !currentSceneIds.has(scene.id))
+      .map(scene => scene.id);
+    return [...dirtySceneIds, ...removedSceneIds];
+  }
+
+  /**
+   * Whether the blocks differ from the last save
+   * @param blocks The full block list
+   * @returns True when a scene was added, changed or removed
+   */
+  public async hasUnsavedChanges(blocks: Block[]): Promise<boolean> {
+    return (await this.getUnsavedSceneIds(blocks)).length > 0;
+  }
+
+  /**
+   * Finds scenes that another user saved since we loaded them. Scenes whose
+   * stored content already matches ours are not conflicts.
+   */
+  private findConflicts(
+    scenesToWrite: SceneDocument[],
+    scenesToDelete: SceneDocument[],
+    remoteScenes: Map<string, SceneDocument | null>,
+    existingScenes: Map<string, SceneDocument>
+  ): SaveConflict[] {
+    const conflicts: SaveConflict[] = [];
+    const addConflict = (scene: SceneDocument, remote: SceneDocument | null) => {
+      conflicts.push({
+        sceneId: scene.id,
+        sceneHeading: scene.scene_heading,
+        userEmail: remote?.last_modified_by || 'another user',
+        timestamp: (remote?.lastModified as Timestamp | undefined) || Timestamp.now()
+      });
+    };
+
+    scenesToWrite.forEach(scene => {
+      const base = existingScenes.get(scene.id);
+      const remote = remoteScenes.get(scene.id) || null;
+      if (!remote) {
+        // Deleted by someone else after we loaded it
+        if (base) addConflict(scene, null);
+        return;
+      }
+      const changedRemotely = !base || (remote.version || 0) !== (base.version || 0);
+      if (changedRemotely && !isSameSceneContent(remote, scene)) {
+        addConflict(scene, remote);
+      }
+    });
+
+    scenesToDelete.forEach(scene => {
+      const remote = remoteScenes.get(scene.id) || null;
+      if (remote && (remote.version || 0) !== (scene.version || 0)) {
+        addConflict(scene, remote);
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Replaces the user IDs recorded on conflicts with their email addresses
+   */
+  private async resolveConflictUsers(conflicts: SaveConflict[]): Promise<SaveConflict[]> {
+    return Promise.all(conflicts.map(async (conflict) => {
+      if (!conflict.userEmail || conflict.userEmail === 'another user') return conflict;
+      try {
+        const userSnap = await getDoc(doc(db, 'users', conflict.userEmail));
+        return { ...conflict, userEmail: userSnap.exists() ? userSnap.data().email || 'another user' : 'another user' };
+      } catch (err) {
+        console.error('Error fetching conflicting user:', err);
+        return { ...conflict, userEmail: 'another user' };
+      }
+    }));
+  }
+
+  /**
+   * Saves the buffered blocks. Scenes are checked against their stored
+   * version in the same transaction that writes them. Scenes last saved from
+   * our live co-editing session are not conflicts: their edits reach us
+   * through the session. Once the session is over or replaced, every scene
+   * is checked again.
+   * @param options.overwrite Write our scenes even if someone else changed them
+   * @param options.coEditingSessionId The co-editing session the blocks come from
+   * @returns The save result, with conflicts when other users changed the same scenes
+   */
+  public async saveScreenplay(options: { overwrite?: boolean; coEditingSessionId?: string } = {}): Promise<SaveResult> {
     try {
       const screenplayId = this.screenplay.id;
       const projectId = this.screenplay.projectId;
@@ -94,222 +279,329 @@ export class ScreenplaySaveManager {
         return { success: true };
       }
 
-      // 1. Fetch existing scenes from Firestore
-      const scenesRef = collection(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`);
-      const scenesSnapshot = await getDocs(scenesRef);
-      
-      // Create a map of existing scenes for easy lookup
-      const existingScenes = new Map<string, SceneDocument>();
-      scenesSnapshot.docs.forEach(doc => {
-        existingScenes.set(doc.id, doc.data() as SceneDocument);
-      });
+      // 1. Scenes as last saved (read from Firestore on the first save only)
+      const existingScenes = await this.loadSavedScenes(projectId, screenplayId);
 
       // 2. Segment current blocks into scenes
       const newlySegmentedScenes = segmentBlocksIntoScenes(blocksToSave);
       
-      // Set projectId and screenplayId on all scenes
+      // Set projectId, screenplayId and any pending order on all scenes
       newlySegmentedScenes.forEach(scene => {
         scene.projectId = projectId;
         scene.screenplayId = screenplayId;
-      });
 
-      // 3. Initialize batch operations
-      const batch = writeBatch(db);
-      
-      // 4. Track changes for metadata updates
-      let totalBlocksCount = 0;
-      const updatedSceneIds = new Set<string>();
-      const deletedSceneIds = new Set<string>();
-      const updatedSceneHeadings = new Map<string, string>(); // hash -> text
-      const updatedCharacters = new Set<string>();
-
-      // 5. Process each new scene
-      for (const newScene of newlySegmentedScenes) {
-        const sceneId = newScene.id;
-        updatedSceneIds.add(sceneId);
-        totalBlocksCount += newScene.blocks.length + 1; // +1 for scene heading block
-        
-        // If we have pending scene order changes, update the order
         if (this.pendingSceneOrder) {
-          const sceneIndex = this.pendingSceneOrder.findIndex(s => s.id === sceneId);
+          const sceneIndex = this.pendingSceneOrder.findIndex(s => s.id === scene.id);
           if (sceneIndex !== -1) {
-            newScene.order = sceneIndex;
+            scene.order = sceneIndex;
+          }
+        }
+      });
+
+      const currentSceneIds = new Set(newlySegmentedScenes.map(scene => scene.id));
+      const dirtyScenes = newlySegmentedScenes.filter(scene => {
+        const existingScene = existingScenes.get(scene.id);
+        return !existingScene || !isSameSceneContent(existingScene, scene);
+      });
+      const removedScenes = Array.from(existingScenes.values()).filter(scene => !currentSceneIds.has(scene.id));
+      const scenesSkipped = newlySegmentedScenes.length - dirtyScenes.length;
+
+      if (dirtyScenes.length === 0 && removedScenes.length === 0) {
+        console.log(`No scene changes to save, skipped ${scenesSkipped} scenes`);
+        this.pendingSceneOrder = null;
+        this.changeBuffer.clear();
+        return { success: true, scenesWritten: 0, scenesSkipped };
+      }
+
+      // 3. Read the stored scenes we are about to change, check them for
+      // conflicts, then write everything in the same transaction
+      const scenesToCheck = [...dirtyScenes, ...removedScenes];
+      const totalBlocksCount = newlySegmentedScenes.reduce((total, scene) => total + scene.blocks.length + 1, 0); // +1 for scene heading block
+
+      // Queries can't run inside a transaction, so the characters of the
+      // changed scenes are looked up before it
+      const knownCharacterIds = new Map<string, string>(); // name_uppercase -> ID
+      const characterNames = new Set(dirtyScenes.flatMap(scene =>
+        extractCharacterNames(scene.blocks).map(name => name.toUpperCase())
+      ));
+      for (const characterName of characterNames) {
+        const characterQuery = query(
+          collection(db, `projects/${projectId}/characters`),
+          where("name_uppercase", "==", characterName)
+        );
+        const characterSnapshot = await getDocs(characterQuery);
+        if (!characterSnapshot.empty) {
+          knownCharacterIds.set(characterName, characterSnapshot.docs[0].id);
+        }
+      }
+
+      const editorStateRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/editor/state`);
+
+      const conflicts = await runTransaction(db, async (transaction) => {
+        // Transactions read everything before their first write
+        const remoteScenes = new Map<string, SceneDocument | null>();
+        for (const scene of scenesToCheck) {
+          const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`, scene.id);
+          const remoteSnap = await transaction.get(sceneRef);
+          remoteScenes.set(scene.id, remoteSnap.exists() ? remoteSnap.data() as SceneDocument : null);
+        }
+
+        const storedSceneHeadings = new Set<string>(); // Hashes of unique scene headings that exist
+        const sceneHeadingHashes = new Set(scenesToCheck
+          .filter(scene => scene.scene_heading.trim())
+          .map(scene => createSceneHeadingHash(scene.scene_heading)));
+        for (const sceneHeadingHash of sceneHeadingHashes) {
+          const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
+          if ((await transaction.get(uniqueSceneHeadingRef)).exists()) {
+            storedSceneHeadings.add(sceneHeadingHash);
+          }
+        }
+
+        const editorStateSnap = await transaction.get(editorStateRef);
+
+        let liveSessionId: string | undefined;
+        if (options.coEditingSessionId) {
+          const sessionSnap = await transaction.get(doc(db, getCoEditingSessionPath(projectId, screenplayId)));
+          const session = sessionSnap.exists() ? sessionSnap.data() as CoEditingSessionDocument : null;
+          if (session && session.id === options.coEditingSessionId && isCoEditingSessionLive(session)) {
+            liveSessionId = session.id;
           }
         }
+
+        const sceneConflicts = this.findConflicts(dirtyScenes, removedScenes, remoteScenes, existingScenes)
+          .filter(conflict => !liveSessionId || remoteScenes.get(conflict.sceneId)?.coediting_session !== liveSessionId);
+        if (sceneConflicts.length > 0 && !options.overwrite) {
+          return sceneConflicts;
+        }
+
+        // Each write moves the scene one version past what is stored now
+        dirtyScenes.forEach(scene => {
+          scene.version = (remoteScenes.get(scene.id)?.version || 0) + 1;
+          scene.last_modified_by = this.userId;
+          scene.coediting_session = liveSessionId;
+        });
+
+        // 4. Track changes for metadata updates
+        const updatedSceneHeadings = new Map<string, string>(); // hash -> text
+        const updatedCharacters = new Set<string>();
+        const changeEntries: ChangeHistory[] = [];
+        const now = Timestamp.now();
+
+        const recordChange = (
+          type: ChangeType,
+          sceneId: string,
+          sceneHeading: string,
+          before: SceneDocument | null,
+          after: SceneDocument | null
+        ) => {
+          changeEntries.push({
+            id: `change-${uuidv4()}`,
+            screenplayId,
+            timestamp: now,
+            userId: this.userId,
+            sceneId,
+            type,
+            description: describeSceneChange(type, sceneHeading),
+            changes: {
+              before: before ? toSceneSnapshot(before) : null,
+              after: after ? toSceneSnapshot(after) : null
+            }
+          });
+        };
+
+        // Characters created by this save are added to by the scenes after
+        const characterIdsByName = new Map(knownCharacterIds);
+
+        // 5. Process each new or changed scene
+        for (const newScene of dirtyScenes) {
+          const sceneId = newScene.id;
         
-        // 5a. Extract characters from this scene
-        const characterNames = extractCharacterNames(newScene.blocks);
+          // 5a. Extract characters from this scene
+          const characterNames = extractCharacterNames(newScene.blocks);
         
-        // 5b. Sync characters to scene
-        const characterIds: string[] = [];
-        for (const characterName of characterNames) {
-          // Check if character exists in project - case insensitive search
-          const charactersRef = collection(db, `projects/${projectId}/characters`);
-          const characterQuery = query(
-            charactersRef, 
-            where("name_uppercase", "==", characterName.toUpperCase())
-          );
-          const characterSnapshot = await getDocs(characterQuery);
+          // 5b. Sync characters to scene
+          const characterIds: string[] = [];
+          for (const characterName of characterNames) {
+            // Check if character exists in project - case insensitive search
+            let characterId = characterIdsByName.get(characterName.toUpperCase());
           
-          let characterId: string;
-          
-          if (characterSnapshot.empty) {
-            // Create new character
-            characterId = `character-${uuidv4()}`;
-            const characterDoc: CharacterDocument = {
-              id: characterId,
-              name: characterName,
-              name_uppercase: characterName.toUpperCase(),
-              screenplayIds: [screenplayId],
-              associatedSceneIds: [sceneId],
-              projectId: projectId
-            };
-            
-            const characterRef = doc(db, `projects/${projectId}/characters`, characterId);
-            batch.set(characterRef, characterDoc);
-          } else {
-            // Update existing character
-            const characterDoc = characterSnapshot.docs[0];
-            characterId = characterDoc.id;
+            if (!characterId) {
+              // Create new character
+              characterId = `character-${uuidv4()}`;
+              characterIdsByName.set(characterName.toUpperCase(), characterId);
+              const characterDoc: CharacterDocument = {
+                id: characterId,
+                name: characterName,
+                name_uppercase: characterName.toUpperCase(),
+                screenplayIds: [screenplayId],
+                associatedSceneIds: [sceneId],
+                projectId: projectId
+              };
             
-            batch.update(doc(db, `projects/${projectId}/characters`, characterId), {
-              screenplayIds: arrayUnion(screenplayId),
-              associatedSceneIds: arrayUnion(sceneId)
-            });
-          }
+              const characterRef = doc(db, `projects/${projectId}/characters`, characterId);
+              transaction.set(characterRef, characterDoc);
+            } else {
+              // Update existing character
+              transaction.update(doc(db, `projects/${projectId}/characters`, characterId), {
+                screenplayIds: arrayUnion(screenplayId),
+                associatedSceneIds: arrayUnion(sceneId)
+              });
+            }
           
-          characterIds.push(characterId);
-          updatedCharacters.add(characterId);
-        }
+            characterIds.push(characterId);
+            updatedCharacters.add(characterId);
+          }
         
-        // 5c. Update scene document
-        newScene.characters_in_this_scene = characterIds;
-        newScene.elements_in_this_scene = []; // Empty array - no automatic element detection
-        newScene.lastModified = new Date();
+          // 5c. Update scene document
+          newScene.characters_in_this_scene = characterIds;
+          newScene.elements_in_this_scene = []; // Empty array - no automatic element detection
+          newScene.lastModified = new Date();
         
-        const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`, sceneId);
-        batch.set(sceneRef, newScene);
+          const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`, sceneId);
+          transaction.set(sceneRef, newScene);
+
+          const existingScene = existingScenes.get(sceneId);
+          if (!existingScene) {
+            recordChange('ADD_SCENE', sceneId, newScene.scene_heading, null, newScene);
+          } else if (hasSceneChanged(toSceneSnapshot(existingScene), toSceneSnapshot(newScene))) {
+            recordChange('UPDATE_SCENE', sceneId, newScene.scene_heading, existingScene, newScene);
+          }
         
-        // 5d. Sync unique scene heading
-        const sceneHeadingText = newScene.scene_heading;
-        const sceneHeadingHash = createSceneHeadingHash(sceneHeadingText);
-        updatedSceneHeadings.set(sceneHeadingHash, sceneHeadingText);
+          // 5d. Sync unique scene heading; the implicit first scene has none
+          const sceneHeadingText = newScene.scene_heading;
+          if (!sceneHeadingText.trim()) continue;
+          const sceneHeadingHash = createSceneHeadingHash(sceneHeadingText);
+          updatedSceneHeadings.set(sceneHeadingHash, sceneHeadingText);
         
-        const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
-        const uniqueSceneHeadingSnap = await getDoc(uniqueSceneHeadingRef);
+          const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
         
-        if (uniqueSceneHeadingSnap.exists()) {
-          // Update existing unique scene heading
-          batch.update(uniqueSceneHeadingRef, {
-            lastUsed: serverTimestamp(),
-            screenplayIds: arrayUnion(screenplayId),
-            associated_characters: arrayUnion(...characterIds)
-          });
-        } else {
-          // Create new unique scene heading
-          const uniqueSceneHeadingDoc: UniqueSceneHeadingDocument = {
-            id: sceneHeadingHash,
-            text: sceneHeadingText,
-            text_uppercase: sceneHeadingText.toUpperCase(), // ADD THIS LINE
-            count: 1,
-            lastUsed: new Date(),
-            screenplayIds: [screenplayId],
-            associated_characters: characterIds,
-            associated_elements: []
-          };
+          if (storedSceneHeadings.has(sceneHeadingHash)) {
+            // Update existing unique scene heading
+            transaction.update(uniqueSceneHeadingRef, {
+              lastUsed: serverTimestamp(),
+              screenplayIds: arrayUnion(screenplayId),
+              associated_characters: arrayUnion(...characterIds)
+            });
+          } else {
+            // Create new unique scene heading
+            const uniqueSceneHeadingDoc: UniqueSceneHeadingDocument = {
+              id: sceneHeadingHash,
+              text: sceneHeadingText,
+              text_uppercase: sceneHeadingText.toUpperCase(), // ADD THIS LINE
+              count: 1,
+              lastUsed: new Date(),
+              screenplayIds: [screenplayId],
+              associated_characters: characterIds,
+              associated_elements: []
+            };
           
-          batch.set(uniqueSceneHeadingRef, uniqueSceneHeadingDoc);
+            transaction.set(uniqueSceneHeadingRef, uniqueSceneHeadingDoc);
+            storedSceneHeadings.add(sceneHeadingHash);
+          }
         }
-      }
 
-      // 6. Identify and handle deleted scenes
-      for (const [sceneId, sceneData] of existingScenes.entries()) {
-        if (!updatedSceneIds.has(sceneId)) {
-          // Scene was deleted
-          deletedSceneIds.add(sceneId);
-          
+        // 6. Handle deleted scenes
+        for (const sceneData of removedScenes) {
+          const sceneId = sceneData.id;
+          recordChange('DELETE_SCENE', sceneId, sceneData.scene_heading, sceneData, null);
+        
           // Delete scene document
           const sceneRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/scenes`, sceneId);
-          batch.delete(sceneRef);
-          
-          // Update unique scene heading
-          const sceneHeadingHash = createSceneHeadingHash(sceneData.scene_heading);
-          const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
-          
+          transaction.delete(sceneRef);
+        
           // Remove this screenplay from the unique scene heading's screenplayIds
-          batch.update(uniqueSceneHeadingRef, {
-            screenplayIds: arrayRemove(screenplayId)
-          });
-          
+          const sceneHeadingHash = createSceneHeadingHash(sceneData.scene_heading);
+          if (storedSceneHeadings.has(sceneHeadingHash)) {
+            const uniqueSceneHeadingRef = doc(db, `projects/${projectId}/unique_scene_headings`, sceneHeadingHash);
+            transaction.update(uniqueSceneHeadingRef, {
+              screenplayIds: arrayRemove(screenplayId)
+            });
+          }
+        
           // Update characters and elements
           for (const characterId of sceneData.characters_in_this_scene) {
             const characterRef = doc(db, `projects/${projectId}/characters`, characterId);
-            batch.update(characterRef, {
+            transaction.update(characterRef, {
               associatedSceneIds: arrayRemove(sceneId)
             });
           }
-          
+        
           for (const elementId of sceneData.elements_in_this_scene) {
             const elementRef = doc(db, `projects/${projectId}/elements`, elementId);
-            batch.update(elementRef, {
+            transaction.update(elementRef, {
               associatedSceneIds: arrayRemove(sceneId)
             });
           }
         }
-      }
 
-      // 7. Update screenplay metadata
-      const screenplayRef = doc(db, `projects/${projectId}/screenplays`, screenplayId);
-      batch.update(screenplayRef, {
-        total_blocks_in_screenplay: totalBlocksCount,
-        total_scenes_in_screenplay: newlySegmentedScenes.length,
-        lastModified: serverTimestamp(),
-        version: increment(1)
-      });
+        // 7. Update screenplay metadata
+        const screenplayRef = doc(db, `projects/${projectId}/screenplays`, screenplayId);
+        transaction.update(screenplayRef, {
+          total_blocks_in_screenplay: totalBlocksCount,
+          total_scenes_in_screenplay: newlySegmentedScenes.length,
+          lastModified: serverTimestamp(),
+          version: increment(1)
+        });
 
-      // 8. Update project metadata
-      const projectRef = doc(db, 'projects', projectId);
+        // 8. Update project metadata
+        const projectRef = doc(db, 'projects', projectId);
       
-      let netBlockChange = totalBlocksCount;
-      let netSceneChange = newlySegmentedScenes.length;
+        const previousBlocksCount = Array.from(existingScenes.values())
+          .reduce((total, scene) => total + scene.blocks.length + 1, 0);
+        const netBlockChange = totalBlocksCount - previousBlocksCount;
+        const netSceneChange = newlySegmentedScenes.length - existingScenes.size;
       
-      for (const sceneId of deletedSceneIds) {
-        const deletedScene = existingScenes.get(sceneId);
-        if (deletedScene) {
-          netBlockChange -= (deletedScene.blocks.length + 1);
-          netSceneChange -= 1;
+        transaction.update(projectRef, {
+          total_blocks_count: increment(netBlockChange),
+          total_scenes_count: increment(netSceneChange),
+          updated_at: serverTimestamp()
+        });
+
+        // 9. Update editor state (without blocks)
+        if (editorStateSnap.exists()) {
+          transaction.update(editorStateRef, {
+            lastModified: serverTimestamp()
+          });
         }
-      }
-      
-      batch.update(projectRef, {
-        total_blocks_count: increment(netBlockChange),
-        total_scenes_count: increment(netSceneChange),
-        updated_at: serverTimestamp()
-      });
 
-      // 9. Update editor state (without blocks)
-      const editorStateRef = doc(db, `projects/${projectId}/screenplays/${screenplayId}/editor/state`);
-      const editorStateSnap = await getDoc(editorStateRef);
-      
-      if (editorStateSnap.exists()) {
-        const currentEditorState = editorStateSnap.data() as PersistedEditorState;
-        
-        batch.update(editorStateRef, {
-          lastModified: serverTimestamp()
+        // 10. Record the change history of every added, edited or deleted scene
+        changeEntries.forEach(change => {
+          transaction.set(doc(db, `projects/${projectId}/screenplays/${screenplayId}/history`, change.id), change);
         });
+
+        return [];
+      });
+
+      if (conflicts.length > 0) {
+        console.log(`Save stopped: ${conflicts.length} scenes were changed by another user`);
+        return {
+          success: false,
+          error: 'Other users changed some of these scenes',
+          conflicts: await this.resolveConflictUsers(conflicts)
+        };
       }
 
-      // 10. Commit all changes
-      await batch.commit();
-      console.log(`Successfully saved screenplay ${screenplayId} with ${newlySegmentedScenes.length} scenes and ${totalBlocksCount} blocks`);
+      console.log(`Successfully saved screenplay ${screenplayId}: wrote ${dirtyScenes.length} scenes, skipped ${scenesSkipped}, deleted ${removedScenes.length}`);
+
+      // Remember what was written so the next save can skip it
+      dirtyScenes.forEach(scene => existingScenes.set(scene.id, scene));
+      removedScenes.forEach(scene => existingScenes.delete(scene.id));
       
       // Clear pending scene order after successful save
       this.pendingSceneOrder = null;
       
       this.changeBuffer.clear();
-      return { success: true };
+      return { success: true, scenesWritten: dirtyScenes.length, scenesSkipped };
     } catch (err) {
       console.error('Failed to save screenplay:', err);
+      // Firestore reports a lost connection as 'unavailable'
+      if ((err as { code?: string }).code === 'unavailable') {
+        return {
+          success: false,
+          error: 'Could not reach the server',
+          offline: true
+        };
+      }
       return {
         success: false,
         error: 'Failed to save screenplay'
@@ -320,5 +612,6 @@ export class ScreenplaySaveManager {
   public cleanup(): void {
     this.changeBuffer.clear();
     this.pendingSceneOrder = null;
+    this.savedScenes = null;
   }
 }
\ No newline at end of file
@@ -214,7 +214,8 @@ const ProjectsOverview: React.FC = () => {
           id: user.id,
           email: user.email,
           role: 'Owner'
-        }]
+        }],
+        roles: { [user.id]: 'Owner' }
       });
 
       // Add owner to project_members collection
@@ -266,7 +267,8 @@ const ProjectsOverview: React.FC = () => {
           id: user.id,
           email: user.email,
           role: 'Owner'
-        }]
+        }],
+        roles: { [user.id]: 'Owner' }
       };
 
       if (projectData.ownership === 'organization') {
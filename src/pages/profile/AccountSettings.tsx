@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
-  ArrowLeft, Bell, Globe, Shield, ToggleLeft, ToggleRight
+  ArrowLeft, Bell, Globe, Shield, Save, ToggleLeft, ToggleRight
 } from 'lucide-react';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useAuth } from '../../contexts/AuthContext';
@@ -9,8 +9,14 @@ import { useDarkMode } from '../../contexts/DarkModeContext';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import Sidebar from '../../components/Sidebar';
+import {
+  DEFAULT_AUTOSAVE_SETTINGS,
+  AUTOSAVE_IDLE_OPTIONS,
+  AUTOSAVE_EDIT_OPTIONS,
+  type AutosaveSettings
+} from '../../utils/autosaveUtils';
 
-interface AccountSettings {
+interface AccountSettings extends AutosaveSettings {
   emailNotifications: boolean;
   projectUpdates: boolean;
   teamMessages: boolean;
@@ -37,7 +43,8 @@ const AccountSettings: React.FC = () => {
     region: 'us',
     profileVisibility: 'public',
     showActivity: true,
-    allowTagging: true
+    allowTagging: true,
+    ...DEFAULT_AUTOSAVE_SETTINGS
   });
 
   const [loading, setLoading] = useState(false);
@@ -53,7 +60,7 @@ const AccountSettings: React.FC = () => {
         const docSnap = await getDoc(docRef);
         
         if (docSnap.exists()) {
-          setSettings(docSnap.data() as AccountSettings);
+          setSettings(prev => ({ ...prev, ...docSnap.data() as AccountSettings }));
         }
       } catch (err) {
         console.error('Error fetching settings:', err);
@@ -93,7 +100,7 @@ const AccountSettings: React.FC = () => {
     }
   };
 
-  const handleSelectChange = async (name: keyof AccountSettings, value: string) => {
+  const handleSelectChange = async (name: keyof AccountSettings, value: string | number) => {
     if (!user?.id || loading) return;
 
     try {
@@ -272,6 +279,50 @@ const AccountSettings: React.FC = () => {
               </div>
             </div>
 
+            {/* Autosave */}
+            <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-sm border border-[#577B92]/10 dark:border-gray-700">
+              <h2 className="text-lg font-medium text-[#1E4D3A] dark:text-white mb-4 flex items-center">
+                <Save size={18} className="mr-2" />
+                Autosave
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-[#577B92] dark:text-gray-300 mb-1">
+                    Save after a pause of
+                  </label>
+                  <select
+                    value={settings.autosaveIdleSeconds}
+                    onChange={(e) => handleSelectChange('autosaveIdleSeconds', Number(e.target.value))}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:border-[#E86F2C]"
+                    disabled={loading}
+                  >
+                    {AUTOSAVE_IDLE_OPTIONS.map(seconds => (
+                      <option key={seconds} value={seconds}>
+                        {seconds === 0 ? 'Off' : `${seconds} seconds`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[#577B92] dark:text-gray-300 mb-1">
+                    Save while typing every
+                  </label>
+                  <select
+                    value={settings.autosaveEditCount}
+                    onChange={(e) => handleSelectChange('autosaveEditCount', Number(e.target.value))}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-white focus:outline-none focus:border-[#E86F2C]"
+                    disabled={loading}
+                  >
+                    {AUTOSAVE_EDIT_OPTIONS.map(count => (
+                      <option key={count} value={count}>
+                        {count === 0 ? 'Off' : `${count} edits`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
             {/* Privacy Controls */}
             <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-sm border border-[#577B92]/10 dark:border-gray-700">
               <h2 className="text-lg font-medium text-[#1E4D3A] dark:text-white mb-4 flex items-center">
@@ -6,6 +6,8 @@ export interface Block {
   type: string;
   content: string;
   number?: number;
+  sceneNumber?: string; // Locked production scene number, e.g. "12A"
+  omitted?: boolean; // OMITTED placeholder for a locked scene that was deleted
 }
 
 export interface ScreenplayEditorProps {
@@ -91,6 +93,7 @@ export interface Comment {
   depth?: number;
   replies?: Comment[];
   mentions?: string[]; // Array of user IDs mentioned in the comment
+  orphaned?: boolean; // The commented text was deleted
   reactions?: CommentReaction[];
   emoji?: EmojiReaction[]; // Array of emoji reactions
 }
@@ -118,6 +121,26 @@ export interface UserMention {
   profileImage?: string;
 }
 
+export type NotificationType = 'mention' | 'reply' | 'resolved';
+
+// Stored in users/{userId}/notifications for the user being notified
+export interface NotificationDocument {
+  id: string;
+  type: NotificationType;
+  actorId: string; // User whose comment or resolve caused the notification
+  actorName: string;
+  projectId: string;
+  screenplayId: string;
+  commentId: string;
+  blockId: string;
+  startOffset: number;
+  endOffset: number;
+  excerpt: string; // Start of the comment text
+  highlightedText?: string;
+  read: boolean;
+  createdAt: Timestamp;
+}
+
 // New interfaces for Firestore document structures
 
 export interface SceneDocument {
@@ -125,6 +148,12 @@ export interface SceneDocument {
   scene_heading: string;
   blocks: Block[]; // Blocks within this specific scene
   order: number; // Order of scene in screenplay
+  scene_number?: string; // Locked scene number, only set once scene numbers are locked
+  omitted?: boolean; // Placeholder kept for a locked scene that was deleted
+  implicit?: boolean; // Holds the blocks before the first scene heading; has no heading block
+  version?: number; // Incremented on every save, used to detect concurrent edits
+  last_modified_by?: string; // User ID of the last save
+  coediting_session?: string; // Co-editing session the last save came from
   screenplayId: string;
   projectId: string;
   characters_in_this_scene: string[]; // Character IDs present in this scene
@@ -160,6 +189,22 @@ export interface CharacterDocument {
   lastUpdated?: Timestamp; // When the character was last updated
 }
 
+export interface CharacterRenameScene {
+  screenplayId: string;
+  screenplayTitle: string;
+  sceneId: string;
+  sceneHeading: string;
+  changedBlockIds: string[]; // Cues renamed in this scene
+}
+
+// A project-wide character rename, kept so it can be previewed and undone
+export interface CharacterRename {
+  characterId: string;
+  oldName: string;
+  newName: string;
+  scenes: CharacterRenameScene[];
+}
+
 export interface ElementDocument {
   id: string; // Unique ID for the element
   name: string;
@@ -22,6 +22,7 @@ export interface Project {
     email: string;
     role: 'Owner' | 'Editor' | 'Viewer';
   }>;
+  roles?: Record<string, 'Owner' | 'Editor' | 'Viewer'>; // Collaborator roles by user ID, as the security rules read them
   isPinned: boolean;
   coverImage?: string;
   coverColor?: string;
@@ -31,6 +32,11 @@ export interface Project {
   };
   total_blocks_count: number;
   total_scenes_count: number;
+  settings?: ProjectSettings;
+}
+
+export interface ProjectSettings {
+  autoContd?: boolean; // Add (CONT'D) to repeated cues in the rendered and exported script
 }
 
 export interface ProjectFormData {
@@ -1,5 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
-import { Block } from './index';
+import { Block, SceneDocument } from './index';
 
 export type SceneStatus = 'Draft' | 'Final' | 'Needs Revision';
 export type ScreenplayStatus = 'Draft' | 'Final' | 'Revision';
@@ -27,6 +27,86 @@ export interface Screenplay {
     createdAt: Timestamp;
     tags?: string[];
   };
+  revision?: RevisionState;
+  pageLock?: PageLock;
+  branchedFrom?: {
+    screenplayId: string;
+    versionId: string;
+  };
+}
+
+// Production revision tracking. Revision numbers index the standard color
+// sequence: 0 is the White draft, 1 the Blue revision, 2 Pink, ...
+export interface RevisionState {
+  active: boolean;
+  number: number; // Revision new changes are marked with
+  snapshotId: string; // Snapshot in the revisions subcollection taken when this revision was locked
+  lockedAt: Timestamp;
+  lockedBy: string;
+  marks: Record<string, number>; // Block ID -> revision number, for changes made in earlier revisions
+}
+
+export interface RevisionSnapshot {
+  id: string;
+  number: number;
+  blocks: Block[];
+  created_at: Timestamp;
+  created_by: string;
+}
+
+// Page locking keeps the printed page numbers of a locked draft. Text added
+// later flows onto A-pages (23A, 23B) instead of pushing later pages down.
+export interface LockedPageBreak {
+  label: string; // Printed page number, e.g. "23" or "23A"
+  blockId: string | null; // Block starting the page; null when the page opens with a continued block
+}
+
+export interface PageLock {
+  breaks: LockedPageBreak[]; // Page break map of the locked draft, in page order
+  lockedAt: Timestamp;
+  lockedBy: string;
+}
+
+export type TitlePage = Screenplay['header_content'];
+
+// Named snapshot of a screenplay, stored in the screenplay's versions subcollection
+export interface ScreenplayVersion {
+  id: string;
+  name: string; // e.g. "Table Read Draft"
+  blocks: Block[];
+  header: TitlePage;
+  scene_order: string[]; // Scene heading block IDs in script order
+  screenplay_version: number; // Screenplay.version the snapshot was taken at
+  created_at: Timestamp;
+  created_by: string;
+}
+
+export type EditSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+// Proposed edit of a block range, stored in the screenplay's suggestions
+// subcollection. The script only changes when a writer accepts it.
+export interface EditSuggestion {
+  id: string;
+  blockId: string;
+  sceneId: string | null; // Scene of the block when the suggestion was made
+  startOffset: number; // Range of deletedText in the block when the suggestion was made
+  endOffset: number;
+  deletedText: string; // Empty for a pure insertion
+  insertedText: string; // Empty for a pure deletion
+  contextBefore: string; // Text just before the range, to find it again after other edits
+  contextAfter: string;
+  authorId: string;
+  authorName: string;
+  status: EditSuggestionStatus;
+  createdAt: Timestamp;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp;
+}
+
+// A screenplay read from or written to an interchange file (Fountain, Final Draft)
+export interface ScreenplayDocument {
+  titlePage: Partial<TitlePage>;
+  blocks: Block[];
 }
 
 export interface EditorState {
@@ -82,30 +162,59 @@ export interface ChangeHistory {
   };
 }
 
+export interface SelectionPoint {
+  blockId: string;
+  offset: number; // Characters from the start of the block
+}
+
 export interface CollaboratorCursor {
   userId: string;
-  sceneId: string;
-  position: {
-    blockId: string;
-    offset: number;
-  };
-  timestamp: Timestamp;
+  screenplayId: string;
+  userName: string;
+  color: string; // Stable per user, see getPresenceColor
+  sceneId: string | null;
+  position: SelectionPoint | null; // Caret; null while the writer is only viewing
+  selection: { start: SelectionPoint; end: SelectionPoint } | null; // Null when nothing is selected
+  timestamp: Timestamp; // Last activity
 }
 
 export interface SceneLock {
   sceneId: string;
+  screenplayId: string;
   userId: string;
+  userName?: string;
   acquired: Timestamp;
-  expires: Timestamp;
+  expires: Timestamp; // Pushed back on every renewal while the holder stays in the scene
+  lastActiveAt: Timestamp; // Last renewal after the holder edited the scene
+}
+
+export interface CoEditingSessionDocument {
+  id: string;
+  baseBlocks: Block[]; // Blocks every writer in the session started from
+  startedAt: Timestamp;
+  updatedAt: Timestamp; // Last time operations were sent
 }
 
 export interface SaveResult {
   success: boolean;
   error?: string;
   version?: number;
-  conflicts?: {
-    sceneId: string;
-    userEmail: string;
-    timestamp: Timestamp;
-  }[];
+  scenesWritten?: number; // Scenes added or changed since the last save
+  scenesSkipped?: number; // Unchanged scenes that were not written
+  conflicts?: SaveConflict[];
+  offline?: boolean; // The server could not be reached; the changes are kept on this device
+}
+
+export interface SaveConflict {
+  sceneId: string;
+  sceneHeading?: string;
+  userEmail: string;
+  timestamp: Timestamp;
+}
+
+// The two stored versions of a conflicting scene that a merge starts from
+export interface ConflictingScene {
+  sceneId: string;
+  base: SceneDocument | null; // The version our edits started from
+  remote: SceneDocument | null; // The version saved by another user, null if they deleted it
 }
\ No newline at end of file
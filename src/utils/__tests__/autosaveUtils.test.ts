@@ -0,0 +1,33 @@
+import {
+  DEFAULT_AUTOSAVE_SETTINGS,
+  formatSavedAgo,
+  normalizeAutosaveSettings,
+  shouldSaveAfterEdits
+} from '../autosaveUtils';
+
+describe('Autosave Utils', () => {
+  test('should fall back to the defaults for missing or invalid settings', () => {
+    expect(normalizeAutosaveSettings(undefined)).toEqual(DEFAULT_AUTOSAVE_SETTINGS);
+    expect(normalizeAutosaveSettings({ autosaveIdleSeconds: '10', autosaveEditCount: -5 })).toEqual({
+      autosaveIdleSeconds: 10,
+      autosaveEditCount: DEFAULT_AUTOSAVE_SETTINGS.autosaveEditCount
+    });
+  });
+
+  test('should save after the edit limit unless it is turned off', () => {
+    const settings = { autosaveIdleSeconds: 3, autosaveEditCount: 50 };
+    expect(shouldSaveAfterEdits(49, settings)).toBe(false);
+    expect(shouldSaveAfterEdits(50, settings)).toBe(true);
+    expect(shouldSaveAfterEdits(500, { ...settings, autosaveEditCount: 0 })).toBe(false);
+  });
+
+  test('should describe the time since the last save', () => {
+    const now = new Date('2024-05-01T12:00:00Z');
+    const ago = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+    expect(formatSavedAgo(ago(2), now)).toBe('Saved just now');
+    expect(formatSavedAgo(ago(12), now)).toBe('Saved 12s ago');
+    expect(formatSavedAgo(ago(150), now)).toBe('Saved 2m ago');
+    expect(formatSavedAgo(ago(7200), now)).toBe('Saved 2h ago');
+  });
+});
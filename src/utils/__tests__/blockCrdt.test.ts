@@ -0,0 +1,85 @@
+import { blockCrdtToBlocks, createBlockCrdt, generateOperations, receiveOperations } from '../blockCrdt';
+import { createCoEditingSession, createInMemoryTransportHub } from '../coEditing';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+const BASE = [
+  block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'),
+  block('a1', 'action', 'Sarah pours water.'),
+  block('c1', 'character', 'SARAH')
+];
+
+const edit = (blocks: Block[], id: string, changes: Partial<Block>) =>
+  blocks.map(b => (b.id === id ? { ...b, ...changes } : b));
+
+// Two writers editing the same blocks over an in-memory transport
+const connectWriters = () => {
+  const hub = createInMemoryTransportHub();
+  const writers = ['alice', 'bob'].map(replica =>
+    createCoEditingSession(createBlockCrdt(replica, BASE), hub.connect(replica), {
+      getLocalBlocks: () => null,
+      onRemoteBlocks: () => {}
+    })
+  );
+  return { hub, alice: writers[0], bob: writers[1] };
+};
+
+describe('Block CRDT', () => {
+  test('should merge text typed in the same block at the same time', () => {
+    const { hub, alice, bob } = connectWriters();
+    alice.syncLocalBlocks(edit(BASE, 'a1', { content: 'Slowly, Sarah pours water.' }));
+    bob.syncLocalBlocks(edit(BASE, 'a1', { content: 'Sarah pours cold water.' }));
+    hub.flush();
+
+    expect(alice.getBlocks()).toEqual(bob.getBlocks());
+    expect(alice.getBlocks()[1].content).toBe('Slowly, Sarah pours cold water.');
+  });
+
+  test('should order blocks inserted at the same spot the same way everywhere', () => {
+    const { hub, alice, bob } = connectWriters();
+    alice.syncLocalBlocks([BASE[0], block('x1', 'action', 'Thunder.'), ...BASE.slice(1)]);
+    bob.syncLocalBlocks([BASE[0], block('y1', 'action', 'Rain.'), ...BASE.slice(1)]);
+    hub.flush();
+
+    const ids = alice.getBlocks().map(b => b.id);
+    expect(bob.getBlocks().map(b => b.id)).toEqual(ids);
+    expect(ids).toHaveLength(5);
+    expect(ids.slice(3)).toEqual(['a1', 'c1']);
+  });
+
+  test('should keep the latest type change and the text edits', () => {
+    const { hub, alice, bob } = connectWriters();
+    alice.syncLocalBlocks(edit(BASE, 'c1', { type: 'action' }));
+    bob.syncLocalBlocks(edit(BASE, 'c1', { type: 'transition', content: 'CUT TO:' }));
+    hub.flush();
+
+    expect(alice.getBlocks()).toEqual(bob.getBlocks());
+    expect(alice.getBlocks()[2]).toEqual(block('c1', 'transition', 'CUT TO:'));
+  });
+
+  test('should converge when a block is deleted and moved at the same time', () => {
+    const { hub, alice, bob } = connectWriters();
+    alice.syncLocalBlocks(BASE.filter(b => b.id !== 'a1'));
+    bob.syncLocalBlocks([BASE[0], BASE[2], BASE[1]]);
+    hub.flush();
+
+    expect(alice.getBlocks()).toEqual(bob.getBlocks());
+    expect(alice.getBlocks().map(b => b.id)).toEqual(['s1', 'c1']);
+  });
+
+  test('should wait for operations that arrive before the ones they build on', () => {
+    const alice = createBlockCrdt('alice', BASE);
+    const bob = createBlockCrdt('bob', BASE);
+
+    const inserted = [...BASE, block('d1', 'dialogue', '')];
+    const first = generateOperations(alice, inserted);
+    const second = generateOperations(alice, edit(inserted, 'd1', { content: 'Who is there?' }));
+
+    expect(receiveOperations(bob, second)).toBe(false);
+    expect(receiveOperations(bob, first)).toBe(true);
+    expect(receiveOperations(bob, first)).toBe(false);
+    expect(blockCrdtToBlocks(bob)).toEqual(blockCrdtToBlocks(alice));
+    expect(blockCrdtToBlocks(bob)[3].content).toBe('Who is there?');
+  });
+});
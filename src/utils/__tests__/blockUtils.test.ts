@@ -0,0 +1,112 @@
+import { applyAutoContd, getAutoContdBlockIds, isSameSceneContent, sceneDocumentToBlocks, segmentBlocksIntoScenes } from '../blockUtils';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+describe('Block Utils', () => {
+  describe('getAutoContdBlockIds', () => {
+    test('should mark a cue when the same character speaks again after action', () => {
+      const blocks = [
+        block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'),
+        block('c1', 'character', 'SARAH'),
+        block('d1', 'dialogue', 'Hello?'),
+        block('a1', 'action', 'Silence.'),
+        block('c2', 'character', 'Sarah (V.O.)'),
+        block('d2', 'dialogue', 'Anyone?')
+      ];
+
+      expect(Array.from(getAutoContdBlockIds(blocks))).toEqual(['c2']);
+    });
+
+    test('should not mark a cue after another speaker or a new scene', () => {
+      const blocks = [
+        block('c1', 'character', 'SARAH'),
+        block('d1', 'dialogue', 'Hello?'),
+        block('c2', 'character', 'TOM'),
+        block('d2', 'dialogue', 'Hi.'),
+        block('c3', 'character', 'SARAH'),
+        block('d3', 'dialogue', 'There you are.'),
+        block('s1', 'scene-heading', 'EXT. YARD - NIGHT'),
+        block('c4', 'character', 'SARAH'),
+        block('d4', 'dialogue', 'Cold.')
+      ];
+
+      expect(getAutoContdBlockIds(blocks).size).toBe(0);
+    });
+
+    test('should skip cues that already carry the extension', () => {
+      const blocks = [
+        block('c1', 'character', 'SARAH'),
+        block('d1', 'dialogue', 'Hello?'),
+        block('a1', 'action', 'Nothing.'),
+        block('c2', 'character', "SARAH (CONT'D)")
+      ];
+
+      expect(getAutoContdBlockIds(blocks).size).toBe(0);
+    });
+  });
+
+  describe('applyAutoContd', () => {
+    test('should extend cues without modifying the original blocks', () => {
+      const blocks = [
+        block('c1', 'character', 'SARAH'),
+        block('d1', 'dialogue', 'Hello?'),
+        block('a1', 'action', 'Nothing.'),
+        block('c2', 'character', 'SARAH')
+      ];
+      const result = applyAutoContd(blocks);
+
+      expect(result[3].content).toBe("SARAH (CONT'D)");
+      expect(blocks[3].content).toBe('SARAH');
+    });
+  });
+
+  describe('segmentBlocksIntoScenes', () => {
+    test('should keep blocks before the first heading without inventing a heading', () => {
+      const scenes = segmentBlocksIntoScenes([
+        block('t1', 'transition', 'FADE IN:'),
+        { ...block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'), sceneNumber: '12A' },
+        block('a1', 'action', 'Quiet.')
+      ]);
+
+      expect(scenes.map(scene => [scene.id, scene.scene_heading, !!scene.implicit])).toEqual([
+        ['scene-t1', '', true],
+        ['s1', 'INT. KITCHEN - NIGHT', false]
+      ]);
+      expect(scenes[1].scene_number).toBe('12A');
+      expect(scenes.flatMap(sceneDocumentToBlocks).map(b => b.id)).toEqual(['t1', 's1', 'a1']);
+    });
+  });
+
+  describe('isSameSceneContent', () => {
+    const blocks = [
+      block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'),
+      block('a1', 'action', 'Quiet.'),
+      block('s2', 'scene-heading', 'EXT. YARD - NIGHT'),
+      block('a2', 'action', 'Wind.')
+    ];
+
+    test('should only differ for scenes whose content changed', () => {
+      const before = segmentBlocksIntoScenes(blocks);
+      const after = segmentBlocksIntoScenes(
+        blocks.map(b => (b.id === 'a2' ? { ...b, content: 'Rain.' } : b))
+      );
+
+      expect(isSameSceneContent(after[0], before[0])).toBe(true);
+      expect(isSameSceneContent(after[1], before[1])).toBe(false);
+    });
+
+    test('should differ when a scene moves', () => {
+      const [scene] = segmentBlocksIntoScenes(blocks);
+      expect(isSameSceneContent({ ...scene, order: 5 }, scene)).toBe(false);
+    });
+
+    test('should tell apart edits of the same length', () => {
+      const [scene] = segmentBlocksIntoScenes(blocks);
+      const withAction = (content: string) => ({ ...scene, blocks: [block('a1', 'action', content)] });
+
+      expect(isSameSceneContent(withAction('I said no'), withAction('I said oP'))).toBe(false);
+      expect(isSameSceneContent(withAction('Call me Ab.'), withAction('Call me BC.'))).toBe(false);
+    });
+  });
+});
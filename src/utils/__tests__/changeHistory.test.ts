@@ -0,0 +1,53 @@
+import { describeSceneChange, filterChangeHistory, hasSceneChanged } from '../changeHistory';
+import type { SceneSnapshot } from '../changeHistory';
+import type { ChangeHistory } from '../../types/screenplay';
+
+const SCENE: SceneSnapshot = {
+  scene_heading: 'INT. KITCHEN - NIGHT',
+  order: 0,
+  blocks: [{ id: 'a1', type: 'action', content: 'Sarah pours a glass of water.' }]
+};
+
+const change = (id: string, userId: string, sceneId: string | null): ChangeHistory => ({
+  id,
+  screenplayId: 'sp1',
+  timestamp: null as unknown as ChangeHistory['timestamp'],
+  userId,
+  sceneId,
+  type: 'UPDATE_SCENE',
+  description: ''
+});
+
+describe('Change History', () => {
+  describe('hasSceneChanged', () => {
+    test('should ignore order-only changes', () => {
+      expect(hasSceneChanged(SCENE, { ...SCENE, order: 3 })).toBe(false);
+    });
+
+    test('should detect heading and block edits', () => {
+      expect(hasSceneChanged(SCENE, { ...SCENE, scene_heading: 'EXT. YARD - NIGHT' })).toBe(true);
+      expect(hasSceneChanged(SCENE, {
+        ...SCENE,
+        blocks: [{ id: 'a1', type: 'action', content: 'Sarah drinks.' }]
+      })).toBe(true);
+    });
+  });
+
+  describe('describeSceneChange', () => {
+    test('should name the scene', () => {
+      expect(describeSceneChange('ADD_SCENE', 'INT. KITCHEN - NIGHT')).toBe('Added scene INT. KITCHEN - NIGHT');
+      expect(describeSceneChange('DELETE_SCENE', '')).toBe('Deleted scene Untitled Scene');
+    });
+  });
+
+  describe('filterChangeHistory', () => {
+    test('should filter by user and scene', () => {
+      const changes = [change('c1', 'u1', 's1'), change('c2', 'u2', 's1'), change('c3', 'u1', 's2')];
+
+      expect(filterChangeHistory(changes, { userId: 'u1' }).map(c => c.id)).toEqual(['c1', 'c3']);
+      expect(filterChangeHistory(changes, { sceneId: 's1' }).map(c => c.id)).toEqual(['c1', 'c2']);
+      expect(filterChangeHistory(changes, { userId: 'u1', sceneId: 's2' }).map(c => c.id)).toEqual(['c3']);
+      expect(filterChangeHistory(changes, {})).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { parseCharacterCue, renameCharacterCue, renameCharacterInBlocks } from '../characterRename';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+describe('Character Rename', () => {
+  test('should split a cue into the name and its extensions', () => {
+    expect(parseCharacterCue('SARAH')).toEqual({ name: 'SARAH', extensions: '' });
+    expect(parseCharacterCue("SARAH (V.O.) (CONT'D)")).toEqual({ name: 'SARAH', extensions: " (V.O.) (CONT'D)" });
+    expect(parseCharacterCue('DR. SMITH ^')).toEqual({ name: 'DR. SMITH', extensions: ' ^' });
+  });
+
+  test('should keep extensions when renaming a cue', () => {
+    expect(renameCharacterCue('SARAH (O.S.)', 'Sarah', 'Sarah Connor')).toBe('SARAH CONNOR (O.S.)');
+    expect(renameCharacterCue("SARAH (CONT'D)", 'SARAH', 'Kyle')).toBe("KYLE (CONT'D)");
+    expect(renameCharacterCue('SARAH JANE', 'SARAH', 'KYLE')).toBeNull();
+  });
+
+  test('should rename only the character blocks that name the character', () => {
+    const blocks = [
+      block('c1', 'character', 'SARAH'),
+      block('d1', 'dialogue', 'Sarah is here.'),
+      block('c2', 'character', 'KYLE'),
+      block('c3', 'character', 'SARAH (V.O.)')
+    ];
+    const result = renameCharacterInBlocks(blocks, 'SARAH', 'ELLEN');
+
+    expect(result.changedBlockIds).toEqual(['c1', 'c3']);
+    expect(result.blocks.map(b => b.content)).toEqual(['ELLEN', 'Sarah is here.', 'KYLE', 'ELLEN (V.O.)']);
+  });
+
+  test('should undo a rename only in the blocks it changed', () => {
+    const blocks = [block('c1', 'character', 'ELLEN'), block('c2', 'character', 'ELLEN (O.S.)')];
+    const result = renameCharacterInBlocks(blocks, 'ELLEN', 'SARAH', new Set(['c2']));
+
+    expect(result.blocks.map(b => b.content)).toEqual(['ELLEN', 'SARAH (O.S.)']);
+  });
+});
@@ -0,0 +1,64 @@
+import { remapBlockComments, remapCommentAnchor } from '../commentAnchors';
+import type { Comment } from '../../types';
+
+const TEXT = 'Sarah opens the old door slowly.';
+const DOOR = { startOffset: 16, endOffset: 24 }; // "old door"
+
+const slice = (text: string, anchor: { startOffset: number; endOffset: number }) =>
+  text.slice(anchor.startOffset, anchor.endOffset);
+
+const comment = (id: string, blockId: string, replies: Comment[] = []) => ({
+  id,
+  blockId,
+  ...DOOR,
+  replies
+}) as unknown as Comment;
+
+describe('Comment Anchors', () => {
+  test('should shift the range past edits before it', () => {
+    const newText = 'Slowly, Sarah opens the old door slowly.';
+    const anchor = remapCommentAnchor(DOOR, TEXT, newText);
+
+    expect(slice(newText, anchor)).toBe('old door');
+    expect(anchor.orphaned).toBe(false);
+  });
+
+  test('should keep the range when editing after it or right at its end', () => {
+    expect(remapCommentAnchor(DOOR, TEXT, 'Sarah opens the old door quietly.')).toEqual({ ...DOOR, orphaned: false });
+    expect(slice('Sarah opens the old doors slowly.', remapCommentAnchor(DOOR, TEXT, 'Sarah opens the old doors slowly.'))).toBe('old door');
+  });
+
+  test('should grow and shrink with edits inside the range', () => {
+    const grown = 'Sarah opens the old oak door slowly.';
+    expect(slice(grown, remapCommentAnchor(DOOR, TEXT, grown))).toBe('old oak door');
+
+    const shrunk = 'Sarah opens the door slowly.';
+    expect(slice(shrunk, remapCommentAnchor(DOOR, TEXT, shrunk))).toBe('door');
+  });
+
+  test('should orphan the comment when its text is deleted or replaced', () => {
+    expect(remapCommentAnchor(DOOR, TEXT, 'Sarah opens the window slowly.').orphaned).toBe(true);
+    expect(remapCommentAnchor(DOOR, TEXT, 'Sarah opens the  slowly.')).toEqual({ startOffset: 16, endOffset: 16, orphaned: true });
+    expect(remapCommentAnchor(DOOR, TEXT, '').orphaned).toBe(true);
+  });
+
+  test('should leave orphaned comments alone', () => {
+    const orphan = { startOffset: 3, endOffset: 3, orphaned: true };
+    expect(remapCommentAnchor(orphan, TEXT, `More. ${TEXT}`)).toEqual(orphan);
+  });
+
+  test('should remap replies and only the comments on the edited block', () => {
+    const comments = [comment('c1', 'b1', [comment('r1', 'b1')]), comment('c2', 'b2')];
+    const result = remapBlockComments(comments, 'b1', TEXT, `Then ${TEXT}`);
+
+    expect(result.changed.map(changed => changed.id)).toEqual(['c1', 'r1']);
+    expect(result.comments[0].startOffset).toBe(21);
+    expect(result.comments[0].replies?.[0].startOffset).toBe(21);
+    expect(result.comments[1]).toBe(comments[1]);
+  });
+
+  test('should return the same tree when nothing moved', () => {
+    const comments = [comment('c1', 'b1')];
+    expect(remapBlockComments(comments, 'b1', TEXT, `${TEXT} Then stops.`).comments).toBe(comments);
+  });
+});
@@ -0,0 +1,49 @@
+import { filterComments, flattenComments } from '../commentFilters';
+import type { Comment } from '../../types';
+
+const at = (millis: number) => ({ toMillis: () => millis });
+
+const comment = (id: string, overrides: Partial<Comment> = {}) => ({
+  id,
+  blockId: 'b1',
+  authorId: 'alice',
+  authorName: 'Alice',
+  text: id,
+  createdAt: at(1000),
+  isResolved: false,
+  startOffset: 0,
+  endOffset: 4,
+  replies: [],
+  ...overrides
+}) as unknown as Comment;
+
+const COMMENTS = [
+  comment('c1', { replies: [comment('r1', { isResolved: true }), comment('r2')] }),
+  comment('c2', { isResolved: true, authorId: 'bob', createdAt: at(5000) as never }),
+  comment('c3', { blockId: 'b2', createdAt: at(9000) as never })
+];
+
+describe('Comment Filters', () => {
+  test('should hide resolved threads and replies when showing open comments', () => {
+    const open = filterComments(COMMENTS, { status: 'open' });
+    expect(open.map(c => c.id)).toEqual(['c1', 'c3']);
+    expect(open[0].replies?.map(c => c.id)).toEqual(['r2']);
+  });
+
+  test('should keep every reply of resolved threads', () => {
+    expect(filterComments(COMMENTS, { status: 'resolved' }).map(c => c.id)).toEqual(['c2']);
+    expect(filterComments(COMMENTS, { status: 'all' })[0].replies).toHaveLength(2);
+  });
+
+  test('should filter threads by block, author and date range', () => {
+    expect(filterComments(COMMENTS, { blockId: 'b2' }).map(c => c.id)).toEqual(['c3']);
+    expect(filterComments(COMMENTS, { authorId: 'bob' }).map(c => c.id)).toEqual(['c2']);
+    expect(filterComments(COMMENTS, { from: new Date(2000), to: new Date(9000) }).map(c => c.id)).toEqual(['c2', 'c3']);
+  });
+
+  test('should not change the comments it filters', () => {
+    filterComments(COMMENTS, { status: 'open' });
+    expect(COMMENTS[0].replies).toHaveLength(2);
+    expect(flattenComments(COMMENTS).map(c => c.id)).toEqual(['c1', 'r1', 'r2', 'c2', 'c3']);
+  });
+});
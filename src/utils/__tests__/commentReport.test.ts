@@ -0,0 +1,95 @@
+import {
+  buildReviewReport,
+  createReviewReportHtml,
+  createReviewReportLines,
+  createReviewReportMarkdown,
+  DETACHED_NOTES_HEADING
+} from '../commentReport';
+import { TEXT_PDF_LINE_WIDTH } from '../pdfExport';
+import type { Block, Comment } from '../../types';
+
+const at = (millis: number) => ({ toMillis: () => millis });
+
+const comment = (id: string, blockId: string, overrides: Partial<Comment> = {}) => ({
+  id,
+  blockId,
+  authorId: 'alice',
+  authorName: 'Alice',
+  text: `Note ${id}`,
+  createdAt: at(new Date(2026, 9, 19, 14, 5).getTime()),
+  isResolved: false,
+  startOffset: 0,
+  endOffset: 4,
+  replies: [],
+  ...overrides
+}) as unknown as Comment;
+
+const BLOCKS: Block[] = [
+  { id: 'a0', type: 'action', content: 'Before anything.' },
+  { id: 's1', type: 'scene-heading', content: 'int. kitchen - night' },
+  { id: 'a1', type: 'action', content: 'Sarah opens the door.' },
+  { id: 's2', type: 'scene-heading', content: 'EXT. STREET - DAY', sceneNumber: '2A' },
+  { id: 'a2', type: 'action', content: 'Rain.' }
+];
+
+describe('Comment Review Report', () => {
+  test('should group threads by scene in script order', () => {
+    const scenes = buildReviewReport([
+      comment('c1', 'a2'),
+      comment('c2', 'gone', { orphaned: true }),
+      comment('c3', 'a1', { startOffset: 6 }),
+      comment('c4', 'a1'),
+      comment('c5', 'a0')
+    ], BLOCKS);
+
+    expect(scenes.map(scene => scene.heading)).toEqual([
+      'Before the first scene',
+      '1. INT. KITCHEN - NIGHT',
+      '2A. EXT. STREET - DAY',
+      DETACHED_NOTES_HEADING
+    ]);
+    expect(scenes[1].comments.map(c => c.id)).toEqual(['c4', 'c3']);
+  });
+
+  test('should apply the comment filters', () => {
+    const scenes = buildReviewReport([comment('c1', 'a1'), comment('c2', 'a2', { isResolved: true })], BLOCKS, { status: 'resolved' });
+    expect(scenes).toHaveLength(1);
+    expect(scenes[0].comments[0].id).toBe('c2');
+  });
+
+  test('should include quote, author, time, status, reactions and replies', () => {
+    const scenes = buildReviewReport([
+      comment('c1', 'a1', {
+        highlightedText: 'the door',
+        isResolved: true,
+        emoji: [{ type: '👍', users: ['u1', 'u2'], displayNames: ['Mike', 'Ana'] }],
+        replies: [comment('r1', 'a1', { authorName: 'Mike', text: 'Agreed' })]
+      })
+    ], BLOCKS);
+    const markdown = createReviewReportMarkdown(scenes, 'Rain', new Date(2026, 9, 20, 9, 0));
+
+    expect(markdown).toContain('# Review Notes: Rain');
+    expect(markdown).toContain('Generated 2026-10-20 09:00 · 1 note');
+    expect(markdown).toContain('### Alice · 2026-10-19 14:05 · Resolved');
+    expect(markdown).toContain('> the door');
+    expect(markdown).toContain('Reactions: 👍 2 (Mike, Ana)');
+    expect(markdown).toContain('- **Mike** · 2026-10-19 14:05: Agreed');
+  });
+
+  test('should escape comment text in HTML', () => {
+    const scenes = buildReviewReport([comment('c1', 'a1', { text: '<b>cut</b> & trim' })], BLOCKS);
+    const html = createReviewReportHtml(scenes, 'Rain');
+
+    expect(html).toContain('&lt;b&gt;cut&lt;/b&gt; &amp; trim');
+    expect(html).not.toContain('<b>cut</b>');
+  });
+
+  test('should wrap PDF lines to the page width', () => {
+    const scenes = buildReviewReport([comment('c1', 'a1', { text: 'word '.repeat(60) })], BLOCKS);
+    const lines = createReviewReportLines(scenes, 'Rain');
+
+    expect(lines[0]).toBe('REVIEW NOTES: RAIN');
+    expect(lines.every(line => line.length <= TEXT_PDF_LINE_WIDTH)).toBe(true);
+    expect(lines.some(line => line.startsWith('  word word'))).toBe(true);
+  });
+});
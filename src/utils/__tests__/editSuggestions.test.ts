@@ -0,0 +1,111 @@
+import {
+  applySuggestions,
+  createSuggestionRange,
+  findStaleSuggestionIds,
+  groupSuggestionsByScene,
+  locateSuggestion
+} from '../editSuggestions';
+import type { Block } from '../../types';
+import type { EditSuggestion } from '../../types/screenplay';
+
+const TEXT = 'Sarah opens the old door slowly.';
+
+const suggest = (id: string, blockId: string, oldText: string, newText: string) => ({
+  id,
+  blockId,
+  ...createSuggestionRange(oldText, newText)
+}) as EditSuggestion;
+
+const blocks: Block[] = [
+  { id: 'b0', type: 'action', content: 'FADE IN:' },
+  { id: 'h1', type: 'scene-heading', content: 'int. kitchen - day' },
+  { id: 'b1', type: 'action', content: TEXT },
+  { id: 'h2', type: 'scene-heading', content: 'ext. yard - night', sceneNumber: '2A' },
+  { id: 'b2', type: 'action', content: 'Rain.' }
+];
+
+describe('Edit Suggestions', () => {
+  test('should describe an insertion, a deletion and no change', () => {
+    expect(createSuggestionRange(TEXT, 'Sarah opens the old oak door slowly.')).toMatchObject({
+      startOffset: 20,
+      endOffset: 20,
+      deletedText: '',
+      insertedText: 'oak ',
+      contextBefore: 'Sarah opens the old ',
+      contextAfter: 'door slowly.'
+    });
+    expect(createSuggestionRange(TEXT, 'Sarah opens the door slowly.')).toMatchObject({
+      deletedText: 'old ',
+      insertedText: ''
+    });
+    expect(createSuggestionRange(TEXT, TEXT)).toBeNull();
+  });
+
+  test('should widen a changed part of a word to the whole word', () => {
+    const range = createSuggestionRange('She opnes teh door.', 'She opens the door.');
+    expect(range).toMatchObject({ deletedText: 'opnes teh', insertedText: 'opens the', startOffset: 4 });
+  });
+
+  test('should find the range at its offset, after edits before it, or not at all', () => {
+    const range = suggest('s1', 'b1', TEXT, 'Sarah opens the old door quickly.');
+
+    expect(locateSuggestion(TEXT, range)).toBe(25);
+    expect(locateSuggestion(`Finally, ${TEXT}`, range)).toBe(34);
+    expect(locateSuggestion('Sarah opens the old door softly.', range)).toBe(-1);
+  });
+
+  test('should flag suggestions whose text changed or whose block is gone', () => {
+    const stale = findStaleSuggestionIds(blocks, [
+      suggest('s1', 'b1', TEXT, 'Sarah opens the door slowly.'),
+      suggest('s2', 'b2', 'Snow.', 'Hail.'),
+      suggest('s3', 'gone', 'Text', 'More text')
+    ]);
+    expect(Array.from(stale).sort()).toEqual(['s2', 's3']);
+  });
+
+  test('should apply several suggestions to one block', () => {
+    const result = applySuggestions(blocks, [
+      suggest('s1', 'b1', TEXT, 'Sarah opens the old door quickly.'),
+      suggest('s2', 'b1', TEXT, 'Sarah opens the door slowly.')
+    ]);
+
+    expect(result.blocks[2].content).toBe('Sarah opens the door quickly.');
+    expect(result.appliedIds.sort()).toEqual(['s1', 's2']);
+    expect(result.conflictedIds).toEqual([]);
+    expect(result.blocks[0]).toBe(blocks[0]);
+  });
+
+  test('should report suggestions that overlap, changed or lost their block', () => {
+    const result = applySuggestions(blocks, [
+      suggest('s1', 'b1', TEXT, 'Sarah opens the door.'),
+      suggest('s2', 'b1', TEXT, 'Sarah opens the old gate slowly.'),
+      suggest('s3', 'b2', 'Snow.', 'Snow falls.'),
+      suggest('s4', 'gone', 'Text', 'More text')
+    ]);
+
+    expect(result.appliedIds).toEqual(['s2']);
+    expect(result.conflictedIds.sort()).toEqual(['s1', 's3', 's4']);
+    expect(result.blocks[2].content).toBe('Sarah opens the old gate slowly.');
+  });
+
+  test('should return the same blocks when nothing applies', () => {
+    expect(applySuggestions(blocks, [suggest('s1', 'b2', 'Snow.', 'Hail.')]).blocks).toBe(blocks);
+  });
+
+  test('should group suggestions by scene in script order', () => {
+    const groups = groupSuggestionsByScene(blocks, [
+      suggest('s3', 'gone', 'Text', 'More text'),
+      suggest('s2', 'b2', 'Rain.', 'Heavy rain.'),
+      suggest('s1', 'b1', TEXT, 'Sarah opens the door slowly.'),
+      suggest('s0', 'b0', 'FADE IN:', 'FADE IN')
+    ]);
+
+    expect(groups.map(group => group.heading)).toEqual([
+      'Before the first scene',
+      '1. INT. KITCHEN - DAY',
+      '2A. EXT. YARD - NIGHT',
+      'Deleted text'
+    ]);
+    expect(groups.map(group => group.sceneId)).toEqual(['scene-b0', 'h1', 'h2', null]);
+  });
+});
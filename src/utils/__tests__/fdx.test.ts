@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+import { parseFdx, serializeFdx } from '../fdx';
+
+const SAMPLE_FDX = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    <Paragraph Type="Transition">
+      <Text>FADE IN:</Text>
+    </Paragraph>
+    <Paragraph Number="12A" Type="Scene Heading">
+      <Text>INT. KITCHEN - NIGHT</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>Sarah pours coffee. </Text>
+      <Text>The clock reads 3AM.</Text>
+    </Paragraph>
+    <Paragraph Type="Character">
+      <Text>SARAH</Text>
+    </Paragraph>
+    <Paragraph Type="Parenthetical">
+      <Text>(whispering)</Text>
+    </Paragraph>
+    <Paragraph Type="Dialogue">
+      <Text>Tom &amp; I couldn't sleep.</Text>
+    </Paragraph>
+    <Paragraph Number="13" Type="Scene Heading">
+      <Text>EXT. YARD - DAY</Text>
+    </Paragraph>
+    <Paragraph Number="A14" Type="Scene Heading">
+      <Text>EXT. STREET - DAY</Text>
+    </Paragraph>
+    <Paragraph Type="Cast List">
+      <Text>SARAH, TOM</Text>
+    </Paragraph>
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center" Type="General">
+        <Text>The Long Night</Text>
+      </Paragraph>
+      <Paragraph Alignment="Center" Type="General">
+        <Text>Written by</Text>
+      </Paragraph>
+      <Paragraph Alignment="Center" Type="General">
+        <Text>Jane Writer</Text>
+      </Paragraph>
+      <Paragraph Alignment="Left" Type="General">
+        <Text>jane@example.com</Text>
+      </Paragraph>
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`;
+
+describe('Final Draft', () => {
+  describe('parseFdx', () => {
+    test('should read title page fields', () => {
+      const { titlePage } = parseFdx(SAMPLE_FDX);
+      expect(titlePage).toEqual({
+        title: 'The Long Night',
+        author: 'Jane Writer',
+        contact: 'jane@example.com'
+      });
+    });
+
+    test('should map paragraphs to block types', () => {
+      const { blocks } = parseFdx(SAMPLE_FDX);
+      expect(blocks.map(block => [block.type, block.content])).toEqual([
+        ['transition', 'FADE IN:'],
+        ['scene-heading', 'INT. KITCHEN - NIGHT'],
+        ['action', 'Sarah pours coffee. The clock reads 3AM.'],
+        ['character', 'SARAH'],
+        ['parenthetical', '(whispering)'],
+        ['dialogue', "Tom & I couldn't sleep."],
+        ['scene-heading', 'EXT. YARD - DAY'],
+        ['scene-heading', 'EXT. STREET - DAY'],
+        ['text', 'SARAH, TOM']
+      ]);
+    });
+
+    test('should keep locked scene numbers with letters', () => {
+      const headings = parseFdx(SAMPLE_FDX).blocks.filter(block => block.type === 'scene-heading');
+      expect(headings.map(block => block.sceneNumber)).toEqual(['12A', '13', 'A14']);
+      expect(headings.map(block => block.number)).toEqual([undefined, 13, undefined]);
+    });
+
+    test('should reject files that are not Final Draft documents', () => {
+      expect(() => parseFdx('<html><body /></html>')).toThrow('Invalid Final Draft file');
+      expect(() => parseFdx('not xml')).toThrow('Invalid Final Draft file');
+    });
+  });
+
+  describe('serializeFdx', () => {
+    test('should round-trip blocks, scene numbers and the title page', () => {
+      const { titlePage, blocks } = parseFdx(SAMPLE_FDX);
+      const reparsed = parseFdx(serializeFdx(blocks, titlePage));
+
+      expect(reparsed.titlePage).toEqual(titlePage);
+      expect(reparsed.blocks.map(block => [block.type, block.content, block.sceneNumber])).toEqual(
+        blocks.map(block => [block.type, block.content, block.sceneNumber])
+      );
+    });
+
+    test('should escape markup in the text', () => {
+      const output = serializeFdx([{ id: '1', type: 'action', content: '<Tom> & "Sarah"' }]);
+      expect(output).toContain('<Text>&lt;Tom&gt; &amp; &quot;Sarah&quot;</Text>');
+      expect(parseFdx(output).blocks[0].content).toBe('<Tom> & "Sarah"');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { parseFountain, serializeFountain } from '../fountain';
+
+const SAMPLE_SCRIPT = `Title: The Long Night
+Author: Jane Writer
+Contact:
+    jane@example.com
+    555-0100
+
+INT. KITCHEN - NIGHT #4#
+
+Sarah pours coffee. The clock reads 3AM.
+
+SARAH (V.O.)
+(whispering)
+I couldn't sleep.
+Not tonight.
+
+CUT TO:
+
+.FLASHBACK
+
+CLOSE UP
+
+!BANG.
+`;
+
+describe('Fountain', () => {
+  describe('parseFountain', () => {
+    test('should read title page fields', () => {
+      const { titlePage } = parseFountain(SAMPLE_SCRIPT);
+      expect(titlePage.title).toBe('The Long Night');
+      expect(titlePage.author).toBe('Jane Writer');
+      expect(titlePage.contact).toBe('jane@example.com\n555-0100');
+    });
+
+    test('should map elements to block types', () => {
+      const { blocks } = parseFountain(SAMPLE_SCRIPT);
+      expect(blocks.map(block => block.type)).toEqual([
+        'scene-heading',
+        'action',
+        'character',
+        'parenthetical',
+        'dialogue',
+        'transition',
+        'scene-heading',
+        'shot',
+        'action'
+      ]);
+    });
+
+    test('should keep scene numbers and dialogue line breaks', () => {
+      const { blocks } = parseFountain(SAMPLE_SCRIPT);
+      expect(blocks[0].content).toBe('INT. KITCHEN - NIGHT');
+      expect(blocks[0].number).toBe(4);
+      expect(blocks[0].sceneNumber).toBe('4');
+      expect(blocks[2].content).toBe('SARAH (V.O.)');
+      expect(blocks[4].content).toBe("I couldn't sleep.\nNot tonight.");
+      expect(blocks[6].content).toBe('FLASHBACK');
+      expect(blocks[8].content).toBe('BANG.');
+    });
+
+    test('should keep locked scene numbers with letters', () => {
+      const { blocks } = parseFountain('EXT. YARD - DAY #12A#\n\nRain.\n');
+      expect(blocks[0].content).toBe('EXT. YARD - DAY');
+      expect(blocks[0].sceneNumber).toBe('12A');
+      expect(serializeFountain(blocks)).toContain('EXT. YARD - DAY #12A#');
+    });
+
+    test('should not treat an opening transition as a title page', () => {
+      const { titlePage, blocks } = parseFountain('FADE IN:\n\nEXT. ROAD - DAY\n');
+      expect(titlePage).toEqual({});
+      expect(blocks[blocks.length - 1].type).toBe('scene-heading');
+    });
+
+    test('should ignore notes and boneyard content', () => {
+      const { blocks } = parseFountain('EXT. PARK - DAY\n\nBirds sing. [[cut this?]]\n\n/* old scene */\n');
+      expect(blocks).toHaveLength(2);
+      expect(blocks[1].content).toBe('Birds sing.');
+    });
+  });
+
+  describe('serializeFountain', () => {
+    test('should round-trip blocks through Fountain', () => {
+      const { blocks, titlePage } = parseFountain(SAMPLE_SCRIPT);
+      const reparsed = parseFountain(serializeFountain(blocks, titlePage));
+
+      expect(reparsed.titlePage).toEqual(titlePage);
+      expect(reparsed.blocks.map(block => [block.type, block.content])).toEqual(
+        blocks.map(block => [block.type, block.content])
+      );
+    });
+
+    test('should keep the line breaks of multi-line action', () => {
+      const blocks = [
+        { id: '1', type: 'scene-heading', content: 'INT. HALL - NIGHT' },
+        { id: '2', type: 'action', content: 'THE DOOR SLAMS.\nSilence.\nEXT. sounds from outside.' }
+      ];
+
+      const reparsed = parseFountain(serializeFountain(blocks));
+      expect(reparsed.blocks.map(block => [block.type, block.content])).toEqual(
+        blocks.map(block => [block.type, block.content])
+      );
+    });
+
+    test('should force elements that would otherwise be misread', () => {
+      const output = serializeFountain([
+        { id: '1', type: 'scene-heading', content: 'MONTAGE' },
+        { id: '2', type: 'action', content: 'BOOM.' },
+        { id: '3', type: 'character', content: 'McCLANE' },
+        { id: '4', type: 'dialogue', content: 'Yippee.' },
+        { id: '5', type: 'transition', content: 'FADE OUT.' }
+      ]);
+
+      expect(output).toBe('.MONTAGE\n\n!BOOM.\n\n@McCLANE\nYippee.\n\n> FADE OUT.\n');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  getCommentNotificationRecipients,
+  getNotificationExcerpt,
+  getNotificationLink,
+  parseCommentLink,
+  NOTIFICATION_EXCERPT_LENGTH
+} from '../notifications';
+
+describe('Notifications', () => {
+  test('should notify mentioned users and the parent author once each', () => {
+    expect(getCommentNotificationRecipients('alice', ['bob', 'carol'], 'dave')).toEqual([
+      { userId: 'bob', type: 'mention' },
+      { userId: 'carol', type: 'mention' },
+      { userId: 'dave', type: 'reply' }
+    ]);
+    expect(getCommentNotificationRecipients('alice', ['bob'], 'bob')).toEqual([
+      { userId: 'bob', type: 'mention' }
+    ]);
+  });
+
+  test('should never notify the author', () => {
+    expect(getCommentNotificationRecipients('alice', ['alice'], 'alice')).toEqual([]);
+  });
+
+  test('should shorten long comments to one line', () => {
+    expect(getNotificationExcerpt('Tighten\n  this line')).toBe('Tighten this line');
+    const excerpt = getNotificationExcerpt('a'.repeat(200));
+    expect(excerpt).toHaveLength(NOTIFICATION_EXCERPT_LENGTH);
+    expect(excerpt.endsWith('…')).toBe(true);
+  });
+
+  test('should round-trip the commented range through the link', () => {
+    const link = getNotificationLink({
+      projectId: 'p1',
+      screenplayId: 's1',
+      commentId: 'c1',
+      blockId: 'b1',
+      startOffset: 4,
+      endOffset: 12
+    });
+
+    expect(link.startsWith('/projects/p1/screenplays/s1/editor?')).toBe(true);
+    expect(parseCommentLink(link.slice(link.indexOf('?')))).toEqual({
+      commentId: 'c1',
+      blockId: 'b1',
+      startOffset: 4,
+      endOffset: 12
+    });
+  });
+
+  test('should ignore links without a comment or with bad offsets', () => {
+    expect(parseCommentLink('?block=b1')).toBeNull();
+    expect(parseCommentLink('?comment=c1&start=-1&end=x')).toEqual({
+      commentId: 'c1',
+      blockId: null,
+      startOffset: null,
+      endOffset: null
+    });
+  });
+});
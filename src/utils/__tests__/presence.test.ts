@@ -0,0 +1,26 @@
+import { getInitials, getPresenceColor, isPresenceActive, PRESENCE_IDLE_TIMEOUT } from '../presence';
+import type { CollaboratorCursor } from '../../types/screenplay';
+
+const cursorAt = (millis: number | null) => ({
+  userId: 'bob',
+  timestamp: millis === null ? null : { toMillis: () => millis }
+}) as unknown as CollaboratorCursor;
+
+describe('Presence', () => {
+  test('should give each user the same color every time', () => {
+    expect(getPresenceColor('user-1')).toBe(getPresenceColor('user-1'));
+    expect(getPresenceColor('user-1')).toMatch(/^hsl\(\d+, 70%, 50%\)$/);
+  });
+
+  test('should shorten names and emails to initials', () => {
+    expect(getInitials('Sarah Chen')).toBe('SC');
+    expect(getInitials('mike.johnson@example.com')).toBe('MJ');
+    expect(getInitials('')).toBe('?');
+  });
+
+  test('should drop collaborators after the idle timeout', () => {
+    expect(isPresenceActive(cursorAt(0), PRESENCE_IDLE_TIMEOUT - 1)).toBe(true);
+    expect(isPresenceActive(cursorAt(0), PRESENCE_IDLE_TIMEOUT)).toBe(false);
+    expect(isPresenceActive(cursorAt(null), PRESENCE_IDLE_TIMEOUT)).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { computeRevisionMarks, getChangedBlockIds, getPageRevision, getRevisionColor } from '../revisionUtils';
+import type { RevisionState } from '../../types/screenplay';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+describe('Revision Utils', () => {
+  test('should follow the standard revision color sequence', () => {
+    expect(getRevisionColor(0).name).toBe('White');
+    expect(getRevisionColor(1).name).toBe('Blue');
+    expect(getRevisionColor(5).name).toBe('Goldenrod');
+    expect(getRevisionColor(9).name).toBe('Double White');
+  });
+
+  test('should detect added and edited blocks', () => {
+    const snapshot = [block('a', 'action', 'One.'), block('b', 'action', 'Two.')];
+    const current = [block('a', 'action', 'One.'), block('b', 'action', 'Two!'), block('c', 'action', 'Three.')];
+
+    expect(Array.from(getChangedBlockIds(snapshot, current))).toEqual(['b', 'c']);
+  });
+
+  test('should keep earlier marks and drop marks of deleted blocks', () => {
+    const revision = { number: 2, marks: { a: 1, gone: 1 } } as unknown as RevisionState;
+    const snapshot = [block('a', 'action', 'One.'), block('b', 'action', 'Two.')];
+    const current = [block('a', 'action', 'One.'), block('b', 'action', 'Two, revised.')];
+
+    expect(computeRevisionMarks(revision, snapshot, current)).toEqual({ a: 1, b: 2 });
+  });
+
+  test('should color a page by its latest revision', () => {
+    expect(getPageRevision(['a', 'b', 'c'], { a: 1, c: 3 })).toBe(3);
+    expect(getPageRevision(['x'], { a: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { canBreakLock, getLockedBlockIds, getSceneIdForBlock, isLockStale, LOCK_DURATION, STALE_LOCK_AGE } from '../sceneLocks';
+import type { SceneLock } from '../../types/screenplay';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+const at = (millis: number) => ({ toMillis: () => millis });
+
+const lock = (userId: string, lastActiveAt: number, expires: number) => ({
+  sceneId: 's1',
+  screenplayId: 'sp',
+  userId,
+  acquired: at(0),
+  expires: at(expires),
+  lastActiveAt: at(lastActiveAt)
+}) as unknown as SceneLock;
+
+const BLOCKS = [
+  block('a0', 'action', 'Before the first scene.'),
+  block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'),
+  block('a1', 'action', 'Sarah pours water.'),
+  block('s2', 'scene-heading', 'EXT. GARDEN - DAY'),
+  block('a2', 'action', 'Rain.')
+];
+
+describe('Scene Locks', () => {
+  test('should find the scene of a block', () => {
+    expect(getSceneIdForBlock(BLOCKS, 'a1')).toBe('s1');
+    expect(getSceneIdForBlock(BLOCKS, 's2')).toBe('s2');
+    expect(getSceneIdForBlock(BLOCKS, 'a0')).toBe('scene-a0');
+    expect(getSceneIdForBlock(BLOCKS, 'missing')).toBeNull();
+  });
+
+  test('should make every block of a locked scene read-only', () => {
+    expect(Array.from(getLockedBlockIds(BLOCKS, new Set(['s1'])))).toEqual(['s1', 'a1']);
+    expect(Array.from(getLockedBlockIds(BLOCKS, new Set(['scene-a0'])))).toEqual(['a0']);
+  });
+
+  test('should let only owners break stale locks', () => {
+    const now = STALE_LOCK_AGE + 1000;
+    const stale = lock('bob', 0, now + LOCK_DURATION);
+    const active = lock('bob', now - 1000, now + LOCK_DURATION);
+
+    expect(isLockStale(stale, now)).toBe(true);
+    expect(canBreakLock(stale, 'alice', false, now)).toBe(false);
+    expect(canBreakLock(stale, 'alice', true, now)).toBe(true);
+    expect(canBreakLock(active, 'alice', true, now)).toBe(false);
+    expect(canBreakLock(active, 'bob', false, now)).toBe(true);
+  });
+
+  test('should free expired locks for everyone', () => {
+    const expired = lock('bob', 0, 1000);
+
+    expect(isLockStale(expired, 2000)).toBe(false);
+    expect(canBreakLock(expired, 'alice', false, 2000)).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { applyMergeResolutions, mergeBlockLists, mergeConflictingScenes } from '../sceneMerge';
+import type { Block, SceneDocument } from '../../types';
+
+const block = (id: string, type: string, content: string): Block => ({ id, type, content });
+
+const BASE = [
+  block('s1', 'scene-heading', 'INT. KITCHEN - NIGHT'),
+  block('a1', 'action', 'Sarah pours a glass of water.'),
+  block('c1', 'character', 'SARAH'),
+  block('d1', 'dialogue', 'Who left the door open?')
+];
+
+const edit = (blocks: Block[], id: string, content: string) =>
+  blocks.map(b => (b.id === id ? { ...b, content } : b));
+
+describe('Scene Merge', () => {
+  describe('mergeBlockLists', () => {
+    test('should merge edits to different blocks', () => {
+      const local = edit(BASE, 'a1', 'Sarah drinks.');
+      const remote = edit(BASE, 'd1', 'Who is there?');
+      const result = mergeBlockLists(BASE, local, remote);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.blocks.map(b => b.content)).toEqual([
+        'INT. KITCHEN - NIGHT', 'Sarah drinks.', 'SARAH', 'Who is there?'
+      ]);
+    });
+
+    test('should keep blocks added on both sides in place', () => {
+      const local = [...BASE.slice(0, 2), block('l1', 'action', 'Thunder.'), ...BASE.slice(2)];
+      const remote = [...BASE, block('r1', 'action', 'She leaves.')];
+      const result = mergeBlockLists(BASE, local, remote);
+
+      expect(result.blocks.map(b => b.id)).toEqual(['s1', 'a1', 'l1', 'c1', 'd1', 'r1']);
+    });
+
+    test('should apply deletions made on one side', () => {
+      const remote = BASE.filter(b => b.id !== 'a1');
+      expect(mergeBlockLists(BASE, BASE, remote).blocks.map(b => b.id)).toEqual(['s1', 'c1', 'd1']);
+    });
+
+    test('should report blocks changed differently on both sides', () => {
+      const local = edit(BASE, 'd1', 'Who left the window open?');
+      const remote = edit(BASE, 'd1', 'Who closed the door?');
+      const result = mergeBlockLists(BASE, local, remote);
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].blockId).toBe('d1');
+      expect(result.conflicts[0].remote?.content).toBe('Who closed the door?');
+
+      const merged = applyMergeResolutions(result, { d1: result.conflicts[0].remote });
+      expect(merged[3].content).toBe('Who closed the door?');
+    });
+
+    test('should report an edit against a deletion', () => {
+      const local = BASE.filter(b => b.id !== 'a1');
+      const remote = edit(BASE, 'a1', 'Sarah pours two glasses.');
+      const result = mergeBlockLists(BASE, local, remote);
+
+      expect(result.conflicts.map(c => [c.blockId, c.local])).toEqual([['a1', null]]);
+      expect(applyMergeResolutions(result, { a1: null }).map(b => b.id)).toEqual(['s1', 'c1', 'd1']);
+    });
+  });
+
+  describe('mergeConflictingScenes', () => {
+    const sceneDoc = (blocks: Block[]): SceneDocument => ({
+      id: 's1',
+      scene_heading: blocks[0].content,
+      blocks: blocks.slice(1),
+      order: 0,
+      screenplayId: 'sp1',
+      projectId: 'p1',
+      characters_in_this_scene: [],
+      elements_in_this_scene: [],
+      lastModified: null as unknown as SceneDocument['lastModified']
+    });
+
+    test('should merge a scene inside the full block list', () => {
+      const local = [...edit(BASE, 'a1', 'Sarah drinks.'), block('s2', 'scene-heading', 'EXT. YARD - NIGHT')];
+      const remote = sceneDoc(edit(BASE, 'd1', 'Who is there?'));
+      const result = mergeConflictingScenes(local, [{ sceneId: 's1', base: sceneDoc(BASE), remote }]);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.blocks.map(b => b.content)).toEqual([
+        'INT. KITCHEN - NIGHT', 'Sarah drinks.', 'SARAH', 'Who is there?', 'EXT. YARD - NIGHT'
+      ]);
+    });
+
+    test('should merge the implicit scene before the first heading in place', () => {
+      const opening = [block('t1', 'transition', 'FADE IN:'), block('a0', 'action', 'Darkness.')];
+      const implicitDoc = (blocks: Block[]): SceneDocument => ({
+        ...sceneDoc(BASE),
+        id: 'scene-t1',
+        scene_heading: '',
+        blocks,
+        implicit: true
+      });
+      const local = [...edit(opening, 't1', 'FADE IN'), ...BASE];
+      const remote = implicitDoc(edit(opening, 'a0', 'Total darkness.'));
+      const result = mergeConflictingScenes(local, [{ sceneId: 'scene-t1', base: implicitDoc(opening), remote }]);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.blocks.map(b => b.content).slice(0, 3)).toEqual(['FADE IN', 'Total darkness.', 'INT. KITCHEN - NIGHT']);
+      expect(result.blocks).toHaveLength(6);
+    });
+
+    test('should keep a scene the other user deleted', () => {
+      const local = edit(BASE, 'a1', 'Sarah drinks.');
+      const result = mergeConflictingScenes(local, [{ sceneId: 's1', base: sceneDoc(BASE), remote: null }]);
+      expect(result.blocks).toEqual(local);
+    });
+  });
+});
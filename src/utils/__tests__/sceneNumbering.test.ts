@@ -0,0 +1,81 @@
+import {
+  assignLockedSceneNumbers,
+  keepOmittedScenes,
+  lockSceneNumbers,
+  unlockSceneNumbers
+} from '../sceneNumbering';
+import type { Block } from '../../types';
+
+const block = (id: string, type: string, content: string, sceneNumber?: string): Block => ({
+  id, type, content, sceneNumber
+});
+
+const sceneNumbers = (blocks: Block[]) => blocks
+  .filter(b => b.type === 'scene-heading')
+  .map(b => b.sceneNumber);
+
+describe('Scene Numbering', () => {
+  test('should lock sequential numbers onto scene headings', () => {
+    const blocks = lockSceneNumbers([
+      block('s1', 'scene-heading', 'INT. KITCHEN - DAY'),
+      block('a1', 'action', 'Quiet.'),
+      block('s2', 'scene-heading', 'EXT. YARD - DAY')
+    ]);
+
+    expect(sceneNumbers(blocks)).toEqual(['1', '2']);
+    expect(blocks[1].sceneNumber).toBeUndefined();
+  });
+
+  test('should number inserted scenes from their neighbours', () => {
+    const blocks = assignLockedSceneNumbers([
+      block('new0', 'scene-heading', 'INT. HALL - DAY'),
+      block('s1', 'scene-heading', 'INT. KITCHEN - DAY', '1'),
+      block('s12', 'scene-heading', 'INT. OFFICE - DAY', '12'),
+      block('new1', 'scene-heading', 'INT. CAR - DAY'),
+      block('new2', 'scene-heading', 'EXT. ROAD - DAY'),
+      block('s13', 'scene-heading', 'EXT. BEACH - DAY', '13')
+    ]);
+
+    expect(sceneNumbers(blocks)).toEqual(['A1', '1', '12', '12A', '12B', '13']);
+  });
+
+  test('should skip numbers that are already taken', () => {
+    const blocks = assignLockedSceneNumbers([
+      block('s12', 'scene-heading', 'INT. OFFICE - DAY', '12'),
+      block('new', 'scene-heading', 'INT. CAR - DAY'),
+      block('s12a', 'scene-heading', 'EXT. ROAD - DAY', '12A')
+    ]);
+
+    expect(sceneNumbers(blocks)).toEqual(['12', '12B', '12A']);
+  });
+
+  test('should leave unlocked scripts alone', () => {
+    const blocks = [block('s1', 'scene-heading', 'INT. KITCHEN - DAY')];
+    expect(assignLockedSceneNumbers(blocks)).toBe(blocks);
+  });
+
+  test('should keep a deleted locked scene as an OMITTED placeholder', () => {
+    const previous = [
+      block('s1', 'scene-heading', 'INT. KITCHEN - DAY', '1'),
+      block('a1', 'action', 'Quiet.'),
+      block('s2', 'scene-heading', 'EXT. YARD - DAY', '2'),
+      block('a2', 'action', 'Wind.'),
+      block('s3', 'scene-heading', 'EXT. ROAD - DAY', '3')
+    ];
+    const next = previous.filter(b => b.id !== 's2' && b.id !== 'a2');
+    const result = keepOmittedScenes(previous, next);
+
+    expect(result.map(b => b.id)).toEqual(['s1', 'a1', 's2', 's3']);
+    expect(result[2]).toMatchObject({ content: 'OMITTED', sceneNumber: '2', omitted: true });
+  });
+
+  test('should drop placeholders and numbers when unlocking', () => {
+    const blocks = unlockSceneNumbers([
+      block('s1', 'scene-heading', 'INT. KITCHEN - DAY', '1'),
+      { ...block('s2', 'scene-heading', 'OMITTED', '2'), omitted: true }
+    ]);
+
+    expect(blocks.map(b => b.id)).toEqual(['s1']);
+    expect(blocks[0].sceneNumber).toBeUndefined();
+  });
+});
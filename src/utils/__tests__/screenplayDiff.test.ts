@@ -0,0 +1,91 @@
+import { diffBlocks, diffWords, summarizeSceneChanges, textSimilarity } from '../screenplayDiff';
+import type { Block } from '../../types';
+
+const OLD_DRAFT: Block[] = [
+  { id: 's1', type: 'scene-heading', content: 'INT. KITCHEN - NIGHT' },
+  { id: 'a1', type: 'action', content: 'Sarah pours a glass of water.' },
+  { id: 'c1', type: 'character', content: 'SARAH' },
+  { id: 'd1', type: 'dialogue', content: 'Who left the door open?' },
+  { id: 's2', type: 'scene-heading', content: 'EXT. YARD - NIGHT' },
+  { id: 'a2', type: 'action', content: 'The gate swings in the wind.' }
+];
+
+describe('Screenplay Diff', () => {
+  describe('diffWords', () => {
+    test('should mark removed and added words', () => {
+      expect(diffWords('Who left the door open?', 'Who left the window open?')).toEqual([
+        { type: 'equal', text: 'Who left the ' },
+        { type: 'removed', text: 'door' },
+        { type: 'added', text: 'window' },
+        { type: 'equal', text: ' open?' }
+      ]);
+    });
+  });
+
+  describe('textSimilarity', () => {
+    test('should score shared words', () => {
+      expect(textSimilarity('the gate swings', 'The gate swings')).toBe(1);
+      expect(textSimilarity('the gate swings', 'a door slams')).toBe(0);
+    });
+  });
+
+  describe('diffBlocks', () => {
+    test('should match blocks by ID and report edits', () => {
+      const newDraft = OLD_DRAFT.map(block =>
+        block.id === 'd1' ? { ...block, content: 'Who left the window open?' } : block
+      );
+      const diff = diffBlocks(OLD_DRAFT, newDraft);
+
+      expect(diff.map(entry => entry.status)).toEqual([
+        'unchanged', 'unchanged', 'unchanged', 'modified', 'unchanged', 'unchanged'
+      ]);
+      expect(diff[3].words?.some(part => part.type === 'added' && part.text === 'window')).toBe(true);
+    });
+
+    test('should match blocks with new IDs by content similarity', () => {
+      const newDraft = OLD_DRAFT.map(block =>
+        block.id === 'a2' ? { ...block, id: 'pasted', content: 'The old gate swings in the wind.' } : block
+      );
+      const diff = diffBlocks(OLD_DRAFT, newDraft);
+
+      expect(diff[5].status).toBe('modified');
+      expect(diff[5].oldBlock?.id).toBe('a2');
+      expect(diff[5].newBlock?.id).toBe('pasted');
+    });
+
+    test('should report added, removed and moved blocks', () => {
+      const newDraft: Block[] = [
+        OLD_DRAFT[0],
+        OLD_DRAFT[2],
+        OLD_DRAFT[3],
+        OLD_DRAFT[1],
+        { id: 'a3', type: 'action', content: 'Thunder.' },
+        OLD_DRAFT[4]
+      ];
+      const diff = diffBlocks(OLD_DRAFT, newDraft);
+
+      expect(diff.map(entry => [entry.status, (entry.newBlock || entry.oldBlock)?.id])).toEqual([
+        ['unchanged', 's1'],
+        ['unchanged', 'c1'],
+        ['unchanged', 'd1'],
+        ['moved', 'a1'],
+        ['added', 'a3'],
+        ['unchanged', 's2'],
+        ['removed', 'a2']
+      ]);
+    });
+  });
+
+  describe('summarizeSceneChanges', () => {
+    test('should count changes per scene and skip unchanged scenes', () => {
+      const newDraft = [
+        ...OLD_DRAFT.slice(0, 5),
+        { id: 'a3', type: 'action', content: 'Thunder.' }
+      ];
+
+      expect(summarizeSceneChanges(diffBlocks(OLD_DRAFT, newDraft))).toEqual([
+        { sceneId: 's2', heading: 'EXT. YARD - NIGHT', added: 1, removed: 1, modified: 0, moved: 0 }
+      ]);
+    });
+  });
+});
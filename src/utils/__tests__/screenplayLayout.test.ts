@@ -0,0 +1,270 @@
+import {
+  getBlockLineCount,
+  getPageBreakMap,
+  layoutScreenplay,
+  layoutTitlePage,
+  paginateBlocks,
+  splitSentences,
+  wrapText
+} from '../screenplayLayout';
+import { createScreenplayPdf } from '../pdfExport';
+import { createScreenplayText } from '../textExport';
+import type { Block } from '../../types';
+import type { LockedPageBreak } from '../../types/screenplay';
+
+const LONG_SPEECH = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1} goes here.`).join(' ');
+
+describe('Screenplay Layout', () => {
+  describe('wrapText', () => {
+    test('should wrap on word boundaries', () => {
+      expect(wrapText('the quick brown fox jumps', 10)).toEqual(['the quick', 'brown fox', 'jumps']);
+    });
+
+    test('should hard-break words longer than a line', () => {
+      expect(wrapText('abcdefghijkl', 5)).toEqual(['abcde', 'fghij', 'kl']);
+    });
+
+    test('should return a single empty line for empty text', () => {
+      expect(wrapText('', 10)).toEqual(['']);
+    });
+  });
+
+  describe('layoutScreenplay', () => {
+    test('should indent and uppercase elements', () => {
+      const [page] = layoutScreenplay([
+        { id: 's1', type: 'scene-heading', content: 'int. kitchen - night' },
+        { id: 'c1', type: 'character', content: 'sarah' },
+        { id: 'd1', type: 'dialogue', content: 'Hello.' }
+      ]);
+
+      expect(page.lines.map(line => line.text)).toEqual(['INT. KITCHEN - NIGHT', '', 'SARAH', 'Hello.']);
+      expect(page.lines[0].indent).toBe(1.5);
+      expect(page.lines[2].indent).toBe(3.7);
+      expect(page.lines[3].indent).toBe(2.5);
+    });
+
+    test('should print scene numbers on scene headings', () => {
+      const [page] = layoutScreenplay([
+        { id: 's1', type: 'scene-heading', content: 'INT. KITCHEN - NIGHT' },
+        { id: 'a1', type: 'action', content: 'Quiet.' },
+        { id: 's2', type: 'scene-heading', content: 'EXT. YARD - NIGHT' }
+      ]);
+
+      const numbered = page.lines.filter(line => line.sceneNumber);
+      expect(numbered.map(line => line.sceneNumber)).toEqual(['1', '2']);
+    });
+
+    test('should split dialogue across pages with MORE and CONTD', () => {
+      const blocks: Block[] = [
+        { id: 'a1', type: 'action', content: 'Filler.' },
+        { id: 'c1', type: 'character', content: 'SARAH' },
+        { id: 'd1', type: 'dialogue', content: LONG_SPEECH }
+      ];
+      const pages = layoutScreenplay(blocks, { linesPerPage: 10 });
+
+      expect(pages.length).toBeGreaterThan(1);
+      expect(pages[0].lines[pages[0].lines.length - 1].text).toBe('(MORE)');
+      expect(pages[1].lines[0].text).toBe("SARAH (CONT'D)");
+      pages.forEach(page => expect(page.lines.length).toBeLessThanOrEqual(10));
+    });
+
+    test('should only break dialogue between sentences', () => {
+      const blocks: Block[] = [
+        { id: 'c1', type: 'character', content: 'SARAH' },
+        { id: 'd1', type: 'dialogue', content: LONG_SPEECH }
+      ];
+      const pages = layoutScreenplay(blocks, { linesPerPage: 6 });
+      const lastLines = pages.slice(0, -1).map(page => page.lines[page.lines.length - 2].text);
+      const firstLines = pages.slice(1).map(page => page.lines[1].text);
+
+      lastLines.forEach(line => expect(line).toMatch(/\.$/));
+      firstLines.forEach(line => expect(line).toMatch(/^Sentence number/));
+    });
+
+    test('should move other elements to the next page whole', () => {
+      const blocks: Block[] = [
+        { id: 'a1', type: 'action', content: 'One.' },
+        { id: 'a2', type: 'action', content: 'x '.repeat(100) }
+      ];
+      const pages = layoutScreenplay(blocks, { linesPerPage: 4 });
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].lines.map(line => line.text)).toEqual(['One.']);
+      expect(pages[1].lines[0].blockId).toBe('a2');
+    });
+  });
+
+  describe('widow and orphan rules', () => {
+    test('should not leave a scene heading alone at the bottom of a page', () => {
+      const blocks: Block[] = [
+        { id: 'a1', type: 'action', content: 'Line one.\nLine two.\nLine three.' },
+        { id: 's1', type: 'scene-heading', content: 'EXT. ROAD - DAY' },
+        { id: 'a2', type: 'action', content: 'A car passes.' }
+      ];
+      const pages = layoutScreenplay(blocks, { linesPerPage: 7 });
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].lines.some(line => line.blockId === 's1')).toBe(false);
+      expect(pages[1].lines[0].blockId).toBe('s1');
+    });
+
+    test('should keep a character cue with its dialogue', () => {
+      const blocks: Block[] = [
+        { id: 'a1', type: 'action', content: 'Line one.\nLine two.\nLine three.' },
+        { id: 'c1', type: 'character', content: 'SARAH' },
+        { id: 'p1', type: 'parenthetical', content: '(quietly)' },
+        { id: 'd1', type: 'dialogue', content: 'Hello there.' }
+      ];
+      const pages = layoutScreenplay(blocks, { linesPerPage: 6 });
+
+      expect(pages).toHaveLength(2);
+      expect(pages[1].lines.map(line => line.blockId)).toEqual(['c1', 'p1', 'd1']);
+    });
+  });
+
+  describe('paginateBlocks', () => {
+    test('should group blocks by the page they start on', () => {
+      const blocks: Block[] = [
+        { id: 'a1', type: 'action', content: 'One.' },
+        { id: 'a2', type: 'action', content: 'Two.' },
+        { id: 'a3', type: 'action', content: 'Three.' }
+      ];
+      const pages = paginateBlocks(blocks, { linesPerPage: 3 });
+
+      expect(pages.map(page => page.number)).toEqual([1, 2]);
+      expect(pages[0].blocks.map(block => block.id)).toEqual(['a1', 'a2']);
+      expect(pages[1].blocks.map(block => block.id)).toEqual(['a3']);
+    });
+
+    test('should mark pages where a speech continues', () => {
+      const blocks: Block[] = [
+        { id: 'c1', type: 'character', content: 'Sarah' },
+        { id: 'd1', type: 'dialogue', content: LONG_SPEECH },
+        { id: 'a1', type: 'action', content: 'She stops.' }
+      ];
+      const pages = paginateBlocks(blocks, { linesPerPage: 10 });
+
+      expect(pages[0].moreBlockId).toBe('d1');
+      expect(pages[1].continuedCue).toBe("SARAH (CONT'D)");
+      expect(pages[1].blocks.map(block => block.id)).toEqual(['a1']);
+    });
+
+    test('should split the speech text where the print breaks it', () => {
+      const blocks: Block[] = [
+        { id: 'c1', type: 'character', content: 'Sarah' },
+        { id: 'd1', type: 'dialogue', content: LONG_SPEECH }
+      ];
+      const pages = paginateBlocks(blocks, { linesPerPage: 6 });
+
+      expect(pages.length).toBeGreaterThan(2);
+      expect(pages[1].blocks).toEqual([]);
+      expect(pages[1].continuedCue).toBe("SARAH (CONT'D)");
+      expect(pages[1].moreBlockId).toBe('d1');
+      expect(pages[pages.length - 1].moreBlockId).toBeUndefined();
+
+      expect(pages[1].moreText).toBe(pages[1].continuedText);
+      expect([pages[0].moreText, ...pages.slice(1).map(page => page.continuedText)].join(' ')).toBe(LONG_SPEECH);
+    });
+
+    test('should measure blocks by their wrapped width', () => {
+      const content = 'word '.repeat(20).trim();
+      expect(getBlockLineCount({ id: 'a', type: 'action', content })).toBe(3);
+      expect(getBlockLineCount({ id: 'd', type: 'dialogue', content })).toBe(3);
+      expect(getBlockLineCount({ id: 'p', type: 'parenthetical', content })).toBe(4);
+    });
+  });
+
+  describe('locked pages', () => {
+    const action = (id: string): Block => ({ id, type: 'action', content: id });
+    const labels = (blocks: Block[], lockedPageBreaks: LockedPageBreak[]) =>
+      layoutScreenplay(blocks, { linesPerPage: 3, lockedPageBreaks }).map(page => page.label);
+
+    test('should record the block starting each page', () => {
+      const pages = layoutScreenplay(['a1', 'a2', 'a3', 'a4'].map(action), { linesPerPage: 3 });
+      expect(getPageBreakMap(pages)).toEqual([
+        { label: '1', blockId: 'a1' },
+        { label: '2', blockId: 'a3' }
+      ]);
+    });
+
+    test('should put added text on A-pages without moving later pages', () => {
+      const lockedPageBreaks = [{ label: '1', blockId: 'a1' }, { label: '2', blockId: 'a3' }];
+      const blocks = ['a1', 'a2', 'n1', 'a3', 'a4'].map(action);
+      expect(labels(blocks, lockedPageBreaks)).toEqual(['1', '1A', '2']);
+    });
+
+    test('should reuse and combine page numbers left without text', () => {
+      const lockedPageBreaks = [
+        { label: '1', blockId: 'a1' },
+        { label: '2', blockId: 'a3' },
+        { label: '3', blockId: 'a5' }
+      ];
+      expect(labels(['a1', 'a2', 'a4', 'a5'].map(action), lockedPageBreaks)).toEqual(['1', '2', '3']);
+      expect(labels(['a1', 'a2', 'a5'].map(action), lockedPageBreaks)).toEqual(['1-2', '3']);
+    });
+  });
+
+  describe('splitSentences', () => {
+    test('should keep closing punctuation with each sentence', () => {
+      expect(splitSentences('Wait! Is that you? "Yes." Fine')).toEqual(['Wait!', 'Is that you?', '"Yes."', 'Fine']);
+    });
+  });
+
+  describe('layoutTitlePage', () => {
+    test('should return null without header content', () => {
+      expect(layoutTitlePage({})).toBeNull();
+    });
+
+    test('should center the title and byline', () => {
+      const lines = layoutTitlePage({ title: 'The Long Night', author: 'Jane Writer', contact: 'jane@example.com' })!;
+      const text = lines.map(line => line.text);
+
+      expect(text).toContain('THE LONG NIGHT');
+      expect(text).toContain('Written by');
+      expect(text[text.length - 1]).toBe('jane@example.com');
+    });
+  });
+
+  describe('createScreenplayPdf', () => {
+    test('should produce a PDF with one page per layout page plus the title page', () => {
+      const bytes = createScreenplayPdf(
+        [{ id: 's1', type: 'scene-heading', content: 'INT. ROOM (NIGHT)' }],
+        { title: 'Test' }
+      );
+      const pdf = String.fromCharCode(...Array.from(bytes));
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('(INT. ROOM \\(NIGHT\\)) Tj');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+
+    test('should tint revised pages and mark changed lines', () => {
+      const bytes = createScreenplayPdf(
+        [{ id: 'a1', type: 'action', content: 'Changed.' }],
+        {},
+        { revisionMarks: { a1: 1 } }
+      );
+      const pdf = String.fromCharCode(...Array.from(bytes));
+
+      expect(pdf).toContain('(Blue Rev.) Tj');
+      expect(pdf).toContain('(*) Tj');
+      expect(pdf).toMatch(/ rg 0 0 612 792 re f/);
+    });
+  });
+
+  describe('createScreenplayText', () => {
+    test('should print continuation markers at page breaks', () => {
+      const text = createScreenplayText([
+        ...Array.from({ length: 24 }, (_, i) => ({ id: `a${i}`, type: 'action', content: `Beat ${i}.` })),
+        { id: 'c1', type: 'character', content: 'SARAH' },
+        { id: 'd1', type: 'dialogue', content: LONG_SPEECH }
+      ]);
+      const [first, second] = text.split('\f');
+
+      expect(first.trimEnd().endsWith('(MORE)')).toBe(true);
+      expect(second).toContain("SARAH (CONT'D)");
+      expect(second).toMatch(/^\s+2\./);
+    });
+  });
+});
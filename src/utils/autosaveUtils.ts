@@ -0,0 +1,71 @@
+/**
+ * Autosave Policy
+ *
+ * A screenplay is saved after a pause in editing or after a number of edits,
+ * whichever comes first. Each writer sets both limits in their account
+ * settings; a limit of 0 turns that trigger off.
+ */
+
+export interface AutosaveSettings {
+  autosaveIdleSeconds: number; // Save after this many seconds without edits
+  autosaveEditCount: number; // Save after this many edits, even while still typing
+}
+
+export const DEFAULT_AUTOSAVE_SETTINGS: AutosaveSettings = {
+  autosaveIdleSeconds: 3,
+  autosaveEditCount: 100
+};
+
+export const AUTOSAVE_IDLE_OPTIONS = [0, 3, 5, 10, 30, 60];
+export const AUTOSAVE_EDIT_OPTIONS = [0, 25, 50, 100, 250];
+
+/**
+ * Reads autosave settings from an account settings document, falling back to
+ * the defaults for missing or invalid values
+ * @param data The stored account settings
+ * @returns Complete autosave settings
+ */
+export const normalizeAutosaveSettings = (data: Partial<Record<keyof AutosaveSettings, unknown>> | undefined): AutosaveSettings => {
+  const read = (key: keyof AutosaveSettings): number => {
+    const value = Number(data?.[key]);
+    return data?.[key] !== undefined && Number.isFinite(value) && value >= 0
+      ? Math.floor(value)
+      : DEFAULT_AUTOSAVE_SETTINGS[key];
+  };
+
+  return {
+    autosaveIdleSeconds: read('autosaveIdleSeconds'),
+    autosaveEditCount: read('autosaveEditCount')
+  };
+};
+
+/**
+ * Decides whether enough edits have piled up to save without waiting for a pause
+ * @param editsSinceSave Edits made since the last save
+ * @param settings The writer's autosave settings
+ * @returns True when the edit limit is reached
+ */
+export const shouldSaveAfterEdits = (editsSinceSave: number, settings: AutosaveSettings): boolean => {
+  return settings.autosaveEditCount > 0 && editsSinceSave >= settings.autosaveEditCount;
+};
+
+/**
+ * Describes how long ago the last save happened
+ * @param savedAt Time of the last save
+ * @param now The current time
+ * @returns A label like "Saved 12s ago"
+ */
+export const formatSavedAgo = (savedAt: Date, now: Date = new Date()): string => {
+  const seconds = Math.max(0, Math.floor((now.getTime() - savedAt.getTime()) / 1000));
+
+  if (seconds < 5) return 'Saved just now';
+  if (seconds < 60) return `Saved ${seconds}s ago`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `Saved ${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Saved ${hours}h ago`;
+
+  return `Saved ${savedAt.toLocaleDateString()}`;
+};
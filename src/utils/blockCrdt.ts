@@ -0,0 +1,392 @@
+/**
+ * Block List CRDT
+ *
+ * A replicated block list that several writers can edit at the same time.
+ * Every local change becomes operations that any replica can apply, in any
+ * order and more than once, and still end with the same blocks:
+ * - Block order and the characters of each block are RGA sequences. An
+ *   element is inserted after a known element; concurrent inserts at the same
+ *   spot are ordered by their stamps.
+ * - Deleted characters stay as tombstones so later operations can refer to them.
+ * - Block type, locked scene number, OMITTED flag and deletion are
+ *   last-writer-wins registers.
+ * - Moving a block inserts a new slot for it. When two writers move the same
+ *   block, the slot with the highest stamp decides where it shows.
+ */
+
+import type { Block } from '../types';
+import { longestIncreasingRun } from './screenplayDiff';
+
+export interface CrdtStamp {
+  counter: number; // Lamport clock
+  replica: string;
+}
+
+export type BlockAttribute = 'type' | 'sceneNumber' | 'omitted' | 'deleted';
+
+export type BlockOperation =
+  | { kind: 'insert-block'; stamp: CrdtStamp; blockId: string; after: string | null; blockType: string }
+  | { kind: 'move-block'; stamp: CrdtStamp; blockId: string; after: string | null; replaces: string[] }
+  | { kind: 'set-attribute'; stamp: CrdtStamp; blockId: string; attribute: BlockAttribute; value: string | boolean | null }
+  | { kind: 'insert-text'; stamp: CrdtStamp; blockId: string; after: string | null; text: string }
+  | { kind: 'delete-text'; stamp: CrdtStamp; blockId: string; charIds: string[] };
+
+interface SequenceElement {
+  id: string;
+  stamp: CrdtStamp;
+  deleted: boolean;
+}
+
+interface BlockSlot extends SequenceElement {
+  blockId: string;
+}
+
+interface TextChar extends SequenceElement {
+  value: string;
+}
+
+interface Register<T> {
+  value: T;
+  stamp: CrdtStamp;
+}
+
+interface CrdtBlock {
+  id: string;
+  attributes: {
+    type: Register<string>;
+    sceneNumber: Register<string | null>;
+    omitted: Register<boolean>;
+    deleted: Register<boolean>;
+  };
+  chars: TextChar[];
+}
+
+export interface BlockCrdt {
+  replica: string;
+  clock: number;
+  slots: BlockSlot[];
+  slotIds: Set<string>;
+  blocks: Map<string, CrdtBlock>;
+  applied: Set<string>; // Stamps of applied operations
+  pending: BlockOperation[]; // Remote operations waiting for the elements they refer to
+}
+
+// Elements of the starting blocks are older than any operation
+const BASE_STAMP: CrdtStamp = { counter: 0, replica: '' };
+
+const stampKey = (stamp: CrdtStamp): string => `${stamp.counter}@${stamp.replica}`;
+
+const compareStamps = (a: CrdtStamp, b: CrdtStamp): number => {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0;
+};
+
+// Number of clock ticks an operation uses; each inserted character gets its own
+const operationSpan = (operation: BlockOperation): number =>
+  operation.kind === 'insert-text' ? Math.max(1, Array.from(operation.text).length) : 1;
+
+/**
+ * Inserts an element after the given one. Newer elements already inserted at
+ * the same spot stay in front, which orders concurrent inserts the same way
+ * on every replica.
+ */
+const integrate = <T extends SequenceElement>(sequence: T[], element: T, after: string | null): void => {
+  let index = after === null ? 0 : sequence.findIndex(item => item.id === after) + 1;
+  while (index < sequence.length && compareStamps(sequence[index].stamp, element.stamp) > 0) {
+    index++;
+  }
+  sequence.splice(index, 0, element);
+};
+
+const register = <T>(value: T, stamp: CrdtStamp): Register<T> => ({ value, stamp });
+
+const createBlock = (id: string, type: string, stamp: CrdtStamp): CrdtBlock => ({
+  id,
+  attributes: {
+    type: register(type, stamp),
+    sceneNumber: register<string | null>(null, stamp),
+    omitted: register(false, stamp),
+    deleted: register(false, stamp)
+  },
+  chars: []
+});
+
+/**
+ * Creates a replica from a block list. Replicas created from the same blocks
+ * accept each other's operations.
+ * @param replica Unique ID of this replica
+ * @param blocks The blocks every replica starts from
+ * @returns The replica state
+ */
+export const createBlockCrdt = (replica: string, blocks: Block[]): BlockCrdt => {
+  const crdt: BlockCrdt = {
+    replica,
+    clock: 0,
+    slots: [],
+    slotIds: new Set(),
+    blocks: new Map(),
+    applied: new Set(),
+    pending: []
+  };
+
+  blocks.forEach(block => {
+    const crdtBlock = createBlock(block.id, block.type, BASE_STAMP);
+    crdtBlock.attributes.sceneNumber.value = block.sceneNumber || null;
+    crdtBlock.attributes.omitted.value = !!block.omitted;
+    crdtBlock.chars = Array.from(block.content).map((value, index) => ({
+      id: `base:${block.id}:${index}`,
+      stamp: BASE_STAMP,
+      deleted: false,
+      value
+    }));
+    crdt.blocks.set(block.id, crdtBlock);
+
+    const slotId = `base:${block.id}`;
+    crdt.slots.push({ id: slotId, stamp: BASE_STAMP, deleted: false, blockId: block.id });
+    crdt.slotIds.add(slotId);
+  });
+
+  return crdt;
+};
+
+// Whether everything the operation refers to has arrived
+const isReady = (crdt: BlockCrdt, operation: BlockOperation): boolean => {
+  const slotKnown = (slotId: string | null) => slotId === null || crdt.slotIds.has(slotId);
+
+  if (operation.kind === 'insert-block') return slotKnown(operation.after);
+
+  const block = crdt.blocks.get(operation.blockId);
+  if (!block) return false;
+
+  switch (operation.kind) {
+    case 'move-block':
+      return slotKnown(operation.after) && operation.replaces.every(slotId => crdt.slotIds.has(slotId));
+    case 'insert-text':
+      return operation.after === null || block.chars.some(char => char.id === operation.after);
+    case 'delete-text': {
+      const charIds = new Set(block.chars.map(char => char.id));
+      return operation.charIds.every(charId => charIds.has(charId));
+    }
+    default:
+      return true;
+  }
+};
+
+const applyOperation = (crdt: BlockCrdt, operation: BlockOperation): void => {
+  const { stamp } = operation;
+
+  switch (operation.kind) {
+    case 'insert-block':
+    case 'move-block': {
+      if (operation.kind === 'insert-block' && !crdt.blocks.has(operation.blockId)) {
+        crdt.blocks.set(operation.blockId, createBlock(operation.blockId, operation.blockType, stamp));
+      }
+      if (operation.kind === 'move-block') {
+        crdt.slots.forEach(slot => {
+          if (operation.replaces.includes(slot.id)) slot.deleted = true;
+        });
+      }
+      const slot: BlockSlot = { id: stampKey(stamp), stamp, deleted: false, blockId: operation.blockId };
+      integrate(crdt.slots, slot, operation.after);
+      crdt.slotIds.add(slot.id);
+      break;
+    }
+    case 'set-attribute': {
+      const { attributes } = crdt.blocks.get(operation.blockId)!;
+      const latest = <T>(current: Register<T>, value: T): Register<T> =>
+        compareStamps(stamp, current.stamp) > 0 ? register(value, stamp) : current;
+      const { value } = operation;
+
+      switch (operation.attribute) {
+        case 'type':
+          attributes.type = latest(attributes.type, String(value));
+          break;
+        case 'sceneNumber':
+          attributes.sceneNumber = latest(attributes.sceneNumber, value === null ? null : String(value));
+          break;
+        case 'omitted':
+          attributes.omitted = latest(attributes.omitted, !!value);
+          break;
+        case 'deleted':
+          attributes.deleted = latest(attributes.deleted, !!value);
+          break;
+      }
+      break;
+    }
+    case 'insert-text': {
+      const block = crdt.blocks.get(operation.blockId)!;
+      let after = operation.after;
+      Array.from(operation.text).forEach((value, index) => {
+        const charStamp = { counter: stamp.counter + index, replica: stamp.replica };
+        const char: TextChar = { id: stampKey(charStamp), stamp: charStamp, deleted: false, value };
+        integrate(block.chars, char, after);
+        after = char.id;
+      });
+      break;
+    }
+    case 'delete-text': {
+      const charIds = new Set(operation.charIds);
+      crdt.blocks.get(operation.blockId)!.chars.forEach(char => {
+        if (charIds.has(char.id)) char.deleted = true;
+      });
+      break;
+    }
+  }
+
+  crdt.applied.add(stampKey(stamp));
+  crdt.clock = Math.max(crdt.clock, stamp.counter + operationSpan(operation) - 1);
+};
+
+/**
+ * Applies operations from other replicas. Operations already applied are
+ * skipped, and ones that refer to elements not yet received wait until
+ * those arrive.
+ * @param crdt The replica state
+ * @param operations Operations in any order
+ * @returns Whether any operation was applied
+ */
+export const receiveOperations = (crdt: BlockCrdt, operations: BlockOperation[]): boolean => {
+  let changed = false;
+  crdt.pending.push(...operations.filter(operation => !crdt.applied.has(stampKey(operation.stamp))));
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    crdt.pending = crdt.pending.filter(operation => {
+      if (crdt.applied.has(stampKey(operation.stamp))) return false;
+      if (!isReady(crdt, operation)) return true;
+      applyOperation(crdt, operation);
+      progress = true;
+      changed = true;
+      return false;
+    });
+  }
+
+  return changed;
+};
+
+// The live slot that decides where a block shows
+const winningSlots = (crdt: BlockCrdt): Map<string, BlockSlot> => {
+  const winners = new Map<string, BlockSlot>();
+  crdt.slots.forEach(slot => {
+    if (slot.deleted) return;
+    const current = winners.get(slot.blockId);
+    if (!current || compareStamps(slot.stamp, current.stamp) > 0) {
+      winners.set(slot.blockId, slot);
+    }
+  });
+  return winners;
+};
+
+/**
+ * Reads the current blocks of a replica
+ * @param crdt The replica state
+ * @returns The visible blocks in order
+ */
+export const blockCrdtToBlocks = (crdt: BlockCrdt): Block[] => {
+  const winners = winningSlots(crdt);
+
+  return crdt.slots
+    .filter(slot => winners.get(slot.blockId) === slot)
+    .map(slot => crdt.blocks.get(slot.blockId)!)
+    .filter(block => !block.attributes.deleted.value)
+    .map(block => {
+      const result: Block = {
+        id: block.id,
+        type: block.attributes.type.value,
+        content: block.chars.filter(char => !char.deleted).map(char => char.value).join('')
+      };
+      if (block.attributes.sceneNumber.value) result.sceneNumber = block.attributes.sceneNumber.value;
+      if (block.attributes.omitted.value) result.omitted = true;
+      return result;
+    });
+};
+
+/**
+ * Turns local edits into operations, applying them to the replica
+ * @param crdt The replica state
+ * @param blocks The blocks after the local edits
+ * @returns Operations to send to the other replicas
+ */
+export const generateOperations = (crdt: BlockCrdt, blocks: Block[]): BlockOperation[] => {
+  const operations: BlockOperation[] = [];
+  const emit = (build: (stamp: CrdtStamp) => BlockOperation): BlockOperation => {
+    const operation = build({ counter: crdt.clock + 1, replica: crdt.replica });
+    applyOperation(crdt, operation);
+    operations.push(operation);
+    return operation;
+  };
+
+  const current = blockCrdtToBlocks(crdt);
+  const nextIds = new Set(blocks.map(block => block.id));
+
+  current
+    .filter(block => !nextIds.has(block.id))
+    .forEach(block => emit(stamp => ({ kind: 'set-attribute', stamp, blockId: block.id, attribute: 'deleted', value: true })));
+
+  // Kept blocks outside the longest in-order run were moved
+  const currentIndex = new Map(current.map((block, index) => [block.id, index]));
+  const kept = blocks.filter(block => currentIndex.has(block.id));
+  const inOrder = new Set(
+    longestIncreasingRun(kept.map(block => currentIndex.get(block.id) as number)).map(position => kept[position].id)
+  );
+
+  // A local insert or move is newer than every slot, so its slot wins
+  const winnerIds = new Map(Array.from(winningSlots(crdt), ([blockId, slot]) => [blockId, slot.id]));
+
+  let previousSlot: string | null = null;
+  blocks.forEach(block => {
+    let crdtBlock = crdt.blocks.get(block.id);
+
+    if (!crdtBlock) {
+      const operation = emit(stamp => ({ kind: 'insert-block', stamp, blockId: block.id, after: previousSlot, blockType: block.type }));
+      winnerIds.set(block.id, stampKey(operation.stamp));
+      crdtBlock = crdt.blocks.get(block.id)!;
+    } else if (!inOrder.has(block.id)) {
+      // Moved, or brought back after a delete (e.g. by undo)
+      if (crdtBlock.attributes.deleted.value) {
+        emit(stamp => ({ kind: 'set-attribute', stamp, blockId: block.id, attribute: 'deleted', value: false }));
+      }
+      const replaces = crdt.slots.filter(slot => slot.blockId === block.id && !slot.deleted).map(slot => slot.id);
+      const operation = emit(stamp => ({ kind: 'move-block', stamp, blockId: block.id, after: previousSlot, replaces }));
+      winnerIds.set(block.id, stampKey(operation.stamp));
+    }
+
+    const { attributes } = crdtBlock;
+    if (attributes.type.value !== block.type) {
+      emit(stamp => ({ kind: 'set-attribute', stamp, blockId: block.id, attribute: 'type', value: block.type }));
+    }
+    if (attributes.sceneNumber.value !== (block.sceneNumber || null)) {
+      emit(stamp => ({ kind: 'set-attribute', stamp, blockId: block.id, attribute: 'sceneNumber', value: block.sceneNumber || null }));
+    }
+    if (attributes.omitted.value !== !!block.omitted) {
+      emit(stamp => ({ kind: 'set-attribute', stamp, blockId: block.id, attribute: 'omitted', value: !!block.omitted }));
+    }
+
+    // Text: replace the changed middle between the common prefix and suffix
+    const chars = crdtBlock.chars.filter(char => !char.deleted);
+    const text = Array.from(block.content);
+    let prefix = 0;
+    while (prefix < chars.length && prefix < text.length && chars[prefix].value === text[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < chars.length - prefix &&
+      suffix < text.length - prefix &&
+      chars[chars.length - 1 - suffix].value === text[text.length - 1 - suffix]
+    ) suffix++;
+
+    const removed = chars.slice(prefix, chars.length - suffix).map(char => char.id);
+    if (removed.length > 0) {
+      emit(stamp => ({ kind: 'delete-text', stamp, blockId: block.id, charIds: removed }));
+    }
+    const inserted = text.slice(prefix, text.length - suffix).join('');
+    if (inserted) {
+      const after = prefix > 0 ? chars[prefix - 1].id : null;
+      emit(stamp => ({ kind: 'insert-text', stamp, blockId: block.id, after, text: inserted }));
+    }
+
+    previousSlot = winnerIds.get(block.id) || null;
+  });
+
+  return operations;
+};
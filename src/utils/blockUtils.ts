@@ -1,55 +1,17 @@
 import { Block, SceneDocument } from '../types';
-import { BLOCK_HEIGHTS, MAX_PAGE_HEIGHT, BLOCK_TYPES } from '../constants/editorConstants';
+import type { LockedPageBreak } from '../types/screenplay';
+import { BLOCK_TYPES } from '../constants/editorConstants';
+import { paginateBlocks, CONTD_MARKER, type PaginatedPage } from './screenplayLayout';
+import { assignLockedSceneNumbers } from './sceneNumbering';
 
-export const calculateBlockHeight = (block: Block): number => {
-  const baseHeight = BLOCK_HEIGHTS[block.type as keyof typeof BLOCK_HEIGHTS] || 2;
-  const contentLines = Math.max(1, Math.ceil(block.content.length / 75));
-  return baseHeight * contentLines;
-};
-
-export const organizeBlocksIntoPages = (blocks: Block[]): Block[][] => {
-  const pages: Block[][] = [];
-  let currentPage: Block[] = [];
-  let currentHeight = 0;
-
-  const addBlockToPage = (block: Block) => {
-    const blockHeight = calculateBlockHeight(block);
-    if (currentHeight + blockHeight > MAX_PAGE_HEIGHT && currentPage.length > 0) {
-      pages.push([...currentPage]);
-      currentPage = [];
-      currentHeight = 0;
-    }
-    currentPage.push(block);
-    currentHeight += blockHeight;
-  };
-
-  for (let i = 0; i < blocks.length; i++) {
-    const block = blocks[i];
-    const nextBlock = blocks[i + 1];
-
-    if (block.type === 'character' && nextBlock && 
-       (nextBlock.type === 'dialogue' || nextBlock.type === 'parenthetical')) {
-      const combinedHeight = calculateBlockHeight(block) + calculateBlockHeight(nextBlock);
-      
-      if (currentHeight + combinedHeight > MAX_PAGE_HEIGHT) {
-        if (currentPage.length > 0) {
-          pages.push([...currentPage]);
-          currentPage = [];
-          currentHeight = 0;
-        }
-      }
-      addBlockToPage(block);
-      continue;
-    }
-
-    addBlockToPage(block);
-  }
-
-  if (currentPage.length > 0) {
-    pages.push(currentPage);
-  }
-
-  return pages;
+/**
+ * Splits blocks into printed pages using the screenplay layout engine
+ * @param blocks Array of blocks to paginate
+ * @param lockedPageBreaks Page break map when the pages are locked
+ * @returns Pages with their printed page number and the blocks that start on them
+ */
+export const organizeBlocksIntoPages = (blocks: Block[], lockedPageBreaks?: LockedPageBreak[]): PaginatedPage[] => {
+  return paginateBlocks(blocks, { lockedPageBreaks });
 };
 
 /**
@@ -127,7 +89,8 @@ export const getNextBlockType = (currentType: string, content: string, isDoubleE
 };
 
 /**
- * Updates block numbers for scene headings and dialogue blocks
+ * Updates block numbers for scene headings and dialogue blocks.
+ * Locked scene numbers are kept and new scenes get inserted numbers.
  * @param blocks Array of blocks to update
  * @returns Updated blocks with correct numbering
  */
@@ -135,7 +98,7 @@ export const updateBlockNumbers = (blocks: Block[]): Block[] => {
   let sceneCount = 0;
   let dialogueCount = 0;
 
-  return blocks.map((block) => {
+  return assignLockedSceneNumbers(blocks).map((block) => {
     if (block.type === 'scene-heading') {
       sceneCount++;
       return { ...block, number: sceneCount };
@@ -169,6 +132,61 @@ export const extractCharacterNames = (blocks: Block[]): string[] => {
   return Array.from(characterNames);
 };
 
+/**
+ * Finds character cues that should get an automatic (CONT'D): the same
+ * character speaking again in the same scene with only action in between
+ * @param blocks Array of blocks to analyze
+ * @returns Set of character block IDs
+ */
+export const getAutoContdBlockIds = (blocks: Block[]): Set<string> => {
+  const contdIds = new Set<string>();
+  let lastSpeaker: string | null = null;
+  let inSpeech = false;
+
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'character': {
+        const name = extractCharacterNames([block])[0]?.toUpperCase() || null;
+        const alreadyMarked = /\(CONT'D\)/i.test(block.content);
+        if (name && name === lastSpeaker && !alreadyMarked) {
+          contdIds.add(block.id);
+        }
+        lastSpeaker = name;
+        inSpeech = true;
+        break;
+      }
+      case 'dialogue':
+      case 'parenthetical':
+        if (!inSpeech) lastSpeaker = null;
+        break;
+      case 'action':
+        inSpeech = false;
+        break;
+      default:
+        // Scene headings, transitions and shots break the run
+        lastSpeaker = null;
+        inSpeech = false;
+    }
+  });
+
+  return contdIds;
+};
+
+/**
+ * Applies automatic (CONT'D) extensions for rendering or export
+ * @param blocks Array of blocks to process
+ * @returns New blocks with extended cues; the original blocks are not modified
+ */
+export const applyAutoContd = (blocks: Block[]): Block[] => {
+  const contdIds = getAutoContdBlockIds(blocks);
+  if (contdIds.size === 0) return blocks;
+
+  return blocks.map(block => contdIds.has(block.id)
+    ? { ...block, content: `${block.content.trim()} ${CONTD_MARKER}` }
+    : block
+  );
+};
+
 /**
  * Creates a simple hash for scene headings
  * @param text The scene heading text to hash
@@ -185,6 +203,28 @@ export const createSceneHeadingHash = (text: string): string => {
   return Math.abs(hash).toString(16);
 };
 
+type SceneContent = Pick<SceneDocument, 'scene_heading' | 'order' | 'blocks' | 'scene_number' | 'omitted'>;
+
+const serializeSceneContent = (scene: SceneContent): string => JSON.stringify([
+  scene.scene_heading,
+  scene.order,
+  scene.scene_number || null,
+  !!scene.omitted,
+  (scene.blocks || []).map(block => [block.id, block.type, block.content])
+]);
+
+/**
+ * Compares everything a save writes for two versions of a scene, so
+ * unchanged scenes can be skipped. The content itself is compared rather
+ * than a hash of it, so no edit can be mistaken for the saved text.
+ * @param a One version of the scene
+ * @param b The other version
+ * @returns True when a save would write the same content
+ */
+export const isSameSceneContent = (a: SceneContent, b: SceneContent): boolean => {
+  return serializeSceneContent(a) === serializeSceneContent(b);
+};
+
 /**
  * Identifies scenes in a list of blocks
  * @param blocks Array of blocks to analyze
@@ -219,7 +259,29 @@ export const identifyScenes = (blocks: Block[]): { sceneHeadingIndex: number, ne
 };
 
 /**
- * Segments blocks into scene documents
+ * Rebuilds the blocks of a scene document, with its heading block first
+ * @param scene The scene document
+ * @returns The scene's blocks in script order; an implicit scene has no heading block
+ */
+export const sceneDocumentToBlocks = (scene: SceneDocument): Block[] => {
+  if (scene.implicit) return scene.blocks;
+
+  return [
+    {
+      id: scene.id,
+      type: 'scene-heading',
+      content: scene.scene_heading,
+      number: scene.order + 1,
+      sceneNumber: scene.scene_number,
+      omitted: scene.omitted
+    },
+    ...scene.blocks
+  ];
+};
+
+/**
+ * Segments blocks into scene documents. Blocks before the first scene heading,
+ * such as FADE IN:, go into an implicit scene without a heading.
  * @param blocks Array of blocks to segment
  * @returns Array of scene documents
  */
@@ -227,55 +289,55 @@ export const segmentBlocksIntoScenes = (blocks: Block[]): SceneDocument[] => {
   const scenes: SceneDocument[] = [];
   let currentSceneBlocks: Block[] = [];
   let currentSceneHeading: Block | null = null;
+  let isImplicitScene = false;
   let sceneOrder = 0;
 
+  const pushScene = (heading: Block) => {
+    scenes.push({
+      id: heading.id,
+      scene_heading: heading.content,
+      blocks: currentSceneBlocks,
+      order: sceneOrder++,
+      scene_number: heading.sceneNumber,
+      omitted: heading.omitted,
+      implicit: isImplicitScene || undefined,
+      screenplayId: '', // Will be populated by caller
+      projectId: '',    // Will be populated by caller
+      characters_in_this_scene: [], // Will be populated during save
+      elements_in_this_scene: [],   // Will be populated during save
+      lastModified: new Date()
+    });
+  };
+
   blocks.forEach((block) => {
     if (block.type === 'scene-heading') {
       // If we have a previous scene, add it to the scenes array
       if (currentSceneHeading) {
-        scenes.push({
-          id: currentSceneHeading.id,
-          scene_heading: currentSceneHeading.content,
-          blocks: currentSceneBlocks,
-          order: sceneOrder++,
-          screenplayId: '', // Will be populated by caller
-          projectId: '',    // Will be populated by caller
-          characters_in_this_scene: [], // Will be populated during save
-          elements_in_this_scene: [],   // Will be populated during save
-          lastModified: new Date()
-        });
+        pushScene(currentSceneHeading);
         currentSceneBlocks = [];
       }
       
       // Start a new scene
       currentSceneHeading = block;
+      isImplicitScene = false;
     } else if (currentSceneHeading) {
       // Add block to current scene
       currentSceneBlocks.push(block);
     } else {
-      // If we have blocks before any scene heading, create an implicit scene
+      // Blocks before any scene heading belong to an implicit scene
       currentSceneHeading = {
         id: `scene-${block.id}`,
         type: 'scene-heading',
-        content: 'INT. LOCATION - DAY'
+        content: ''
       };
+      isImplicitScene = true;
       currentSceneBlocks.push(block);
     }
   });
 
   // Add the last scene if it exists
   if (currentSceneHeading) {
-    scenes.push({
-      id: currentSceneHeading.id,
-      scene_heading: currentSceneHeading.content,
-      blocks: currentSceneBlocks,
-      order: sceneOrder,
-      screenplayId: '',
-      projectId: '',
-      characters_in_this_scene: [],
-      elements_in_this_scene: [],
-      lastModified: new Date()
-    });
+    pushScene(currentSceneHeading);
   }
 
   return scenes;
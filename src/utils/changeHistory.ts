@@ -0,0 +1,80 @@
+import type { Block, SceneDocument } from '../types';
+import type { ChangeHistory, ChangeType } from '../types/screenplay';
+
+// The part of a scene recorded as the before/after state of a change
+export interface SceneSnapshot {
+  scene_heading: string;
+  order: number;
+  blocks: Block[];
+  scene_number?: string;
+  omitted?: boolean;
+}
+
+export interface ChangeHistoryFilter {
+  userId?: string | null;
+  sceneId?: string | null;
+}
+
+/**
+ * Extracts the recorded state of a scene document
+ */
+export const toSceneSnapshot = (scene: SceneDocument): SceneSnapshot => ({
+  scene_heading: scene.scene_heading,
+  order: scene.order,
+  blocks: scene.blocks.map(block => ({ ...block })),
+  scene_number: scene.scene_number,
+  omitted: scene.omitted
+});
+
+/**
+ * Checks whether the text of a scene changed between two saves. The order is
+ * left out, since inserting one scene shifts the order of every later scene.
+ * @param before The scene as stored
+ * @param after The scene about to be saved
+ * @returns true if the heading, numbering or any block differs
+ */
+export const hasSceneChanged = (before: SceneSnapshot, after: SceneSnapshot): boolean => {
+  if (
+    before.scene_heading !== after.scene_heading ||
+    (before.scene_number || null) !== (after.scene_number || null) ||
+    !!before.omitted !== !!after.omitted ||
+    before.blocks.length !== after.blocks.length
+  ) {
+    return true;
+  }
+
+  return before.blocks.some((block, index) => {
+    const other = after.blocks[index];
+    return block.id !== other.id || block.type !== other.type || block.content !== other.content;
+  });
+};
+
+/**
+ * Builds the feed description of a scene change
+ */
+export const describeSceneChange = (type: ChangeType, sceneHeading: string): string => {
+  const heading = sceneHeading.trim() || 'Untitled Scene';
+  switch (type) {
+    case 'ADD_SCENE':
+      return `Added scene ${heading}`;
+    case 'DELETE_SCENE':
+      return `Deleted scene ${heading}`;
+    case 'UPDATE_SCENE':
+      return `Edited scene ${heading}`;
+    default:
+      return 'Updated screenplay details';
+  }
+};
+
+/**
+ * Filters change history entries by author and scene
+ * @param changes The entries to filter
+ * @param filter Empty fields match every entry
+ * @returns The matching entries, in their original order
+ */
+export const filterChangeHistory = (changes: ChangeHistory[], filter: ChangeHistoryFilter): ChangeHistory[] => {
+  return changes.filter(change =>
+    (!filter.userId || change.userId === filter.userId) &&
+    (!filter.sceneId || change.sceneId === filter.sceneId)
+  );
+};
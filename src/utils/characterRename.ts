@@ -0,0 +1,66 @@
+/**
+ * Character Rename
+ *
+ * Renaming a character rewrites every cue that names them. Extensions after
+ * the name, such as (V.O.) or (CONT'D), and a dual dialogue caret are kept.
+ */
+
+import type { Block } from '../types';
+
+const CUE_PATTERN = /^(\s*)(.*?)(\s*(?:\([^)]*\)\s*)*\^?\s*)$/;
+
+/**
+ * Splits a character cue into the name and what follows it
+ * @param content The cue, e.g. "SARAH (V.O.)"
+ * @returns The name and the trailing extensions
+ */
+export const parseCharacterCue = (content: string): { name: string; extensions: string } => {
+  const match = content.match(CUE_PATTERN);
+  return match
+    ? { name: match[2], extensions: match[3] }
+    : { name: content.trim(), extensions: '' };
+};
+
+/**
+ * Renames a cue if it names the character
+ * @param content The cue
+ * @param oldName The current name, matched without regard to case
+ * @param newName The new name; written in capitals when the cue is in capitals
+ * @returns The renamed cue, or null if the cue names someone else
+ */
+export const renameCharacterCue = (content: string, oldName: string, newName: string): string | null => {
+  const { name, extensions } = parseCharacterCue(content);
+  if (!name || name.toUpperCase() !== oldName.trim().toUpperCase()) return null;
+
+  const renamed = name === name.toUpperCase() ? newName.trim().toUpperCase() : newName.trim();
+  const leading = content.match(/^\s*/)?.[0] || '';
+  return `${leading}${renamed}${extensions}`;
+};
+
+/**
+ * Renames a character in every cue of a block list
+ * @param blocks The blocks
+ * @param oldName The current name
+ * @param newName The new name
+ * @param onlyBlockIds Limit the rename to these blocks, e.g. to undo an earlier rename
+ * @returns The blocks with renamed cues and the IDs of the blocks that changed
+ */
+export const renameCharacterInBlocks = (
+  blocks: Block[],
+  oldName: string,
+  newName: string,
+  onlyBlockIds?: Set<string>
+): { blocks: Block[]; changedBlockIds: string[] } => {
+  const changedBlockIds: string[] = [];
+  const renamedBlocks = blocks.map(block => {
+    if (block.type !== 'character' || (onlyBlockIds && !onlyBlockIds.has(block.id))) return block;
+
+    const content = renameCharacterCue(block.content, oldName, newName);
+    if (content === null || content === block.content) return block;
+
+    changedBlockIds.push(block.id);
+    return { ...block, content };
+  });
+
+  return { blocks: changedBlockIds.length > 0 ? renamedBlocks : blocks, changedBlockIds };
+};
@@ -0,0 +1,108 @@
+/**
+ * Co-editing Session
+ *
+ * Connects a block list replica to a transport that carries operations
+ * between writers. Firestore is the production transport; the in-memory hub
+ * connects replicas in the same process, for tests and local experiments.
+ */
+
+import type { Block } from '../types';
+import {
+  blockCrdtToBlocks,
+  generateOperations,
+  receiveOperations,
+  type BlockCrdt,
+  type BlockOperation
+} from './blockCrdt';
+
+export interface CollaborationTransport {
+  send: (operations: BlockOperation[]) => Promise<void>;
+  subscribe: (onOperations: (operations: BlockOperation[]) => void) => () => void;
+}
+
+export interface CoEditingSession {
+  syncLocalBlocks: (blocks: Block[]) => void;
+  getBlocks: () => Block[];
+  close: () => void;
+}
+
+interface CoEditingCallbacks {
+  getLocalBlocks: () => Block[] | null; // Latest local blocks, or null while they are not in sync yet
+  onRemoteBlocks: (blocks: Block[]) => void;
+}
+
+/**
+ * Starts sending local edits and applying remote ones
+ * @param crdt The local replica
+ * @param transport The channel to the other replicas
+ * @param callbacks Access to the local blocks and a listener for merged remote edits
+ * @returns The session
+ */
+export const createCoEditingSession = (
+  crdt: BlockCrdt,
+  transport: CollaborationTransport,
+  { getLocalBlocks, onRemoteBlocks }: CoEditingCallbacks
+): CoEditingSession => {
+  const syncLocalBlocks = (blocks: Block[]) => {
+    const operations = generateOperations(crdt, blocks);
+    if (operations.length > 0) {
+      transport.send(operations).catch(err => console.error('Error sending operations:', err));
+    }
+  };
+
+  const unsubscribe = transport.subscribe(operations => {
+    // Local edits not synced yet go first, so merging cannot drop them
+    const localBlocks = getLocalBlocks();
+    if (localBlocks) syncLocalBlocks(localBlocks);
+
+    if (receiveOperations(crdt, operations)) {
+      onRemoteBlocks(blockCrdtToBlocks(crdt));
+    }
+  });
+
+  return {
+    syncLocalBlocks,
+    getBlocks: () => blockCrdtToBlocks(crdt),
+    close: unsubscribe
+  };
+};
+
+/**
+ * Creates an in-memory channel between replicas. Sent operations are held
+ * until flush, so tests control which edits are concurrent.
+ * @returns A connect function per replica and a flush function
+ */
+export const createInMemoryTransportHub = () => {
+  const listeners = new Map<string, (operations: BlockOperation[]) => void>();
+  let queue: { from: string; operations: BlockOperation[] }[] = [];
+
+  const connect = (replica: string): CollaborationTransport => ({
+    send: async (operations) => {
+      queue.push({ from: replica, operations });
+    },
+    subscribe: (onOperations) => {
+      listeners.set(replica, onOperations);
+      return () => {
+        listeners.delete(replica);
+      };
+    }
+  });
+
+  /**
+   * Delivers every queued message to every other replica
+   * @param options.reverse Deliver the newest messages first
+   */
+  const flush = (options: { reverse?: boolean } = {}) => {
+    while (queue.length > 0) {
+      const messages = options.reverse ? [...queue].reverse() : queue;
+      queue = [];
+      messages.forEach(({ from, operations }) => {
+        listeners.forEach((onOperations, replica) => {
+          if (replica !== from) onOperations(operations);
+        });
+      });
+    }
+  };
+
+  return { connect, flush };
+};
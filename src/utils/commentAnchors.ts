@@ -0,0 +1,149 @@
+/**
+ * Comment Anchors
+ *
+ * A comment points at a character range of a block. When the block's text is
+ * edited the range is moved to follow the commented words: edits before it
+ * shift it, edits inside it grow or shrink it. A comment whose words were all
+ * deleted is orphaned; it keeps its quote but no longer highlights anything.
+ */
+
+import { diffWords, type WordDiffPart } from './screenplayDiff';
+import type { Comment } from '../types';
+
+export interface CommentAnchor {
+  startOffset: number;
+  endOffset: number;
+  orphaned: boolean;
+}
+
+// Trims the common start and end so a typed word is diffed character by character,
+// then diffs what is left by word so replaced words count as deleted
+const diffTexts = (oldText: string, newText: string): WordDiffPart[] => {
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    { type: 'equal' as const, text: oldText.slice(0, prefix) },
+    ...diffWords(oldText.slice(prefix, oldText.length - suffix), newText.slice(prefix, newText.length - suffix)),
+    { type: 'equal' as const, text: oldText.slice(oldText.length - suffix) }
+  ].filter(part => part.text.length > 0);
+};
+
+/**
+ * Maps an offset in the old text to the new text. A range start moves past
+ * text inserted or deleted at its position; a range end stays before it.
+ * @param parts Diff of the old and new text
+ * @param offset Offset in the old text
+ * @param edge Whether the offset starts or ends a range
+ * @returns Offset in the new text
+ */
+const mapOffset = (parts: WordDiffPart[], offset: number, edge: 'start' | 'end'): number => {
+  let oldPos = 0;
+  let newPos = 0;
+  let target = offset;
+
+  for (const part of parts) {
+    const length = part.text.length;
+    if (part.type === 'added') {
+      newPos += length;
+      continue;
+    }
+
+    const inside = edge === 'start'
+      ? target >= oldPos && target < oldPos + length
+      : target >= oldPos && target <= oldPos + length;
+    if (inside) {
+      if (part.type === 'equal') return newPos + target - oldPos;
+      if (edge === 'end') return newPos;
+      target = oldPos + length; // A start inside deleted text moves to after it
+    }
+
+    oldPos += length;
+    if (part.type === 'equal') newPos += length;
+  }
+
+  return newPos;
+};
+
+/**
+ * Moves a comment range to follow an edit of its block
+ * @param anchor The range in the old text
+ * @param oldText The block text before the edit
+ * @param newText The block text after the edit
+ * @returns The range in the new text, orphaned if its text was deleted
+ */
+export const remapCommentAnchor = (
+  anchor: Pick<Comment, 'startOffset' | 'endOffset' | 'orphaned'>,
+  oldText: string,
+  newText: string
+): CommentAnchor => {
+  const current = { startOffset: anchor.startOffset, endOffset: anchor.endOffset, orphaned: !!anchor.orphaned };
+  if (current.orphaned || oldText === newText) return current;
+
+  const start = Math.max(0, Math.min(anchor.startOffset, anchor.endOffset, oldText.length));
+  const end = Math.min(Math.max(anchor.startOffset, anchor.endOffset), oldText.length);
+  const parts = diffTexts(oldText, newText);
+  const startOffset = mapOffset(parts, start, 'start');
+  const endOffset = mapOffset(parts, end, 'end');
+
+  return endOffset > startOffset || start === end
+    ? { startOffset, endOffset: Math.max(startOffset, endOffset), orphaned: false }
+    : { startOffset: endOffset, endOffset, orphaned: true };
+};
+
+/**
+ * Moves the ranges of every comment on a block, replies included, to follow
+ * an edit of the block's text
+ * @param comments The comment tree
+ * @param blockId The edited block
+ * @param oldText The block text before the edit
+ * @param newText The block text after the edit; empty when the block was deleted
+ * @returns The updated tree and the comments whose range changed
+ */
+export const remapBlockComments = (
+  comments: Comment[],
+  blockId: string,
+  oldText: string,
+  newText: string
+): { comments: Comment[]; changed: Comment[] } => {
+  const changed: Comment[] = [];
+
+  const remap = (list: Comment[]): Comment[] => {
+    let listChanged = false;
+    const result = list.map(comment => {
+      let updated = comment;
+      if (comment.blockId === blockId) {
+        const anchor = remapCommentAnchor(comment, oldText, newText);
+        if (
+          anchor.startOffset !== comment.startOffset ||
+          anchor.endOffset !== comment.endOffset ||
+          anchor.orphaned !== !!comment.orphaned
+        ) {
+          updated = { ...comment, ...anchor };
+          changed.push(updated);
+        }
+      }
+
+      if (comment.replies && comment.replies.length > 0) {
+        const replies = remap(comment.replies);
+        if (replies !== comment.replies) updated = { ...updated, replies };
+      }
+
+      if (updated !== comment) listChanged = true;
+      return updated;
+    });
+    return listChanged ? result : list;
+  };
+
+  return { comments: remap(comments), changed };
+};
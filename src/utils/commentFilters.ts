@@ -0,0 +1,66 @@
+/**
+ * Comment Filters
+ *
+ * Filters comment threads for the comments panel and the review report.
+ * Threads are matched by their top-level comment; replies belong to the same
+ * block and thread, so they are only filtered by resolved state.
+ */
+
+import type { Comment } from '../types';
+
+export type CommentStatusFilter = 'all' | 'open' | 'resolved';
+
+export interface CommentFilters {
+  status?: CommentStatusFilter;
+  blockId?: string; // Only threads on this block
+  authorId?: string; // Only threads started by this user
+  from?: Date | null; // Only threads created at or after this time
+  to?: Date | null; // Only threads created at or before this time
+}
+
+// Creation time of a comment in milliseconds, or null if it has none yet
+export const getCommentTime = (comment: Comment): number | null => {
+  const createdAt = comment.createdAt as { toMillis?: () => number } | null | undefined;
+  return createdAt?.toMillis ? createdAt.toMillis() : null;
+};
+
+const matchesStatus = (comment: Comment, status: CommentStatusFilter): boolean =>
+  status === 'all' || (status === 'open' ? !comment.isResolved : comment.isResolved);
+
+const filterReplies = (replies: Comment[] | undefined, status: CommentStatusFilter): Comment[] | undefined =>
+  replies
+    ?.filter(reply => status !== 'open' || !reply.isResolved)
+    .map(reply => ({ ...reply, replies: filterReplies(reply.replies, status) }));
+
+/**
+ * Filters comment threads
+ * @param comments The top-level comments with their replies
+ * @param filters Status, block, author and date range; omitted filters match everything
+ * @returns Matching threads, with resolved replies removed when only open comments are shown
+ */
+export const filterComments = (comments: Comment[], filters: CommentFilters = {}): Comment[] => {
+  const { status = 'all', blockId, authorId, from, to } = filters;
+
+  return comments
+    .filter(comment => {
+      if (!matchesStatus(comment, status)) return false;
+      if (blockId !== undefined && comment.blockId !== blockId) return false;
+      if (authorId && comment.authorId !== authorId) return false;
+      if (from || to) {
+        const time = getCommentTime(comment);
+        if (time === null) return false;
+        if (from && time < from.getTime()) return false;
+        if (to && time > to.getTime()) return false;
+      }
+      return true;
+    })
+    .map(comment => ({ ...comment, replies: filterReplies(comment.replies, status) }));
+};
+
+/**
+ * Flattens comment threads into a list
+ * @param comments The top-level comments with their replies
+ * @returns Every comment, each followed by its replies
+ */
+export const flattenComments = (comments: Comment[]): Comment[] =>
+  comments.flatMap(comment => [comment, ...flattenComments(comment.replies || [])]);
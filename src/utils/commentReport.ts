@@ -0,0 +1,315 @@
+/**
+ * Comment Review Report
+ *
+ * Turns comment threads into a document that can be read without the
+ * editor: notes grouped by scene in script order, each with the commented
+ * text, author, time, reactions, replies and whether it was resolved.
+ */
+
+import type { Block, Comment } from '../types';
+import { downloadFile, sanitizeFileName } from './exportUtils';
+import { createTextPdf, TEXT_PDF_LINE_WIDTH } from './pdfExport';
+import { wrapText } from './screenplayLayout';
+import { filterComments, getCommentTime, type CommentFilters } from './commentFilters';
+
+export type ReviewReportFormat = 'markdown' | 'html' | 'pdf';
+
+export const REVIEW_REPORT_FORMATS: Record<ReviewReportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: {
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown;charset=utf-8'
+  },
+  html: {
+    label: 'HTML',
+    extension: 'html',
+    mimeType: 'text/html;charset=utf-8'
+  },
+  pdf: {
+    label: 'PDF Document',
+    extension: 'pdf',
+    mimeType: 'application/pdf'
+  }
+};
+
+export interface ReviewReportScene {
+  heading: string;
+  comments: Comment[]; // Threads in script order
+}
+
+// Heading of the group for notes on blocks that no longer exist
+export const DETACHED_NOTES_HEADING = 'Notes on deleted text';
+
+const BEFORE_FIRST_SCENE_HEADING = 'Before the first scene';
+
+/**
+ * Groups comment threads by scene in script order
+ * @param comments The top-level comments with their replies
+ * @param blocks The screenplay's blocks
+ * @param filters Which threads to include, as in the comments panel
+ * @returns The scenes that have matching threads; notes on deleted blocks come last
+ */
+export const buildReviewReport = (
+  comments: Comment[],
+  blocks: Block[],
+  filters: CommentFilters = {}
+): ReviewReportScene[] => {
+  const places = new Map<string, { sceneKey: string; heading: string; position: number }>();
+  let sceneKey = '';
+  let heading = BEFORE_FIRST_SCENE_HEADING;
+  let sceneCount = 0;
+
+  blocks.forEach((block, position) => {
+    if (block.type === 'scene-heading') {
+      sceneCount++;
+      sceneKey = block.id;
+      heading = `${block.sceneNumber || sceneCount}. ${block.content.trim().toUpperCase()}`;
+    }
+    places.set(block.id, { sceneKey, heading, position });
+  });
+
+  const detached = { sceneKey: 'detached', heading: DETACHED_NOTES_HEADING, position: blocks.length };
+  const threads = filterComments(comments, filters)
+    .map(comment => ({ comment, place: places.get(comment.blockId) || detached }))
+    .sort((a, b) => a.place.position - b.place.position || a.comment.startOffset - b.comment.startOffset);
+
+  const scenes = new Map<string, ReviewReportScene>();
+  threads.forEach(({ comment, place }) => {
+    const scene = scenes.get(place.sceneKey) || { heading: place.heading, comments: [] };
+    scene.comments.push(comment);
+    scenes.set(place.sceneKey, scene);
+  });
+
+  return Array.from(scenes.values());
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local date and time, e.g. "2026-10-19 14:05"
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const formatCommentDate = (comment: Comment): string => {
+  const time = getCommentTime(comment);
+  return time === null ? 'Unknown date' : formatDate(new Date(time));
+};
+
+const formatStatus = (comment: Comment): string =>
+  `${comment.isResolved ? 'Resolved' : 'Open'}${comment.orphaned ? ', text deleted' : ''}`;
+
+// Reactions as "👍 2 (Sarah, Mike), ❤️ 1 (Ana)"
+const formatReactions = (comment: Comment): string =>
+  (comment.emoji || [])
+    .filter(reaction => reaction.users.length > 0)
+    .map(reaction => {
+      const names = reaction.displayNames?.length ? ` (${reaction.displayNames.join(', ')})` : '';
+      return `${reaction.type} ${reaction.users.length}${names}`;
+    })
+    .join(', ');
+
+const countNotes = (scenes: ReviewReportScene[]): string => {
+  const count = scenes.reduce((total, scene) => total + scene.comments.length, 0);
+  return `${count} ${count === 1 ? 'note' : 'notes'}`;
+};
+
+/**
+ * Writes the report as Markdown
+ * @param scenes The grouped threads
+ * @param documentTitle The screenplay title
+ * @param generatedAt When the report was made
+ * @returns The Markdown document
+ */
+export const createReviewReportMarkdown = (
+  scenes: ReviewReportScene[],
+  documentTitle: string,
+  generatedAt: Date = new Date()
+): string => {
+  const lines: string[] = [
+    `# Review Notes: ${documentTitle}`,
+    '',
+    `Generated ${formatDate(generatedAt)} · ${countNotes(scenes)}`
+  ];
+
+  const writeReplies = (replies: Comment[] | undefined, depth: number) => {
+    (replies || []).forEach(reply => {
+      const indent = '  '.repeat(depth);
+      const resolved = reply.isResolved ? ' (resolved)' : '';
+      lines.push(`${indent}- **${reply.authorName}** · ${formatCommentDate(reply)}${resolved}: ${reply.text.replace(/\s*\n\s*/g, ' ')}`);
+      const reactions = formatReactions(reply);
+      if (reactions) lines.push(`${indent}  Reactions: ${reactions}`);
+      writeReplies(reply.replies, depth + 1);
+    });
+  };
+
+  scenes.forEach(scene => {
+    lines.push('', `## ${scene.heading}`);
+    scene.comments.forEach(comment => {
+      lines.push('', `### ${comment.authorName} · ${formatCommentDate(comment)} · ${formatStatus(comment)}`, '');
+      if (comment.highlightedText) {
+        comment.highlightedText.split('\n').forEach(line => lines.push(`> ${line}`));
+        lines.push('');
+      }
+      lines.push(comment.text);
+
+      const reactions = formatReactions(comment);
+      if (reactions) lines.push('', `Reactions: ${reactions}`);
+      if (comment.replies && comment.replies.length > 0) {
+        lines.push('', 'Replies:', '');
+        writeReplies(comment.replies, 0);
+      }
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1E4D3A; max-width: 760px; margin: 40px auto; padding: 0 20px; }
+  h2 { font-family: 'Courier New', monospace; border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 32px; }
+  .note { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin: 12px 0; }
+  .note.resolved { opacity: 0.7; }
+  .meta { color: #577B92; font-size: 13px; }
+  .status { color: #E86F2C; font-weight: 600; }
+  .resolved .status { color: #577B92; }
+  blockquote { margin: 8px 0; padding-left: 10px; border-left: 3px solid #E86F2C; font-style: italic; color: #555; }
+  .orphaned blockquote { text-decoration: line-through; border-left-color: #9ca3af; }
+  .replies { margin: 8px 0 0; padding-left: 16px; border-left: 2px solid #f3f4f6; }
+  .reactions { color: #577B92; font-size: 13px; }
+`;
+
+/**
+ * Writes the report as a standalone HTML page
+ * @param scenes The grouped threads
+ * @param documentTitle The screenplay title
+ * @param generatedAt When the report was made
+ * @returns The HTML document
+ */
+export const createReviewReportHtml = (
+  scenes: ReviewReportScene[],
+  documentTitle: string,
+  generatedAt: Date = new Date()
+): string => {
+  const renderText = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+  const renderReactions = (comment: Comment) => {
+    const reactions = formatReactions(comment);
+    return reactions ? `<div class="reactions">${escapeHtml(reactions)}</div>` : '';
+  };
+
+  const renderReplies = (replies: Comment[] | undefined): string =>
+    replies && replies.length > 0
+      ? `<ul class="replies">${replies.map(reply => `
+        <li>
+          <div class="meta"><strong>${escapeHtml(reply.authorName)}</strong> · ${formatCommentDate(reply)}${reply.isResolved ? ' · resolved' : ''}</div>
+          <div>${renderText(reply.text)}</div>
+          ${renderReactions(reply)}
+          ${renderReplies(reply.replies)}
+        </li>`).join('')}
+      </ul>`
+      : '';
+
+  const renderNote = (comment: Comment) => `
+    <div class="note${comment.isResolved ? ' resolved' : ''}${comment.orphaned ? ' orphaned' : ''}">
+      <div class="meta"><strong>${escapeHtml(comment.authorName)}</strong> · ${formatCommentDate(comment)} · <span class="status">${formatStatus(comment)}</span></div>
+      ${comment.highlightedText ? `<blockquote>${renderText(comment.highlightedText)}</blockquote>` : ''}
+      <div>${renderText(comment.text)}</div>
+      ${renderReactions(comment)}
+      ${renderReplies(comment.replies)}
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Review Notes: ${escapeHtml(documentTitle)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>Review Notes: ${escapeHtml(documentTitle)}</h1>
+<p class="meta">Generated ${formatDate(generatedAt)} · ${countNotes(scenes)}</p>
+${scenes.map(scene => `<h2>${escapeHtml(scene.heading)}</h2>${scene.comments.map(renderNote).join('')}`).join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Writes the report as plain text lines for the PDF export
+ * @param scenes The grouped threads
+ * @param documentTitle The screenplay title
+ * @param generatedAt When the report was made
+ * @returns Lines of at most TEXT_PDF_LINE_WIDTH characters
+ */
+export const createReviewReportLines = (
+  scenes: ReviewReportScene[],
+  documentTitle: string,
+  generatedAt: Date = new Date()
+): string[] => {
+  const lines: string[] = [];
+  const write = (text: string, indent = 0) => {
+    wrapText(text, TEXT_PDF_LINE_WIDTH - indent).forEach(line => lines.push(`${' '.repeat(indent)}${line}`));
+  };
+
+  const writeReplies = (replies: Comment[] | undefined, indent: number) => {
+    (replies || []).forEach(reply => {
+      write(`${reply.authorName}, ${formatCommentDate(reply)}${reply.isResolved ? ' (resolved)' : ''}:`, indent);
+      write(reply.text, indent + 2);
+      const reactions = formatReactions(reply);
+      if (reactions) write(`Reactions: ${reactions}`, indent + 2);
+      writeReplies(reply.replies, indent + 2);
+    });
+  };
+
+  write(`REVIEW NOTES: ${documentTitle.toUpperCase()}`);
+  write(`Generated ${formatDate(generatedAt)}, ${countNotes(scenes)}`);
+
+  scenes.forEach(scene => {
+    lines.push('');
+    write(scene.heading);
+    lines.push('-'.repeat(Math.min(scene.heading.length, TEXT_PDF_LINE_WIDTH)));
+    scene.comments.forEach(comment => {
+      lines.push('');
+      write(`${comment.authorName}, ${formatCommentDate(comment)} [${formatStatus(comment).toUpperCase()}]`);
+      if (comment.highlightedText) write(`"${comment.highlightedText}"`, 2);
+      write(comment.text, 2);
+      const reactions = formatReactions(comment);
+      if (reactions) write(`Reactions: ${reactions}`, 2);
+      if (comment.replies && comment.replies.length > 0) {
+        write('Replies:', 2);
+        writeReplies(comment.replies, 4);
+      }
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Writes the report and downloads it as a file
+ * @param format Markdown, HTML or PDF
+ * @param scenes The grouped threads
+ * @param documentTitle The screenplay title, also used for the file name
+ */
+export const exportReviewReport = (
+  format: ReviewReportFormat,
+  scenes: ReviewReportScene[],
+  documentTitle: string
+): void => {
+  const { extension, mimeType } = REVIEW_REPORT_FORMATS[format];
+  const generatedAt = new Date();
+  const content = format === 'pdf'
+    ? createTextPdf(createReviewReportLines(scenes, documentTitle, generatedAt), `Review Notes: ${documentTitle}`)
+    : format === 'html'
+      ? createReviewReportHtml(scenes, documentTitle, generatedAt)
+      : createReviewReportMarkdown(scenes, documentTitle, generatedAt);
+
+  downloadFile(content, `${sanitizeFileName(documentTitle)}_Review_Notes.${extension}`, mimeType);
+};
@@ -0,0 +1,219 @@
+/**
+ * Edit Suggestions
+ *
+ * In suggestion mode an edit of a block is stored as a proposal instead of
+ * changing the script: the replaced range, the text that replaces it and a
+ * little text around it. A writer accepts or rejects each proposal later, by
+ * which time the block may have changed, so the range is found again by its
+ * text rather than trusted by offset.
+ */
+
+import type { Block } from '../types';
+import type { EditSuggestion } from '../types/screenplay';
+
+export const SUGGESTION_CONTEXT_LENGTH = 24; // Characters kept on each side of the range
+
+const BEFORE_FIRST_SCENE_HEADING = 'Before the first scene';
+const DELETED_BLOCKS_HEADING = 'Deleted text';
+
+const WORD_CHARACTER = /[\p{L}\p{N}'’]/u;
+
+export type SuggestionRange = Pick<
+  EditSuggestion,
+  'startOffset' | 'endOffset' | 'deletedText' | 'insertedText' | 'contextBefore' | 'contextAfter'
+>;
+
+export interface AppliedSuggestions {
+  blocks: Block[];
+  appliedIds: string[];
+  conflictedIds: string[]; // Text no longer found, or overlapping another accepted suggestion
+}
+
+export interface SuggestionSceneGroup {
+  sceneId: string | null; // Null for suggestions on blocks that were deleted
+  heading: string;
+  suggestions: EditSuggestion[];
+}
+
+const isWordCharacter = (text: string, index: number): boolean =>
+  index >= 0 && index < text.length && WORD_CHARACTER.test(text[index]);
+
+/**
+ * Describes an edit of a block as a single replaced range
+ * @param oldText The block text before the edit
+ * @param newText The proposed block text
+ * @returns The range, widened to whole words when the edit starts or ends inside one, or null if nothing changed
+ */
+export const createSuggestionRange = (oldText: string, newText: string): SuggestionRange | null => {
+  if (oldText === newText) return null;
+
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix &&
+    suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  // A fixed typo reads better as a replaced word than as a few replaced letters
+  const oldEnd = oldText.length - suffix;
+  const newEnd = newText.length - suffix;
+  const startsInWord = (prefix < oldEnd && isWordCharacter(oldText, prefix)) || (prefix < newEnd && isWordCharacter(newText, prefix));
+  const endsInWord = (oldEnd > prefix && isWordCharacter(oldText, oldEnd - 1)) || (newEnd > prefix && isWordCharacter(newText, newEnd - 1));
+  if (startsInWord) {
+    while (prefix > 0 && isWordCharacter(oldText, prefix - 1)) prefix--;
+  }
+  if (endsInWord) {
+    while (suffix > 0 && isWordCharacter(oldText, oldText.length - suffix)) suffix--;
+  }
+
+  const startOffset = prefix;
+  const endOffset = oldText.length - suffix;
+  return {
+    startOffset,
+    endOffset,
+    deletedText: oldText.slice(startOffset, endOffset),
+    insertedText: newText.slice(startOffset, newText.length - suffix),
+    contextBefore: oldText.slice(Math.max(0, startOffset - SUGGESTION_CONTEXT_LENGTH), startOffset),
+    contextAfter: oldText.slice(endOffset, endOffset + SUGGESTION_CONTEXT_LENGTH)
+  };
+};
+
+const matchesAt = (content: string, range: SuggestionRange, start: number): boolean =>
+  content.startsWith(range.deletedText, start) &&
+  content.slice(0, start).endsWith(range.contextBefore) &&
+  content.startsWith(range.contextAfter, start + range.deletedText.length);
+
+/**
+ * Finds the range of a suggestion in the current block text
+ * @param content The current block text
+ * @param range The suggested range with its surrounding text
+ * @returns Start of the range, the match nearest the original offset if the text moved, or -1 if it was changed
+ */
+export const locateSuggestion = (content: string, range: SuggestionRange): number => {
+  if (range.startOffset <= content.length && matchesAt(content, range, range.startOffset)) {
+    return range.startOffset;
+  }
+
+  const needle = range.contextBefore + range.deletedText + range.contextAfter;
+  if (!needle) return -1;
+
+  let best = -1;
+  for (let index = content.indexOf(needle); index !== -1; index = content.indexOf(needle, index + 1)) {
+    const start = index + range.contextBefore.length;
+    if (best === -1 || Math.abs(start - range.startOffset) < Math.abs(best - range.startOffset)) {
+      best = start;
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds the suggestions that can no longer be applied on their own
+ * @param blocks The current blocks
+ * @param suggestions The suggestions to check
+ * @returns IDs of suggestions whose text was changed or whose block was deleted
+ */
+export const findStaleSuggestionIds = (blocks: Block[], suggestions: EditSuggestion[]): Set<string> => {
+  const contents = new Map(blocks.map(block => [block.id, block.content]));
+  return new Set(suggestions
+    .filter(suggestion => {
+      const content = contents.get(suggestion.blockId);
+      return content === undefined || locateSuggestion(content, suggestion) === -1;
+    })
+    .map(suggestion => suggestion.id));
+};
+
+/**
+ * Applies suggestions to the blocks they were made on
+ * @param blocks The current blocks
+ * @param suggestions The suggestions to accept
+ * @returns The updated blocks and which suggestions were applied or could not be
+ */
+export const applySuggestions = (blocks: Block[], suggestions: EditSuggestion[]): AppliedSuggestions => {
+  const byBlock = new Map<string, EditSuggestion[]>();
+  suggestions.forEach(suggestion => {
+    byBlock.set(suggestion.blockId, [...(byBlock.get(suggestion.blockId) || []), suggestion]);
+  });
+
+  const appliedIds: string[] = [];
+  const conflictedIds: string[] = [];
+
+  const updatedBlocks = blocks.map(block => {
+    const blockSuggestions = byBlock.get(block.id);
+    if (!blockSuggestions) return block;
+    byBlock.delete(block.id);
+
+    // Apply from the end of the block so earlier offsets stay valid
+    const located = blockSuggestions
+      .map(suggestion => ({ suggestion, start: locateSuggestion(block.content, suggestion) }))
+      .sort((a, b) => b.start - a.start || b.suggestion.deletedText.length - a.suggestion.deletedText.length);
+
+    let content = block.content;
+    let limit = content.length;
+    located.forEach(({ suggestion, start }) => {
+      const end = start + suggestion.deletedText.length;
+      if (start === -1 || end > limit) {
+        conflictedIds.push(suggestion.id);
+        return;
+      }
+      content = content.slice(0, start) + suggestion.insertedText + content.slice(end);
+      limit = start;
+      appliedIds.push(suggestion.id);
+    });
+
+    return content === block.content ? block : { ...block, content };
+  });
+
+  byBlock.forEach(remaining => remaining.forEach(suggestion => conflictedIds.push(suggestion.id)));
+
+  return {
+    blocks: appliedIds.length > 0 ? updatedBlocks : blocks,
+    appliedIds,
+    conflictedIds
+  };
+};
+
+/**
+ * Groups suggestions by scene in script order
+ * @param blocks The current blocks
+ * @param suggestions The suggestions to group
+ * @returns The scenes that have suggestions; suggestions on deleted blocks come last
+ */
+export const groupSuggestionsByScene = (blocks: Block[], suggestions: EditSuggestion[]): SuggestionSceneGroup[] => {
+  const places = new Map<string, { sceneId: string; heading: string; position: number }>();
+  let sceneId = blocks.length > 0 ? `scene-${blocks[0].id}` : '';
+  let heading = BEFORE_FIRST_SCENE_HEADING;
+  let sceneCount = 0;
+
+  blocks.forEach((block, position) => {
+    if (block.type === 'scene-heading') {
+      sceneCount++;
+      sceneId = block.id;
+      heading = `${block.sceneNumber || sceneCount}. ${block.content.trim().toUpperCase()}`;
+    }
+    places.set(block.id, { sceneId, heading, position });
+  });
+
+  const sorted = suggestions
+    .map(suggestion => ({ suggestion, place: places.get(suggestion.blockId) }))
+    .sort((a, b) =>
+      (a.place?.position ?? blocks.length) - (b.place?.position ?? blocks.length) ||
+      a.suggestion.startOffset - b.suggestion.startOffset
+    );
+
+  const groups = new Map<string | null, SuggestionSceneGroup>();
+  sorted.forEach(({ suggestion, place }) => {
+    const key = place ? place.sceneId : null;
+    const group = groups.get(key) || { sceneId: key, heading: place ? place.heading : DELETED_BLOCKS_HEADING, suggestions: [] };
+    group.suggestions.push(suggestion);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+};
@@ -0,0 +1,114 @@
+/**
+ * Screenplay Export Utilities
+ *
+ * Shared helpers for turning the editor's blocks into downloadable files.
+ */
+
+import type { Block } from '../types';
+import type { LockedPageBreak, TitlePage } from '../types/screenplay';
+import { serializeFountain } from './fountain';
+import { serializeFdx } from './fdx';
+import { createScreenplayPdf } from './pdfExport';
+import { createScreenplayText } from './textExport';
+import { applyAutoContd } from './blockUtils';
+
+export type ExportFormat = 'fountain' | 'fdx' | 'pdf' | 'txt';
+
+export interface ExportOptions {
+  autoContd?: boolean;
+  revisionMarks?: Record<string, number>; // Colors revised pages and marks changes in PDF export
+  lockedPageBreaks?: LockedPageBreak[]; // Keeps locked page numbers in PDF and text export
+}
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  fountain: {
+    label: 'Fountain',
+    extension: 'fountain',
+    mimeType: 'text/plain;charset=utf-8'
+  },
+  fdx: {
+    label: 'Final Draft',
+    extension: 'fdx',
+    mimeType: 'application/xml;charset=utf-8'
+  },
+  pdf: {
+    label: 'PDF Document',
+    extension: 'pdf',
+    mimeType: 'application/pdf'
+  },
+  txt: {
+    label: 'Plain Text',
+    extension: 'txt',
+    mimeType: 'text/plain;charset=utf-8'
+  }
+};
+
+/**
+ * Turn a document title into a safe file name
+ */
+export const sanitizeFileName = (title: string): string => {
+  const cleaned = title.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+  return cleaned || 'Untitled_Screenplay';
+};
+
+/**
+ * Trigger a browser download for the given content
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Serialize the screenplay into the requested format
+ */
+export const serializeScreenplay = (
+  format: ExportFormat,
+  blocks: Block[],
+  titlePage: Partial<TitlePage>,
+  options: ExportOptions = {}
+): BlobPart => {
+  switch (format) {
+    case 'fdx':
+      return serializeFdx(blocks, titlePage);
+    case 'pdf':
+      return createScreenplayPdf(blocks, titlePage, {
+        revisionMarks: options.revisionMarks,
+        lockedPageBreaks: options.lockedPageBreaks
+      });
+    case 'txt':
+      return createScreenplayText(blocks, titlePage, { lockedPageBreaks: options.lockedPageBreaks });
+    case 'fountain':
+    default:
+      return serializeFountain(blocks, titlePage);
+  }
+};
+
+/**
+ * Serialize the screenplay and download it as a file
+ */
+export const exportScreenplay = (
+  format: ExportFormat,
+  blocks: Block[],
+  titlePage: Partial<TitlePage>,
+  documentTitle: string,
+  options: ExportOptions = {}
+): void => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const exportBlocks = options.autoContd ? applyAutoContd(blocks) : blocks;
+  const content = serializeScreenplay(format, exportBlocks, titlePage, options);
+  downloadFile(content, `${sanitizeFileName(documentTitle)}.${extension}`, mimeType);
+};
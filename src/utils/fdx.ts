@@ -0,0 +1,211 @@
+/**
+ * Final Draft (.fdx) Import/Export Utilities
+ *
+ * Final Draft files are XML documents where each screenplay element is a
+ * <Paragraph Type="..."> inside <Content>. Scene numbers are stored in the
+ * paragraph's Number attribute and the title page lives in <TitlePage>.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Block } from '../types';
+import type { ScreenplayDocument, TitlePage } from '../types/screenplay';
+import { updateBlockNumbers } from './blockUtils';
+
+const FDX_TO_BLOCK_TYPE: Record<string, string> = {
+  'Scene Heading': 'scene-heading',
+  'Action': 'action',
+  'Character': 'character',
+  'Dialogue': 'dialogue',
+  'Parenthetical': 'parenthetical',
+  'Transition': 'transition',
+  'Shot': 'shot'
+};
+
+// Scene numbers as locked numbering writes them: 12, 12A, A1, 12AB
+const SCENE_NUMBER_REGEX = /^[A-Z]*\d+[A-Z]*$/;
+
+const BLOCK_TYPE_TO_FDX: Record<string, string> = {
+  'scene-heading': 'Scene Heading',
+  'action': 'Action',
+  'character': 'Character',
+  'dialogue': 'Dialogue',
+  'parenthetical': 'Parenthetical',
+  'transition': 'Transition',
+  'shot': 'Shot',
+  'text': 'General'
+};
+
+/**
+ * Escape text for use inside XML elements and attributes
+ */
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+/**
+ * Collect the text of a paragraph from its <Text> runs
+ */
+const getParagraphText = (paragraph: Element): string => {
+  const runs = Array.from(paragraph.getElementsByTagName('Text'));
+  const text = runs.length > 0
+    ? runs.map(run => run.textContent || '').join('')
+    : paragraph.textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Read the title, author and contact fields from the title page paragraphs
+ */
+const parseTitlePage = (titlePageElement: Element | null): Partial<TitlePage> => {
+  const titlePage: Partial<TitlePage> = {};
+  if (!titlePageElement) return titlePage;
+
+  const paragraphs = Array.from(titlePageElement.getElementsByTagName('Paragraph'))
+    .map(paragraph => ({
+      text: getParagraphText(paragraph),
+      alignment: paragraph.getAttribute('Alignment') || ''
+    }))
+    .filter(paragraph => paragraph.text.length > 0);
+
+  if (paragraphs.length === 0) return titlePage;
+
+  titlePage.title = paragraphs[0].text;
+
+  const bylineIndex = paragraphs.findIndex(paragraph => /^(written\s+)?by:?$/i.test(paragraph.text));
+  if (bylineIndex !== -1 && paragraphs[bylineIndex + 1]) {
+    titlePage.author = paragraphs[bylineIndex + 1].text;
+  }
+
+  const contactLines = paragraphs
+    .slice(1)
+    .filter(paragraph => paragraph.alignment === 'Left' || paragraph.alignment === 'Right')
+    .map(paragraph => paragraph.text);
+  if (contactLines.length > 0) {
+    titlePage.contact = contactLines.join('\n');
+  }
+
+  return titlePage;
+};
+
+/**
+ * Parses a Final Draft document into editor blocks
+ * @param xml The raw .fdx file contents
+ * @returns The title page fields and the parsed blocks
+ */
+export const parseFdx = (xml: string): ScreenplayDocument => {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid Final Draft file');
+  }
+
+  const root = parsed.documentElement;
+  if (!root || root.nodeName !== 'FinalDraft') {
+    throw new Error('Invalid Final Draft file');
+  }
+
+  // The script content is the <Content> element directly under <FinalDraft>
+  const content = Array.from(root.children).find(child => child.nodeName === 'Content');
+  const titlePageElement = Array.from(root.children).find(child => child.nodeName === 'TitlePage') || null;
+  const blocks: Block[] = [];
+
+  if (content) {
+    Array.from(content.children)
+      .filter(child => child.nodeName === 'Paragraph')
+      .forEach((paragraph) => {
+        const fdxType = paragraph.getAttribute('Type') || '';
+        // Unknown paragraph types are kept as plain text so nothing is lost
+        const type = FDX_TO_BLOCK_TYPE[fdxType] || 'text';
+        const text = getParagraphText(paragraph);
+
+        if (!text && type !== 'scene-heading') return;
+
+        const block: Block = {
+          id: type === 'scene-heading' ? `scene-${uuidv4()}` : `block-${uuidv4()}`,
+          type,
+          content: text
+        };
+
+        const sceneNumber = paragraph.getAttribute('Number')?.trim().toUpperCase();
+        if (type === 'scene-heading' && sceneNumber && SCENE_NUMBER_REGEX.test(sceneNumber)) {
+          // Numbers in the file are production numbers; keep them locked, 12A and A1 included
+          block.sceneNumber = sceneNumber;
+          if (/^\d+$/.test(sceneNumber)) {
+            block.number = parseInt(sceneNumber, 10);
+          }
+        }
+
+        blocks.push(block);
+      });
+  }
+
+  return {
+    titlePage: parseTitlePage(titlePageElement),
+    blocks
+  };
+};
+
+/**
+ * Build a title page paragraph
+ */
+const titlePageParagraph = (text: string, alignment: 'Center' | 'Left'): string => {
+  return `      <Paragraph Alignment="${alignment}" Type="General">\n` +
+    `        <Text>${escapeXml(text)}</Text>\n` +
+    `      </Paragraph>`;
+};
+
+/**
+ * Serializes editor blocks into a Final Draft document
+ * @param blocks The blocks to serialize
+ * @param titlePage Optional title page fields from the screenplay header
+ * @returns The .fdx XML text
+ */
+export const serializeFdx = (blocks: Block[], titlePage?: Partial<TitlePage>): string => {
+  const numberedBlocks = updateBlockNumbers(blocks);
+
+  const paragraphs = numberedBlocks.map((block) => {
+    const fdxType = BLOCK_TYPE_TO_FDX[block.type] || 'General';
+    const sceneNumber = block.sceneNumber || block.number;
+    const numberAttribute = block.type === 'scene-heading' && sceneNumber
+      ? ` Number="${sceneNumber}"`
+      : '';
+
+    return `    <Paragraph${numberAttribute} Type="${fdxType}">\n` +
+      `      <Text>${escapeXml(block.content)}</Text>\n` +
+      `    </Paragraph>`;
+  });
+
+  const titleParagraphs: string[] = [];
+  if (titlePage?.title) {
+    titleParagraphs.push(titlePageParagraph(titlePage.title, 'Center'));
+  }
+  if (titlePage?.author) {
+    titleParagraphs.push(titlePageParagraph('Written by', 'Center'));
+    titleParagraphs.push(titlePageParagraph(titlePage.author, 'Center'));
+  }
+  if (titlePage?.contact) {
+    titlePage.contact.split('\n').forEach(line => {
+      titleParagraphs.push(titlePageParagraph(line, 'Left'));
+    });
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...paragraphs,
+    '  </Content>',
+    '  <TitlePage>',
+    '    <Content>',
+    ...titleParagraphs,
+    '    </Content>',
+    '  </TitlePage>',
+    '</FinalDraft>',
+    ''
+  ].join('\n');
+};
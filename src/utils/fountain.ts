@@ -0,0 +1,289 @@
+/**
+ * Fountain Import/Export Utilities
+ *
+ * Converts between plain-text Fountain screenplays (https://fountain.io) and the
+ * editor's Block[] model. Only the elements the editor supports are mapped:
+ * scene headings, action, characters, parentheticals, dialogue, transitions and shots.
+ * Notes, boneyard, sections and synopses are dropped on import.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Block } from '../types';
+import type { ScreenplayDocument, TitlePage } from '../types/screenplay';
+
+const SCENE_HEADING_REGEX = /^(INT|EXT|EST|INT\.?\/EXT|EXT\.?\/INT|I\/E)[.\s]/i;
+const SCENE_NUMBER_REGEX = /\s*#([\w.-]+)#\s*$/;
+const TRANSITION_REGEX = /^[A-Z\s]+TO:$/;
+const SHOT_REGEX = /^(WIDE SHOT|CLOSE UP|MEDIUM SHOT|TRACKING SHOT|POV SHOT|AERIAL SHOT|DOLLY SHOT|ESTABLISHING SHOT|EXTREME CLOSE UP|CRANE SHOT|INSERT|ANGLE ON)/;
+const TITLE_PAGE_KEY_REGEX = /^(Title|Credit|Authors?|Source|Draft date|Date|Contact|Copyright|Notes|Revision):\s*(.*)$/i;
+
+const createBlock = (type: string, content: string): Block => ({
+  id: type === 'scene-heading' ? `scene-${uuidv4()}` : `block-${uuidv4()}`,
+  type,
+  content
+});
+
+/**
+ * Check if a line is written entirely in upper case (ignoring extensions)
+ */
+const isUpperCaseLine = (line: string): boolean => {
+  const withoutExtension = line.replace(/\([^)]*\)/g, '');
+  return /[A-Z]/.test(withoutExtension) && withoutExtension === withoutExtension.toUpperCase();
+};
+
+/**
+ * Remove boneyard (/* *\/) and note ([[ ]]) content from the source text
+ */
+const stripComments = (text: string): string => {
+  return text
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+};
+
+/**
+ * Parse the optional title page at the top of a Fountain document
+ * @returns The title page fields and the remaining lines of the script
+ */
+const parseTitlePage = (lines: string[]): { titlePage: Partial<TitlePage>; bodyStart: number } => {
+  const titlePage: Partial<TitlePage> = {};
+
+  if (lines.length === 0 || !TITLE_PAGE_KEY_REGEX.test(lines[0])) {
+    return { titlePage, bodyStart: 0 };
+  }
+
+  let currentKey: string | null = null;
+  const values: Record<string, string[]> = {};
+  let index = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.trim() === '') break;
+
+    const keyMatch = line.match(TITLE_PAGE_KEY_REGEX);
+    if (keyMatch && !/^\s/.test(line)) {
+      currentKey = keyMatch[1].trim().toLowerCase();
+      values[currentKey] = keyMatch[2].trim() ? [keyMatch[2].trim()] : [];
+    } else if (currentKey) {
+      values[currentKey].push(line.trim());
+    }
+  }
+
+  if (values.title) titlePage.title = values.title.join(' ');
+  const author = values.author || values.authors;
+  if (author) titlePage.author = author.join(', ');
+  if (values.contact) titlePage.contact = values.contact.join('\n');
+
+  return { titlePage, bodyStart: index };
+};
+
+/**
+ * Parses a Fountain document into editor blocks
+ * @param text The raw Fountain source
+ * @returns The title page fields and the parsed blocks
+ */
+export const parseFountain = (text: string): ScreenplayDocument => {
+  const lines = stripComments(text.replace(/\r\n?/g, '\n')).split('\n');
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+  const blocks: Block[] = [];
+
+  let inDialogue = false;
+  let actionLines: string[] = [];
+
+  const flushAction = () => {
+    if (actionLines.length > 0) {
+      blocks.push(createBlock('action', actionLines.join('\n')));
+      actionLines = [];
+    }
+  };
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const rawLine = lines[i];
+    const line = rawLine.trim();
+    const previousBlank = i === bodyStart || lines[i - 1].trim() === '';
+    const nextLine = i + 1 < lines.length ? lines[i + 1].trim() : '';
+
+    if (line === '') {
+      flushAction();
+      inDialogue = false;
+      continue;
+    }
+
+    // Sections, synopses and page breaks have no block equivalent
+    if (/^#/.test(line) || /^=(?!=)/.test(line) || /^={3,}$/.test(line)) {
+      flushAction();
+      continue;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(line)) {
+        blocks.push(createBlock('parenthetical', line));
+      } else {
+        const lastBlock = blocks[blocks.length - 1];
+        if (lastBlock && lastBlock.type === 'dialogue') {
+          lastBlock.content = `${lastBlock.content}\n${line}`;
+        } else {
+          blocks.push(createBlock('dialogue', line));
+        }
+      }
+      continue;
+    }
+
+    // Forced action
+    if (line.startsWith('!')) {
+      actionLines.push(line.substring(1).trim());
+      continue;
+    }
+
+    // Centered text and lyrics are kept as action
+    if (/^>.*<$/.test(line)) {
+      actionLines.push(line.substring(1, line.length - 1).trim());
+      continue;
+    }
+    if (line.startsWith('~')) {
+      actionLines.push(line.substring(1).trim());
+      continue;
+    }
+
+    if (previousBlank) {
+      // Scene heading (forced with a leading period)
+      const isForcedHeading = line.startsWith('.') && !line.startsWith('..');
+      if (isForcedHeading || SCENE_HEADING_REGEX.test(line)) {
+        flushAction();
+        let heading = isForcedHeading ? line.substring(1).trim() : line;
+        const numberMatch = heading.match(SCENE_NUMBER_REGEX);
+        heading = heading.replace(SCENE_NUMBER_REGEX, '').toUpperCase();
+        const block = createBlock('scene-heading', heading);
+        if (numberMatch) {
+          // Numbers in the file are production numbers; keep them locked, 12A included
+          block.sceneNumber = numberMatch[1];
+          if (/^\d+$/.test(numberMatch[1])) {
+            block.number = parseInt(numberMatch[1], 10);
+          }
+        }
+        blocks.push(block);
+        continue;
+      }
+
+      // Transition (forced with a leading greater-than sign)
+      if (line.startsWith('>')) {
+        flushAction();
+        blocks.push(createBlock('transition', line.substring(1).trim().toUpperCase()));
+        continue;
+      }
+      if (TRANSITION_REGEX.test(line) && nextLine === '') {
+        flushAction();
+        blocks.push(createBlock('transition', line));
+        continue;
+      }
+
+      // Character cue (forced with a leading at sign)
+      const isForcedCharacter = line.startsWith('@');
+      if (nextLine !== '' && (isForcedCharacter || isUpperCaseLine(line))) {
+        flushAction();
+        const name = (isForcedCharacter ? line.substring(1) : line).replace(/\s*\^$/, '').trim();
+        blocks.push(createBlock('character', name));
+        inDialogue = true;
+        continue;
+      }
+
+      if (nextLine === '' && SHOT_REGEX.test(line)) {
+        flushAction();
+        blocks.push(createBlock('shot', line));
+        continue;
+      }
+    }
+
+    actionLines.push(line);
+  }
+
+  flushAction();
+
+  return { titlePage, blocks };
+};
+
+/**
+ * Serializes editor blocks into a Fountain document
+ * @param blocks The blocks to serialize
+ * @param titlePage Optional title page fields written at the top of the document
+ * @returns The Fountain source text
+ */
+export const serializeFountain = (blocks: Block[], titlePage?: Partial<TitlePage>): string => {
+  const output: string[] = [];
+
+  if (titlePage && (titlePage.title || titlePage.author || titlePage.contact)) {
+    if (titlePage.title) output.push(`Title: ${titlePage.title}`);
+    if (titlePage.author) output.push(`Author: ${titlePage.author}`);
+    if (titlePage.contact) {
+      output.push('Contact:');
+      titlePage.contact.split('\n').forEach(line => output.push(`    ${line}`));
+    }
+    output.push('');
+  }
+
+  let previousType: string | null = null;
+
+  blocks.forEach((block) => {
+    const content = block.content.trim();
+    const isInDialogue = previousType === 'character' ||
+      previousType === 'parenthetical' ||
+      previousType === 'dialogue';
+
+    switch (block.type) {
+      case 'scene-heading': {
+        const heading = content.toUpperCase();
+        // Locked scene numbers are written as #12A#
+        const sceneNumber = block.sceneNumber ? ` #${block.sceneNumber}#` : '';
+        output.push('');
+        output.push(`${SCENE_HEADING_REGEX.test(heading) ? heading : `.${heading}`}${sceneNumber}`);
+        break;
+      }
+      case 'character': {
+        const name = content.toUpperCase() === content ? content : `@${content}`;
+        output.push('');
+        output.push(name);
+        break;
+      }
+      case 'parenthetical': {
+        const parenthetical = /^\(.*\)$/.test(content) ? content : `(${content})`;
+        if (!isInDialogue) output.push('');
+        output.push(parenthetical);
+        break;
+      }
+      case 'dialogue': {
+        if (!isInDialogue) output.push('');
+        output.push(content);
+        break;
+      }
+      case 'transition': {
+        const transition = content.toUpperCase();
+        output.push('');
+        output.push(TRANSITION_REGEX.test(transition) ? transition : `> ${transition}`);
+        break;
+      }
+      case 'shot': {
+        output.push('');
+        output.push(content.toUpperCase());
+        break;
+      }
+      default: {
+        // Action and plain text; force action when its first line would be
+        // mistaken for another element. Later lines always continue the action.
+        const firstLine = content.split('\n')[0];
+        const needsForcing = SCENE_HEADING_REGEX.test(firstLine) ||
+          (isUpperCaseLine(firstLine) && firstLine.length > 0);
+        output.push('');
+        output.push(needsForcing ? `!${content}` : content);
+        break;
+      }
+    }
+
+    previousType = block.type;
+  });
+
+  // Drop the leading blank line when there is no title page
+  while (output.length > 0 && output[0] === '') {
+    output.shift();
+  }
+
+  return `${output.join('\n')}\n`;
+};
@@ -0,0 +1,41 @@
+/**
+ * Screenplay Import Utilities
+ *
+ * Reads screenplay files picked by the user and converts them into editor blocks.
+ */
+
+import type { ScreenplayDocument } from '../types/screenplay';
+import { parseFountain } from './fountain';
+import { parseFdx } from './fdx';
+
+export type ImportedScreenplay = ScreenplayDocument;
+
+/**
+ * File extensions accepted when importing a screenplay
+ */
+export const IMPORT_FILE_EXTENSIONS = ['.fountain', '.spmd', '.txt', '.fdx'];
+
+/**
+ * Check whether a file can be imported based on its extension
+ */
+export const isSupportedImportFile = (fileName: string): boolean => {
+  const lowerName = fileName.toLowerCase();
+  return IMPORT_FILE_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+};
+
+/**
+ * Read a screenplay file and parse it into blocks
+ * @param file The file selected by the user
+ * @returns The parsed title page and blocks
+ */
+export const parseScreenplayFile = async (file: File): Promise<ImportedScreenplay> => {
+  if (!isSupportedImportFile(file.name)) {
+    throw new Error(`Unsupported file type. Supported types: ${IMPORT_FILE_EXTENSIONS.join(', ')}`);
+  }
+
+  const text = await file.text();
+  if (file.name.toLowerCase().endsWith('.fdx')) {
+    return parseFdx(text);
+  }
+  return parseFountain(text);
+};
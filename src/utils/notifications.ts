@@ -0,0 +1,115 @@
+/**
+ * Notifications
+ *
+ * Writers are notified when someone mentions them in a comment, replies to
+ * their comment or resolves it. Each notification links back to the editor
+ * with the commented text range selected.
+ */
+
+import type { NotificationDocument, NotificationType } from '../types';
+
+export const NOTIFICATION_EXCERPT_LENGTH = 120;
+export const NOTIFICATION_LIMIT = 50; // Most recent notifications shown in the inbox
+
+export interface NotificationRecipient {
+  userId: string;
+  type: NotificationType;
+}
+
+export interface CommentLink {
+  commentId: string;
+  blockId: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+}
+
+/**
+ * Works out who to notify about a new comment. A user who is both mentioned
+ * and replied to gets a single mention; the author is never notified.
+ * @param actorId The comment's author
+ * @param mentions Users mentioned in the comment
+ * @param parentAuthorId Author of the comment being replied to, if any
+ * @returns One recipient per user
+ */
+export const getCommentNotificationRecipients = (
+  actorId: string,
+  mentions: string[],
+  parentAuthorId?: string | null
+): NotificationRecipient[] => {
+  const recipients = new Map<string, NotificationType>();
+  mentions.forEach(userId => recipients.set(userId, 'mention'));
+  if (parentAuthorId && !recipients.has(parentAuthorId)) {
+    recipients.set(parentAuthorId, 'reply');
+  }
+  recipients.delete(actorId);
+
+  return Array.from(recipients, ([userId, type]) => ({ userId, type }));
+};
+
+/**
+ * Shortens comment text for display in the inbox
+ * @param text The comment text
+ * @returns The text on one line, cut at NOTIFICATION_EXCERPT_LENGTH
+ */
+export const getNotificationExcerpt = (text: string): string => {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > NOTIFICATION_EXCERPT_LENGTH
+    ? `${line.slice(0, NOTIFICATION_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : line;
+};
+
+/**
+ * Describes a notification in one sentence
+ * @param notification The notification
+ * @returns E.g. "Sarah mentioned you in a comment"
+ */
+export const getNotificationMessage = (notification: Pick<NotificationDocument, 'type' | 'actorName'>): string => {
+  switch (notification.type) {
+    case 'mention':
+      return `${notification.actorName} mentioned you in a comment`;
+    case 'reply':
+      return `${notification.actorName} replied to your comment`;
+    case 'resolved':
+      return `${notification.actorName} resolved your comment`;
+  }
+};
+
+/**
+ * Builds the editor URL that opens a notification's comment
+ * @param notification The notification
+ * @returns The path with the comment, block and text range as query parameters
+ */
+export const getNotificationLink = (
+  notification: Pick<NotificationDocument, 'projectId' | 'screenplayId' | 'commentId' | 'blockId' | 'startOffset' | 'endOffset'>
+): string => {
+  const params = new URLSearchParams({
+    comment: notification.commentId,
+    block: notification.blockId,
+    start: String(notification.startOffset),
+    end: String(notification.endOffset)
+  });
+  return `/projects/${notification.projectId}/screenplays/${notification.screenplayId}/editor?${params.toString()}`;
+};
+
+/**
+ * Reads a comment link from the editor's query string
+ * @param search The query string, e.g. location.search
+ * @returns The linked comment, or null if the URL does not link to one
+ */
+export const parseCommentLink = (search: string): CommentLink | null => {
+  const params = new URLSearchParams(search);
+  const commentId = params.get('comment');
+  if (!commentId) return null;
+
+  const toOffset = (value: string | null) => {
+    const offset = value === null ? NaN : Number(value);
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  };
+
+  return {
+    commentId,
+    blockId: params.get('block'),
+    startOffset: toOffset(params.get('start')),
+    endOffset: toOffset(params.get('end'))
+  };
+};
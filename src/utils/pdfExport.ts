@@ -0,0 +1,268 @@
+/**
+ * Screenplay PDF Export
+ *
+ * Writes a minimal PDF 1.4 document from the pages produced by the layout
+ * engine. Only the built-in Courier font is used, so nothing needs to be
+ * embedded and every page prints at exactly the positions computed by
+ * layoutScreenplay.
+ */
+
+import type { Block } from '../types';
+import type { LockedPageBreak, TitlePage } from '../types/screenplay';
+import {
+  layoutScreenplay,
+  layoutTitlePage,
+  CHARS_PER_INCH,
+  LEFT_SCENE_NUMBER_INCHES,
+  LINES_PER_INCH,
+  LINES_PER_PAGE,
+  PAGE_HEIGHT_INCHES,
+  PAGE_NUMBER_TOP_INCHES,
+  PAGE_WIDTH_INCHES,
+  RIGHT_SCENE_NUMBER_INCHES,
+  TOP_MARGIN_INCHES,
+  wrapText,
+  type LayoutLine
+} from './screenplayLayout';
+import { getPageRevision, getRevisionColor } from './revisionUtils';
+
+const POINTS_PER_INCH = 72;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = POINTS_PER_INCH / LINES_PER_INCH;
+const PAGE_NUMBER_RIGHT_INCHES = 7.5;
+const REVISION_MARK_INCHES = 7.9;
+const REVISION_LABEL_INCHES = 1.5;
+const TEXT_LEFT_MARGIN_INCHES = 1;
+
+// Characters per line of a plain text PDF with one-inch margins
+export const TEXT_PDF_LINE_WIDTH = (PAGE_WIDTH_INCHES - 2 * TEXT_LEFT_MARGIN_INCHES) * CHARS_PER_INCH;
+
+export interface PdfOptions {
+  documentTitle?: string;
+  revisionMarks?: Record<string, number>; // Block ID -> revision number, from revision mode
+  lockedPageBreaks?: LockedPageBreak[]; // Keeps the page numbers of a locked draft
+}
+
+// Typographic characters that exist in WinAnsiEncoding outside of Latin-1
+const WIN_ANSI_CHARACTERS: Record<string, number> = {
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '–': 0x96,
+  '—': 0x97,
+  '…': 0x85
+};
+
+/**
+ * Convert text to a WinAnsi-encoded PDF string literal.
+ * Characters the standard Courier font cannot show are replaced with '?'.
+ */
+const toPdfString = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    let byte: number;
+    if (WIN_ANSI_CHARACTERS[char] !== undefined) {
+      byte = WIN_ANSI_CHARACTERS[char];
+    } else if (char.length === 1 && (code === 0x09 || (code >= 0x20 && code <= 0x7E) || (code >= 0xA0 && code <= 0xFF))) {
+      byte = code;
+    } else {
+      byte = 0x3F;
+    }
+
+    const encodedChar = String.fromCharCode(byte);
+    encoded += encodedChar === '\\' || encodedChar === '(' || encodedChar === ')'
+      ? `\\${encodedChar}`
+      : encodedChar;
+  }
+  return `(${encoded})`;
+};
+
+const formatNumber = (value: number): string => {
+  return Number(value.toFixed(2)).toString();
+};
+
+/**
+ * Draw a single line of text at a position given in inches from the top-left corner
+ */
+const drawText = (text: string, xInches: number, yInches: number): string => {
+  const x = xInches * POINTS_PER_INCH;
+  // PDF coordinates start at the bottom-left; place the baseline inside the line box
+  const y = (PAGE_HEIGHT_INCHES - yInches) * POINTS_PER_INCH - LINE_HEIGHT + 3;
+  return `BT /F1 ${FONT_SIZE} Tf ${formatNumber(x)} ${formatNumber(y)} Td ${toPdfString(text)} Tj ET`;
+};
+
+/**
+ * Left edge of a line in inches, resolving right-aligned elements
+ */
+const getLineX = (line: LayoutLine): number => {
+  return line.align === 'right'
+    ? line.indent - line.text.length / CHARS_PER_INCH
+    : line.indent;
+};
+
+/**
+ * Convert a #RRGGBB color to PDF fill color operands
+ */
+const toPdfColor = (hex: string): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [16, 8, 0].map(shift => formatNumber(((value >> shift) & 0xFF) / 255)).join(' ');
+};
+
+/**
+ * Build the content stream operators for one page
+ */
+const renderPageContent = (
+  lines: LayoutLine[],
+  pageLabel: string | null,
+  revisionMarks: Record<string, number> = {}
+): string => {
+  const operations: string[] = [];
+  const blockIds = lines.map(line => line.blockId).filter((id): id is string => !!id);
+  const pageRevision = getPageRevision(blockIds, revisionMarks);
+
+  // Revised pages are tinted with their revision color and labelled in the header
+  if (pageRevision !== null) {
+    const color = getRevisionColor(pageRevision);
+    const width = PAGE_WIDTH_INCHES * POINTS_PER_INCH;
+    const height = PAGE_HEIGHT_INCHES * POINTS_PER_INCH;
+    operations.push(`${toPdfColor(color.hex)} rg 0 0 ${width} ${height} re f 0 g`);
+    operations.push(drawText(`${color.name} Rev.`, REVISION_LABEL_INCHES, PAGE_NUMBER_TOP_INCHES));
+  }
+
+  if (pageLabel !== null) {
+    const label = `${pageLabel}.`;
+    operations.push(drawText(
+      label,
+      PAGE_NUMBER_RIGHT_INCHES - label.length / CHARS_PER_INCH,
+      PAGE_NUMBER_TOP_INCHES
+    ));
+  }
+
+  lines.forEach((line, index) => {
+    const y = TOP_MARGIN_INCHES + index / LINES_PER_INCH;
+
+    if (line.text) {
+      operations.push(drawText(line.text, getLineX(line), y));
+    }
+
+    if (line.sceneNumber) {
+      operations.push(drawText(line.sceneNumber, LEFT_SCENE_NUMBER_INCHES, y));
+      operations.push(drawText(line.sceneNumber, RIGHT_SCENE_NUMBER_INCHES, y));
+    }
+
+    if (line.text && line.blockId && revisionMarks[line.blockId] !== undefined) {
+      operations.push(drawText('*', REVISION_MARK_INCHES, y));
+    }
+  });
+
+  return operations.join('\n');
+};
+
+/**
+ * Assemble PDF objects into a complete file with a cross-reference table
+ */
+const buildPdf = (objects: string[]): Uint8Array => {
+  let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character in the document is a single byte, so offsets match byte positions
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i) & 0xFF;
+  }
+  return bytes;
+};
+
+/**
+ * Wrap page content streams into a document using the Courier font
+ */
+const assemblePdf = (pageContents: string[], documentTitle: string): Uint8Array => {
+  // Objects 1-4 are fixed; each page then adds a page object and its content stream
+  const firstPageObject = 5;
+  const pageObjectIds = pageContents.map((_, index) => firstPageObject + index * 2);
+  const mediaBox = `[0 0 ${PAGE_WIDTH_INCHES * POINTS_PER_INCH} ${PAGE_HEIGHT_INCHES * POINTS_PER_INCH}]`;
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageObjectIds.length} >>`,
+    `<< /Title ${toPdfString(documentTitle)} /Producer (LiQid Screenplay Editor) >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pageContents.forEach((content, index) => {
+    const contentId = pageObjectIds[index] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /Resources << /Font << /F1 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  return buildPdf(objects);
+};
+
+/**
+ * Renders the screenplay as a PDF document
+ * @param blocks The blocks to render
+ * @param titlePage Optional title page fields from the screenplay header
+ * @param options Metadata title and revision marks
+ * @returns The PDF file bytes
+ */
+export const createScreenplayPdf = (
+  blocks: Block[],
+  titlePage: Partial<TitlePage> = {},
+  options: PdfOptions = {}
+): Uint8Array => {
+  const documentTitle = options.documentTitle || titlePage.title || 'Untitled Screenplay';
+  const pageContents: string[] = [];
+
+  const titleLines = layoutTitlePage(titlePage);
+  if (titleLines) {
+    pageContents.push(renderPageContent(titleLines, null));
+  }
+
+  // Page numbers are printed from page 2 onwards, as is standard
+  layoutScreenplay(blocks, { lockedPageBreaks: options.lockedPageBreaks }).forEach((page) => {
+    pageContents.push(renderPageContent(page.lines, page.number > 1 ? page.label : null, options.revisionMarks));
+  });
+
+  return assemblePdf(pageContents, documentTitle);
+};
+
+/**
+ * Renders plain text as a PDF document with one-inch margins
+ * @param lines Lines of at most TEXT_PDF_LINE_WIDTH characters; longer lines are wrapped
+ * @param documentTitle Metadata title
+ * @returns The PDF file bytes
+ */
+export const createTextPdf = (lines: string[], documentTitle: string): Uint8Array => {
+  const wrapped = lines.flatMap(line => line.length > TEXT_PDF_LINE_WIDTH ? wrapText(line, TEXT_PDF_LINE_WIDTH) : [line]);
+  const pageContents: string[] = [];
+
+  for (let start = 0; start < Math.max(wrapped.length, 1); start += LINES_PER_PAGE) {
+    const pageLines = wrapped.slice(start, start + LINES_PER_PAGE).map(text => ({
+      text,
+      type: 'text',
+      indent: TEXT_LEFT_MARGIN_INCHES,
+      align: 'left' as const
+    }));
+    const pageNumber = start / LINES_PER_PAGE + 1;
+    pageContents.push(renderPageContent(pageLines, pageNumber > 1 ? String(pageNumber) : null));
+  }
+
+  return assemblePdf(pageContents, documentTitle);
+};
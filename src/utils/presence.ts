@@ -0,0 +1,46 @@
+/**
+ * Collaborator Presence
+ *
+ * Everyone with a screenplay open writes a presence document with their
+ * name, color, caret and selection. Writes are throttled, and a writer who
+ * has not moved or typed for a while is dropped from the list.
+ */
+
+import type { CollaboratorCursor } from '../types/screenplay';
+
+export const PRESENCE_THROTTLE = 500; // At most one presence write per this many milliseconds
+export const PRESENCE_IDLE_TIMEOUT = 2 * 60 * 1000; // Writers without activity for this long are dropped
+export const PRESENCE_HEARTBEAT = 30 * 1000; // Scrolling or moving the mouse refreshes presence this often
+
+/**
+ * Picks a color for a user. The same user gets the same color everywhere.
+ * @param userId The user ID
+ * @returns An HSL color
+ */
+export const getPresenceColor = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = ((hash << 5) - hash) + userId.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 50%)`;
+};
+
+/**
+ * Shortens a display name for an avatar, e.g. "Sarah Chen" to "SC"
+ * @param name The display name or email
+ */
+export const getInitials = (name: string): string => {
+  const words = name.split('@')[0].split(/[\s._-]+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  return words.slice(0, 2).map(word => word[0].toUpperCase()).join('');
+};
+
+/**
+ * Checks whether a collaborator was active recently. Presence written by
+ * this client has no server time yet and counts as active.
+ * @param cursor The collaborator's presence
+ * @param now The current time in milliseconds
+ */
+export const isPresenceActive = (cursor: CollaboratorCursor, now: number = Date.now()): boolean =>
+  !cursor.timestamp || now - cursor.timestamp.toMillis() < PRESENCE_IDLE_TIMEOUT;
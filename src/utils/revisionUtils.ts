@@ -0,0 +1,109 @@
+/**
+ * Production Revision Utilities
+ *
+ * Once a draft is locked, every later change is tracked against the locked
+ * snapshot and tagged with the revision color in effect at the time. Revision
+ * numbers index into the standard color sequence: 0 is the White draft,
+ * 1 is the Blue revision, 2 is Pink, and so on.
+ */
+
+import type { Block } from '../types';
+import type { RevisionState } from '../types/screenplay';
+
+export interface RevisionColor {
+  name: string;
+  hex: string; // Page tint used on screen and in PDF export
+}
+
+export const REVISION_COLORS: RevisionColor[] = [
+  { name: 'White', hex: '#FFFFFF' },
+  { name: 'Blue', hex: '#CFE2F3' },
+  { name: 'Pink', hex: '#F4CCCC' },
+  { name: 'Yellow', hex: '#FFF2CC' },
+  { name: 'Green', hex: '#D9EAD3' },
+  { name: 'Goldenrod', hex: '#F6D58E' },
+  { name: 'Buff', hex: '#F3E5C0' },
+  { name: 'Salmon', hex: '#F9CBB5' },
+  { name: 'Cherry', hex: '#F2B8C6' }
+];
+
+const REPEAT_PREFIXES = ['', 'Double ', 'Triple '];
+
+/**
+ * Get the color for a revision number; the sequence repeats as Double/Triple colors
+ * @param revisionNumber 0 for the White draft, 1 for Blue, ...
+ * @returns The color name and page tint
+ */
+export const getRevisionColor = (revisionNumber: number): RevisionColor => {
+  const index = Math.max(0, revisionNumber) % REVISION_COLORS.length;
+  const cycle = Math.floor(Math.max(0, revisionNumber) / REVISION_COLORS.length);
+  const prefix = REPEAT_PREFIXES[Math.min(cycle, REPEAT_PREFIXES.length - 1)];
+  return {
+    name: `${prefix}${REVISION_COLORS[index].name}`,
+    hex: REVISION_COLORS[index].hex
+  };
+};
+
+/**
+ * Finds the blocks that were added or edited compared with a locked snapshot
+ * @param snapshotBlocks The blocks as they were when the revision was locked
+ * @param blocks The current blocks
+ * @returns Set of changed block IDs
+ */
+export const getChangedBlockIds = (snapshotBlocks: Block[], blocks: Block[]): Set<string> => {
+  const snapshotById = new Map(snapshotBlocks.map(block => [block.id, block]));
+  const changed = new Set<string>();
+
+  blocks.forEach(block => {
+    const original = snapshotById.get(block.id);
+    if (!original || original.content !== block.content || original.type !== block.type) {
+      changed.add(block.id);
+    }
+  });
+
+  return changed;
+};
+
+/**
+ * Combines earlier revision marks with the live changes of the current revision
+ * @param revision The screenplay's revision state
+ * @param snapshotBlocks Snapshot taken when the current revision was locked
+ * @param blocks The current blocks
+ * @returns Map of block ID to the revision number it was last changed in
+ */
+export const computeRevisionMarks = (
+  revision: RevisionState,
+  snapshotBlocks: Block[],
+  blocks: Block[]
+): Record<string, number> => {
+  const marks: Record<string, number> = { ...revision.marks };
+
+  getChangedBlockIds(snapshotBlocks, blocks).forEach(blockId => {
+    marks[blockId] = revision.number;
+  });
+
+  // Marks of deleted blocks are dropped
+  const currentIds = new Set(blocks.map(block => block.id));
+  Object.keys(marks).forEach(blockId => {
+    if (!currentIds.has(blockId)) delete marks[blockId];
+  });
+
+  return marks;
+};
+
+/**
+ * Latest revision among the given blocks, which decides a page's color
+ * @param blockIds Blocks printed on the page
+ * @param marks Revision marks by block ID
+ * @returns The highest revision number, or null if nothing on the page changed
+ */
+export const getPageRevision = (blockIds: string[], marks: Record<string, number>): number | null => {
+  let latest: number | null = null;
+  blockIds.forEach(blockId => {
+    const mark = marks[blockId];
+    if (mark !== undefined && (latest === null || mark > latest)) {
+      latest = mark;
+    }
+  });
+  return latest;
+};
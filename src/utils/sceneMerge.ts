@@ -0,0 +1,147 @@
+/**
+ * Three-way Merge of Scene Blocks
+ *
+ * Merges two edited copies of a scene's block list against the version both
+ * started from. Blocks are matched by ID. A block changed on one side only
+ * takes that change; a block changed differently on both sides is a conflict
+ * that the user resolves by picking a side or editing the text.
+ */
+
+import type { Block } from '../types';
+import type { ConflictingScene } from '../types/screenplay';
+import { sceneDocumentToBlocks } from './blockUtils';
+
+export interface BlockMergeConflict {
+  blockId: string;
+  sceneId?: string;
+  base: Block | null;
+  local: Block | null; // null when we deleted the block
+  remote: Block | null; // null when the other user deleted the block
+}
+
+export interface BlockMergeResult {
+  blocks: Block[]; // Merged blocks, with the local side (or the remote one, if we deleted it) standing in for each conflict
+  conflicts: BlockMergeConflict[];
+}
+
+// The block to keep for a conflict, or null to drop it
+export type MergeResolution = Block | null;
+
+const sameBlock = (a: Block | null, b: Block | null): boolean => {
+  if (!a || !b) return a === b;
+  return a.type === b.type &&
+    a.content === b.content &&
+    (a.sceneNumber || null) === (b.sceneNumber || null) &&
+    !!a.omitted === !!b.omitted;
+};
+
+/**
+ * Merges local and remote edits of a block list
+ * @param base The blocks both sides started from
+ * @param local Our edited blocks
+ * @param remote The blocks saved by another user
+ * @returns The merged blocks and the blocks both sides changed differently
+ */
+export const mergeBlockLists = (base: Block[], local: Block[], remote: Block[]): BlockMergeResult => {
+  const baseById = new Map(base.map(block => [block.id, block]));
+  const localById = new Map(local.map(block => [block.id, block]));
+  const remoteById = new Map(remote.map(block => [block.id, block]));
+  const conflicts: BlockMergeConflict[] = [];
+
+  const mergeBlock = (id: string): Block | null => {
+    const baseBlock = baseById.get(id) || null;
+    const localBlock = localById.get(id) || null;
+    const remoteBlock = remoteById.get(id) || null;
+
+    if (sameBlock(localBlock, remoteBlock)) return localBlock;
+    if (sameBlock(localBlock, baseBlock)) return remoteBlock;
+    if (sameBlock(remoteBlock, baseBlock)) return localBlock;
+
+    conflicts.push({ blockId: id, base: baseBlock, local: localBlock, remote: remoteBlock });
+    return localBlock || remoteBlock;
+  };
+
+  // Local order first, then blocks only the remote side still has, each
+  // placed after the block it follows on the remote side
+  const order = local.map(block => block.id);
+  remote.forEach((block, index) => {
+    if (localById.has(block.id)) return;
+    let insertAt = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const position = order.indexOf(remote[previous].id);
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+    order.splice(insertAt, 0, block.id);
+  });
+
+  const blocks = order
+    .map(mergeBlock)
+    .filter((block): block is Block => block !== null);
+
+  return { blocks, conflicts };
+};
+
+/**
+ * Applies the user's choice for each conflict to a merge result
+ * @param result The result of mergeBlockLists
+ * @param resolutions The block to keep per conflicting block ID, or null to drop it
+ * @returns The final block list
+ */
+export const applyMergeResolutions = (
+  result: BlockMergeResult,
+  resolutions: Record<string, MergeResolution>
+): Block[] => {
+  const conflictIds = new Set(result.conflicts.map(conflict => conflict.blockId));
+  return result.blocks
+    .map(block => (conflictIds.has(block.id) && block.id in resolutions ? resolutions[block.id] : block))
+    .filter((block): block is Block => block !== null);
+};
+
+/**
+ * Merges the stored versions of conflicting scenes into the full local block
+ * list. A scene deleted on one side and edited on the other is kept, so no
+ * edit is lost.
+ * @param localBlocks Our full block list
+ * @param scenes The base and stored versions of each conflicting scene
+ * @returns The merged full block list and the remaining block conflicts
+ */
+export const mergeConflictingScenes = (localBlocks: Block[], scenes: ConflictingScene[]): BlockMergeResult => {
+  let blocks = [...localBlocks];
+  const conflicts: BlockMergeConflict[] = [];
+
+  scenes.forEach(({ sceneId, base, remote }) => {
+    // The implicit scene holding the blocks before the first heading starts the script
+    const isImplicit = blocks.length > 0 && blocks[0].type !== 'scene-heading' && sceneId === `scene-${blocks[0].id}`;
+    const start = isImplicit ? 0 : blocks.findIndex(block => block.id === sceneId);
+
+    if (start === -1) {
+      // We deleted the scene: bring back the other user's version where it stood
+      if (!remote) return;
+      const headings = blocks
+        .map((block, index) => (block.type === 'scene-heading' ? index : -1))
+        .filter(index => index !== -1);
+      const insertAt = remote.order < headings.length ? headings[remote.order] : blocks.length;
+      blocks.splice(insertAt, 0, ...sceneDocumentToBlocks(remote));
+      return;
+    }
+
+    // The other user deleted the scene: keep ours
+    if (!remote) return;
+
+    const nextHeading = blocks.findIndex((block, index) => index > start && block.type === 'scene-heading');
+    const end = nextHeading === -1 ? blocks.length : nextHeading;
+    const result = mergeBlockLists(
+      base ? sceneDocumentToBlocks(base) : [],
+      blocks.slice(start, end),
+      sceneDocumentToBlocks(remote)
+    );
+
+    blocks = [...blocks.slice(0, start), ...result.blocks, ...blocks.slice(end)];
+    conflicts.push(...result.conflicts.map(conflict => ({ ...conflict, sceneId })));
+  });
+
+  return { blocks, conflicts };
+};
@@ -0,0 +1,166 @@
+/**
+ * Locked Scene Numbering Utilities
+ *
+ * Once scene numbers are locked every scene heading keeps its number for good.
+ * Scenes added later are numbered from their neighbours (12A, 12B after
+ * scene 12, or A1 before the first scene) and deleted scenes are kept as
+ * OMITTED placeholders so production paperwork keeps lining up.
+ * Numbers live on the scene heading blocks and are persisted on each SceneDocument.
+ */
+
+import type { Block } from '../types';
+
+export const OMITTED_HEADING = 'OMITTED';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Increments a letter sequence: A -> B, Z -> AA, AZ -> BA
+ */
+const nextLetters = (letters: string): string => {
+  if (!letters) return 'A';
+  const last = letters[letters.length - 1];
+  const head = letters.slice(0, -1);
+  return last === 'Z' ? `${nextLetters(head)}A` : `${head}${ALPHABET[ALPHABET.indexOf(last) + 1]}`;
+};
+
+/**
+ * Checks whether scene numbers are locked for the given blocks
+ * @param blocks Array of blocks to check
+ * @returns True if any scene heading carries a locked number
+ */
+export const isSceneNumberingLocked = (blocks: Block[]): boolean => {
+  return blocks.some(block => block.type === 'scene-heading' && !!block.sceneNumber);
+};
+
+/**
+ * Locks the current sequential numbering onto every scene heading
+ * @param blocks Array of blocks to lock
+ * @returns New blocks with a sceneNumber on each scene heading
+ */
+export const lockSceneNumbers = (blocks: Block[]): Block[] => {
+  let sceneCount = 0;
+  return blocks.map(block => {
+    if (block.type !== 'scene-heading') return block;
+    sceneCount++;
+    return { ...block, sceneNumber: String(sceneCount) };
+  });
+};
+
+/**
+ * Unlocks scene numbers, dropping the locked numbers and OMITTED placeholders
+ * @param blocks Array of blocks to unlock
+ * @returns New blocks numbered sequentially again
+ */
+export const unlockSceneNumbers = (blocks: Block[]): Block[] => {
+  return blocks
+    .filter(block => !block.omitted)
+    .map(block => block.sceneNumber === undefined ? block : { ...block, sceneNumber: undefined });
+};
+
+/**
+ * Gets the number for a scene inserted after a locked scene, or before the first one
+ * @param previous Number of the scene before the insert, or null at the start of the script
+ * @param first Number of the first locked scene, used when inserting at the start
+ * @param used Numbers already taken in the script
+ * @returns A new unused scene number such as "12A" or "A1"
+ */
+export const getInsertedSceneNumber = (
+  previous: string | null,
+  first: string | null,
+  used: Set<string>
+): string => {
+  if (previous === null) {
+    // Before the first scene: A1, B1, ...
+    const base = first || '1';
+    let prefix = 'A';
+    while (used.has(`${prefix}${base}`)) prefix = nextLetters(prefix);
+    return `${prefix}${base}`;
+  }
+
+  return getLetteredNumber(previous, used);
+};
+
+/**
+ * Gets the lettered number that follows a locked scene or page number
+ * @param previous The number being followed, e.g. "12" or "12A"
+ * @param used Numbers already taken
+ * @returns The next unused number: 12 -> 12A, 12A -> 12B
+ */
+export const getLetteredNumber = (previous: string, used: Set<string>): string => {
+  const match = previous.match(/^(.*?\d+)([A-Z]*)$/);
+  const base = match ? match[1] : previous;
+  let letters = nextLetters(match ? match[2] : '');
+  while (used.has(`${base}${letters}`)) letters = nextLetters(letters);
+  return `${base}${letters}`;
+};
+
+/**
+ * Numbers scene headings added since the numbers were locked; locked numbers never change
+ * @param blocks Array of blocks to update
+ * @returns Blocks with a sceneNumber on every scene heading, or the same blocks if not locked
+ */
+export const assignLockedSceneNumbers = (blocks: Block[]): Block[] => {
+  if (!isSceneNumberingLocked(blocks)) return blocks;
+
+  const used = new Set(blocks.filter(block => block.sceneNumber).map(block => block.sceneNumber as string));
+  const first = blocks.find(block => block.type === 'scene-heading' && block.sceneNumber)?.sceneNumber || null;
+  let previous: string | null = null;
+
+  return blocks.map(block => {
+    if (block.type !== 'scene-heading') return block;
+    if (block.sceneNumber) {
+      previous = block.sceneNumber;
+      return block;
+    }
+
+    const sceneNumber = getInsertedSceneNumber(previous, first, used);
+    used.add(sceneNumber);
+    previous = sceneNumber;
+    return { ...block, sceneNumber };
+  });
+};
+
+/**
+ * Keeps locked scenes that were deleted as OMITTED placeholders
+ * @param previousBlocks The blocks before the edit
+ * @param nextBlocks The blocks after the edit
+ * @returns The next blocks with a placeholder where each deleted locked scene stood
+ */
+export const keepOmittedScenes = (previousBlocks: Block[], nextBlocks: Block[]): Block[] => {
+  if (!isSceneNumberingLocked(nextBlocks)) return nextBlocks;
+
+  const nextIds = new Set(nextBlocks.map(block => block.id));
+  const previousHeadings = previousBlocks.filter(block => block.type === 'scene-heading');
+  if (previousHeadings.every(block => !block.sceneNumber || nextIds.has(block.id))) {
+    return nextBlocks;
+  }
+
+  const result = [...nextBlocks];
+  let anchorId: string | null = null;
+
+  previousHeadings.forEach(heading => {
+    if (nextIds.has(heading.id) || !heading.sceneNumber) {
+      if (nextIds.has(heading.id)) anchorId = heading.id;
+      return;
+    }
+
+    // Insert at the end of the last surviving scene before it
+    const anchorIndex = anchorId ? result.findIndex(block => block.id === anchorId) : -1;
+    let insertIndex = anchorIndex === -1
+      ? result.findIndex(block => block.type === 'scene-heading')
+      : result.findIndex((block, index) => index > anchorIndex && block.type === 'scene-heading');
+    if (insertIndex === -1) insertIndex = anchorIndex === -1 ? 0 : result.length;
+
+    result.splice(insertIndex, 0, {
+      id: heading.id,
+      type: 'scene-heading',
+      content: OMITTED_HEADING,
+      sceneNumber: heading.sceneNumber,
+      omitted: true
+    });
+    anchorId = heading.id;
+  });
+
+  return result;
+};
@@ -0,0 +1,290 @@
+/**
+ * Screenplay Draft Comparison
+ *
+ * Diffs two block lists (two version snapshots, or two screenplays of a
+ * project). Blocks are matched by ID first, then unmatched blocks of the same
+ * type are paired by content similarity so retyped or pasted text still lines
+ * up. Matched blocks that changed order are reported as moved, and edited text
+ * gets a word-level diff.
+ */
+
+import type { Block } from '../types';
+
+export type WordDiffType = 'equal' | 'added' | 'removed';
+
+export interface WordDiffPart {
+  type: WordDiffType;
+  text: string;
+}
+
+export type BlockDiffStatus = 'unchanged' | 'added' | 'removed' | 'modified' | 'moved';
+
+export interface BlockDiff {
+  status: BlockDiffStatus;
+  oldBlock?: Block;
+  newBlock?: Block;
+  words?: WordDiffPart[]; // Word-level changes when the text of a matched block differs
+  sceneId: string | null; // Scene the block belongs to, on the new side where it exists
+}
+
+export interface SceneChangeSummary {
+  sceneId: string | null; // null for blocks before the first scene heading
+  heading: string;
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+}
+
+// Minimum similarity for two blocks without a common ID to count as the same block
+export const SIMILARITY_THRESHOLD = 0.6;
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+const words = (text: string): string[] => text.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+
+/**
+ * Longest common subsequence table of two sequences
+ */
+const lcsTable = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): number[][] => {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+};
+
+/**
+ * Word-level diff of two texts, keeping the original whitespace
+ * @param oldText The text before
+ * @param newText The text after
+ * @returns The parts of both texts, marked equal, added or removed
+ */
+export const diffWords = (oldText: string, newText: string): WordDiffPart[] => {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+  const table = lcsTable(a, b, (x, y) => x === y);
+  const parts: WordDiffPart[] = [];
+
+  const push = (type: WordDiffType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+};
+
+/**
+ * Similarity of two texts by their shared words (Dice coefficient)
+ * @returns 1 for identical word lists, 0 when no word is shared
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.length === 0 && wordsB.length === 0) return 1;
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  wordsA.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  let shared = 0;
+  wordsB.forEach((word) => {
+    const count = counts.get(word) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  });
+
+  return (2 * shared) / (wordsA.length + wordsB.length);
+};
+
+/**
+ * Positions of the longest strictly increasing subsequence of the values
+ */
+export const longestIncreasingRun = (values: number[]): number[] => {
+  const tails: number[] = []; // Position of the smallest tail of each run length
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+    if (low > 0) previous[position] = tails[low - 1];
+    tails[low] = position;
+  });
+
+  const run: number[] = [];
+  for (let position = tails[tails.length - 1] ?? -1; position !== -1; position = previous[position]) {
+    run.unshift(position);
+  }
+  return run;
+};
+
+/**
+ * Pairs old and new blocks: by ID, then by content similarity within the same type
+ * @returns Map of new block index to old block index
+ */
+const matchBlocks = (oldBlocks: Block[], newBlocks: Block[]): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const oldIndexById = new Map(oldBlocks.map((block, index) => [block.id, index]));
+  const matchedOld = new Set<number>();
+
+  newBlocks.forEach((block, newIndex) => {
+    const oldIndex = oldIndexById.get(block.id);
+    if (oldIndex !== undefined) {
+      matches.set(newIndex, oldIndex);
+      matchedOld.add(oldIndex);
+    }
+  });
+
+  // Best remaining candidates first, so a weak pairing never takes a strong one's block
+  const candidates: { newIndex: number; oldIndex: number; score: number }[] = [];
+  newBlocks.forEach((newBlock, newIndex) => {
+    if (matches.has(newIndex)) return;
+    oldBlocks.forEach((oldBlock, oldIndex) => {
+      if (matchedOld.has(oldIndex) || oldBlock.type !== newBlock.type) return;
+      const score = textSimilarity(oldBlock.content, newBlock.content);
+      if (score >= SIMILARITY_THRESHOLD) {
+        candidates.push({ newIndex, oldIndex, score });
+      }
+    });
+  });
+
+  candidates
+    .sort((x, y) => y.score - x.score)
+    .forEach(({ newIndex, oldIndex }) => {
+      if (matches.has(newIndex) || matchedOld.has(oldIndex)) return;
+      matches.set(newIndex, oldIndex);
+      matchedOld.add(oldIndex);
+    });
+
+  return matches;
+};
+
+/**
+ * Compares two drafts block by block
+ * @param oldBlocks The earlier draft
+ * @param newBlocks The later draft
+ * @returns The merged sequence of blocks in new-draft order, with removed
+ * blocks placed where they stood in the old draft
+ */
+export const diffBlocks = (oldBlocks: Block[], newBlocks: Block[]): BlockDiff[] => {
+  const matches = matchBlocks(oldBlocks, newBlocks);
+
+  // Matched blocks outside the longest in-order run were moved
+  const matchedNewIndexes = newBlocks.map((_, index) => index).filter(index => matches.has(index));
+  const inOrder = new Set(
+    longestIncreasingRun(matchedNewIndexes.map(index => matches.get(index) as number))
+      .map(position => matchedNewIndexes[position])
+  );
+
+  const matchedOld = new Set(matches.values());
+  const result: BlockDiff[] = [];
+  let oldPointer = 0;
+  let currentScene: string | null = null;
+
+  const emitRemovedUntil = (oldIndex: number) => {
+    let removedScene: string | null = null;
+    for (; oldPointer < oldIndex; oldPointer++) {
+      if (matchedOld.has(oldPointer)) continue;
+      const oldBlock = oldBlocks[oldPointer];
+      if (oldBlock.type === 'scene-heading') removedScene = oldBlock.id;
+      result.push({ status: 'removed', oldBlock, sceneId: removedScene ?? currentScene });
+    }
+  };
+
+  newBlocks.forEach((newBlock, newIndex) => {
+    const oldIndex = matches.get(newIndex);
+    if (oldIndex !== undefined && inOrder.has(newIndex)) {
+      emitRemovedUntil(oldIndex);
+      oldPointer = Math.max(oldPointer, oldIndex + 1);
+    }
+
+    if (newBlock.type === 'scene-heading') currentScene = newBlock.id;
+
+    if (oldIndex === undefined) {
+      result.push({ status: 'added', newBlock, sceneId: currentScene });
+      return;
+    }
+
+    const oldBlock = oldBlocks[oldIndex];
+    const textChanged = oldBlock.content !== newBlock.content;
+    const status: BlockDiffStatus = !inOrder.has(newIndex)
+      ? 'moved'
+      : textChanged || oldBlock.type !== newBlock.type ? 'modified' : 'unchanged';
+
+    result.push({
+      status,
+      oldBlock,
+      newBlock,
+      words: textChanged ? diffWords(oldBlock.content, newBlock.content) : undefined,
+      sceneId: currentScene
+    });
+  });
+
+  emitRemovedUntil(oldBlocks.length);
+  return result;
+};
+
+/**
+ * Counts the changes of a diff per scene
+ * @param diff The result of diffBlocks
+ * @returns One summary per scene that has changes, in diff order
+ */
+export const summarizeSceneChanges = (diff: BlockDiff[]): SceneChangeSummary[] => {
+  const summaries = new Map<string | null, SceneChangeSummary>();
+
+  diff.forEach((entry) => {
+    if (!summaries.has(entry.sceneId)) {
+      summaries.set(entry.sceneId, {
+        sceneId: entry.sceneId,
+        heading: '',
+        added: 0,
+        removed: 0,
+        modified: 0,
+        moved: 0
+      });
+    }
+
+    const summary = summaries.get(entry.sceneId) as SceneChangeSummary;
+    const block = entry.newBlock || entry.oldBlock;
+    if (block && block.type === 'scene-heading' && block.id === entry.sceneId) {
+      summary.heading = block.content;
+    }
+    if (entry.status !== 'unchanged') {
+      summary[entry.status]++;
+    }
+  });
+
+  return Array.from(summaries.values())
+    .map(summary => ({ ...summary, heading: summary.heading || (summary.sceneId ? 'Untitled Scene' : 'Before First Scene') }))
+    .filter(summary => summary.added + summary.removed + summary.modified + summary.moved > 0);
+};
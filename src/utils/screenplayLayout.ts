@@ -0,0 +1,522 @@
+/**
+ * Screenplay Page Layout Engine
+ *
+ * Lays blocks out on US Letter pages following the standard screenplay format:
+ * Courier 12pt (10 characters per inch, 6 lines per inch), a 1.5" left margin,
+ * 1" top/bottom margins and the usual character, dialogue and parenthetical indents.
+ *
+ * The engine is pure TypeScript with no DOM access so page breaks can be
+ * computed (and tested) outside the browser. Renderers such as the PDF exporter
+ * only need to draw the resulting lines at their indents.
+ */
+
+import type { Block } from '../types';
+import type { LockedPageBreak, TitlePage } from '../types/screenplay';
+import { getLetteredNumber } from './sceneNumbering';
+
+export const PAGE_WIDTH_INCHES = 8.5;
+export const PAGE_HEIGHT_INCHES = 11;
+export const TOP_MARGIN_INCHES = 1;
+export const PAGE_NUMBER_TOP_INCHES = 0.5;
+export const CHARS_PER_INCH = 10;
+export const LINES_PER_INCH = 6;
+export const LINES_PER_PAGE = 54;
+export const LEFT_SCENE_NUMBER_INCHES = 0.75;
+export const RIGHT_SCENE_NUMBER_INCHES = 7.4;
+
+export const MORE_MARKER = '(MORE)';
+export const CONTD_MARKER = "(CONT'D)";
+
+export interface ElementLayout {
+  indent: number; // Left edge in inches from the edge of the page (right edge for right-aligned elements)
+  width: number; // Maximum characters per line
+  spaceBefore: number; // Blank lines above the element
+  uppercase: boolean;
+  align: 'left' | 'right';
+}
+
+export const ELEMENT_LAYOUT: Record<string, ElementLayout> = {
+  'scene-heading': { indent: 1.5, width: 61, spaceBefore: 2, uppercase: true, align: 'left' },
+  'action': { indent: 1.5, width: 61, spaceBefore: 1, uppercase: false, align: 'left' },
+  'character': { indent: 3.7, width: 38, spaceBefore: 1, uppercase: true, align: 'left' },
+  'parenthetical': { indent: 3.1, width: 25, spaceBefore: 0, uppercase: false, align: 'left' },
+  'dialogue': { indent: 2.5, width: 35, spaceBefore: 0, uppercase: false, align: 'left' },
+  'transition': { indent: 7.5, width: 61, spaceBefore: 1, uppercase: true, align: 'right' },
+  'text': { indent: 1.5, width: 61, spaceBefore: 1, uppercase: false, align: 'left' },
+  'shot': { indent: 1.5, width: 61, spaceBefore: 1, uppercase: true, align: 'left' },
+};
+
+export interface LayoutLine {
+  text: string;
+  type: string; // Block type, or 'blank' / 'more' / 'contd' for generated lines
+  indent: number;
+  align: 'left' | 'right';
+  blockId?: string;
+  sceneNumber?: string; // Printed in both margins on the first line of a scene heading
+}
+
+export interface LayoutPage {
+  number: number; // Position of the page in the document, from 1
+  label: string; // Printed page number; differs from number once pages are locked ("23A")
+  lines: LayoutLine[];
+}
+
+export interface PaginatedPage {
+  number: number;
+  label: string;
+  blocks: Block[]; // Blocks whose first line falls on this page
+  moreBlockId?: string; // Dialogue block that continues on the next page, followed by (MORE)
+  moreText?: string; // The part of that speech printed on this page
+  continuedCue?: string; // Character cue repeated with (CONT'D) at the top of the page
+  continuedText?: string; // The part of the continued speech printed under that cue
+}
+
+export interface LayoutOptions {
+  linesPerPage?: number;
+  showSceneNumbers?: boolean;
+  lockedPageBreaks?: LockedPageBreak[]; // Page break map of a locked draft
+}
+
+/**
+ * Get the layout rules for a block type, falling back to action
+ */
+export const getElementLayout = (type: string): ElementLayout => {
+  return ELEMENT_LAYOUT[type] || ELEMENT_LAYOUT.action;
+};
+
+/**
+ * Word-wraps text the way a monospaced typewriter font does
+ * @param text The text to wrap
+ * @param width Maximum number of characters per line
+ * @returns The wrapped lines (always at least one)
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    const words = paragraph.trim().split(/\s+/).filter(word => word.length > 0);
+    let currentLine = '';
+
+    words.forEach((word) => {
+      // Hard-break words that are longer than a full line
+      while (word.length > width) {
+        if (currentLine) {
+          lines.push(currentLine);
+          currentLine = '';
+        }
+        lines.push(word.substring(0, width));
+        word = word.substring(width);
+      }
+
+      if (!currentLine) {
+        currentLine = word;
+      } else if (currentLine.length + 1 + word.length <= width) {
+        currentLine = `${currentLine} ${word}`;
+      } else {
+        lines.push(currentLine);
+        currentLine = word;
+      }
+    });
+
+    lines.push(currentLine);
+  });
+
+  return lines.length > 0 ? lines : [''];
+};
+
+/**
+ * Build the continuation cue for a character, e.g. "SARAH (CONT'D)"
+ */
+export const getContinuedCue = (characterCue: string): string => {
+  const name = characterCue.replace(/\s*\(CONT'D\)\s*/gi, ' ').trim().toUpperCase();
+  return `${name} ${CONTD_MARKER}`;
+};
+
+/**
+ * Split speech into sentences so dialogue only breaks between them
+ * @param text The dialogue text
+ * @returns The sentences, each keeping its closing punctuation
+ */
+export const splitSentences = (text: string): string[] => {
+  return text
+    .trim()
+    .split(/(?<=[.!?…]["'”’)\]]*)\s+/)
+    .filter(sentence => sentence.length > 0);
+};
+
+const createLine = (text: string, type: string, blockId?: string): LayoutLine => {
+  const layout = type === 'more' || type === 'contd'
+    ? ELEMENT_LAYOUT.character
+    : getElementLayout(type);
+  return { text, type, indent: layout.indent, align: layout.align, blockId };
+};
+
+const blankLine = (): LayoutLine => ({ text: '', type: 'blank', indent: 0, align: 'left' });
+
+/**
+ * Whether an element must stay on the same page as the element after it
+ * (no scene heading alone at the bottom of a page, no cue split from its speech)
+ */
+const keepsWithNext = (type: string, nextType: string): boolean => {
+  switch (type) {
+    case 'scene-heading':
+      return nextType !== 'scene-heading';
+    case 'character':
+      return nextType === 'dialogue' || nextType === 'parenthetical';
+    case 'parenthetical':
+      return nextType === 'dialogue';
+    default:
+      return false;
+  }
+};
+
+interface MeasuredBlock {
+  block: Block;
+  layout: ElementLayout;
+  lines: LayoutLine[];
+}
+
+/**
+ * Wrap text into the printed lines of an element
+ */
+const wrapElement = (text: string, type: string, blockId: string): LayoutLine[] => {
+  const layout = getElementLayout(type);
+  const printed = layout.uppercase ? text.toUpperCase() : text;
+  return wrapText(printed, layout.width).map(line => createLine(line, type, blockId));
+};
+
+/**
+ * Wrap a block into its printed lines
+ */
+const measureBlock = (block: Block): MeasuredBlock => {
+  return {
+    block,
+    layout: getElementLayout(block.type),
+    lines: wrapElement(block.content, block.type, block.id)
+  };
+};
+
+/**
+ * Number of printed lines a block occupies, including the blank lines above it
+ * @param block The block to measure
+ * @returns The line count
+ */
+export const getBlockLineCount = (block: Block): number => {
+  const { layout, lines } = measureBlock(block);
+  return layout.spaceBefore + lines.length;
+};
+
+/**
+ * Lays blocks out into screenplay pages
+ * @param blocks The blocks to lay out
+ * @param options Page size and scene number options
+ * @returns The laid out pages, numbered from 1
+ */
+export const layoutScreenplay = (blocks: Block[], options: LayoutOptions = {}): LayoutPage[] => {
+  const linesPerPage = options.linesPerPage ?? LINES_PER_PAGE;
+  const showSceneNumbers = options.showSceneNumbers ?? true;
+  const pages: LayoutPage[] = [];
+  let currentLines: LayoutLine[] = [];
+  let currentCharacter: string | null = null;
+
+  // Locked pages: each locked page starts at its block again, wherever the
+  // text before it ends, and overflow goes onto lettered pages
+  const lockedBreaks = options.lockedPageBreaks || [];
+  const blockIds = new Set(blocks.map(block => block.id));
+  const lockedPageOfBlock = new Map<string, number>();
+  lockedBreaks.forEach((pageBreak, index) => {
+    if (pageBreak.blockId && blockIds.has(pageBreak.blockId)) {
+      lockedPageOfBlock.set(pageBreak.blockId, index);
+    }
+  });
+  const usedLabels = new Set(lockedBreaks.map(pageBreak => pageBreak.label));
+  let lockedIndex = 0;
+  // Label of the page being filled; null for a page the text overflowed onto
+  let currentLabel: string | null = lockedBreaks.length > 0 ? lockedBreaks[0].label : null;
+
+  // Label of a page the text overflowed onto
+  const overflowLabel = (): string => {
+    if (lockedBreaks.length === 0) return String(pages.length + 1);
+
+    // Locked pages whose first block is gone are filled before lettering
+    const next = lockedBreaks[lockedIndex + 1];
+    if (next && !(next.blockId && lockedPageOfBlock.has(next.blockId))) {
+      lockedIndex++;
+      return next.label;
+    }
+
+    const label = getLetteredNumber(pages[pages.length - 1]?.label ?? lockedBreaks[0].label, usedLabels);
+    usedLabels.add(label);
+    return label;
+  };
+
+  const startNewPage = () => {
+    pages.push({ number: pages.length + 1, label: currentLabel ?? overflowLabel(), lines: currentLines });
+    currentLines = [];
+    currentLabel = null;
+  };
+
+  // Locked pages left without any text are printed together with the page before, e.g. "22-23"
+  const closeSkippedPages = (untilIndex: number) => {
+    const lastPage = pages[pages.length - 1];
+    if (lastPage && untilIndex - 1 > lockedIndex) {
+      lastPage.label = `${lastPage.label}-${lockedBreaks[untilIndex - 1].label}`;
+    }
+  };
+
+  const startLockedPage = (index: number) => {
+    if (currentLines.length > 0) startNewPage();
+    closeSkippedPages(index);
+    lockedIndex = index;
+    currentLabel = lockedBreaks[index].label;
+  };
+
+  const remainingLines = () => linesPerPage - currentLines.length;
+
+  // Place lines, spilling onto new pages when an element is taller than a full page
+  const placeLines = (lines: LayoutLine[]) => {
+    lines.forEach((line) => {
+      if (remainingLines() <= 0) startNewPage();
+      currentLines.push(line);
+    });
+  };
+
+  const measured = blocks.map(measureBlock);
+
+  // Smallest number of lines that has to fit on the page together with a block:
+  // its own lines plus whatever of the following elements it must be kept with
+  const minimumLines = (index: number): number => {
+    const { block, lines } = measured[index];
+    if (block.type === 'dialogue') {
+      // Speeches can break after their first sentence, followed by (MORE)
+      const sentences = splitSentences(block.content);
+      return sentences.length > 1
+        ? wrapElement(sentences[0], block.type, block.id).length + 1
+        : lines.length;
+    }
+
+    const next = measured[index + 1];
+    if (next && keepsWithNext(block.type, next.block.type)) {
+      return lines.length + next.layout.spaceBefore + minimumLines(index + 1);
+    }
+    return lines.length;
+  };
+
+  let sceneCount = 0;
+
+  measured.forEach(({ block, layout, lines }, index) => {
+    const lockedPage = lockedPageOfBlock.get(block.id);
+    if (lockedPage !== undefined && lockedPage > lockedIndex) {
+      startLockedPage(lockedPage);
+    }
+
+    if (block.type === 'scene-heading') {
+      sceneCount++;
+      if (showSceneNumbers) {
+        lines[0].sceneNumber = block.sceneNumber || String(sceneCount);
+      }
+    }
+
+    if (block.type === 'character') {
+      currentCharacter = block.content;
+    } else if (block.type !== 'dialogue' && block.type !== 'parenthetical') {
+      currentCharacter = null;
+    }
+
+    // Widow/orphan control: move the block to the next page when the lines it
+    // must be kept with would not fit below it
+    if (currentLines.length > 0 && measured[index + 1] && keepsWithNext(block.type, measured[index + 1].block.type)) {
+      const required = minimumLines(index);
+      if (layout.spaceBefore + required > remainingLines() && required <= linesPerPage) {
+        startNewPage();
+      }
+    }
+
+    // Blank lines above an element are dropped at the top of a page
+    const spaceBefore = currentLines.length === 0 ? 0 : layout.spaceBefore;
+
+    if (spaceBefore + lines.length <= remainingLines()) {
+      for (let i = 0; i < spaceBefore; i++) currentLines.push(blankLine());
+      currentLines.push(...lines);
+      return;
+    }
+
+    // Split long dialogue at a sentence boundary, ending the page with (MORE)
+    // and repeating the cue with (CONT'D) at the top of the next one
+    if (block.type === 'dialogue' && currentCharacter) {
+      let sentences = splitSentences(block.content);
+      let remaining = lines;
+      let gap = spaceBefore;
+
+      while (gap + remaining.length > remainingLines()) {
+        let fitting = 0;
+        for (let count = sentences.length - 1; count > 0; count--) {
+          const head = wrapElement(sentences.slice(0, count).join(' '), block.type, block.id);
+          if (gap + head.length + 1 <= remainingLines()) {
+            fitting = count;
+            break;
+          }
+        }
+        if (fitting === 0) break;
+
+        for (let i = 0; i < gap; i++) currentLines.push(blankLine());
+        currentLines.push(...wrapElement(sentences.slice(0, fitting).join(' '), block.type, block.id));
+        currentLines.push(createLine(MORE_MARKER, 'more', block.id));
+        startNewPage();
+        currentLines.push(createLine(getContinuedCue(currentCharacter), 'contd', block.id));
+
+        sentences = sentences.slice(fitting);
+        remaining = wrapElement(sentences.join(' '), block.type, block.id);
+        gap = 0;
+      }
+
+      // Nothing could be split off, so the whole speech moves to the next page
+      if (remaining === lines && currentLines.length > 0) {
+        startNewPage();
+        gap = 0;
+      }
+
+      for (let i = 0; i < gap; i++) currentLines.push(blankLine());
+      placeLines(remaining);
+      return;
+    }
+
+    if (currentLines.length > 0) startNewPage();
+    placeLines(lines);
+  });
+
+  if (currentLines.length > 0 || pages.length === 0) {
+    startNewPage();
+  }
+  closeSkippedPages(lockedBreaks.length);
+
+  return pages;
+};
+
+/**
+ * Records where each page starts, so the pages can be locked
+ * @param pages The laid out pages of the draft being locked
+ * @returns The page break map: each page's label and the block starting it
+ */
+export const getPageBreakMap = (pages: LayoutPage[]): LockedPageBreak[] => {
+  const seenBlockIds = new Set<string>();
+
+  return pages.map((page) => {
+    const firstBlockId = page.lines.find(line => line.blockId)?.blockId;
+    const startsBlock = !!firstBlockId && !seenBlockIds.has(firstBlockId);
+    page.lines.forEach((line) => {
+      if (line.blockId) seenBlockIds.add(line.blockId);
+    });
+    return { label: page.label, blockId: startsBlock ? firstBlockId as string : null };
+  });
+};
+
+/**
+ * Assigns each block to the printed page its first line falls on
+ * @param blocks The blocks to paginate
+ * @param options Page size options
+ * @returns Pages holding the blocks that start on them; pages that only hold
+ * the continuation of a longer block are left out but keep their numbering,
+ * except pages continuing a speech, which print its (CONT'D) part
+ */
+export const paginateBlocks = (blocks: Block[], options: LayoutOptions = {}): PaginatedPage[] => {
+  const layoutPages = layoutScreenplay(blocks, options);
+  const firstPageOfBlock = new Map<string, number>();
+  layoutPages.forEach((page) => {
+    page.lines.forEach((line) => {
+      if (line.blockId && !firstPageOfBlock.has(line.blockId)) {
+        firstPageOfBlock.set(line.blockId, page.number);
+      }
+    });
+  });
+
+  const pages: PaginatedPage[] = [];
+  blocks.forEach((block) => {
+    const pageNumber = firstPageOfBlock.get(block.id) ?? pages[pages.length - 1]?.number ?? 1;
+    const lastPage = pages[pages.length - 1];
+    if (lastPage && lastPage.number === pageNumber) {
+      lastPage.blocks.push(block);
+    } else {
+      pages.push({ number: pageNumber, label: layoutPages[pageNumber - 1]?.label ?? String(pageNumber), blocks: [block] });
+    }
+  });
+
+  layoutPages.forEach((layoutPage) => {
+    if (layoutPage.lines[0]?.type === 'contd' && !pages.some(page => page.number === layoutPage.number)) {
+      pages.push({ number: layoutPage.number, label: layoutPage.label, blocks: [] });
+    }
+  });
+  pages.sort((a, b) => a.number - b.number);
+
+  // Text of a speech's lines on a page, as far as it is printed there
+  const speechText = (lines: LayoutLine[], blockId?: string): string => lines
+    .filter(line => line.type === 'dialogue' && line.blockId === blockId)
+    .map(line => line.text)
+    .join(' ');
+
+  // Carry the continuation markers and the split speech over so the editor
+  // shows the same breaks as the print
+  pages.forEach((page) => {
+    const lines = layoutPages[page.number - 1]?.lines || [];
+    const moreLine = lines.find(line => line.type === 'more');
+    if (moreLine) {
+      page.moreBlockId = moreLine.blockId;
+      page.moreText = speechText(lines, moreLine.blockId);
+    }
+    if (lines[0]?.type === 'contd') {
+      page.continuedCue = lines[0].text;
+      page.continuedText = speechText(lines, lines[0].blockId);
+    }
+  });
+
+  return pages;
+};
+
+/**
+ * Lays out a title page from the screenplay header content
+ * @param titlePage The header fields (title, author, contact)
+ * @returns The title page lines, or null if there is nothing to print
+ */
+export const layoutTitlePage = (
+  titlePage: Partial<TitlePage>,
+  linesPerPage: number = LINES_PER_PAGE
+): LayoutLine[] | null => {
+  if (!titlePage.title && !titlePage.author && !titlePage.contact) {
+    return null;
+  }
+
+  const centerIndent = (text: string) => (PAGE_WIDTH_INCHES - text.length / CHARS_PER_INCH) / 2;
+  const centered = (text: string): LayoutLine => ({
+    text,
+    type: 'title',
+    indent: centerIndent(text),
+    align: 'left'
+  });
+
+  const lines: LayoutLine[] = [];
+  const titleStart = Math.floor(linesPerPage / 3);
+  while (lines.length < titleStart) lines.push(blankLine());
+
+  if (titlePage.title) {
+    wrapText(titlePage.title.toUpperCase(), 50).forEach(line => lines.push(centered(line)));
+  }
+
+  if (titlePage.author) {
+    lines.push(blankLine(), blankLine(), centered('Written by'), blankLine());
+    wrapText(titlePage.author, 50).forEach(line => lines.push(centered(line)));
+  }
+
+  if (titlePage.contact) {
+    const contactLines = titlePage.contact.split('\n').map(line => line.trim()).filter(Boolean);
+    const contactStart = linesPerPage - contactLines.length;
+    while (lines.length < contactStart) lines.push(blankLine());
+    contactLines.forEach(line => lines.push({
+      text: line,
+      type: 'contact',
+      indent: ELEMENT_LAYOUT.action.indent,
+      align: 'left'
+    }));
+  }
+
+  return lines;
+};
@@ -0,0 +1,63 @@
+/**
+ * Screenplay Plain Text Export
+ *
+ * Renders the pages produced by the layout engine as monospaced text, with
+ * indents expressed as spaces from the left margin and a form feed between
+ * pages, so page breaks and (MORE)/(CONT'D) markers match the PDF.
+ */
+
+import type { Block } from '../types';
+import type { TitlePage } from '../types/screenplay';
+import {
+  layoutScreenplay,
+  layoutTitlePage,
+  CHARS_PER_INCH,
+  ELEMENT_LAYOUT,
+  type LayoutLine,
+  type LayoutOptions
+} from './screenplayLayout';
+
+const LEFT_MARGIN_INCHES = ELEMENT_LAYOUT.action.indent;
+const LINE_WIDTH = ELEMENT_LAYOUT.action.width;
+
+/**
+ * Render one laid out line with leading spaces for its indent
+ */
+const renderLine = (line: LayoutLine): string => {
+  if (!line.text) return '';
+
+  const column = Math.round((line.indent - LEFT_MARGIN_INCHES) * CHARS_PER_INCH);
+  const start = line.align === 'right' ? column - line.text.length : column;
+  return `${' '.repeat(Math.max(0, start))}${line.text}`;
+};
+
+/**
+ * Renders the screenplay as paginated plain text
+ * @param blocks The blocks to render
+ * @param titlePage Optional title page fields from the screenplay header
+ * @param options Layout options, e.g. the page break map of locked pages
+ * @returns The text document, pages separated by form feeds
+ */
+export const createScreenplayText = (
+  blocks: Block[],
+  titlePage: Partial<TitlePage> = {},
+  options: LayoutOptions = {}
+): string => {
+  const pages: string[] = [];
+
+  const titleLines = layoutTitlePage(titlePage);
+  if (titleLines) {
+    pages.push(titleLines.map(renderLine).join('\n'));
+  }
+
+  layoutScreenplay(blocks, { ...options, showSceneNumbers: false }).forEach((page) => {
+    const lines = page.lines.map(renderLine);
+    // Page numbers are printed from page 2 onwards, as is standard
+    if (page.number > 1) {
+      lines.unshift(`${page.label}.`.padStart(LINE_WIDTH), '');
+    }
+    pages.push(lines.join('\n'));
+  });
+
+  return `${pages.join('\n\f')}\n`;
+};